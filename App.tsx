@@ -1,14 +1,17 @@
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import AppNavigator from './src/navigation';
+import LanguageProvider from './src/components/LanguageProvider';
 import MarketPricesScreen from './src/screens/MarketPricesScreen';
 import BidDetailsScreen from './src/screens/BidDetailsScreen';
 
 export default function App() {
   return (
     <SafeAreaProvider>
-      <StatusBar style="auto" />
-      <AppNavigator />
+      <LanguageProvider>
+        <StatusBar style="auto" />
+        <AppNavigator />
+      </LanguageProvider>
     </SafeAreaProvider>
   );
 }
@@ -3,10 +3,12 @@ import { View, Text, StyleSheet } from 'react-native';
 import { onAuthStateChanged } from 'firebase/auth';
 import { auth } from '../utilities/firebaseConfig';
 import { colors, fontSizes } from '../theme';
+import { useTranslation } from '../hooks/useTranslation';
 
 const AuthStatus = () => {
   const [user, setUser] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const { t } = useTranslation();
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
@@ -21,7 +23,7 @@ const AuthStatus = () => {
   if (loading) {
     return (
       <View style={styles.container}>
-        <Text style={styles.text}>Checking authentication status...</Text>
+        <Text style={styles.text}>{t('auth.checkingStatus')}</Text>
       </View>
     );
   }
@@ -30,11 +32,11 @@ const AuthStatus = () => {
     <View style={styles.container}>
       {user ? (
         <Text style={styles.text}>
-          Logged in as: {user.email}
+          {t('auth.loggedInAs', { email: user.email })}
         </Text>
       ) : (
         <Text style={styles.text}>
-          Not logged in
+          {t('auth.notLoggedIn')}
         </Text>
       )}
     </View>
@@ -0,0 +1,212 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, fontSizes, spacing, borderRadius } from '../theme';
+import { MachineBooking } from '../types';
+import { getCalendarDays, getDayAvailability, isSameDay, startOfDay } from '../utilities/bookingUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+
+interface BookingCalendarProps {
+  month: Date;
+  onMonthChange: (month: Date) => void;
+  bookings: MachineBooking[];
+  selectedStart: Date | null;
+  selectedEnd: Date | null;
+  onSelectDay: (day: Date) => void;
+}
+
+const WEEKDAYS = ['su', 'mo', 'tu', 'we', 'th', 'fr', 'sa'];
+
+// Month view of a machine's availability; days before today cannot be picked
+const BookingCalendar: React.FC<BookingCalendarProps> = ({
+  month,
+  onMonthChange,
+  bookings,
+  selectedStart,
+  selectedEnd,
+  onSelectDay,
+}) => {
+  const { t } = useTranslation();
+  const { formatDate } = useFormat();
+  const today = startOfDay(new Date());
+  const isCurrentMonth = month.getFullYear() === today.getFullYear() && month.getMonth() === today.getMonth();
+
+  const isSelected = (day: Date) => {
+    if (!selectedStart) return false;
+    if (!selectedEnd) return isSameDay(day, selectedStart);
+    return day >= startOfDay(selectedStart) && day <= startOfDay(selectedEnd);
+  };
+
+  const changeMonth = (offset: number) => {
+    onMonthChange(new Date(month.getFullYear(), month.getMonth() + offset, 1));
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.monthHeader}>
+        <TouchableOpacity
+          style={styles.monthButton}
+          onPress={() => changeMonth(-1)}
+          disabled={isCurrentMonth}
+        >
+          <Ionicons name="chevron-back" size={20} color={isCurrentMonth ? colors.gray : colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.monthTitle}>
+          {formatDate(month, 'monthYear')}
+        </Text>
+        <TouchableOpacity style={styles.monthButton} onPress={() => changeMonth(1)}>
+          <Ionicons name="chevron-forward" size={20} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.grid}>
+        {WEEKDAYS.map(weekday => (
+          <View key={weekday} style={styles.cell}>
+            <Text style={styles.weekdayText}>{t(`calendar.weekdays.${weekday}`)}</Text>
+          </View>
+        ))}
+        {getCalendarDays(month).map((day, index) => {
+          if (!day) {
+            return <View key={`blank-${index}`} style={styles.cell} />;
+          }
+
+          const past = day < today;
+          const availability = getDayAvailability(day, bookings);
+          const selected = isSelected(day);
+
+          return (
+            <TouchableOpacity
+              key={day.toISOString()}
+              style={styles.cell}
+              onPress={() => onSelectDay(day)}
+              disabled={past}
+            >
+              <View
+                style={[
+                  styles.day,
+                  availability === 'booked' && styles.bookedDay,
+                  availability === 'pending' && styles.pendingDay,
+                  selected && styles.selectedDay,
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.dayText,
+                    past && styles.pastDayText,
+                    (selected || availability === 'booked') && styles.highlightedDayText,
+                  ]}
+                >
+                  {day.getDate()}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.legend}>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.bookedDay]} />
+          <Text style={styles.legendText}>{t('calendar.booked')}</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.pendingDay]} />
+          <Text style={styles.legendText}>{t('calendar.requested')}</Text>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.selectedDay]} />
+          <Text style={styles.legendText}>{t('calendar.yourSelection')}</Text>
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.sm,
+  },
+  monthButton: {
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  monthTitle: {
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  weekdayText: {
+    fontSize: fontSizes.xs,
+    color: colors.lightText,
+    fontWeight: '600',
+  },
+  day: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  bookedDay: {
+    backgroundColor: colors.error,
+  },
+  pendingDay: {
+    backgroundColor: colors.accent,
+  },
+  selectedDay: {
+    backgroundColor: colors.primary,
+  },
+  dayText: {
+    fontSize: fontSizes.sm,
+    color: colors.text,
+  },
+  pastDayText: {
+    color: colors.gray,
+  },
+  highlightedDayText: {
+    color: colors.white,
+    fontWeight: 'bold',
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginTop: spacing.sm,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: spacing.xs,
+  },
+  legendText: {
+    fontSize: fontSizes.xs,
+    color: colors.lightText,
+  },
+});
+
+export default BookingCalendar;
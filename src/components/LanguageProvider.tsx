@@ -0,0 +1,47 @@
+import React, { createContext, useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  DEFAULT_LOCALE,
+  Locale,
+  TranslationParams,
+  getSavedLocale,
+  saveLocale,
+  translate,
+} from '../utilities/i18n';
+
+export interface LanguageContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => Promise<void>;
+  t: (key: string, params?: TranslationParams) => string;
+}
+
+export const LanguageContext = createContext<LanguageContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: async () => undefined,
+  t: (key, params) => translate(DEFAULT_LOCALE, key, params),
+});
+
+// Holds the app language so every screen re-renders in the new language as soon as it changes
+const LanguageProvider = ({ children }: { children: React.ReactNode }) => {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    getSavedLocale().then(savedLocale => {
+      if (savedLocale) setLocaleState(savedLocale);
+    });
+  }, []);
+
+  const setLocale = useCallback(async (newLocale: Locale) => {
+    setLocaleState(newLocale);
+    await saveLocale(newLocale);
+  }, []);
+
+  const value = useMemo<LanguageContextValue>(() => ({
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+  }), [locale, setLocale]);
+
+  return <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>;
+};
+
+export default LanguageProvider;
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { onAuthStateChanged } from 'firebase/auth';
+import { Ionicons } from '@expo/vector-icons';
+import { RootStackParamList } from '../types';
+import { colors, fontSizes } from '../theme';
+import { auth } from '../utilities/firebaseConfig';
+import { subscribeToUnreadCount } from '../utilities/firestoreUtils';
+
+interface NotificationBellProps {
+  color?: string;
+}
+
+// Opens the notification inbox, with a badge counting unread notifications
+const NotificationBell: React.FC<NotificationBellProps> = ({ color = colors.white }) => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    let unsubscribeCount: (() => void) | null = null;
+
+    const unsubscribeAuth = onAuthStateChanged(auth, (currentUser) => {
+      unsubscribeCount?.();
+      unsubscribeCount = null;
+      setUnreadCount(0);
+
+      if (currentUser?.email) {
+        unsubscribeCount = subscribeToUnreadCount(currentUser.email, setUnreadCount);
+      }
+    });
+
+    return () => {
+      unsubscribeAuth();
+      unsubscribeCount?.();
+    };
+  }, []);
+
+  return (
+    <TouchableOpacity style={styles.button} onPress={() => navigation.navigate('Notifications')}>
+      <Ionicons name="notifications-outline" size={24} color={color} />
+      {unreadCount > 0 && (
+        <View style={styles.badge}>
+          <Text style={styles.badgeText}>{unreadCount > 99 ? '99+' : unreadCount}</Text>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    padding: 5,
+    position: 'relative',
+  },
+  badge: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+    minWidth: 18,
+    height: 18,
+    paddingHorizontal: 3,
+    borderRadius: 9,
+    backgroundColor: colors.error,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.white,
+  },
+  badgeText: {
+    color: colors.white,
+    fontSize: fontSizes.xs,
+    fontWeight: 'bold',
+  },
+});
+
+export default NotificationBell;
@@ -0,0 +1,79 @@
+import { useEffect } from 'react';
+import { Alert } from 'react-native';
+import { onAuthStateChanged } from 'firebase/auth';
+import { auth } from '../utilities/firebaseConfig';
+import {
+  saveMissingNotificationPreferences,
+  subscribeToNotifications,
+  markNotificationRead,
+} from '../utilities/firestoreUtils';
+import { getNotificationPreferences } from '../utilities/settingsUtils';
+import { getNotificationText, isNotificationEnabled } from '../utilities/notificationUtils';
+import { AppNotification } from '../types';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+
+interface NotificationListenerProps {
+  onOpen: (notification: AppNotification) => void;
+}
+
+// Shows new notifications for the signed-in user as alerts while the app is open; all of them stay in the inbox
+const NotificationListener = ({ onOpen }: NotificationListenerProps) => {
+  const { t } = useTranslation();
+  const { formatCurrency, formatDate } = useFormat();
+  useEffect(() => {
+    let unsubscribeNotifications: (() => void) | null = null;
+
+    const showNotification = async (notification: AppNotification) => {
+      // The sender already checked the saved preferences; this device's own toggles have the final say
+      const preferences = await getNotificationPreferences();
+      if (!isNotificationEnabled(preferences, notification.type)) return;
+
+      const hasLink = !!(notification.orderId || notification.bidId || notification.productId || notification.bookingId);
+      const { title, body } = getNotificationText(notification, { t, formatCurrency, formatDate });
+      Alert.alert(
+        title,
+        body,
+        hasLink
+          ? [
+              { text: t('common.dismiss'), style: 'cancel' },
+              {
+                text: t('common.view'),
+                onPress: () => {
+                  markNotificationRead(notification.id).catch(() => undefined);
+                  onOpen(notification);
+                },
+              },
+            ]
+          : undefined
+      );
+    };
+
+    const unsubscribeAuth = onAuthStateChanged(auth, async (currentUser) => {
+      unsubscribeNotifications?.();
+      unsubscribeNotifications = null;
+
+      const email = currentUser?.email;
+      if (!email) return;
+
+      // Toggles changed before preferences were saved to the account only exist on this device.
+      // Accounts that already have preferences keep them; SettingsScreen saves each change.
+      try {
+        await saveMissingNotificationPreferences(email, await getNotificationPreferences());
+      } catch (error) {
+        console.error('Error syncing notification preferences:', error);
+      }
+
+      unsubscribeNotifications = subscribeToNotifications(email, new Date(), showNotification);
+    });
+
+    return () => {
+      unsubscribeAuth();
+      unsubscribeNotifications?.();
+    };
+  }, [onOpen, t, formatCurrency, formatDate]);
+
+  return null;
+};
+
+export default NotificationListener;
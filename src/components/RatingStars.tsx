@@ -0,0 +1,46 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, fontSizes } from '../theme';
+import { MAX_RATING } from '../utilities/reviewUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+
+interface RatingStarsProps {
+  rating: number;
+  reviewCount?: number; // Shown after the stars when given
+  size?: number;
+}
+
+const RatingStars: React.FC<RatingStarsProps> = ({ rating, reviewCount, size = 14 }) => {
+  const { t } = useTranslation();
+  const { formatNumber } = useFormat();
+
+  return (
+    <View style={styles.container}>
+      {Array.from({ length: MAX_RATING }, (_, i) => {
+        const name = rating >= i + 1 ? 'star' : rating >= i + 0.5 ? 'star-half' : 'star-outline';
+        return <Ionicons key={i} name={name} size={size} color={colors.accent} />;
+      })}
+      {reviewCount !== undefined && (
+        <Text style={styles.countText}>
+          {reviewCount > 0 ? `${formatNumber(rating, 1)} (${formatNumber(reviewCount)})` : t('reviews.noReviews')}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  countText: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+    marginLeft: 4,
+  },
+});
+
+export default RatingStars;
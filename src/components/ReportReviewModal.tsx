@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, fontSizes, spacing, borderRadius } from '../theme';
+import { ReviewReportReason } from '../types';
+import { auth } from '../utilities/firebaseConfig';
+import { reportReview } from '../utilities/firestoreUtils';
+import { REVIEW_REPORT_REASONS } from '../utilities/reviewUtils';
+import Button from './Button';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ReportReviewModalProps {
+  reviewId: string | null; // The modal is shown while a review is selected
+  onClose: () => void;
+}
+
+const ReportReviewModal: React.FC<ReportReviewModalProps> = ({ reviewId, onClose }) => {
+  const [reason, setReason] = useState<ReviewReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { t } = useTranslation();
+
+  const handleClose = () => {
+    setReason(null);
+    setDetails('');
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      Alert.alert(t('reviews.loginRequired'), t('reviews.loginToReport'));
+      return;
+    }
+    if (!reviewId || !reason) {
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await reportReview({ reviewId, reporterId: currentUser.uid, reason, details });
+      Alert.alert(t('reviews.thankYou'), t('reviews.reportReceived'));
+      handleClose();
+    } catch (error) {
+      Alert.alert(t('common.error'), error instanceof Error ? error.message : t('reviews.reportFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={!!reviewId} transparent={true} animationType="slide" onRequestClose={handleClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{t('reviews.reportTitle')}</Text>
+            <TouchableOpacity onPress={handleClose}>
+              <Ionicons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          {REVIEW_REPORT_REASONS.map(key => (
+            <TouchableOpacity key={key} style={styles.reasonRow} onPress={() => setReason(key)}>
+              <Ionicons
+                name={reason === key ? 'radio-button-on' : 'radio-button-off'}
+                size={20}
+                color={colors.primary}
+              />
+              <Text style={styles.reasonText}>{t(`reviews.reportReasons.${key}`)}</Text>
+            </TouchableOpacity>
+          ))}
+
+          <TextInput
+            style={styles.input}
+            value={details}
+            onChangeText={setDetails}
+            placeholder={t('reviews.reportPlaceholder')}
+            placeholderTextColor={colors.lightText}
+            multiline
+            maxLength={300}
+            textAlignVertical="top"
+          />
+
+          <Button
+            title={t('reviews.report')}
+            onPress={handleSubmit}
+            type="primary"
+            disabled={submitting || !reason}
+            style={styles.submitButton}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    width: '90%',
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.lg,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  modalTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
+  reasonText: {
+    fontSize: fontSizes.md,
+    color: colors.text,
+    marginLeft: spacing.sm,
+  },
+  input: {
+    minHeight: 70,
+    backgroundColor: colors.lightGray,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    marginTop: spacing.sm,
+    fontSize: fontSizes.md,
+    color: colors.text,
+  },
+  submitButton: {
+    marginTop: spacing.md,
+  },
+});
+
+export default ReportReviewModal;
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, fontSizes, spacing, borderRadius } from '../theme';
+import { ReviewTargetType } from '../types';
+import { auth } from '../utilities/firebaseConfig';
+import { addReview } from '../utilities/firestoreUtils';
+import {
+  MAX_RATING,
+  MAX_REVIEW_LENGTH,
+  REVIEW_MESSAGE_PARAMS,
+  ReviewNotAllowedError,
+  validateReview,
+} from '../utilities/reviewUtils';
+import Button from './Button';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ReviewFormModalProps {
+  visible: boolean;
+  targetType: ReviewTargetType;
+  targetId: string;
+  targetName: string;
+  onClose: () => void;
+  onSubmitted: () => void;
+}
+
+const ReviewFormModal: React.FC<ReviewFormModalProps> = ({
+  visible,
+  targetType,
+  targetId,
+  targetName,
+  onClose,
+  onSubmitted,
+}) => {
+  const [rating, setRating] = useState(0);
+  const [text, setText] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { t } = useTranslation();
+
+  const handleSubmit = async () => {
+    const currentUser = auth.currentUser;
+    if (!currentUser?.email) {
+      Alert.alert(t('reviews.loginRequired'), t('reviews.loginToReview'));
+      return;
+    }
+
+    const validationError = validateReview(rating, text);
+    if (validationError) {
+      Alert.alert(t('reviews.invalidReview'), t(validationError, REVIEW_MESSAGE_PARAMS));
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const status = await addReview({
+        targetType,
+        targetId,
+        userId: currentUser.uid,
+        userName: currentUser.displayName || currentUser.email.split('@')[0],
+        userEmail: currentUser.email,
+        rating,
+        text,
+      });
+      setRating(0);
+      setText('');
+      // Reviews are published by the review job, so even a clean one takes a moment to appear
+      Alert.alert(
+        t('reviews.submitted'),
+        status === 'pending' ? t('reviews.heldForModeration') : t('reviews.publishingSoon')
+      );
+      onSubmitted();
+    } catch (error) {
+      if (error instanceof ReviewNotAllowedError) {
+        Alert.alert(t('reviews.notYet'), t(`reviews.notAllowed.${error.targetType}`));
+      } else {
+        Alert.alert(t('common.error'), t('reviews.postFailed'));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle} numberOfLines={1}>{t('reviews.formTitle', { name: targetName })}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.starsRow}>
+            {Array.from({ length: MAX_RATING }, (_, i) => (
+              <TouchableOpacity key={i} onPress={() => setRating(i + 1)}>
+                <Ionicons
+                  name={i < rating ? 'star' : 'star-outline'}
+                  size={36}
+                  color={colors.accent}
+                  style={styles.star}
+                />
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <TextInput
+            style={styles.input}
+            value={text}
+            onChangeText={setText}
+            placeholder={t('reviews.placeholder')}
+            placeholderTextColor={colors.lightText}
+            multiline
+            maxLength={MAX_REVIEW_LENGTH}
+            textAlignVertical="top"
+          />
+
+          <Button
+            title={t('reviews.post')}
+            onPress={handleSubmit}
+            type="primary"
+            disabled={submitting || rating === 0}
+            style={styles.submitButton}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    width: '90%',
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.lg,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginRight: spacing.sm,
+  },
+  starsRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: spacing.md,
+  },
+  star: {
+    marginHorizontal: spacing.xs,
+  },
+  input: {
+    minHeight: 100,
+    backgroundColor: colors.lightGray,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    fontSize: fontSizes.md,
+    color: colors.text,
+  },
+  submitButton: {
+    marginTop: spacing.md,
+  },
+});
+
+export default ReviewFormModal;
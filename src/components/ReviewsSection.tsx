@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, StyleProp, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
+import { Review, ReviewTargetType } from '../types';
+import { auth } from '../utilities/firebaseConfig';
+import { getReviews } from '../utilities/firestoreUtils';
+import RatingStars from './RatingStars';
+import ReviewFormModal from './ReviewFormModal';
+import ReportReviewModal from './ReportReviewModal';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+
+interface ReviewsSectionProps {
+  targetType: ReviewTargetType;
+  targetId: string;
+  targetName: string;
+  rating: number;
+  reviewCount: number;
+  onReviewAdded?: () => void; // So the screen can reload the updated average
+  style?: StyleProp<ViewStyle>;
+}
+
+// Average rating, the reviews themselves and a way for buyers or renters to add theirs
+const ReviewsSection: React.FC<ReviewsSectionProps> = ({
+  targetType,
+  targetId,
+  targetName,
+  rating,
+  reviewCount,
+  onReviewAdded,
+  style,
+}) => {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const { t } = useTranslation();
+  const { formatDate } = useFormat();
+
+  const loadReviews = async () => {
+    try {
+      setLoading(true);
+      setReviews(await getReviews(targetType, targetId));
+    } catch (error) {
+      setReviews([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReviews();
+  }, [targetType, targetId]);
+
+  const handleSubmitted = () => {
+    setShowForm(false);
+    loadReviews();
+    onReviewAdded?.();
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={styles.header}>
+        <View>
+          <Text style={styles.title}>{t('reviews.title')}</Text>
+          <RatingStars rating={rating} reviewCount={reviewCount} size={16} />
+        </View>
+        {auth.currentUser && (
+          <TouchableOpacity style={styles.writeButton} onPress={() => setShowForm(true)}>
+            <Ionicons name="create-outline" size={16} color={colors.primary} />
+            <Text style={styles.writeButtonText}>{t('reviews.write')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {loading ? (
+        <ActivityIndicator size="small" color={colors.primary} style={styles.loading} />
+      ) : (
+        reviews.map(review => (
+          <View key={review.id} style={styles.reviewItem}>
+            <View style={styles.reviewHeader}>
+              <Text style={styles.reviewUser}>{review.userName}</Text>
+              <Text style={styles.reviewDate}>{formatDate(review.date, 'medium')}</Text>
+            </View>
+            <RatingStars rating={review.rating} size={12} />
+            {!!review.text && <Text style={styles.reviewText}>{review.text}</Text>}
+            {review.reply && (
+              <View style={styles.replyContainer}>
+                <Text style={styles.replyLabel}>{t('reviews.replyFromSeller')}</Text>
+                <Text style={styles.reviewText}>{review.reply.text}</Text>
+              </View>
+            )}
+            {auth.currentUser && auth.currentUser.uid !== review.userId && (
+              <TouchableOpacity style={styles.reportButton} onPress={() => setReportingId(review.id)}>
+                <Ionicons name="flag-outline" size={12} color={colors.lightText} />
+                <Text style={styles.reportButtonText}>{t('reviews.report')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))
+      )}
+
+      <ReviewFormModal
+        visible={showForm}
+        targetType={targetType}
+        targetId={targetId}
+        targetName={targetName}
+        onClose={() => setShowForm(false)}
+        onSubmitted={handleSubmitted}
+      />
+
+      <ReportReviewModal reviewId={reportingId} onClose={() => setReportingId(null)} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    ...shadows.small,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: spacing.sm,
+  },
+  title: {
+    fontSize: fontSizes.md,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: spacing.xs,
+  },
+  writeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  writeButtonText: {
+    color: colors.primary,
+    fontSize: fontSizes.sm,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  loading: {
+    marginVertical: spacing.md,
+  },
+  reviewItem: {
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  reviewUser: {
+    fontSize: fontSizes.sm,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  reviewDate: {
+    fontSize: fontSizes.xs,
+    color: colors.lightText,
+  },
+  reviewText: {
+    fontSize: fontSizes.sm,
+    color: colors.text,
+    marginTop: spacing.xs,
+  },
+  replyContainer: {
+    marginTop: spacing.sm,
+    marginLeft: spacing.md,
+    paddingLeft: spacing.sm,
+    borderLeftWidth: 2,
+    borderLeftColor: colors.primary,
+  },
+  replyLabel: {
+    fontSize: fontSizes.xs,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  reportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    marginTop: spacing.xs,
+  },
+  reportButtonText: {
+    fontSize: fontSizes.xs,
+    color: colors.lightText,
+    marginLeft: 2,
+  },
+});
+
+export default ReviewsSection;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, fontSizes, spacing, borderRadius } from '../theme';
+import { UserRole } from '../types';
+import { SELECTABLE_ROLES } from '../utilities/roleUtils';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface RoleSelectorProps {
+  selectedRoles: UserRole[];
+  onChange: (roles: UserRole[]) => void;
+}
+
+// Lets a user pick every role that describes how they use the marketplace
+const RoleSelector: React.FC<RoleSelectorProps> = ({ selectedRoles, onChange }) => {
+  const { t } = useTranslation();
+
+  const toggleRole = (role: UserRole) => {
+    onChange(selectedRoles.includes(role)
+      ? selectedRoles.filter(selected => selected !== role)
+      : [...selectedRoles, role]);
+  };
+
+  return (
+    <View>
+      {SELECTABLE_ROLES.map(role => {
+        const selected = selectedRoles.includes(role);
+        return (
+          <TouchableOpacity
+            key={role}
+            style={[styles.roleOption, selected && styles.roleOptionSelected]}
+            onPress={() => toggleRole(role)}
+          >
+            <Ionicons
+              name={selected ? 'checkbox' : 'square-outline'}
+              size={22}
+              color={selected ? colors.primary : colors.lightText}
+            />
+            <View style={styles.roleInfo}>
+              <Text style={styles.roleLabel}>{t(`roles.${role}.label`)}</Text>
+              <Text style={styles.roleDescription}>{t(`roles.${role}.description`)}</Text>
+            </View>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  roleOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.sm,
+    marginBottom: spacing.xs,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.lightGray,
+    backgroundColor: colors.white,
+  },
+  roleOptionSelected: {
+    borderColor: colors.primary,
+  },
+  roleInfo: {
+    flex: 1,
+    marginLeft: spacing.sm,
+  },
+  roleLabel: {
+    fontSize: fontSizes.md,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  roleDescription: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+  },
+});
+
+export default RoleSelector;
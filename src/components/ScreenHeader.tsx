@@ -3,11 +3,13 @@ import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native
 import { useNavigation } from '@react-navigation/native';
 import { colors, fontSizes, spacing } from '../theme';
 import { Ionicons } from '@expo/vector-icons';
+import NotificationBell from './NotificationBell';
 
 interface ScreenHeaderProps {
   title: string;
   showBackButton?: boolean;
-  rightComponent?: React.ReactNode;
+  rightComponent?: React.ReactNode; // Replaces the notification bell
+  showNotifications?: boolean;
   onBackPress?: () => void;
   backgroundColor?: string;
   titleColor?: string;
@@ -17,6 +19,7 @@ const ScreenHeader: React.FC<ScreenHeaderProps> = ({
   title,
   showBackButton = false,
   rightComponent,
+  showNotifications = true,
   onBackPress,
   backgroundColor = colors.primary,
   titleColor = colors.white,
@@ -52,7 +55,7 @@ const ScreenHeader: React.FC<ScreenHeaderProps> = ({
       <Text style={[styles.title, { color: titleColor }]}>{title}</Text>
       
       <View style={styles.rightContainer}>
-        {rightComponent}
+        {rightComponent ?? (showNotifications && <NotificationBell color={titleColor} />)}
       </View>
     </View>
   );
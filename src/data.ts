@@ -1,4 +1,4 @@
-import { Product, Category, Weather, Article, MarketPrice, User, Order, Review } from './types';
+import { Product, Category, Weather, Article, MarketPrice, User, Order, Review, DeliveryWindow, DeliveryZone, PaymentMethod, ReturnReason, LocalizedText, PestRecord } from './types';
 
 // Updated common image URL with higher quality agriculture image
 const DEFAULT_IMAGE = 'https://images.unsplash.com/photo-1523741543316-beb7fc7023d8?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=500&q=80';
@@ -212,6 +212,238 @@ export const ARTICLES: Article[] = [
   },
 ];
 
+// Crop names used by the pest and disease guide
+const CROPS: Record<string, LocalizedText> = {
+  rice: { en: 'Rice', si: 'වී', ta: 'நெல்' },
+  paddy: { en: 'Paddy', si: 'කුඹුරු', ta: 'நெல் வயல்' },
+  coconut: { en: 'Coconut', si: 'පොල්', ta: 'தென்னை' },
+  corn: { en: 'Corn', si: 'බඩ ඉරිඟු', ta: 'சோளம்' },
+  sugarcane: { en: 'Sugarcane', si: 'උක්', ta: 'கரும்பு' },
+};
+
+// Pests shown in the pest and disease guide
+export const PESTS: PestRecord[] = [
+  {
+    id: '1',
+    name: {
+      en: 'Thrips',
+      si: 'ත්‍රිප්ස්',
+      ta: 'இலைப்பேன்',
+    },
+    image: 'https://images.unsplash.com/photo-1715521565306-839484f887a6?q=80&w=1075&auto=format&fit=crop&ixlib=rb-4.1.0&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D',
+    crops: [CROPS.rice],
+    description: {
+      en: 'Thrips are tiny, slender insects with fringed wings. They feed by puncturing the outer layer of plant tissue and sucking out the cell contents, causing discolored flecking on leaves and flowers.',
+      si: 'ත්‍රිප්ස් යනු ඉරි සහිත පියාපත් ඇති ඉතා කුඩා, සිහින් කෘමීන් ය. ඔවුන් ශාක පටකවල පිටත ස්තරය සිදුරු කර සෛල අන්තර්ගතය උරා බොන අතර, කොළ සහ මල් මත අවර්ණ පුල්ලි ඇති කරයි.',
+      ta: 'இலைப்பேன்கள் விளிம்புகளில் மயிர் கொண்ட இறக்கைகளுடைய மிகச் சிறிய, மெல்லிய பூச்சிகள். அவை தாவரத் திசுவின் வெளிப்படலத்தைத் துளைத்து செல் சாற்றை உறிஞ்சுவதால் இலைகளிலும் பூக்களிலும் நிறமிழந்த புள்ளிகள் தோன்றும்.',
+    },
+    symptoms: [
+      'Silvery or bronze scarring on leaves',
+      'Distorted or stunted growth',
+      'Black fecal spots on leaves',
+      'Damaged flowers and buds',
+    ],
+    controlMethods: [
+      'Apply neem oil or insecticidal soap',
+      'Use blue sticky traps to monitor and catch thrips',
+      'Release predatory mites or bugs that feed on thrips',
+      'Apply appropriate chemical insecticides when infestation is severe',
+    ],
+    preventionMethods: [
+      'Maintain proper field sanitation',
+      'Remove weeds that can host thrips',
+      'Use reflective mulches to repel thrips',
+      'Implement crop rotation',
+    ],
+  },
+  {
+    id: '2',
+    name: {
+      en: 'Yellow Stem Borer',
+      si: 'කහ කඳ පණුවා',
+      ta: 'மஞ்சள் தண்டு துளைப்பான்',
+    },
+    image: 'https://images.unsplash.com/photo-1677095202636-dfb9cd359c14?w=1000&auto=format&fit=crop&q=60&ixlib=rb-4.1.0&ixid=M3wxMjA3fDB8MHxzZWFyY2h8M3x8eWVsbG93JTIwc3RlbSUyMGJvcmVyJTIwaW5zZWN0fGVufDB8fDB8fHww',
+    crops: [CROPS.rice],
+    description: {
+      en: 'The Yellow Stem Borer is a serious pest of rice. The larvae bore into the stem and feed inside, causing the central shoot to die, resulting in "deadhearts" during the vegetative stage and "whiteheads" during the reproductive stage.',
+      si: 'කහ කඳ පණුවා වී වගාවේ බරපතල පළිබෝධයකි. කීටයන් කඳ තුළට විද ඇතුළත පෝෂණය වන අතර, මැද දල්ල මිය යාමෙන් වර්ධක අවධියේදී "මළ දලු" සහ ප්‍රජනක අවධියේදී "සුදු කරල්" ඇති කරයි.',
+      ta: 'மஞ்சள் தண்டு துளைப்பான் நெல்லின் கடுமையான பூச்சியாகும். அதன் புழுக்கள் தண்டினுள் துளைத்து உண்பதால் நடுக்குருத்து காய்ந்து, வளர்ச்சிப் பருவத்தில் "நடுக்குருத்து வாடலும்" கதிர்ப் பருவத்தில் "வெண்கதிரும்" ஏற்படுகின்றன.',
+    },
+    symptoms: [
+      'Deadhearts (dead central shoot)',
+      'Whiteheads (empty panicles)',
+      'Presence of moth in field',
+      'Entry and exit holes on stems',
+    ],
+    controlMethods: [
+      'Use pheromone traps to catch adult moths',
+      'Release natural enemies like Trichogramma parasitoids',
+      'Apply appropriate insecticides when infestation is severe',
+      'Cut stems at ground level after harvest to kill larvae',
+    ],
+    preventionMethods: [
+      'Plant resistant rice varieties',
+      'Synchronous planting in the area',
+      'Proper water management',
+      'Remove stubble after harvest',
+    ],
+  },
+  {
+    id: '3',
+    name: {
+      en: 'Coconut Red Weevil',
+      si: 'පොල් රතු කුරුමිණියා',
+      ta: 'தென்னை சிவப்புக் கூன்வண்டு',
+    },
+    image: 'https://media.istockphoto.com/id/2153689444/photo/coconut-rhinoceros-beetle-larvae.jpg?s=612x612&w=is&k=20&c=VvpUhKk8SUOEW6tEen5SP9QOWYnZ9Byt9LR5jbyoOBg=',
+    crops: [CROPS.coconut],
+    description: {
+      en: 'The Coconut Red Weevil (Rhynchophorus ferrugineus) is a major pest of coconut palms. The larvae tunnel through the soft tissues of the crown, trunk, and root causing extensive damage that often results in the death of the palm.',
+      si: 'පොල් රතු කුරුමිණියා (Rhynchophorus ferrugineus) පොල් ගස්වල ප්‍රධාන පළිබෝධයකි. කීටයන් ඔටුන්න, කඳ සහ මුල්වල මෘදු පටක හරහා උමං හාරමින් විශාල හානියක් කරන අතර, බොහෝ විට ගස මිය යයි.',
+      ta: 'தென்னை சிவப்புக் கூன்வண்டு (Rhynchophorus ferrugineus) தென்னை மரங்களின் முக்கிய பூச்சியாகும். அதன் புழுக்கள் மரத்தின் உச்சி, தண்டு, வேர் ஆகியவற்றின் மென்திசுக்களைக் குடைந்து பெரும் சேதம் விளைவிப்பதால் மரம் பெரும்பாலும் இறந்துவிடும்.',
+    },
+    symptoms: [
+      'Yellowing and wilting of leaves',
+      'Presence of holes on trunk with brown fluid oozing out',
+      'Gnawing sound from the trunk due to larval feeding',
+      'Broken or toppled crown',
+    ],
+    controlMethods: [
+      'Set up pheromone traps around plantations',
+      'Inject insecticides into infested palms',
+      'Remove and destroy severely infested palms',
+      'Biological control using fungi or nematodes',
+    ],
+    preventionMethods: [
+      'Regular inspection of palms',
+      'Avoid wounds on palms during cultivation',
+      'Proper disposal of dead palms',
+      'Quarantine measures for transported planting materials',
+    ],
+  },
+  {
+    id: '4',
+    name: {
+      en: 'Paddy Bug',
+      si: 'වී මැස්සා',
+      ta: 'நெல் கதிர் நாவாய்ப் பூச்சி',
+    },
+    image: 'https://images.unsplash.com/photo-1653230431179-cfd717279073?w=1000&auto=format&fit=crop&q=60&ixlib=rb-4.1.0&ixid=M3wxMjA3fDB8MHxzZWFyY2h8Nnx8cGFkZHklMjBidWd8ZW58MHx8MHx8fDA%3D',
+    crops: [CROPS.rice],
+  },
+  {
+    id: '5',
+    name: {
+      en: 'White Black Plant Hopper',
+      si: 'සුදු කළු පැළ කීඩෑවා',
+      ta: 'வெள்ளை கருப்பு தத்துப்பூச்சி',
+    },
+    image: 'https://media.istockphoto.com/id/2148960388/photo/a-moth-is-laying-on-the-ground-with-its-head-down.jpg?s=612x612&w=is&k=20&c=nQ1LCm8j0NDeGj3Mo19FlZ5z3IA0yYNTcdwmBWcwPxY=',
+    crops: [CROPS.rice, CROPS.paddy],
+  },
+  {
+    id: '6',
+    name: {
+      en: 'Fall Armyworm',
+      si: 'සේනා දළඹුවා',
+      ta: 'படைப்புழு',
+    },
+    image: 'https://media.istockphoto.com/id/2174357017/photo/fall-armyworm-in-stripped-bermudagrass.jpg?s=612x612&w=is&k=20&c=xDay87EPmo1dzFLnAFyqV9SuxU9PyTmu9upI8CO6wqg=',
+    crops: [CROPS.corn, CROPS.sugarcane],
+  },
+];
+
+// Crop diseases shown in the pest and disease guide
+export const DISEASES: PestRecord[] = [
+  {
+    id: '1',
+    name: {
+      en: 'Rice Blast',
+      si: 'වී බ්ලාස්ට් රෝගය',
+      ta: 'நெல் குலை நோய்',
+    },
+    image: 'https://media.istockphoto.com/id/1214406147/photo/rice-blast-disease-rice-diseases-and-damage-rice-grains-and-paddy-in-farms.jpg?s=612x612&w=is&k=20&c=6qDsoRCNPZc55p4d72EEBI78jQkf7OmX6cJPin5eqYk=',
+    crops: [CROPS.rice],
+    description: {
+      en: 'Rice blast, caused by the fungus Magnaporthe oryzae, is one of the most serious diseases of rice worldwide. It can affect all above-ground parts of the rice plant.',
+      si: 'Magnaporthe oryzae දිලීරය මගින් ඇති වන වී බ්ලාස්ට් රෝගය ලොව පුරා වී වගාවේ බරපතලම රෝගවලින් එකකි. එය වී ශාකයේ පොළොවට ඉහළින් ඇති සියලු කොටස්වලට බලපෑ හැක.',
+      ta: 'Magnaporthe oryzae பூஞ்சையால் ஏற்படும் நெல் குலை நோய் உலகளவில் நெல்லின் மிகக் கடுமையான நோய்களில் ஒன்றாகும். இது நெற்பயிரின் தரைக்கு மேலுள்ள எல்லாப் பகுதிகளையும் தாக்கக்கூடும்.',
+    },
+    symptoms: [
+      'Diamond-shaped lesions with gray centers on leaves',
+      'Brown to black spots on stems and leaf collars',
+      'Infected panicles break at the base',
+      'Partial or unfilled grains',
+    ],
+    controlMethods: [
+      'Apply appropriate fungicides',
+      'Plant resistant varieties',
+      'Balanced use of fertilizers, especially nitrogen',
+      'Adjust planting density to reduce humidity',
+    ],
+    preventionMethods: [
+      'Use disease-free seeds',
+      'Proper field drainage',
+      'Balanced fertilization',
+      'Crop rotation',
+    ],
+  },
+  {
+    id: '2',
+    name: {
+      en: 'Bacterial Leaf Blight',
+      si: 'බැක්ටීරියා කොළ අංගමාරය',
+      ta: 'பாக்டீரியா இலைக் கருகல் நோய்',
+    },
+    image: 'https://media.istockphoto.com/id/1286441510/photo/septoria-leaf-spot-on-tomato-damaged-by-disease-and-pests-of-tomato-leaves.jpg?s=612x612&w=is&k=20&c=4WcM2mw3Sf0w0Kp-3xYXUmsRdLPEyJtoBaOKWkO1OnI=',
+    crops: [CROPS.rice],
+    description: {
+      en: 'Bacterial Leaf Blight (BLB) is caused by Xanthomonas oryzae pv. oryzae. It is a serious bacterial disease of rice in tropical and temperate regions that can reduce yields by up to 50%.',
+      si: 'බැක්ටීරියා කොළ අංගමාරය (BLB) Xanthomonas oryzae pv. oryzae මගින් ඇති වේ. එය නිවර්තන සහ සෞම්‍ය කලාපවල වී වගාවේ බරපතල බැක්ටීරියා රෝගයක් වන අතර අස්වැන්න 50% දක්වා අඩු කළ හැක.',
+      ta: 'பாக்டீரியா இலைக் கருகல் நோய் (BLB) Xanthomonas oryzae pv. oryzae ஆல் ஏற்படுகிறது. இது வெப்பமண்டல மற்றும் மிதவெப்ப மண்டலங்களில் நெல்லைத் தாக்கும் கடுமையான பாக்டீரியா நோயாகும்; விளைச்சலை 50% வரை குறைக்கக்கூடும்.',
+    },
+    symptoms: [
+      'Water-soaked lesions at leaf margins',
+      'Lesions turn yellow to white as they develop',
+      'Affected leaves dry up and die',
+      'Discoloration of emerging panicles',
+    ],
+    controlMethods: [
+      'Apply copper-based bactericides',
+      'Drain fields to reduce humidity',
+      'Balanced use of fertilizers',
+      'Remove infected plant debris',
+    ],
+    preventionMethods: [
+      'Plant resistant varieties',
+      'Use clean seeds and tools',
+      'Proper spacing between plants',
+      'Avoid excessive nitrogen application',
+    ],
+  },
+  {
+    id: '3',
+    name: {
+      en: 'Sheath Blight',
+      si: 'කොපු අංගමාරය',
+      ta: 'இலையுறை கருகல் நோய்',
+    },
+    image: 'https://images.unsplash.com/photo-1589955234391-ce41e90b5c69?q=80&w=687&auto=format&fit=crop&ixlib=rb-4.1.0&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D',
+    crops: [CROPS.rice],
+  },
+  {
+    id: '4',
+    name: {
+      en: 'Lethal Yellowing',
+      si: 'මාරක කහ වීම',
+      ta: 'உயிர்க்கொல்லி மஞ்சளாதல் நோய்',
+    },
+    image: 'https://media.istockphoto.com/id/2213832385/photo/leaves-affected.jpg?s=612x612&w=is&k=20&c=HtydN2HIJjb1p3e9iKxU9HFIPnsP2zqS4JGwckePfH4=',
+    crops: [CROPS.coconut],
+  },
+];
+
 export const MARKET_PRICES: MarketPrice[] = [
   {
     id: '1',
@@ -298,85 +530,174 @@ export const ORDERS: Order[] = [
 export const REVIEWS: Review[] = [
   {
     id: '1',
+    targetType: 'product',
+    targetId: '1',
     productId: '1',
     userId: '1',
     userName: 'Sampath Perera',
     rating: 4,
     text: 'These tomatoes are very fresh and tasty. I use them regularly for my cooking.',
     date: new Date('2023-10-15'),
+    status: 'published',
   },
   {
     id: '2',
+    targetType: 'product',
+    targetId: '1',
     productId: '1',
     userId: '3',
     userName: 'Nimal Fernando',
     rating: 5,
     text: 'Excellent quality! The tomatoes are juicy and flavorful. Will buy again.',
     date: new Date('2023-11-20'),
+    status: 'published',
   },
   {
     id: '3',
+    targetType: 'product',
+    targetId: '2',
     productId: '2',
     userId: '2',
     userName: 'Kumari Silva',
     rating: 5,
     text: 'These apples are delicious and crispy. My kids love them!',
     date: new Date('2023-12-05'),
+    status: 'published',
   },
   {
     id: '4',
+    targetType: 'product',
+    targetId: '3',
     productId: '3',
     userId: '4',
     userName: 'Pradeep Jayawardena',
     rating: 4,
     text: 'Good quality rice. Cooks well and has nice aroma.',
     date: new Date('2024-01-10'),
+    status: 'published',
   },
   {
     id: '5',
+    targetType: 'product',
+    targetId: '5',
     productId: '5',
     userId: '1',
     userName: 'Sampath Perera',
     rating: 5,
     text: 'Very durable garden hoe. Makes my gardening work much easier.',
     date: new Date('2024-02-15'),
+    status: 'published',
   },
   {
     id: '6',
+    targetType: 'product',
+    targetId: '5',
     productId: '5',
     userId: '3',
     userName: 'Nimal Fernando',
     rating: 4,
     text: 'Good quality tool for the price. Handle is comfortable to use.',
     date: new Date('2024-02-28'),
+    status: 'published',
   },
   {
     id: '7',
+    targetType: 'product',
+    targetId: '7',
     productId: '7',
     userId: '2',
     userName: 'Kumari Silva',
     rating: 5,
     text: 'This fertilizer works wonders! My plants are much healthier now.',
     date: new Date('2024-03-05'),
+    status: 'published',
   },
   {
     id: '8',
+    targetType: 'product',
+    targetId: '8',
     productId: '8',
     userId: '4',
     userName: 'Pradeep Jayawardena',
     rating: 5,
     text: 'The mini tiller is perfect for my small farm. Easy to operate and very efficient.',
     date: new Date('2024-03-20'),
+    status: 'published',
   },
 ];
 
+// Labels for these lists are under orders.* in the message catalogs
+export const DELIVERY_WINDOWS: { key: DeliveryWindow; startHour: number; endHour: number }[] = [
+  { key: 'morning', startHour: 8, endHour: 12 },
+  { key: 'afternoon', startHour: 12, endHour: 16 },
+  { key: 'evening', startHour: 16, endHour: 20 },
+];
+
+export const PAYMENT_METHODS: { key: PaymentMethod; icon: string }[] = [
+  { key: 'cash_on_delivery', icon: 'cash-outline' },
+  { key: 'card_on_delivery', icon: 'card-outline' },
+  { key: 'bank_transfer', icon: 'business-outline' },
+];
+
+export const RETURN_REASONS: { key: ReturnReason; icon: string }[] = [
+  { key: 'damaged_produce', icon: 'alert-circle-outline' },
+  { key: 'wrong_quantity', icon: 'calculator-outline' },
+  { key: 'not_delivered', icon: 'car-outline' },
+];
+
+export const DISTRICTS: { name: string; zone: DeliveryZone }[] = [
+  { name: 'Colombo', zone: 'western' },
+  { name: 'Gampaha', zone: 'western' },
+  { name: 'Kalutara', zone: 'western' },
+  { name: 'Kandy', zone: 'central' },
+  { name: 'Matale', zone: 'central' },
+  { name: 'Nuwara Eliya', zone: 'central' },
+  { name: 'Galle', zone: 'southern' },
+  { name: 'Matara', zone: 'southern' },
+  { name: 'Hambantota', zone: 'southern' },
+  { name: 'Jaffna', zone: 'northern' },
+  { name: 'Kilinochchi', zone: 'northern' },
+  { name: 'Mannar', zone: 'northern' },
+  { name: 'Vavuniya', zone: 'northern' },
+  { name: 'Mullaitivu', zone: 'northern' },
+  { name: 'Batticaloa', zone: 'eastern' },
+  { name: 'Ampara', zone: 'eastern' },
+  { name: 'Trincomalee', zone: 'eastern' },
+  { name: 'Kurunegala', zone: 'north_western' },
+  { name: 'Puttalam', zone: 'north_western' },
+  { name: 'Anuradhapura', zone: 'north_central' },
+  { name: 'Polonnaruwa', zone: 'north_central' },
+  { name: 'Badulla', zone: 'uva' },
+  { name: 'Monaragala', zone: 'uva' },
+  { name: 'Ratnapura', zone: 'sabaragamuwa' },
+  { name: 'Kegalle', zone: 'sabaragamuwa' },
+];
+
+export const DELIVERY_ZONES: DeliveryZone[] = [
+  'western',
+  'central',
+  'southern',
+  'northern',
+  'eastern',
+  'north_western',
+  'north_central',
+  'uva',
+  'sabaragamuwa',
+];
+
 export default {
   CATEGORIES,
   PRODUCTS,
   WEATHER,
   ARTICLES,
+  PESTS,
+  DISEASES,
   MARKET_PRICES,
   USERS,
   ORDERS,
   REVIEWS,
+  DELIVERY_WINDOWS,
+  PAYMENT_METHODS,
+  RETURN_REASONS,
+  DISTRICTS,
 }; 
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { onAuthStateChanged } from 'firebase/auth';
+import { auth } from '../utilities/firebaseConfig';
+import { subscribeToUser } from '../utilities/firestoreUtils';
+import { User } from '../types';
+
+// The signed-in user's profile, kept up to date as they sign in and out or their roles change.
+// `user` is null while signed out or when the account has no profile document.
+export const useCurrentUser = (): { user: User | null; loading: boolean } => {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let unsubscribeUser: (() => void) | null = null;
+
+    const unsubscribeAuth = onAuthStateChanged(auth, (currentUser) => {
+      unsubscribeUser?.();
+      unsubscribeUser = null;
+
+      if (!currentUser) {
+        setUser(null);
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      unsubscribeUser = subscribeToUser(currentUser.uid, (profile) => {
+        setUser(profile);
+        setLoading(false);
+      });
+    });
+
+    return () => {
+      unsubscribeAuth();
+      unsubscribeUser?.();
+    };
+  }, []);
+
+  return { user, loading };
+};
@@ -0,0 +1,40 @@
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import { refreshEmailVerified, sendVerificationEmail } from '../utilities/authUtils';
+import { useTranslation } from './useTranslation';
+
+// Selling and bidding need a verified email. `requireVerifiedEmail` resolves to true when the
+// user may go ahead, and otherwise explains why not and offers to send the link again.
+export const useEmailVerification = () => {
+  const { t } = useTranslation();
+
+  const resendVerification = useCallback(async () => {
+    try {
+      await sendVerificationEmail();
+      Alert.alert(t('auth.verification.sentTitle'), t('auth.verification.sent'));
+    } catch (error) {
+      Alert.alert(t('common.error'), t('auth.verification.sendFailed'));
+    }
+  }, [t]);
+
+  const requireVerifiedEmail = useCallback(async (): Promise<boolean> => {
+    try {
+      if (await refreshEmailVerified()) return true;
+    } catch (error) {
+      Alert.alert(t('common.error'), t('auth.verification.checkFailed'));
+      return false;
+    }
+
+    Alert.alert(
+      t('auth.verification.requiredTitle'),
+      t('auth.verification.required'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('auth.verification.resend'), onPress: resendVerification },
+      ]
+    );
+    return false;
+  }, [t, resendVerification]);
+
+  return { requireVerifiedEmail, resendVerification };
+};
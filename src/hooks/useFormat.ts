@@ -0,0 +1,32 @@
+import { useMemo } from 'react';
+import { useTranslation } from './useTranslation';
+import {
+  AgriUnit,
+  DateStyle,
+  formatNumber,
+  formatCurrency,
+  formatDate,
+  formatWeekday,
+  formatTime,
+  formatHourRange,
+  formatDateTime,
+  formatRelativeTime,
+  formatQuantity,
+} from '../utils';
+
+// The formatters from utils.ts, writing numbers, prices, dates and units in the app language
+export const useFormat = () => {
+  const { locale } = useTranslation();
+
+  return useMemo(() => ({
+    formatNumber: (value: number, decimals?: number) => formatNumber(value, locale, decimals),
+    formatCurrency: (amount: number) => formatCurrency(amount, locale),
+    formatDate: (date: Date, style?: DateStyle) => formatDate(date, locale, style),
+    formatWeekday: (date: Date, short?: boolean) => formatWeekday(date, locale, short),
+    formatTime: (date: Date, showMinutes?: boolean) => formatTime(date, locale, showMinutes),
+    formatHourRange: (startHour: number, endHour: number) => formatHourRange(startHour, endHour, locale),
+    formatDateTime: (date: Date) => formatDateTime(date, locale),
+    formatRelativeTime: (date: Date) => formatRelativeTime(date, locale),
+    formatQuantity: (value: number, unit: AgriUnit) => formatQuantity(value, unit, locale),
+  }), [locale]);
+};
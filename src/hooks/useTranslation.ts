@@ -0,0 +1,5 @@
+import { useContext } from 'react';
+import { LanguageContext, LanguageContextValue } from '../components/LanguageProvider';
+
+// The current language, a way to change it, and `t` to look up messages in it
+export const useTranslation = (): LanguageContextValue => useContext(LanguageContext);
@@ -1,8 +1,8 @@
 import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, createNavigationContainerRef } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
-import { RootStackParamList } from '../types';
+import { RootStackParamList, AppNotification } from '../types';
 import { Ionicons } from '@expo/vector-icons';
 import { colors } from '../theme';
 
@@ -21,15 +21,25 @@ import ArticleDetailsScreen from '../screens/ArticleDetailsScreen';
 import MarketPricesScreen from '../screens/MarketPricesScreen';
 import ProductDetailsScreen from '../screens/ProductDetailsScreen';
 import CartScreen from '../screens/CartScreen';
+import CheckoutScreen from '../screens/CheckoutScreen';
+import OrderConfirmationScreen from '../screens/OrderConfirmationScreen';
 import ProfileScreen from '../screens/ProfileScreen';
 import EditProfileScreen from '../screens/EditProfileScreen';
+import ChangePasswordScreen from '../screens/ChangePasswordScreen';
 import AboutScreen from '../screens/AboutScreen';
 import BidDetailsScreen from '../screens/BidDetailsScreen';
 import SettingsScreen from '../screens/SettingsScreen';
 import HelpScreen from '../screens/HelpScreen';
 import OrdersScreen from '../screens/OrdersScreen';
 import OrderDetailsScreen from '../screens/OrderDetailsScreen';
+import RequestReturnScreen from '../screens/RequestReturnScreen';
+import ReturnRequestsScreen from '../screens/ReturnRequestsScreen';
+import SellerOrdersScreen from '../screens/SellerOrdersScreen';
+import DeliverySettingsScreen from '../screens/DeliverySettingsScreen';
 import MyOffersScreen from '../screens/MyOffersScreen';
+import NotificationsScreen from '../screens/NotificationsScreen';
+import ConversationsScreen from '../screens/ConversationsScreen';
+import ChatScreen from '../screens/ChatScreen';
 import ProductCategories from '../screens/ProductCategories';
 import ShopsList from '../screens/ShopsList';
 import ShopDetails from '../screens/ShopDetails';
@@ -38,21 +48,48 @@ import MachineCategories from '../screens/MachineCategories';
 import MachineList from '../screens/MachineList';
 import MachineDetails from '../screens/MachineDetails';
 import AddMachine from '../screens/AddMachine';
+import MyMachinesScreen from '../screens/MyMachinesScreen';
+import BookMachineScreen from '../screens/BookMachineScreen';
+import MachineBookingsScreen from '../screens/MachineBookingsScreen';
+import MachineLogbookScreen from '../screens/MachineLogbookScreen';
+import ReviewModerationScreen from '../screens/ReviewModerationScreen';
+import SellerVerificationScreen from '../screens/SellerVerificationScreen';
 import PestAndDiseaseControl from '../screens/PestAndDiseaseControl';
 import PestDetails from '../screens/PestDetails';
+import NotificationListener from '../components/NotificationListener';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+import { useTranslation } from '../hooks/useTranslation';
+import { canListMachines, canSellProducts, isAdmin } from '../utilities/roleUtils';
 
 // For screens not yet implemented, use placeholders
 const PlaceholderScreen = ({ name }: { name: string }) => null;
 
-const CheckoutScreen = () => <PlaceholderScreen name="Checkout" />;
-const OrderConfirmationScreen = () => <PlaceholderScreen name="OrderConfirmation" />;
 const ProductsScreen = () => <PlaceholderScreen name="Products" />;
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 const Tab = createBottomTabNavigator();
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
 
-// Main Tab Navigator
+// Opens the order, listing or product a notification is about
+const openNotification = (notification: AppNotification) => {
+  if (!navigationRef.isReady()) return;
+
+  if (notification.orderId) {
+    navigationRef.navigate('OrderDetails', { orderId: notification.orderId });
+  } else if (notification.bidId) {
+    navigationRef.navigate('BidDetails', { bidId: notification.bidId });
+  } else if (notification.productId) {
+    navigationRef.navigate('ProductDetails', { productId: notification.productId });
+  } else if (notification.bookingId) {
+    navigationRef.navigate('MachineBookings', { tab: notification.type === 'booking_request' ? 'owner' : 'renter' });
+  }
+};
+
+// Main Tab Navigator; sellers and machine owners get a tab for managing their listings
 const MainTabNavigator = () => {
+  const { user } = useCurrentUser();
+  const { t } = useTranslation();
+
   return (
     <Tab.Navigator
       screenOptions={({ route }) => ({
@@ -67,6 +104,10 @@ const MainTabNavigator = () => {
             iconName = focused ? 'newspaper' : 'newspaper-outline';
           } else if (route.name === 'MarketPrices') {
             iconName = focused ? 'trending-up' : 'trending-up-outline';
+          } else if (route.name === 'Selling') {
+            iconName = focused ? 'storefront' : 'storefront-outline';
+          } else if (route.name === 'Machines') {
+            iconName = focused ? 'construct' : 'construct-outline';
           } else {
             iconName = focused ? 'person' : 'person-outline';
           }
@@ -76,7 +117,7 @@ const MainTabNavigator = () => {
         },
         tabBarActiveTintColor: colors.primary,
         tabBarInactiveTintColor: colors.lightText,
-        headerShown: route.name !== 'Home',
+        headerShown: !['Home', 'Selling', 'Machines'].includes(route.name),
         tabBarLabelStyle: {
           fontSize: 12,
           fontWeight: '500',
@@ -97,45 +138,68 @@ const MainTabNavigator = () => {
         name="Home" 
         component={HomeScreen} 
         options={{
-          title: 'Home'
+          title: t('tabs.home')
         }}
       />
       <Tab.Screen 
         name="Weather" 
         component={WeatherScreen} 
         options={{
-          title: 'Weather'
+          title: t('tabs.weather')
         }}
       />
       <Tab.Screen 
         name="MarketPrices" 
         component={MarketPricesScreen} 
         options={{
-          title: 'Market'
+          title: t('tabs.market')
         }}
       />
       <Tab.Screen 
         name="Articles" 
         component={ArticlesScreen} 
         options={{
-          title: 'Articles'
+          title: t('tabs.articles')
         }}
       />
+      {!!user && canSellProducts(user) && (
+        <Tab.Screen 
+          name="Selling" 
+          component={SellerOrdersScreen} 
+          options={{
+            title: t('tabs.sell')
+          }}
+        />
+      )}
+      {!!user && canListMachines(user) && (
+        <Tab.Screen 
+          name="Machines" 
+          component={MyMachinesScreen} 
+          options={{
+            title: t('tabs.machines')
+          }}
+        />
+      )}
       <Tab.Screen 
         name="Profile" 
         component={ProfileScreen} 
         options={{
-          title: 'Profile'
+          title: t('tabs.profile')
         }}
       />
     </Tab.Navigator>
   );
 };
 
-// Main Navigator
+// Main Navigator. Listing and admin screens are only registered for the roles that use them.
 const AppNavigator = () => {
+  const { user } = useCurrentUser();
+  const canSell = !!user && canSellProducts(user);
+  const canRentOut = !!user && canListMachines(user);
+
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef}>
+      <NotificationListener onOpen={openNotification} />
       <Stack.Navigator 
         initialRouteName="Splash"
         screenOptions={{
@@ -154,25 +218,52 @@ const AppNavigator = () => {
         <Stack.Screen name="Checkout" component={CheckoutScreen} />
         <Stack.Screen name="OrderConfirmation" component={OrderConfirmationScreen} />
         <Stack.Screen name="EditProfile" component={EditProfileScreen} />
+        <Stack.Screen name="ChangePassword" component={ChangePasswordScreen} />
         <Stack.Screen name="Orders" component={OrdersScreen} />
         <Stack.Screen name="OrderDetails" component={OrderDetailsScreen} />
+        <Stack.Screen name="RequestReturn" component={RequestReturnScreen} />
         <Stack.Screen name="Settings" component={SettingsScreen} />
         <Stack.Screen name="About" component={AboutScreen} />
         <Stack.Screen name="Help" component={HelpScreen} />
         <Stack.Screen name="ArticleDetails" component={ArticleDetailsScreen} />
         <Stack.Screen name="BidDetails" component={BidDetailsScreen} />
         <Stack.Screen name="MyOffers" component={MyOffersScreen} />
+        <Stack.Screen name="Notifications" component={NotificationsScreen} />
+        <Stack.Screen name="Conversations" component={ConversationsScreen} />
+        <Stack.Screen name="Chat" component={ChatScreen} />
         <Stack.Screen name="ProductCategories" component={ProductCategories} />
         <Stack.Screen name="ShopsList" component={ShopsList} />
         <Stack.Screen name="ShopDetails" component={ShopDetails} />
         <Stack.Screen name="Products" component={ProductsScreen} />
-        <Stack.Screen name="AddProduct" component={AddProductScreen} />
         <Stack.Screen name="MachineCategories" component={MachineCategories} options={{ headerShown: false }} />
         <Stack.Screen name="MachineList" component={MachineList} options={{ headerShown: false }} />
         <Stack.Screen name="MachineDetails" component={MachineDetails} options={{ headerShown: false }} />
-        <Stack.Screen name="AddMachine" component={AddMachine} options={{ headerShown: false }} />
+        <Stack.Screen name="BookMachine" component={BookMachineScreen} />
+        <Stack.Screen name="MachineBookings" component={MachineBookingsScreen} />
         <Stack.Screen name="PestAndDiseaseControl" component={PestAndDiseaseControl} options={{ headerShown: false }} />
         <Stack.Screen name="PestDetails" component={PestDetails} options={{ headerShown: false }} />
+        {canSell && (
+          <Stack.Group>
+            <Stack.Screen name="AddProduct" component={AddProductScreen} />
+            <Stack.Screen name="SellerOrders" component={SellerOrdersScreen} />
+            <Stack.Screen name="ReturnRequests" component={ReturnRequestsScreen} />
+            <Stack.Screen name="DeliverySettings" component={DeliverySettingsScreen} />
+          </Stack.Group>
+        )}
+        {canRentOut && (
+          <Stack.Group>
+            <Stack.Screen name="AddMachine" component={AddMachine} options={{ headerShown: false }} />
+            <Stack.Screen name="EditMachine" component={AddMachine} options={{ headerShown: false }} />
+            <Stack.Screen name="MyMachines" component={MyMachinesScreen} />
+            <Stack.Screen name="MachineLogbook" component={MachineLogbookScreen} />
+          </Stack.Group>
+        )}
+        {isAdmin(user) && (
+          <Stack.Group>
+            <Stack.Screen name="ReviewModeration" component={ReviewModerationScreen} />
+            <Stack.Screen name="SellerVerification" component={SellerVerificationScreen} />
+          </Stack.Group>
+        )}
       </Stack.Navigator>
     </NavigationContainer>
   );
@@ -14,11 +14,13 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from '../hooks/useTranslation';
 
 type AboutScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'About'>;
 
 const AboutScreen = () => {
   const navigation = useNavigation<AboutScreenNavigationProp>();
+  const { t } = useTranslation();
 
   const handleSocialLink = (url: string) => {
     Linking.openURL(url).catch(err => console.error('Error opening URL:', err));
@@ -41,7 +43,7 @@ const AboutScreen = () => {
         >
           <Ionicons name="arrow-back" size={24} color={colors.text} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>About AgriSaviya</Text>
+        <Text style={styles.headerTitle}>{t('about.title')}</Text>
         <View style={styles.placeholderView} />
       </View>
 
@@ -52,32 +54,30 @@ const AboutScreen = () => {
           style={styles.logo}
           resizeMode="contain"
         />
-        <Text style={styles.appVersion}>Version 1.0.0</Text>
+        <Text style={styles.appVersion}>{t('about.version', { version: '1.0.0' })}</Text>
       </View>
 
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Our Mission</Text>
+        <Text style={styles.sectionTitle}>{t('about.mission')}</Text>
         <Text style={styles.paragraph}>
-          AgriSaviya is dedicated to empowering Sri Lankan farmers with technology that helps them improve productivity, 
-          connect with markets, and adapt to changing climate conditions.
+          {t('about.missionText1')}
         </Text>
         <Text style={styles.paragraph}>
-          Our mission is to bridge the gap between traditional farming practices and modern agricultural technologies, 
-          making sustainable farming accessible to everyone.
+          {t('about.missionText2')}
         </Text>
       </View>
 
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Key Features</Text>
+        <Text style={styles.sectionTitle}>{t('about.features')}</Text>
         
         <View style={styles.featureItem}>
           <View style={styles.featureIconContainer}>
             <Ionicons name="cart" size={24} color={colors.primary} />
           </View>
           <View style={styles.featureContent}>
-            <Text style={styles.featureTitle}>Marketplace</Text>
+            <Text style={styles.featureTitle}>{t('about.marketplace')}</Text>
             <Text style={styles.featureDescription}>
-              Buy and sell agricultural products directly, cutting out middlemen and ensuring fair prices.
+              {t('about.marketplaceText')}
             </Text>
           </View>
         </View>
@@ -87,9 +87,9 @@ const AboutScreen = () => {
             <Ionicons name="cloud" size={24} color={colors.primary} />
           </View>
           <View style={styles.featureContent}>
-            <Text style={styles.featureTitle}>Weather Forecasts</Text>
+            <Text style={styles.featureTitle}>{t('about.weather')}</Text>
             <Text style={styles.featureDescription}>
-              Access localized weather data to plan farming activities more effectively.
+              {t('about.weatherText')}
             </Text>
           </View>
         </View>
@@ -99,9 +99,9 @@ const AboutScreen = () => {
             <Ionicons name="bar-chart" size={24} color={colors.primary} />
           </View>
           <View style={styles.featureContent}>
-            <Text style={styles.featureTitle}>Market Prices</Text>
+            <Text style={styles.featureTitle}>{t('about.marketPrices')}</Text>
             <Text style={styles.featureDescription}>
-              Get real-time updates on market prices for various agricultural products.
+              {t('about.marketPricesText')}
             </Text>
           </View>
         </View>
@@ -111,25 +111,23 @@ const AboutScreen = () => {
             <Ionicons name="newspaper" size={24} color={colors.primary} />
           </View>
           <View style={styles.featureContent}>
-            <Text style={styles.featureTitle}>Agricultural News</Text>
+            <Text style={styles.featureTitle}>{t('about.news')}</Text>
             <Text style={styles.featureDescription}>
-              Stay informed with the latest news, tips, and best practices in agriculture.
+              {t('about.newsText')}
             </Text>
           </View>
         </View>
       </View>
 
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Our Team</Text>
+        <Text style={styles.sectionTitle}>{t('about.team')}</Text>
         <Text style={styles.paragraph}>
-          AgriSaviya is developed by a passionate team of technology and agriculture enthusiasts 
-          based in Colombo, Sri Lanka. Our diverse team brings together expertise in software development, 
-          agriculture, economics, and climate science.
+          {t('about.teamText')}
         </Text>
       </View>
 
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Contact Us</Text>
+        <Text style={styles.sectionTitle}>{t('about.contact')}</Text>
         
         <TouchableOpacity style={styles.contactItem} onPress={handleEmail}>
           <Ionicons name="mail" size={24} color={colors.primary} style={styles.contactIcon} />
@@ -143,12 +141,12 @@ const AboutScreen = () => {
         
         <TouchableOpacity style={styles.contactItem} onPress={() => Linking.openURL('https://maps.app.goo.gl/JGqKqnwQJYsSjP8Y6')}>
           <Ionicons name="location" size={24} color={colors.primary} style={styles.contactIcon} />
-          <Text style={styles.contactText}>123 Temple Road, Colombo, Sri Lanka</Text>
+          <Text style={styles.contactText}>{t('about.address')}</Text>
         </TouchableOpacity>
       </View>
 
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Follow Us</Text>
+        <Text style={styles.sectionTitle}>{t('about.follow')}</Text>
         <View style={styles.socialContainer}>
           <TouchableOpacity 
             style={styles.socialButton}
@@ -180,7 +178,7 @@ const AboutScreen = () => {
         </View>
       </View>
 
-      <Text style={styles.copyright}>© 2023 AgriSaviya. All rights reserved.</Text>
+      <Text style={styles.copyright}>{t('about.copyright')}</Text>
     </ScrollView>
   );
 };
@@ -14,7 +14,7 @@ import {
 } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { RootStackParamList, Category, Machine } from '../types';
+import { RootStackParamList, Category, Machine, MachineRates, RateUnit } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import { Ionicons } from '@expo/vector-icons';
 import { db, auth } from '../utilities/firebaseConfig';
@@ -22,56 +22,111 @@ import * as ImagePicker from 'expo-image-picker';
 import * as FileSystem from 'expo-file-system';
 import Button from '../components/Button';
 import { Picker } from '@react-native-picker/picker';
-import { getMachineCategories, addMachine } from '../utilities/firestoreUtils';
+import { getMachineCategories, addMachine, getMachineById, updateMachine } from '../utilities/firestoreUtils';
+import { MACHINE_STATUSES, canEditMachine } from '../utilities/machineUtils';
+import { RATE_UNITS } from '../utilities/bookingUtils';
+import { useTranslation } from '../hooks/useTranslation';
 
-type AddMachineScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'AddMachine'>;
-type AddMachineScreenRouteProp = RouteProp<RootStackParamList, 'AddMachine'>;
-
-const MACHINE_STATUSES = [
-  { label: 'Available', value: 'available' },
-  { label: 'Unavailable', value: 'unavailable' },
-  { label: 'For Sale', value: 'for_sale' },
-  { label: 'For Rent', value: 'for_rent' },
-];
+type AddMachineScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'AddMachine' | 'EditMachine'>;
+type AddMachineScreenRouteProp = RouteProp<RootStackParamList, 'AddMachine' | 'EditMachine'>;
 
+// Also registered as the EditMachine route; an existing listing is edited when a machineId is passed
 const AddMachine = () => {
   const navigation = useNavigation<AddMachineScreenNavigationProp>();
   const route = useRoute<AddMachineScreenRouteProp>();
+  const { t } = useTranslation();
+  const params = route.params;
+  const editMachineId = params && 'machineId' in params ? params.machineId : undefined;
+  const preselectedCategoryId = params && 'preselectedCategoryId' in params ? params.preselectedCategoryId : undefined;
+  const isEditing = !!editMachineId;
   
   // Form state
   const [name, setName] = useState('');
   const [price, setPrice] = useState('');
   const [description, setDescription] = useState('');
-  const [category, setCategory] = useState(route.params?.preselectedCategoryId || '');
+  const [category, setCategory] = useState(preselectedCategoryId || '');
   const [status, setStatus] = useState(MACHINE_STATUSES[0].value);
   const [contact, setContact] = useState('');
   const [phone, setPhone] = useState('');
   const [location, setLocation] = useState('');
+  const [rates, setRates] = useState<Record<RateUnit, string>>({ hour: '', day: '', acre: '' });
   const [image, setImage] = useState<string | null>(null);
   const [uploading, setUploading] = useState(false);
   const [loading, setLoading] = useState(false);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [loadingMachine, setLoadingMachine] = useState(isEditing);
   
   // Load categories when component mounts
   useEffect(() => {
     loadCategories();
   }, []);
   
+  // Fill the form with the listing being edited
+  useEffect(() => {
+    if (editMachineId) {
+      loadMachine(editMachineId);
+    }
+  }, [editMachineId]);
+  
   const loadCategories = async () => {
     try {
       const categories = await getMachineCategories();
       
       setCategories(categories);
       
+      // Editing keeps the machine's own category
+      if (isEditing) return;
+      
       // Set initial category if provided in route params
-      if (route.params?.preselectedCategoryId) {
-        setCategory(route.params.preselectedCategoryId);
+      if (preselectedCategoryId) {
+        setCategory(preselectedCategoryId);
       } else if (categories.length > 0) {
         setCategory(categories[0].id);
       }
     } catch (error) {
       console.error('Error loading categories:', error);
-      Alert.alert('Error', 'Failed to load categories. Please try again.');
+      Alert.alert(t('common.error'), t('addMachine.categoriesFailed'));
+    }
+  };
+  
+  const loadMachine = async (machineId: string) => {
+    try {
+      setLoadingMachine(true);
+      const machine = await getMachineById(machineId);
+      
+      if (!machine) {
+        Alert.alert(t('common.error'), t('addMachine.notFound'), [{ text: t('common.ok'), onPress: () => navigation.goBack() }]);
+        return;
+      }
+      
+      if (!canEditMachine(machine, auth.currentUser?.uid)) {
+        Alert.alert(
+          t('addMachine.notAllowed'),
+          t('addMachine.ownerOnly'),
+          [{ text: t('common.ok'), onPress: () => navigation.goBack() }]
+        );
+        return;
+      }
+      
+      setName(machine.name);
+      setPrice(machine.price.toString());
+      setDescription(machine.description);
+      setCategory(machine.category);
+      setStatus(machine.status);
+      setContact(machine.contact);
+      setPhone(machine.phone);
+      setLocation(machine.location || '');
+      setRates({
+        hour: machine.rates?.hour?.toString() || '',
+        day: machine.rates?.day?.toString() || '',
+        acre: machine.rates?.acre?.toString() || '',
+      });
+      setImage(machine.image || null);
+    } catch (error) {
+      console.error('Error loading machine:', error);
+      Alert.alert(t('common.error'), t('addMachine.loadFailed'));
+    } finally {
+      setLoadingMachine(false);
     }
   };
   
@@ -81,7 +136,7 @@ const AddMachine = () => {
       const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
       
       if (status !== 'granted') {
-        Alert.alert('Permission Required', 'Please grant permission to access your photos.');
+        Alert.alert(t('common.permissionRequired'), t('common.photoPermission'));
         return;
       }
       
@@ -120,7 +175,7 @@ const AddMachine = () => {
               console.log('Image converted to Base64 via FileSystem');
             } catch (fileError) {
               console.error('Error reading file as base64:', fileError);
-              Alert.alert('Error', 'Failed to process image as base64. Using fallback approach.');
+              Alert.alert(t('common.error'), t('addMachine.base64Failed'));
               
               // Fallback - use a placeholder image instead of local URI
               setImage('https://media.istockphoto.com/id/1320356772/photo/tractor-and-agricultural-machinery-on-the-field.jpg');
@@ -128,14 +183,14 @@ const AddMachine = () => {
           }
         } catch (error) {
           console.error('Error processing image:', error);
-          Alert.alert('Error', 'Failed to process image. Please try again.');
+          Alert.alert(t('common.error'), t('common.imageProcessFailed'));
         } finally {
           setUploading(false);
         }
       }
     } catch (error) {
       console.error('Error picking image:', error);
-      Alert.alert('Error', 'Failed to pick image. Please try again.');
+      Alert.alert(t('common.error'), t('common.imagePickFailed'));
       setUploading(false);
     }
   };
@@ -143,21 +198,33 @@ const AddMachine = () => {
   const handleSubmit = async () => {
     // Validate form
     if (!name || !price || !description || !category || !status || !contact || !phone) {
-      Alert.alert('Missing Fields', 'Please fill in all required fields.');
+      Alert.alert(t('addMachine.missingFields'), t('addMachine.fillRequired'));
       return;
     }
     
     if (!image) {
-      Alert.alert('Image Required', 'Please select an image for your machine.');
+      Alert.alert(t('addMachine.imageRequired'), t('addMachine.selectImage'));
       return;
     }
     
-    // Verify image format
-    if (!image.startsWith('data:image')) {
-      Alert.alert('Invalid Image', 'Please select an image again. The image format is not supported.');
+    // Verify image format; listings saved before images were stored inline may keep their web image
+    if (!image.startsWith('data:image') && !(isEditing && image.startsWith('http'))) {
+      Alert.alert(t('addMachine.invalidImage'), t('addMachine.imageUnsupported'));
       return;
     }
     
+    // Only units the owner has priced can be booked
+    const machineRates: MachineRates = {};
+    for (const unit of RATE_UNITS) {
+      if (!rates[unit]) continue;
+      const rate = parseFloat(rates[unit]);
+      if (isNaN(rate) || rate <= 0) {
+        Alert.alert(t('addMachine.invalidRate'), t(`addMachine.enterRate.${unit}`));
+        return;
+      }
+      machineRates[unit] = rate;
+    }
+    
     try {
       setLoading(true);
       
@@ -167,6 +234,30 @@ const AddMachine = () => {
         throw new Error('User not authenticated');
       }
       
+      if (editMachineId) {
+        await updateMachine(editMachineId, currentUser.uid, {
+          name,
+          price: parseFloat(price),
+          description,
+          category,
+          status,
+          contact,
+          phone,
+          location,
+          image,
+          rates: machineRates,
+        });
+        
+        setLoading(false);
+        
+        Alert.alert(
+          t('common.success'),
+          t('addMachine.updated'),
+          [{ text: t('common.ok'), onPress: () => navigation.goBack() }]
+        );
+        return;
+      }
+      
       // Create machine data object
       const machineData = {
         name,
@@ -178,7 +269,9 @@ const AddMachine = () => {
         phone,
         location,
         image: image, // Base64 image
-        createdBy: currentUser.uid
+        rates: machineRates,
+        createdBy: currentUser.uid,
+        ownerEmail: currentUser.email || ''
       };
       
       // Use the utility function to add machine
@@ -188,19 +281,19 @@ const AddMachine = () => {
       
       // Show success message
       Alert.alert(
-        'Success',
-        'Your machine has been added successfully!',
+        t('common.success'),
+        t('addMachine.added'),
         [
           {
-            text: 'OK',
+            text: t('common.ok'),
             onPress: () => navigation.navigate('MachineDetails', { machineId }),
           },
         ]
       );
     } catch (error) {
-      console.error('Error adding machine:', error);
+      console.error(isEditing ? 'Error updating machine:' : 'Error adding machine:', error);
       setLoading(false);
-      Alert.alert('Error', 'Failed to add machine. Please try again.');
+      Alert.alert(t('common.error'), isEditing ? t('addMachine.updateFailed') : t('addMachine.addFailed'));
     }
   };
   
@@ -214,10 +307,15 @@ const AddMachine = () => {
         <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
           <Ionicons name="arrow-back" size={24} color={colors.white} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Add Machine</Text>
+        <Text style={styles.headerTitle}>{isEditing ? t('addMachine.editTitle') : t('addMachine.addTitle')}</Text>
         <View style={{ width: 24 }} />
       </View>
       
+      {loadingMachine ? (
+        <View style={styles.machineLoadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
         {/* Image Picker */}
         <TouchableOpacity style={styles.imagePickerContainer} onPress={pickImage}>
@@ -226,37 +324,57 @@ const AddMachine = () => {
           ) : (
             <>
               <Ionicons name="camera-outline" size={40} color={colors.lightText} />
-              <Text style={styles.imagePickerText}>Tap to select an image</Text>
+              <Text style={styles.imagePickerText}>{t('addMachine.tapToSelect')}</Text>
             </>
           )}
         </TouchableOpacity>
         
         {/* Form Fields */}
         <View style={styles.formGroup}>
-          <Text style={styles.label}>Machine Name*</Text>
+          <Text style={styles.label}>{t('addMachine.name')}</Text>
           <TextInput
             style={styles.input}
             value={name}
             onChangeText={setName}
-            placeholder="Enter machine name"
+            placeholder={t('addMachine.namePlaceholder')}
             placeholderTextColor={colors.lightText}
           />
         </View>
         
         <View style={styles.formGroup}>
-          <Text style={styles.label}>Price*</Text>
+          <Text style={styles.label}>{t('addMachine.price')}</Text>
           <TextInput
             style={styles.input}
             value={price}
             onChangeText={setPrice}
-            placeholder="Enter price"
+            placeholder={t('addMachine.pricePlaceholder')}
             placeholderTextColor={colors.lightText}
             keyboardType="numeric"
           />
         </View>
         
         <View style={styles.formGroup}>
-          <Text style={styles.label}>Category*</Text>
+          <Text style={styles.label}>{t('addMachine.rentalRates')}</Text>
+          <Text style={styles.hint}>{t('addMachine.ratesHint')}</Text>
+          <View style={styles.ratesRow}>
+            {RATE_UNITS.map((unit) => (
+              <View key={unit} style={styles.rateField}>
+                <Text style={styles.rateLabel}>{t(`machines.rateUnits.${unit}`)}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={rates[unit]}
+                  onChangeText={(value) => setRates(current => ({ ...current, [unit]: value }))}
+                  placeholder={t('format.currencySymbol')}
+                  placeholderTextColor={colors.lightText}
+                  keyboardType="numeric"
+                />
+              </View>
+            ))}
+          </View>
+        </View>
+        
+        <View style={styles.formGroup}>
+          <Text style={styles.label}>{t('addMachine.category')}</Text>
           <View style={styles.pickerContainer}>
             <Picker
               selectedValue={category}
@@ -271,7 +389,7 @@ const AddMachine = () => {
         </View>
         
         <View style={styles.formGroup}>
-          <Text style={styles.label}>Status*</Text>
+          <Text style={styles.label}>{t('addMachine.status')}</Text>
           <View style={styles.pickerContainer}>
             <Picker
               selectedValue={status}
@@ -281,7 +399,7 @@ const AddMachine = () => {
               {MACHINE_STATUSES.map((statusOption) => (
                 <Picker.Item 
                   key={statusOption.value} 
-                  label={statusOption.label} 
+                  label={t(`machines.status.${statusOption.value}`)} 
                   value={statusOption.value} 
                 />
               ))}
@@ -290,46 +408,46 @@ const AddMachine = () => {
         </View>
         
         <View style={styles.formGroup}>
-          <Text style={styles.label}>Contact Person*</Text>
+          <Text style={styles.label}>{t('addMachine.contact')}</Text>
           <TextInput
             style={styles.input}
             value={contact}
             onChangeText={setContact}
-            placeholder="Enter contact person name"
+            placeholder={t('addMachine.contactPlaceholder')}
             placeholderTextColor={colors.lightText}
           />
         </View>
         
         <View style={styles.formGroup}>
-          <Text style={styles.label}>Phone Number*</Text>
+          <Text style={styles.label}>{t('addMachine.phone')}</Text>
           <TextInput
             style={styles.input}
             value={phone}
             onChangeText={setPhone}
-            placeholder="Enter phone number"
+            placeholder={t('addMachine.phonePlaceholder')}
             placeholderTextColor={colors.lightText}
             keyboardType="phone-pad"
           />
         </View>
         
         <View style={styles.formGroup}>
-          <Text style={styles.label}>Location</Text>
+          <Text style={styles.label}>{t('addMachine.location')}</Text>
           <TextInput
             style={styles.input}
             value={location}
             onChangeText={setLocation}
-            placeholder="Enter location"
+            placeholder={t('addMachine.locationPlaceholder')}
             placeholderTextColor={colors.lightText}
           />
         </View>
         
         <View style={styles.formGroup}>
-          <Text style={styles.label}>Description*</Text>
+          <Text style={styles.label}>{t('addMachine.description')}</Text>
           <TextInput
             style={[styles.input, styles.textArea]}
             value={description}
             onChangeText={setDescription}
-            placeholder="Enter machine description"
+            placeholder={t('addMachine.descriptionPlaceholder')}
             placeholderTextColor={colors.lightText}
             multiline
             numberOfLines={4}
@@ -338,7 +456,7 @@ const AddMachine = () => {
         </View>
         
         <Button
-          title="Add Machine"
+          title={isEditing ? t('common.saveChanges') : t('addMachine.addTitle')}
           onPress={handleSubmit}
           type="primary"
           size="large"
@@ -350,11 +468,12 @@ const AddMachine = () => {
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="small" color={colors.primary} />
             <Text style={styles.loadingText}>
-              {uploading ? 'Uploading image...' : 'Adding machine...'}
+              {uploading ? t('addMachine.uploading') : isEditing ? t('addMachine.saving') : t('addMachine.adding')}
             </Text>
           </View>
         )}
       </ScrollView>
+      )}
     </KeyboardAvoidingView>
   );
 };
@@ -425,6 +544,24 @@ const styles = StyleSheet.create({
     color: colors.text,
     ...shadows.small,
   },
+  hint: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+    marginBottom: spacing.sm,
+  },
+  ratesRow: {
+    flexDirection: 'row',
+    marginHorizontal: -spacing.xs,
+  },
+  rateField: {
+    flex: 1,
+    marginHorizontal: spacing.xs,
+  },
+  rateLabel: {
+    fontSize: fontSizes.sm,
+    color: colors.text,
+    marginBottom: spacing.xs,
+  },
   textArea: {
     minHeight: 100,
     textAlignVertical: 'top',
@@ -446,6 +583,11 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     marginTop: spacing.md,
   },
+  machineLoadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   loadingText: {
     marginLeft: spacing.sm,
     color: colors.text,
@@ -24,6 +24,8 @@ import { collection, addDoc, serverTimestamp, query, where, getDocs } from 'fire
 import { db, auth } from '../utilities/firebaseConfig';
 import { getAllCategories } from '../utilities/firestoreUtils';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useTranslation } from '../hooks/useTranslation';
+import { useEmailVerification } from '../hooks/useEmailVerification';
 
 // Constants for AsyncStorage keys
 const USER_EMAIL_KEY = 'user_email';
@@ -31,12 +33,17 @@ const USER_NAME_KEY = 'user_name';
 
 const PLACEHOLDER_IMAGE = 'https://st4.depositphotos.com/14953852/24787/v/450/depositphotos_247872612-stock-illustration-no-image-available-icon-vector.jpg';
 
+// Units a product can be sold in; a bag is a 50 kg sack
+const PRODUCT_UNITS = ['kg', 'g', 'bag', 'liter', 'piece', 'pack', 'box'];
+
 type AddProductScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'AddProduct'>;
 type AddProductScreenRouteProp = RouteProp<RootStackParamList, 'AddProduct'>;
 
 const AddProductScreen = () => {
   const navigation = useNavigation<AddProductScreenNavigationProp>();
   const route = useRoute<AddProductScreenRouteProp>();
+  const { t, locale } = useTranslation();
+  const { requireVerifiedEmail } = useEmailVerification();
   const preselectedCategoryId = route.params?.preselectedCategoryId;
   const preselectedCategoryName = route.params?.categoryName;
   
@@ -62,9 +69,12 @@ const AddProductScreen = () => {
   const [failedImages, setFailedImages] = useState<{[key: string]: boolean}>({});
 
   useEffect(() => {
-    loadCategories();
     loadUserData();
   }, []);
+
+  useEffect(() => {
+    loadCategories();
+  }, [locale]);
   
   // Load preselected category data
   useEffect(() => {
@@ -101,11 +111,11 @@ const AddProductScreen = () => {
   const loadCategories = async () => {
     try {
       setCategoriesLoading(true);
-      const categoriesData = await getAllCategories();
+      const categoriesData = await getAllCategories(locale);
       setCategories(categoriesData);
     } catch (error) {
       console.error('Error loading categories:', error);
-      Alert.alert('Error', 'Failed to load categories. Please try again.');
+      Alert.alert(t('common.error'), t('addProduct.categoriesFailed'));
     } finally {
       setCategoriesLoading(false);
     }
@@ -124,7 +134,7 @@ const AddProductScreen = () => {
       const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
       
       if (!permissionResult.granted) {
-        Alert.alert('Permission Required', 'You need to grant permission to access your photos.');
+        Alert.alert(t('common.permissionRequired'), t('common.photoPermission'));
         return;
       }
       
@@ -161,14 +171,14 @@ const AddProductScreen = () => {
           console.log('Image converted to Base64 successfully');
         } catch (error) {
           console.error('Error processing image:', error);
-          Alert.alert('Error', 'Failed to process image. Please try again.');
+          Alert.alert(t('common.error'), t('common.imageProcessFailed'));
         } finally {
           setImageLoading(false);
         }
       }
     } catch (error) {
       console.error('Error picking image:', error);
-      Alert.alert('Error', 'Failed to pick image. Please try again.');
+      Alert.alert(t('common.error'), t('common.imagePickFailed'));
       setImageLoading(false);
     }
   };
@@ -179,7 +189,7 @@ const AddProductScreen = () => {
       const permissionResult = await ImagePicker.requestCameraPermissionsAsync();
       
       if (!permissionResult.granted) {
-        Alert.alert('Permission Required', 'You need to grant permission to access your camera.');
+        Alert.alert(t('common.permissionRequired'), t('common.cameraPermission'));
         return;
       }
       
@@ -215,14 +225,14 @@ const AddProductScreen = () => {
           console.log('Photo converted to Base64 successfully');
         } catch (error) {
           console.error('Error processing photo:', error);
-          Alert.alert('Error', 'Failed to process photo. Please try again.');
+          Alert.alert(t('common.error'), t('common.photoProcessFailed'));
         } finally {
           setImageLoading(false);
         }
       }
     } catch (error) {
       console.error('Error taking photo:', error);
-      Alert.alert('Error', 'Failed to take photo. Please try again.');
+      Alert.alert(t('common.error'), t('common.photoTakeFailed'));
       setImageLoading(false);
     }
   };
@@ -233,37 +243,37 @@ const AddProductScreen = () => {
 
   const validateForm = () => {
     if (!name.trim()) {
-      Alert.alert('Missing Information', 'Please enter a product name');
+      Alert.alert(t('common.missingInfo'), t('addProduct.enterName'));
       return false;
     }
     
     if (!price.trim() || isNaN(parseFloat(price))) {
-      Alert.alert('Invalid Price', 'Please enter a valid price');
+      Alert.alert(t('common.invalidPrice'), t('addProduct.enterPrice'));
       return false;
     }
     
     if (!category) {
-      Alert.alert('Missing Information', 'Please select a category');
+      Alert.alert(t('common.missingInfo'), t('addProduct.selectCategory'));
       return false;
     }
     
     if (!description.trim()) {
-      Alert.alert('Missing Information', 'Please enter a product description');
+      Alert.alert(t('common.missingInfo'), t('addProduct.enterDescription'));
       return false;
     }
     
     if (!shopName.trim()) {
-      Alert.alert('Missing Information', 'Please enter your shop name');
+      Alert.alert(t('common.missingInfo'), t('addProduct.enterShopName'));
       return false;
     }
     
     if (images.length === 0) {
-      Alert.alert('Missing Image', 'Please add at least one product image');
+      Alert.alert(t('common.missingImage'), t('addProduct.addImage'));
       return false;
     }
     
     if (!userEmail) {
-      Alert.alert('Error', 'Unable to determine user email. Please log in again.');
+      Alert.alert(t('common.error'), t('addProduct.noEmail'));
       return false;
     }
     
@@ -272,6 +282,7 @@ const AddProductScreen = () => {
 
   const handleSubmit = async () => {
     if (!validateForm()) return;
+    if (!(await requireVerifiedEmail())) return;
     
     try {
       setIsSubmitting(true);
@@ -340,7 +351,7 @@ const AddProductScreen = () => {
       };
       
       // Save to Firestore
-      const productRef = await addDoc(collection(db, 'productsC'), productData);
+      const productRef = await addDoc(collection(db, 'products'), productData);
       
       // If we have a shop ID, add this product to the shop's products array
       if (shopId) {
@@ -371,9 +382,9 @@ const AddProductScreen = () => {
       setIsSubmitting(false);
       
       Alert.alert(
-        'Success',
-        'Product added successfully!',
-        [{ text: 'OK', onPress: () => navigation.goBack() }]
+        t('common.success'),
+        t('addProduct.added'),
+        [{ text: t('common.ok'), onPress: () => navigation.goBack() }]
       );
       
       // Reset form
@@ -390,7 +401,7 @@ const AddProductScreen = () => {
     } catch (error) {
       console.error('Error adding product:', error);
       setIsSubmitting(false);
-      Alert.alert('Error', 'Failed to add product. Please try again.');
+      Alert.alert(t('common.error'), t('addProduct.addFailed'));
     }
   };
 
@@ -407,7 +418,7 @@ const AddProductScreen = () => {
         >
           <Ionicons name="arrow-back" size={24} color={colors.white} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Add New Product</Text>
+        <Text style={styles.headerTitle}>{t('addProduct.title')}</Text>
         <View style={{ width: 24 }} />
       </View>
 
@@ -417,25 +428,25 @@ const AddProductScreen = () => {
       >
         {/* Product Info Section */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Product Information</Text>
+          <Text style={styles.sectionTitle}>{t('addProduct.productInfo')}</Text>
           
           <View style={styles.formGroup}>
-            <Text style={styles.label}>Product Name*</Text>
+            <Text style={styles.label}>{t('addProduct.productName')}</Text>
             <TextInput
               style={styles.input}
               value={name}
               onChangeText={setName}
-              placeholder="Enter product name"
+              placeholder={t('addProduct.productNamePlaceholder')}
               placeholderTextColor={colors.lightText}
             />
           </View>
           
           <View style={styles.formGroup}>
-            <Text style={styles.label}>Category*</Text>
+            <Text style={styles.label}>{t('addProduct.category')}</Text>
             {categoriesLoading ? (
               <View style={styles.loadingContainer}>
                 <ActivityIndicator size="small" color={colors.primary} />
-                <Text style={styles.loadingText}>Loading categories...</Text>
+                <Text style={styles.loadingText}>{t('addProduct.loadingCategories')}</Text>
               </View>
             ) : (
               <View style={styles.pickerContainer}>
@@ -446,7 +457,7 @@ const AddProductScreen = () => {
                   mode="dropdown"
                   enabled={!preselectedCategoryId}
                 >
-                  <Picker.Item label={preselectedCategoryId ? (preselectedCategoryName || "Selected Category") : "Select a category"} value="" color={colors.lightText} />
+                  <Picker.Item label={preselectedCategoryId ? (preselectedCategoryName || t('addProduct.selectedCategory')) : t('addProduct.selectCategoryOption')} value="" color={colors.lightText} />
                   {categories.map((cat) => (
                     <Picker.Item key={cat.id} label={cat.name} value={cat.id} />
                   ))}
@@ -454,27 +465,25 @@ const AddProductScreen = () => {
               </View>
             )}
             {preselectedCategoryId && preselectedCategoryName && (
-              <Text style={styles.preselectedText}>Using category: {preselectedCategoryName}</Text>
+              <Text style={styles.preselectedText}>{t('addProduct.usingCategory', { categoryName: preselectedCategoryName })}</Text>
             )}
           </View>
           
           <View style={styles.formGroup}>
-            <Text style={styles.label}>Shop Name*</Text>
+            <Text style={styles.label}>{t('addProduct.shopName')}</Text>
             <TextInput
               style={styles.input}
               value={shopName}
               onChangeText={setShopName}
-              placeholder="Enter your shop name"
+              placeholder={t('addProduct.shopNamePlaceholder')}
               placeholderTextColor={colors.lightText}
             />
-            <Text style={styles.helperText}>
-              Enter the name of your shop or business
-            </Text>
+            <Text style={styles.helperText}>{t('addProduct.shopNameHelp')}</Text>
           </View>
           
           <View style={styles.formRow}>
             <View style={[styles.formGroup, { flex: 2, marginRight: spacing.md }]}>
-              <Text style={styles.label}>Price (Rs)*</Text>
+              <Text style={styles.label}>{t('addProduct.price')}</Text>
               <TextInput
                 style={styles.input}
                 value={price}
@@ -486,7 +495,7 @@ const AddProductScreen = () => {
             </View>
             
             <View style={[styles.formGroup, { flex: 1 }]}>
-              <Text style={styles.label}>Quantity</Text>
+              <Text style={styles.label}>{t('addProduct.quantity')}</Text>
               <TextInput
                 style={styles.input}
                 value={quantity}
@@ -499,7 +508,7 @@ const AddProductScreen = () => {
           </View>
           
           <View style={styles.formGroup}>
-            <Text style={styles.label}>Unit</Text>
+            <Text style={styles.label}>{t('addProduct.unit')}</Text>
             <View style={styles.pickerContainer}>
               <Picker
                 selectedValue={unit}
@@ -507,34 +516,31 @@ const AddProductScreen = () => {
                 style={styles.picker}
                 mode="dropdown"
               >
-                <Picker.Item label="kg" value="kg" />
-                <Picker.Item label="g" value="g" />
-                <Picker.Item label="liter" value="liter" />
-                <Picker.Item label="piece" value="piece" />
-                <Picker.Item label="pack" value="pack" />
-                <Picker.Item label="box" value="box" />
+                {PRODUCT_UNITS.map(productUnit => (
+                  <Picker.Item key={productUnit} label={t(`units.names.${productUnit}`)} value={productUnit} />
+                ))}
               </Picker>
             </View>
           </View>
           
           <View style={styles.formGroup}>
-            <Text style={styles.label}>Location</Text>
+            <Text style={styles.label}>{t('addProduct.location')}</Text>
             <TextInput
               style={styles.input}
               value={location}
               onChangeText={setLocation}
-              placeholder="Enter your location"
+              placeholder={t('addProduct.locationPlaceholder')}
               placeholderTextColor={colors.lightText}
             />
           </View>
           
           <View style={styles.formGroup}>
-            <Text style={styles.label}>Description*</Text>
+            <Text style={styles.label}>{t('addProduct.description')}</Text>
             <TextInput
               style={[styles.input, styles.textArea]}
               value={description}
               onChangeText={setDescription}
-              placeholder="Enter product description"
+              placeholder={t('addProduct.descriptionPlaceholder')}
               placeholderTextColor={colors.lightText}
               multiline
               numberOfLines={4}
@@ -545,20 +551,20 @@ const AddProductScreen = () => {
           {userEmail ? (
             <View style={styles.userInfoContainer}>
               <Ionicons name="mail-outline" size={16} color={colors.lightText} />
-              <Text style={styles.userInfoText}>Product will be listed with: {userEmail}</Text>
+              <Text style={styles.userInfoText}>{t('addProduct.listedWith', { email: userEmail })}</Text>
             </View>
           ) : (
             <View style={styles.userInfoContainer}>
               <Ionicons name="warning-outline" size={16} color={colors.error} />
-              <Text style={styles.userInfoTextError}>No user email found. Please log in again.</Text>
+              <Text style={styles.userInfoTextError}>{t('addProduct.noEmailFound')}</Text>
             </View>
           )}
         </View>
         
         {/* Product Images Section */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Product Images</Text>
-          <Text style={styles.sectionSubtitle}>Add up to 5 images of your product</Text>
+          <Text style={styles.sectionTitle}>{t('addProduct.images')}</Text>
+          <Text style={styles.sectionSubtitle}>{t('addProduct.imagesHint')}</Text>
           
           <View style={styles.imagesContainer}>
             {images.map((image, index) => (
@@ -585,7 +591,7 @@ const AddProductScreen = () => {
                   ) : (
                     <>
                       <Ionicons name="images" size={24} color={colors.white} />
-                      <Text style={styles.addImageText}>Gallery</Text>
+                      <Text style={styles.addImageText}>{t('common.gallery')}</Text>
                     </>
                   )}
                 </TouchableOpacity>
@@ -600,7 +606,7 @@ const AddProductScreen = () => {
                   ) : (
                     <>
                       <Ionicons name="camera" size={24} color={colors.white} />
-                      <Text style={styles.addImageText}>Camera</Text>
+                      <Text style={styles.addImageText}>{t('common.camera')}</Text>
                     </>
                   )}
                 </TouchableOpacity>
@@ -611,10 +617,8 @@ const AddProductScreen = () => {
           {images.length === 0 && !imageLoading && (
             <View style={styles.noImagesContainer}>
               <Ionicons name="images-outline" size={48} color={colors.lightText} />
-              <Text style={styles.noImagesText}>No images added yet</Text>
-              <Text style={styles.noImagesSubtext}>
-                Add at least one image of your product
-              </Text>
+              <Text style={styles.noImagesText}>{t('addProduct.noImages')}</Text>
+              <Text style={styles.noImagesSubtext}>{t('addProduct.noImagesHint')}</Text>
             </View>
           )}
         </View>
@@ -633,7 +637,7 @@ const AddProductScreen = () => {
           ) : (
             <>
               <Ionicons name="checkmark-circle" size={20} color={colors.white} />
-              <Text style={styles.submitButtonText}>Add Product</Text>
+              <Text style={styles.submitButtonText}>{t('addProduct.submit')}</Text>
             </>
           )}
         </TouchableOpacity>
@@ -14,6 +14,8 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList, Article } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import { getArticleById, getAllArticles } from '../utilities/firestoreUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
 
 type ArticleDetailsRouteProp = RouteProp<RootStackParamList, 'ArticleDetails'>;
 type ArticleDetailsNavigationProp = NativeStackNavigationProp<RootStackParamList, 'ArticleDetails'>;
@@ -24,6 +26,8 @@ const PLACEHOLDER_IMAGE = 'https://st4.depositphotos.com/14953852/24787/v/450/de
 const ArticleDetailsScreen = () => {
   const route = useRoute<ArticleDetailsRouteProp>();
   const navigation = useNavigation<ArticleDetailsNavigationProp>();
+  const { t, locale } = useTranslation();
+  const { formatDate } = useFormat();
   const { articleId } = route.params;
   
   const [article, setArticle] = useState<Article | null>(null);
@@ -39,10 +43,10 @@ const ArticleDetailsScreen = () => {
         setError('');
         
         // Fetch article details
-        const articleData = await getArticleById(articleId);
+        const articleData = await getArticleById(articleId, locale);
         
         if (!articleData) {
-          setError('Article not found');
+          setError(t('articles.notFound'));
           setLoading(false);
           return;
         }
@@ -50,7 +54,7 @@ const ArticleDetailsScreen = () => {
         setArticle(articleData);
         
         // Fetch related articles
-        const allArticles = await getAllArticles();
+        const allArticles = await getAllArticles(locale);
         
         // Filter for related articles (exclude current article and limit to those sharing tags)
         const related = allArticles
@@ -64,20 +68,20 @@ const ArticleDetailsScreen = () => {
         setLoading(false);
       } catch (err) {
         console.error('Error loading article:', err);
-        setError('Failed to load article. Please try again.');
+        setError(t('articles.loadArticleFailed'));
         setLoading(false);
       }
     };
     
     loadArticleData();
-  }, [articleId]);
+  }, [articleId, locale]);
 
   const handleShare = async () => {
     if (!article) return;
     
     try {
       await Share.share({
-        message: `Check out this article: ${article.title}\n\n${article.summary}\n\nRead more in the AgriSaviya app!`,
+        message: t('articles.shareMessage', { title: article.title, summary: article.summary }),
         title: article.title,
       });
     } catch (error) {
@@ -105,7 +109,7 @@ const ArticleDetailsScreen = () => {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary} />
-        <Text style={styles.loadingText}>Loading article...</Text>
+        <Text style={styles.loadingText}>{t('articles.loadingArticle')}</Text>
       </View>
     );
   }
@@ -114,12 +118,12 @@ const ArticleDetailsScreen = () => {
   if (error || !article) {
     return (
       <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>{error || 'Article not found'}</Text>
+        <Text style={styles.errorText}>{error || t('articles.notFound')}</Text>
         <TouchableOpacity
           style={styles.backButton}
           onPress={() => navigation.goBack()}
         >
-          <Text style={styles.backButtonText}>Go Back</Text>
+          <Text style={styles.backButtonText}>{t('common.goBack')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -128,11 +132,7 @@ const ArticleDetailsScreen = () => {
   // Split the content into paragraphs for better readability
   const paragraphs = article.content.split('\n\n').filter(p => p.trim() !== '');
 
-  const formattedDate = article.date.toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+  const formattedDate = formatDate(article.date);
 
   return (
     <View style={styles.container}>
@@ -152,7 +152,7 @@ const ArticleDetailsScreen = () => {
               <Text style={styles.date}>{formattedDate}</Text>
             </View>
             <TouchableOpacity style={styles.shareButton} onPress={handleShare}>
-              <Text style={styles.shareButtonText}>Share</Text>
+              <Text style={styles.shareButtonText}>{t('articles.share')}</Text>
             </TouchableOpacity>
           </View>
 
@@ -178,7 +178,7 @@ const ArticleDetailsScreen = () => {
 
           {relatedArticles.length > 0 && (
             <View style={styles.relatedArticlesContainer}>
-              <Text style={styles.relatedArticlesTitle}>Related Articles</Text>
+              <Text style={styles.relatedArticlesTitle}>{t('articles.related')}</Text>
               <ScrollView horizontal showsHorizontalScrollIndicator={false}>
                 {relatedArticles.map((relatedArticle) => (
                   <TouchableOpacity
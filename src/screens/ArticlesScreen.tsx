@@ -16,6 +16,8 @@ import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import Card from '../components/Card';
 import { truncateText } from '../utils';
 import { getAllArticles } from '../utilities/firestoreUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
 
 type ArticlesScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Articles'>;
 
@@ -24,6 +26,8 @@ const PLACEHOLDER_IMAGE = 'https://st4.depositphotos.com/14953852/24787/v/450/de
 
 const ArticlesScreen = () => {
   const navigation = useNavigation<ArticlesScreenNavigationProp>();
+  const { t, locale } = useTranslation();
+  const { formatDate } = useFormat();
   const [searchQuery, setSearchQuery] = useState('');
   const [activeTag, setActiveTag] = useState<string | null>(null);
   const [articles, setArticles] = useState<Article[]>([]);
@@ -38,7 +42,7 @@ const ArticlesScreen = () => {
         setLoading(true);
         
         // Fetch all articles from Firestore
-        const articlesData = await getAllArticles();
+        const articlesData = await getAllArticles(locale);
         
         // Sort by date (newest first)
         const sortedArticles = articlesData.sort(
@@ -54,13 +58,13 @@ const ArticlesScreen = () => {
         setLoading(false);
       } catch (err) {
         console.error('Error loading articles:', err);
-        setError('Failed to load articles. Please try again.');
+        setError(t('articles.loadFailed'));
         setLoading(false);
       }
     };
     
     loadArticles();
-  }, []);
+  }, [locale]);
 
   // Filter articles based on search query and active tag
   const filteredArticles = articles.filter(article => {
@@ -84,7 +88,7 @@ const ArticlesScreen = () => {
   const handleRefresh = async () => {
     try {
       setLoading(true);
-      const articlesData = await getAllArticles();
+      const articlesData = await getAllArticles(locale);
       const sortedArticles = articlesData.sort(
         (a, b) => b.date.getTime() - a.date.getTime()
       );
@@ -99,7 +103,7 @@ const ArticlesScreen = () => {
       setLoading(false);
     } catch (err) {
       console.error('Error refreshing articles:', err);
-      setError('Failed to refresh articles. Please try again.');
+      setError(t('articles.refreshFailed'));
       setLoading(false);
     }
   };
@@ -148,11 +152,7 @@ const ArticlesScreen = () => {
             <View style={styles.articleMeta}>
               <Text style={styles.articleAuthor}>{item.author}</Text>
               <Text style={styles.articleDate}>
-                {item.date.toLocaleDateString('en-US', {
-                  year: 'numeric',
-                  month: 'short',
-                  day: 'numeric',
-                })}
+                {formatDate(item.date, 'medium')}
               </Text>
             </View>
             <View style={styles.articleTags}>
@@ -173,7 +173,7 @@ const ArticlesScreen = () => {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary} />
-        <Text style={styles.loadingText}>Loading articles...</Text>
+        <Text style={styles.loadingText}>{t('articles.loading')}</Text>
       </View>
     );
   }
@@ -187,7 +187,7 @@ const ArticlesScreen = () => {
           style={styles.retryButton}
           onPress={handleRefresh}
         >
-          <Text style={styles.retryButtonText}>Retry</Text>
+          <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -199,7 +199,7 @@ const ArticlesScreen = () => {
       <View style={styles.searchContainer}>
         <TextInput
           style={styles.searchInput}
-          placeholder="Search articles..."
+          placeholder={t('articles.searchPlaceholder')}
           value={searchQuery}
           onChangeText={setSearchQuery}
         />
@@ -228,7 +228,7 @@ const ArticlesScreen = () => {
         />
       ) : (
         <View style={styles.noResultsContainer}>
-          <Text style={styles.noResultsText}>No articles found</Text>
+          <Text style={styles.noResultsText}>{t('articles.noResults')}</Text>
           <TouchableOpacity
             style={styles.clearFiltersButton}
             onPress={() => {
@@ -236,7 +236,7 @@ const ArticlesScreen = () => {
               setActiveTag(null);
             }}
           >
-            <Text style={styles.clearFiltersButtonText}>Clear Filters</Text>
+            <Text style={styles.clearFiltersButtonText}>{t('common.clearFilters')}</Text>
           </TouchableOpacity>
         </View>
       )}
@@ -10,15 +10,35 @@ import {
   Alert,
   ActivityIndicator,
   Modal,
+  Switch,
 } from 'react-native';
 import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { RootStackParamList, Bid, BidOffer } from '../types';
+import { RootStackParamList, Bid, BidOffer, ProxyBid } from '../types';
 import { colors, fontSizes, spacing, borderRadius } from '../theme';
-import { formatCurrency } from '../utils';
 import { Ionicons } from '@expo/vector-icons';
-import { getBidById, placeBidOffer } from '../utilities/firestoreUtils';
+import {
+  getBidById,
+  placeBidOffer,
+  setProxyBid,
+  getMyProxyBid,
+  getBidReserve,
+  confirmBidSale,
+  relistBid,
+  startConversation,
+} from '../utilities/firestoreUtils';
+import {
+  getMinimumNextBid,
+  isAuctionExpired,
+  isReserveMet,
+  BidValidationError,
+  ANTI_SNIPING_WINDOW_MINUTES,
+  ANTI_SNIPING_EXTENSION_MINUTES,
+} from '../utilities/auctionRules';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+import { useEmailVerification } from '../hooks/useEmailVerification';
 
 const EMAIL_KEY = 'user_email';
 
@@ -28,6 +48,9 @@ type BidDetailsScreenNavigationProp = NativeStackNavigationProp<RootStackParamLi
 const BidDetailsScreen = () => {
   const route = useRoute<BidDetailsScreenRouteProp>();
   const navigation = useNavigation<BidDetailsScreenNavigationProp>();
+  const { t } = useTranslation();
+  const { formatCurrency, formatDate } = useFormat();
+  const { requireVerifiedEmail } = useEmailVerification();
   const { bidId } = route.params;
   
   const [bid, setBid] = useState<Bid | null>(null);
@@ -37,6 +60,10 @@ const BidDetailsScreen = () => {
   const [bidAmount, setBidAmount] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [showBidModal, setShowBidModal] = useState(false);
+  const [isUpdatingSale, setIsUpdatingSale] = useState(false);
+  const [isProxyBid, setIsProxyBid] = useState(false);
+  const [myProxyBid, setMyProxyBid] = useState<ProxyBid | null>(null);
+  const [reservePrice, setReservePrice] = useState<number | null>(null);
   
   useEffect(() => {
     const loadBidDetails = async () => {
@@ -46,22 +73,29 @@ const BidDetailsScreen = () => {
         
         // Load bid details
         const bidData = await getBidById(bidId);
+        
         if (bidData) {
           setBid(bidData);
         } else {
-          setError('Bid not found');
+          setError(t('bids.notFound'));
         }
         
         // Load user email
         const email = await AsyncStorage.getItem(EMAIL_KEY);
         if (email) {
           setUserEmail(email);
+          setMyProxyBid(await getMyProxyBid(bidId, email));
+          
+          // Only the seller can read the reserve amount
+          if (bidData?.hasReserve && bidData.email.toLowerCase() === email.toLowerCase()) {
+            setReservePrice(await getBidReserve(bidId));
+          }
         }
         
         setLoading(false);
       } catch (error) {
         console.error('Error loading bid details:', error);
-        setError('Failed to load bid details. Please try again later.');
+        setError(t('bids.loadFailed'));
         setLoading(false);
       }
     };
@@ -72,48 +106,43 @@ const BidDetailsScreen = () => {
   const handlePlaceBid = async () => {
     // Validate inputs
     if (!bidAmount) {
-      Alert.alert('Missing Amount', 'Please enter a bid amount.');
+      Alert.alert(t('bids.missingAmount'), t('bids.missingAmountMessage'));
       return;
     }
     
     const amount = parseFloat(bidAmount);
     if (isNaN(amount) || amount <= 0) {
-      Alert.alert('Invalid Amount', 'Please enter a valid bid amount.');
+      Alert.alert(t('bids.invalidAmount'), t('bids.invalidAmountMessage'));
       return;
     }
     
     if (!userEmail) {
-      Alert.alert('Not Logged In', 'Please log in to place a bid.');
+      Alert.alert(t('bids.notLoggedIn'), t('bids.loginToBid'));
       return;
     }
     
     if (!bid) return;
     
-    // Check if amount is higher than starting price
-    if (amount <= bid.startPrice) {
-      Alert.alert('Too Low', 'Your bid must be higher than the starting price.');
-      return;
-    }
-    
-    // Check if amount is higher than highest bid
-    const highestBid = bid.bids.reduce((max, current) => 
-      current.amount > max ? current.amount : max, 
-      0
-    );
-    
-    if (amount <= highestBid) {
-      Alert.alert('Too Low', 'Your bid must be higher than the current highest bid.');
+    // Quick check against what we last loaded; placeBidOffer re-checks against the latest bids
+    const minimumBid = getMinimumNextBid(bid);
+    if (amount < minimumBid && !isProxyBid) {
+      Alert.alert(t('bids.tooLow'), t('bids.minimumMessage', { amount: formatCurrency(minimumBid) }));
       return;
     }
     
     try {
       setIsPlacingBid(true);
       
-      // Place the bid
-      await placeBidOffer(bidId, {
-        amount: amount,
-        email: userEmail
-      });
+      if (isProxyBid) {
+        // The system bids for the user up to this amount; only the resulting offers are shown
+        await setProxyBid(bidId, userEmail, amount);
+        setMyProxyBid(await getMyProxyBid(bidId, userEmail));
+      } else {
+        await placeBidOffer(bidId, {
+          amount: amount,
+          email: userEmail
+        });
+      }
       
       // Refresh bid data
       const updatedBid = await getBidById(bidId);
@@ -125,14 +154,142 @@ const BidDetailsScreen = () => {
       setBidAmount('');
       setIsPlacingBid(false);
       
-      Alert.alert('Success', 'Your bid has been placed successfully!');
+      Alert.alert(
+        t('common.success'),
+        isProxyBid
+          ? t('bids.proxySet', { amount: formatCurrency(amount) })
+          : t('bids.placed')
+      );
     } catch (error: any) {
       console.error('Error placing bid:', error);
       setIsPlacingBid(false);
-      Alert.alert('Error', error.message || 'Failed to place bid. Please try again later.');
+      
+      if (error instanceof BidValidationError) {
+        // Someone may have outbid us in the meantime, so show the latest offers
+        const updatedBid = await getBidById(bidId);
+        if (updatedBid) {
+          setBid(updatedBid);
+        }
+        Alert.alert(
+          t('bids.notPlaced'),
+          t(`bids.rejections.${error.reason}`, {
+            amount: error.minimumAmount !== undefined ? formatCurrency(error.minimumAmount) : '',
+          })
+        );
+        return;
+      }
+      
+      Alert.alert(t('common.error'), error.message || t('bids.placeFailed'));
+    }
+  };
+  
+  const handleOpenBidModal = async () => {
+    if (!userEmail) {
+      Alert.alert(t('bids.notLoggedIn'), t('bids.loginToBid'));
+      return;
+    }
+    
+    if (await requireVerifiedEmail()) {
+      setShowBidModal(true);
     }
   };
   
+  const handleBuyNow = async () => {
+    if (!bid?.buyNowPrice) return;
+    
+    if (!userEmail) {
+      Alert.alert(t('bids.notLoggedIn'), t('bids.loginToBid'));
+      return;
+    }
+    
+    if (!(await requireVerifiedEmail())) return;
+    
+    Alert.alert(
+      t('bids.buyNow'),
+      t('bids.buyNowConfirm', { amount: formatCurrency(bid.buyNowPrice) }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('bids.buyNow'),
+          onPress: async () => {
+            try {
+              setIsPlacingBid(true);
+              await placeBidOffer(bidId, { amount: bid.buyNowPrice!, email: userEmail });
+              setBid(await getBidById(bidId));
+              Alert.alert(t('common.success'), t('bids.buyNowWon'));
+            } catch (error: any) {
+              console.error('Error buying now:', error);
+              setBid(await getBidById(bidId));
+              Alert.alert(t('common.error'), error.message || t('bids.buyNowFailed'));
+            } finally {
+              setIsPlacingBid(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+  
+  const handleConfirmSale = async () => {
+    try {
+      setIsUpdatingSale(true);
+      await confirmBidSale(bidId, userEmail);
+      setBid(await getBidById(bidId));
+      Alert.alert(t('bids.saleConfirmed'), t('bids.saleConfirmedMessage'));
+    } catch (error: any) {
+      console.error('Error confirming sale:', error);
+      Alert.alert(t('common.error'), error.message || t('bids.confirmSaleFailed'));
+    } finally {
+      setIsUpdatingSale(false);
+    }
+  };
+  
+  const handleMessageSeller = async () => {
+    if (!bid) return;
+    if (!userEmail) {
+      Alert.alert(t('common.loginRequired'), t('bids.loginToMessage'));
+      return;
+    }
+
+    try {
+      const conversationId = await startConversation({
+        subjectType: 'bid',
+        subjectId: bidId,
+        subjectTitle: bid.name,
+        buyerEmail: userEmail,
+        sellerEmail: bid.email,
+      });
+      navigation.navigate('Chat', { conversationId });
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error.message || t('bids.conversationFailed'));
+    }
+  };
+
+  const handleRelist = () => {
+    Alert.alert(
+      t('bids.relistTitle'),
+      t('bids.relistMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('bids.relist'),
+          onPress: async () => {
+            try {
+              setIsUpdatingSale(true);
+              await relistBid(bidId, userEmail, new Date(Date.now() + 7 * 24 * 60 * 60 * 1000));
+              setBid(await getBidById(bidId));
+            } catch (error: any) {
+              console.error('Error relisting bid:', error);
+              Alert.alert(t('common.error'), error.message || t('bids.relistFailed'));
+            } finally {
+              setIsUpdatingSale(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+  
   // Get the highest bid
   const getHighestBid = () => {
     if (!bid || bid.bids.length === 0) return bid?.startPrice || 0;
@@ -145,13 +302,13 @@ const BidDetailsScreen = () => {
   
   // Get time left
   const getTimeLeft = () => {
-    if (!bid) return 'Unknown';
+    if (!bid) return t('bids.unknown');
     
     const now = new Date();
     const dueDate = new Date(bid.dueDate);
     
     if (now > dueDate) {
-      return 'Bidding ended';
+      return t('bids.biddingEnded');
     }
     
     const diffTime = Math.abs(dueDate.getTime() - now.getTime());
@@ -159,9 +316,9 @@ const BidDetailsScreen = () => {
     const diffHours = Math.ceil(diffTime / (1000 * 60 * 60)) % 24;
     
     if (diffDays > 0) {
-      return `${diffDays} day${diffDays !== 1 ? 's' : ''} ${diffHours} hour${diffHours !== 1 ? 's' : ''}`;
+      return `${t('bids.days', { count: diffDays })} ${t('bids.hours', { count: diffHours })}`;
     } else {
-      return `${diffHours} hour${diffHours !== 1 ? 's' : ''}`;
+      return t('bids.hours', { count: diffHours });
     }
   };
   
@@ -171,11 +328,13 @@ const BidDetailsScreen = () => {
     return bid.status === 'active' && now < bid.dueDate;
   };
   
+  const isOwnListing = !!bid && !!userEmail && bid.email.toLowerCase() === userEmail.toLowerCase();
+  
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary} />
-        <Text style={styles.loadingText}>Loading bid details...</Text>
+        <Text style={styles.loadingText}>{t('bids.loading')}</Text>
       </View>
     );
   }
@@ -183,12 +342,12 @@ const BidDetailsScreen = () => {
   if (error || !bid) {
     return (
       <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>{error || 'Bid not found'}</Text>
+        <Text style={styles.errorText}>{error || t('bids.notFound')}</Text>
         <TouchableOpacity
           style={styles.backButton}
           onPress={() => navigation.goBack()}
         >
-          <Text style={styles.backButtonText}>Go Back</Text>
+          <Text style={styles.backButtonText}>{t('common.goBack')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -212,69 +371,166 @@ const BidDetailsScreen = () => {
               styles.statusText, 
               {color: bid.status === 'active' ? colors.success : colors.accent}
             ]}>
-              {bid.status.toUpperCase()}
+              {t(`bids.status.${bid.status}`).toUpperCase()}
             </Text>
           </View>
           
           <View style={styles.priceSection}>
             <View style={styles.priceRow}>
-              <Text style={styles.priceLabel}>Starting Price:</Text>
+              <Text style={styles.priceLabel}>{t('bids.startingPrice')}</Text>
               <Text style={styles.priceValue}>{formatCurrency(bid.startPrice)}</Text>
             </View>
             
             <View style={styles.priceRow}>
-              <Text style={styles.priceLabel}>Current Highest Bid:</Text>
+              <Text style={styles.priceLabel}>{t('bids.currentHighest')}</Text>
               <Text style={styles.highestBid}>{formatCurrency(getHighestBid())}</Text>
             </View>
             
+            {!!bid.buyNowPrice && (
+              <View style={styles.priceRow}>
+                <Text style={styles.priceLabel}>{t('bids.buyNowPrice')}</Text>
+                <Text style={styles.priceValue}>{formatCurrency(bid.buyNowPrice)}</Text>
+              </View>
+            )}
+            
+            {/* The reserve amount is only known to the seller; bidders learn whether it was met when the auction closes */}
+            {!!bid.hasReserve && (
+              <View style={styles.priceRow}>
+                <Text style={styles.priceLabel}>{t('bids.reserve')}</Text>
+                <Text style={styles.priceValue}>
+                  {bid.status === 'active'
+                    ? reservePrice
+                      ? `${formatCurrency(reservePrice)} - ${bid.bids.length > 0 && isReserveMet({ reservePrice }, getHighestBid()) ? t('bids.reserveMet') : t('bids.reserveNotMet')}`
+                      : t('bids.reserveHidden')
+                    : bid.reserveMet ? t('bids.reserveMet') : t('bids.reserveMissed')}
+                </Text>
+              </View>
+            )}
+            
             <View style={styles.priceRow}>
-              <Text style={styles.priceLabel}>Time Left:</Text>
+              <Text style={styles.priceLabel}>{t('bids.timeLeft')}</Text>
               <Text style={styles.timeLeft}>{getTimeLeft()}</Text>
             </View>
+            
+            {!!myProxyBid && isBidActive() && (
+              <View style={styles.priceRow}>
+                <Text style={styles.priceLabel}>{t('bids.yourMaximum')}</Text>
+                <Text style={styles.priceValue}>{formatCurrency(myProxyBid.maxAmount)}</Text>
+              </View>
+            )}
+            
+            {isBidActive() && (
+              <Text style={styles.auctionNote}>
+                {t('bids.antiSniping', { window: ANTI_SNIPING_WINDOW_MINUTES, extension: ANTI_SNIPING_EXTENSION_MINUTES })}
+              </Text>
+            )}
+            
+            {/* The scheduled job closes the auction and picks the winner shortly after it ends */}
+            {isAuctionExpired(bid) && (
+              <Text style={styles.auctionNote}>{t('bids.awaitingResult')}</Text>
+            )}
           </View>
           
+          {bid.status !== 'active' && (
+            <View style={styles.detailsSection}>
+              <Text style={styles.sectionTitle}>{t('bids.result')}</Text>
+              {bid.winner ? (
+                <>
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>{t('bids.winningBid')}</Text>
+                    <Text style={styles.detailValue}>{formatCurrency(bid.winner.amount)}</Text>
+                  </View>
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>{t('bids.winner')}</Text>
+                    <Text style={styles.detailValue}>
+                      {bid.winner.email === userEmail ? t('bids.you') : bid.winner.email}
+                    </Text>
+                  </View>
+                </>
+              ) : (
+                <Text style={styles.noBidsText}>
+                  {bid.bids.length > 0 && bid.reserveMet === false
+                    ? t('bids.endedBelowReserve')
+                    : t('bids.endedNoBids')}
+                </Text>
+              )}
+              
+              {isOwnListing && bid.status === 'closed' && (
+                <View style={styles.modalButtonContainer}>
+                  <TouchableOpacity 
+                    style={styles.cancelButton}
+                    onPress={handleRelist}
+                    disabled={isUpdatingSale}
+                  >
+                    <Text style={styles.cancelButtonText}>{t('bids.relist')}</Text>
+                  </TouchableOpacity>
+                  {bid.winner && (
+                    <TouchableOpacity 
+                      style={styles.submitButton}
+                      onPress={handleConfirmSale}
+                      disabled={isUpdatingSale}
+                    >
+                      {isUpdatingSale ? (
+                        <ActivityIndicator size="small" color={colors.white} />
+                      ) : (
+                        <Text style={styles.submitButtonText}>{t('bids.confirmSale')}</Text>
+                      )}
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+            </View>
+          )}
+          
           <View style={styles.detailsSection}>
-            <Text style={styles.sectionTitle}>Details</Text>
+            <Text style={styles.sectionTitle}>{t('bids.details')}</Text>
             
             <View style={styles.detailRow}>
-              <Text style={styles.detailLabel}>Category:</Text>
+              <Text style={styles.detailLabel}>{t('bids.categoryLabel')}</Text>
               <Text style={styles.detailValue}>{bid.category}</Text>
             </View>
             
             <View style={styles.detailRow}>
-              <Text style={styles.detailLabel}>Item/Quantity:</Text>
+              <Text style={styles.detailLabel}>{t('bids.itemLabel')}</Text>
               <Text style={styles.detailValue}>{bid.item}</Text>
             </View>
             
             <View style={styles.detailRow}>
-              <Text style={styles.detailLabel}>Seller Contact:</Text>
+              <Text style={styles.detailLabel}>{t('bids.sellerContact')}</Text>
               <Text style={styles.detailValue}>{bid.number}</Text>
             </View>
             
             <View style={styles.detailRow}>
-              <Text style={styles.detailLabel}>Seller Email:</Text>
+              <Text style={styles.detailLabel}>{t('bids.sellerEmail')}</Text>
               <Text style={styles.detailValue}>{bid.email}</Text>
             </View>
             
+            {!isOwnListing && (
+              <TouchableOpacity style={styles.messageSellerRow} onPress={handleMessageSeller}>
+                <Ionicons name="chatbubbles-outline" size={18} color={colors.primary} />
+                <Text style={styles.messageSellerText}>{t('bids.messageSeller')}</Text>
+              </TouchableOpacity>
+            )}
+            
             <View style={styles.detailRow}>
-              <Text style={styles.detailLabel}>Start Date:</Text>
-              <Text style={styles.detailValue}>{bid.startDate.toLocaleDateString()}</Text>
+              <Text style={styles.detailLabel}>{t('bids.startDateLabel')}</Text>
+              <Text style={styles.detailValue}>{formatDate(bid.startDate, 'medium')}</Text>
             </View>
             
             <View style={styles.detailRow}>
-              <Text style={styles.detailLabel}>End Date:</Text>
-              <Text style={styles.detailValue}>{bid.dueDate.toLocaleDateString()}</Text>
+              <Text style={styles.detailLabel}>{t('bids.endDateLabel')}</Text>
+              <Text style={styles.detailValue}>{formatDate(bid.dueDate, 'medium')}</Text>
             </View>
           </View>
           
           <View style={styles.descriptionSection}>
-            <Text style={styles.sectionTitle}>Description</Text>
+            <Text style={styles.sectionTitle}>{t('bids.descriptionTitle')}</Text>
             <Text style={styles.description}>{bid.description}</Text>
           </View>
           
           {/* Bids Section */}
           <View style={styles.bidsSection}>
-            <Text style={styles.sectionTitle}>Bids ({bid.bids.length})</Text>
+            <Text style={styles.sectionTitle}>{t('bids.offersTitle', { count: bid.bids.length })}</Text>
             
             {bid.bids.length > 0 ? (
               bid.bids
@@ -289,21 +545,32 @@ const BidDetailsScreen = () => {
                   </View>
                 ))
             ) : (
-              <Text style={styles.noBidsText}>No bids placed yet. Be the first!</Text>
+              <Text style={styles.noBidsText}>{t('bids.noOffers')}</Text>
             )}
           </View>
         </View>
       </ScrollView>
       
       {/* Place Bid Button */}
-      {isBidActive() && (
+      {isBidActive() && !isOwnListing && (
         <View style={styles.bottomBar}>
           <TouchableOpacity 
             style={styles.placeBidButton}
-            onPress={() => setShowBidModal(true)}
+            onPress={handleOpenBidModal}
           >
-            <Text style={styles.placeBidButtonText}>Place a Bid</Text>
+            <Text style={styles.placeBidButtonText}>{t('bids.placeBid')}</Text>
           </TouchableOpacity>
+          {!!bid.buyNowPrice && getHighestBid() < bid.buyNowPrice && (
+            <TouchableOpacity 
+              style={[styles.placeBidButton, styles.buyNowButton]}
+              onPress={handleBuyNow}
+              disabled={isPlacingBid}
+            >
+              <Text style={styles.placeBidButtonText}>
+                {t('bids.buyNowFor', { amount: formatCurrency(bid.buyNowPrice) })}
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
       )}
       
@@ -317,35 +584,54 @@ const BidDetailsScreen = () => {
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>Place a Bid</Text>
+              <Text style={styles.modalTitle}>{t('bids.placeBid')}</Text>
               <TouchableOpacity onPress={() => setShowBidModal(false)}>
                 <Ionicons name="close" size={24} color={colors.text} />
               </TouchableOpacity>
             </View>
             
             <Text style={styles.modalSubtitle}>
-              Current highest bid: {formatCurrency(getHighestBid())}
+              {t('bids.currentHighestAmount', { amount: formatCurrency(getHighestBid()) })}
+            </Text>
+            <Text style={styles.modalSubtitle}>
+              {t('bids.minimumAmount', { amount: formatCurrency(getMinimumNextBid(bid)) })}
             </Text>
             
             <View style={styles.inputContainer}>
-              <Text style={styles.inputLabel}>Your Bid Amount (Rs)</Text>
+              <Text style={styles.inputLabel}>
+                {isProxyBid ? t('bids.maximumBid') : t('bids.bidAmount')}
+              </Text>
               <TextInput
                 style={styles.input}
                 value={bidAmount}
                 onChangeText={setBidAmount}
                 keyboardType="numeric"
-                placeholder="Enter amount higher than current bid"
+                placeholder={t('bids.amountPlaceholder', { amount: getMinimumNextBid(bid) })}
                 placeholderTextColor={colors.lightText}
               />
             </View>
             
+            <View style={styles.proxyRow}>
+              <View style={styles.proxyInfo}>
+                <Text style={styles.inputLabel}>{t('bids.autoBid')}</Text>
+                <Text style={styles.auctionNote}>
+                  {t('bids.autoBidNote')}
+                </Text>
+              </View>
+              <Switch
+                value={isProxyBid}
+                onValueChange={setIsProxyBid}
+                trackColor={{ false: colors.lightGray, true: colors.primary }}
+              />
+            </View>
+            
             <View style={styles.modalButtonContainer}>
               <TouchableOpacity 
                 style={styles.cancelButton}
                 onPress={() => setShowBidModal(false)}
                 disabled={isPlacingBid}
               >
-                <Text style={styles.cancelButtonText}>Cancel</Text>
+                <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
               </TouchableOpacity>
               
               <TouchableOpacity 
@@ -356,7 +642,7 @@ const BidDetailsScreen = () => {
                 {isPlacingBid ? (
                   <ActivityIndicator size="small" color={colors.white} />
                 ) : (
-                  <Text style={styles.submitButtonText}>Submit Bid</Text>
+                  <Text style={styles.submitButtonText}>{t('bids.submitBid')}</Text>
                 )}
               </TouchableOpacity>
             </View>
@@ -550,6 +836,35 @@ const styles = StyleSheet.create({
     borderRadius: borderRadius.md,
     alignItems: 'center',
   },
+  buyNowButton: {
+    backgroundColor: colors.secondary,
+    marginTop: spacing.sm,
+  },
+  proxyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  proxyInfo: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
+  auctionNote: {
+    fontSize: fontSizes.xs,
+    color: colors.lightText,
+    marginTop: spacing.sm,
+  },
+  messageSellerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  messageSellerText: {
+    fontSize: fontSizes.md,
+    color: colors.primary,
+    fontWeight: '600',
+    marginLeft: spacing.xs,
+  },
   placeBidButtonText: {
     color: colors.white,
     fontSize: fontSizes.md,
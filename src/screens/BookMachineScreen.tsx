@@ -0,0 +1,493 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList, Machine, MachineBooking, RateUnit } from '../types';
+import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
+import { Ionicons } from '@expo/vector-icons';
+import { auth } from '../utilities/firebaseConfig';
+import {
+  getMachineById,
+  getMachineBookings,
+  getPublicProfile,
+  requestMachineBooking,
+} from '../utilities/firestoreUtils';
+import {
+  RATE_UNITS,
+  BookingConflictError,
+  getMachineRates,
+  getBookingPeriod,
+  getBookingDays,
+  calculateBookingTotal,
+  validateBookingRequest,
+  findBookingConflict,
+} from '../utilities/bookingUtils';
+import { canEditMachine } from '../utilities/machineUtils';
+import BookingCalendar from '../components/BookingCalendar';
+import Button from '../components/Button';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+
+type BookMachineNavigationProp = NativeStackNavigationProp<RootStackParamList, 'BookMachine'>;
+type BookMachineRouteProp = RouteProp<RootStackParamList, 'BookMachine'>;
+
+const MAX_BOOKING_HOURS = 12;
+
+const BookMachineScreen = () => {
+  const navigation = useNavigation<BookMachineNavigationProp>();
+  const route = useRoute<BookMachineRouteProp>();
+  const { t } = useTranslation();
+  const { formatCurrency, formatDate, formatTime } = useFormat();
+  const { machineId } = route.params;
+
+  const [machine, setMachine] = useState<Machine | null>(null);
+  const [bookings, setBookings] = useState<MachineBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [month, setMonth] = useState(new Date());
+  const [rateUnit, setRateUnit] = useState<RateUnit>('day');
+  const [firstDay, setFirstDay] = useState<Date | null>(null);
+  const [lastDay, setLastDay] = useState<Date | null>(null);
+  const [startHour, setStartHour] = useState(8);
+  const [hours, setHours] = useState(2);
+  const [acres, setAcres] = useState('');
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    loadMachine();
+  }, [machineId]);
+
+  const loadMachine = async () => {
+    try {
+      setLoading(true);
+      const [machineData, machineBookings] = await Promise.all([
+        getMachineById(machineId),
+        getMachineBookings(machineId),
+      ]);
+
+      if (machineData) {
+        const units = RATE_UNITS.filter(unit => getMachineRates(machineData)[unit]);
+        if (units.length > 0 && !units.includes(rateUnit)) {
+          setRateUnit(units[0]);
+        }
+      }
+      setMachine(machineData);
+      setBookings(machineBookings);
+    } catch (error) {
+      Alert.alert(t('common.error'), t('booking.loadAvailabilityFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelectDay = (day: Date) => {
+    // Hourly bookings happen within a single day
+    if (rateUnit === 'hour' || !firstDay || lastDay || day < firstDay) {
+      setFirstDay(day);
+      setLastDay(null);
+    } else {
+      setLastDay(day);
+    }
+  };
+
+  const handleChangeUnit = (unit: RateUnit) => {
+    setRateUnit(unit);
+    if (unit === 'hour') {
+      setLastDay(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!machine) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.emptyText}>{t('machines.notFound')}</Text>
+      </View>
+    );
+  }
+
+  const rates = getMachineRates(machine);
+  const availableUnits = RATE_UNITS.filter(unit => rates[unit]);
+  const rate = rates[rateUnit] || 0;
+  const period = firstDay
+    ? getBookingPeriod(rateUnit, firstDay, lastDay || firstDay, startHour, hours)
+    : null;
+  const quantity = !period
+    ? 0
+    : rateUnit === 'hour'
+      ? hours
+      : rateUnit === 'day'
+        ? getBookingDays(period.startDate, period.endDate)
+        : parseFloat(acres) || 0;
+  const total = calculateBookingTotal(rate, quantity);
+
+  const handleSubmit = async () => {
+    const currentUser = auth.currentUser;
+    if (!currentUser?.email) {
+      Alert.alert(t('common.loginRequired'), t('booking.loginToBook'));
+      return;
+    }
+    if (canEditMachine(machine, currentUser.uid)) {
+      Alert.alert(t('addMachine.notAllowed'), t('booking.ownMachine'));
+      return;
+    }
+    if (!period) {
+      Alert.alert(t('booking.selectDates'), t('booking.selectDatesMessage'));
+      return;
+    }
+
+    const validationError = validateBookingRequest(rates, rateUnit, period.startDate, period.endDate, quantity);
+    if (validationError) {
+      Alert.alert(t('booking.invalid'), t(validationError));
+      return;
+    }
+    if (findBookingConflict(bookings, period.startDate, period.endDate)) {
+      Alert.alert(t('booking.notAvailable'), t('booking.alreadyBooked'));
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+
+      // Machines listed before owner emails were recorded only have the owner's uid
+      const ownerEmail = machine.ownerEmail
+        || (machine.createdBy ? (await getPublicProfile(machine.createdBy))?.email : undefined);
+      if (!machine.createdBy || !ownerEmail) {
+        Alert.alert(t('machines.unavailable'), t('booking.phoneOnly'));
+        return;
+      }
+
+      await requestMachineBooking({
+        machineId: machine.id,
+        machineName: machine.name,
+        ownerId: machine.createdBy,
+        ownerEmail,
+        renterEmail: currentUser.email,
+        startDate: period.startDate,
+        endDate: period.endDate,
+        rateUnit,
+        quantity,
+        rate,
+        totalPrice: total,
+        note: note.trim() || undefined,
+      });
+
+      Alert.alert(
+        t('booking.requestSent'),
+        t('booking.requestSentMessage'),
+        [{ text: t('common.ok'), onPress: () => navigation.replace('MachineBookings', { tab: 'renter' }) }]
+      );
+    } catch (error) {
+      if (error instanceof BookingConflictError) {
+        Alert.alert(t('booking.notAvailable'), t('booking.justBooked'));
+        loadMachine();
+      } else {
+        Alert.alert(t('common.error'), t('booking.requestFailed'));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>{t('booking.title', { name: machine.name })}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {availableUnits.length === 0 ? (
+          <Text style={styles.emptyText}>{t('booking.noRates')}</Text>
+        ) : (
+          <>
+            <Text style={styles.sectionTitle}>{t('booking.pricing')}</Text>
+            <View style={styles.unitRow}>
+              {availableUnits.map(unit => (
+                <TouchableOpacity
+                  key={unit}
+                  style={[styles.unitChip, rateUnit === unit && styles.selectedUnitChip]}
+                  onPress={() => handleChangeUnit(unit)}
+                >
+                  <Text style={[styles.unitLabel, rateUnit === unit && styles.selectedUnitText]}>
+                    {t(`machines.rateUnits.${unit}`)}
+                  </Text>
+                  <Text style={[styles.unitRate, rateUnit === unit && styles.selectedUnitText]}>
+                    {formatCurrency(rates[unit] as number)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.sectionTitle}>
+              {rateUnit === 'hour' ? t('booking.chooseDay') : t('booking.chooseDays')}
+            </Text>
+            <BookingCalendar
+              month={month}
+              onMonthChange={setMonth}
+              bookings={bookings}
+              selectedStart={firstDay}
+              selectedEnd={rateUnit === 'hour' ? null : lastDay}
+              onSelectDay={handleSelectDay}
+            />
+
+            {rateUnit === 'hour' && (
+              <View style={styles.card}>
+                <View style={styles.stepperRow}>
+                  <Text style={styles.stepperLabel}>{t('booking.startTime')}</Text>
+                  <View style={styles.stepper}>
+                    <TouchableOpacity onPress={() => setStartHour(Math.max(0, startHour - 1))}>
+                      <Ionicons name="remove-circle-outline" size={28} color={colors.primary} />
+                    </TouchableOpacity>
+                    <Text style={styles.stepperValue}>{formatTime(new Date(2000, 0, 1, startHour), false)}</Text>
+                    <TouchableOpacity onPress={() => setStartHour(Math.min(23, startHour + 1))}>
+                      <Ionicons name="add-circle-outline" size={28} color={colors.primary} />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+                <View style={styles.stepperRow}>
+                  <Text style={styles.stepperLabel}>{t('booking.hours')}</Text>
+                  <View style={styles.stepper}>
+                    <TouchableOpacity onPress={() => setHours(Math.max(1, hours - 1))}>
+                      <Ionicons name="remove-circle-outline" size={28} color={colors.primary} />
+                    </TouchableOpacity>
+                    <Text style={styles.stepperValue}>{hours}</Text>
+                    <TouchableOpacity onPress={() => setHours(Math.min(MAX_BOOKING_HOURS, hours + 1))}>
+                      <Ionicons name="add-circle-outline" size={28} color={colors.primary} />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              </View>
+            )}
+
+            {rateUnit === 'acre' && (
+              <View style={styles.card}>
+                <Text style={styles.stepperLabel}>{t('booking.acres')}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={acres}
+                  onChangeText={setAcres}
+                  placeholder={t('booking.acresPlaceholder')}
+                  placeholderTextColor={colors.lightText}
+                  keyboardType="numeric"
+                />
+              </View>
+            )}
+
+            <View style={styles.card}>
+              <Text style={styles.stepperLabel}>{t('booking.note')}</Text>
+              <TextInput
+                style={[styles.input, styles.noteInput]}
+                value={note}
+                onChangeText={setNote}
+                placeholder={t('booking.notePlaceholder')}
+                placeholderTextColor={colors.lightText}
+                multiline
+                textAlignVertical="top"
+              />
+            </View>
+
+            {period && (
+              <View style={styles.card}>
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>{t('booking.from')}</Text>
+                  <Text style={styles.summaryValue}>
+                    {formatDate(period.startDate)}{rateUnit === 'hour' ? `, ${formatTime(new Date(2000, 0, 1, startHour), false)}` : ''}
+                  </Text>
+                </View>
+                {rateUnit !== 'hour' && (
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>{t('booking.to')}</Text>
+                    <Text style={styles.summaryValue}>{formatDate(lastDay || period.startDate)}</Text>
+                  </View>
+                )}
+                <View style={styles.summaryRow}>
+                  <Text style={styles.summaryLabel}>
+                    {quantity > 0 ? t(`machines.quantity.${rateUnit}`, { count: quantity }) : '-'} x {formatCurrency(rate)}
+                  </Text>
+                  <Text style={styles.totalValue}>{formatCurrency(total)}</Text>
+                </View>
+              </View>
+            )}
+
+            <Button
+              title={t('booking.request')}
+              onPress={handleSubmit}
+              type="primary"
+              size="large"
+              disabled={submitting || !period}
+              style={styles.submitButton}
+            />
+          </>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.lightGray,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+    textAlign: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+  emptyText: {
+    fontSize: fontSizes.md,
+    color: colors.lightText,
+    textAlign: 'center',
+  },
+  content: {
+    padding: spacing.md,
+    paddingBottom: spacing.xl * 2,
+  },
+  sectionTitle: {
+    fontSize: fontSizes.md,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  unitRow: {
+    flexDirection: 'row',
+  },
+  unitChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    marginRight: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    backgroundColor: colors.white,
+  },
+  selectedUnitChip: {
+    backgroundColor: colors.primary,
+  },
+  unitLabel: {
+    fontSize: fontSizes.sm,
+    color: colors.text,
+  },
+  unitRate: {
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  selectedUnitText: {
+    color: colors.white,
+  },
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginTop: spacing.md,
+    ...shadows.small,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+  },
+  stepperLabel: {
+    fontSize: fontSizes.md,
+    color: colors.text,
+    marginBottom: spacing.xs,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperValue: {
+    minWidth: 60,
+    textAlign: 'center',
+    fontSize: fontSizes.md,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  input: {
+    backgroundColor: colors.lightGray,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    fontSize: fontSizes.md,
+    color: colors.text,
+  },
+  noteInput: {
+    minHeight: 70,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xs,
+  },
+  summaryLabel: {
+    fontSize: fontSizes.md,
+    color: colors.lightText,
+  },
+  summaryValue: {
+    fontSize: fontSizes.md,
+    color: colors.text,
+  },
+  totalValue: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  submitButton: {
+    marginTop: spacing.lg,
+  },
+});
+
+export default BookMachineScreen;
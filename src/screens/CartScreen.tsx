@@ -8,15 +8,23 @@ import {
   Image,
   Alert,
   ActivityIndicator,
+  TextInput,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { RootStackParamList } from '../types';
+import { RootStackParamList, Promotion, DeliveryRule } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
-import { formatCurrency } from '../utils';
 import Button from '../components/Button';
 import { db, auth } from '../utilities/firebaseConfig';
-import { collection, doc, getDoc, setDoc, updateDoc, deleteField, serverTimestamp, onSnapshot } from 'firebase/firestore';
+import { getPromotionByCode, getDeliveryRules, getUserById } from '../utilities/firestoreUtils';
+import {
+  calculateOrderTotals,
+  calculatePromoDiscount,
+  calculateDeliveryFees,
+} from '../utilities/pricingUtils';
+import { doc, getDoc, updateDoc, deleteField, serverTimestamp, onSnapshot } from 'firebase/firestore';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
 
 type CartItem = {
   id: string;
@@ -25,6 +33,11 @@ type CartItem = {
   image: string;
   price: number;
   quantity: number;
+  category?: string;
+  shopId?: string;
+  shopName?: string;
+  sellerEmail?: string;
+  unit?: string;
 };
 
 type CartNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Cart'>;
@@ -34,13 +47,17 @@ const PLACEHOLDER_IMAGE = 'https://st4.depositphotos.com/14953852/24787/v/450/de
 
 const CartScreen = () => {
   const navigation = useNavigation<CartNavigationProp>();
+  const { t } = useTranslation();
+  const { formatCurrency } = useFormat();
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [promoCode, setPromoCode] = useState('');
-  const [promoApplied, setPromoApplied] = useState(false);
+  const [appliedPromotion, setAppliedPromotion] = useState<Promotion | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [checkoutLoading, setCheckoutLoading] = useState(false);
   const [error, setError] = useState('');
   const [userId, setUserId] = useState<string | null>(null);
+  const [district, setDistrict] = useState('');
+  const [deliveryRules, setDeliveryRules] = useState<DeliveryRule[]>([]);
 
   // Get current user
   useEffect(() => {
@@ -48,7 +65,7 @@ const CartScreen = () => {
     if (currentUser) {
       setUserId(currentUser.uid);
     } else {
-      setError('User not signed in');
+      setError(t('cart.notSignedIn'));
       setLoading(false);
     }
   }, []);
@@ -76,7 +93,12 @@ const CartScreen = () => {
               name: item.name,
               image: item.image || PLACEHOLDER_IMAGE,
               price: item.price,
-              quantity: item.quantity
+              quantity: item.quantity,
+              category: item.category,
+              shopId: item.shopId,
+              shopName: item.shopName,
+              sellerEmail: item.sellerEmail,
+              unit: item.unit
             });
           }
           
@@ -88,7 +110,7 @@ const CartScreen = () => {
       },
       (err) => {
         console.error('Error getting cart:', err);
-        setError('Failed to load cart data. Please try again.');
+        setError(t('cart.loadFailed'));
         setLoading(false);
       }
     );
@@ -96,24 +118,41 @@ const CartScreen = () => {
     return () => unsubscribe();
   }, [userId]);
 
-  // Calculate subtotal
-  const subtotal = cartItems.reduce(
-    (sum, item) => sum + item.price * item.quantity,
-    0
-  );
+  // Delivery is estimated for the district saved on the user's profile
+  useEffect(() => {
+    if (!userId) return;
+
+    getUserById(userId)
+      .then(user => setDistrict(user?.district || ''))
+      .catch(err => console.error('Error loading user district:', err));
+  }, [userId]);
+
+  // Reload delivery rules when the set of sellers in the cart changes
+  const sellerKey = Array.from(new Set(cartItems.map(item => item.sellerEmail || ''))).sort().join(',');
+  useEffect(() => {
+    if (!userId) return;
 
-  // Calculate discount (10% if promo applied)
-  const discount = promoApplied ? subtotal * 0.1 : 0;
+    getDeliveryRules(sellerKey.split(','))
+      .then(setDeliveryRules)
+      .catch(err => console.error('Error loading delivery rules:', err));
+  }, [userId, sellerKey]);
 
-  // Delivery fee
-  const deliveryFee = subtotal > 5000 ? 0 : 350;
+  // Re-check the applied promotion whenever the cart changes, since quantities affect eligibility
+  const promoResult = appliedPromotion && userId
+    ? calculatePromoDiscount(appliedPromotion, cartItems, userId)
+    : null;
 
-  // Calculate total
-  const total = subtotal - discount + deliveryFee;
+  // Calculate subtotal, discount, delivery fee and total
+  const deliveryFees = calculateDeliveryFees(cartItems, district, deliveryRules);
+  const { subtotal, discount, deliveryFee, total } = calculateOrderTotals(
+    cartItems,
+    promoResult?.valid ? promoResult.discount : 0,
+    deliveryFees
+  );
 
   const handleQuantityChange = async (id: string, change: number) => {
     if (!userId) {
-      Alert.alert('Error', 'You must be signed in to update your cart.');
+      Alert.alert(t('common.error'), t('cart.signInToUpdate'));
       return;
     }
 
@@ -146,13 +185,13 @@ const CartScreen = () => {
       }
     } catch (err) {
       console.error('Error updating cart:', err);
-      Alert.alert('Error', 'Failed to update cart. Please try again.');
+      Alert.alert(t('common.error'), t('cart.updateFailed'));
     }
   };
 
   const handleRemoveItem = async (id: string) => {
     if (!userId) {
-      Alert.alert('Error', 'You must be signed in to update your cart.');
+      Alert.alert(t('common.error'), t('cart.signInToUpdate'));
       return;
     }
 
@@ -165,82 +204,51 @@ const CartScreen = () => {
       });
     } catch (err) {
       console.error('Error removing item from cart:', err);
-      Alert.alert('Error', 'Failed to remove item. Please try again.');
+      Alert.alert(t('common.error'), t('cart.removeFailed'));
     }
   };
 
-  const handleApplyPromo = () => {
-    // Simple promo code logic - in real app this would validate against a backend
-    if (promoCode.toUpperCase() === 'AGRI10') {
-      setPromoApplied(true);
-      Alert.alert('Success', 'Promo code applied successfully!');
-    } else {
-      Alert.alert('Invalid Promo', 'The promo code you entered is invalid.');
+  const handleApplyPromo = async () => {
+    if (!promoCode.trim() || !userId) return;
+
+    try {
+      setApplyingPromo(true);
+      const promotion = await getPromotionByCode(promoCode);
+
+      if (!promotion) {
+        Alert.alert(t('cart.invalidPromo'), t('cart.promoRejections.not_found'));
+        return;
+      }
+
+      const result = calculatePromoDiscount(promotion, cartItems, userId);
+      if (!result.valid) {
+        Alert.alert(t('cart.invalidPromo'), t(`cart.promoRejections.${result.reason}`));
+        return;
+      }
+
+      setAppliedPromotion(promotion);
+      setPromoCode('');
+      Alert.alert(t('common.success'), t('cart.promoApplied'));
+    } catch (err) {
+      console.error('Error applying promo code:', err);
+      Alert.alert(t('common.error'), t('cart.promoCheckFailed'));
+    } finally {
+      setApplyingPromo(false);
     }
-    setPromoCode('');
   };
 
-  const handleCheckout = async () => {
+  const handleCheckout = () => {
     if (!userId) {
-      Alert.alert('Error', 'You must be signed in to checkout.');
+      Alert.alert(t('common.error'), t('cart.signInToCheckout'));
       return;
     }
 
     if (cartItems.length === 0) {
-      Alert.alert('Error', 'Your cart is empty.');
+      Alert.alert(t('common.error'), t('cart.emptyAlert'));
       return;
     }
 
-    setCheckoutLoading(true);
-    
-    try {
-      // Create order document
-      const ordersRef = collection(db, 'orders');
-      const orderData = {
-        userId: userId,
-        products: cartItems.map(item => ({
-          productId: item.productId,
-          name: item.name,
-          price: item.price,
-          quantity: item.quantity,
-        })),
-        subtotal: subtotal,
-        discount: discount,
-        deliveryFee: deliveryFee,
-        totalAmount: total,
-        status: 'processing',
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
-      };
-      
-      // Add order to Firestore
-      await setDoc(doc(ordersRef), orderData);
-      
-      // Clear user's cart
-      await setDoc(doc(db, 'carts', userId), {
-        items: {},
-        updatedAt: serverTimestamp()
-      });
-      
-      setCheckoutLoading(false);
-      
-      Alert.alert(
-        'Order Placed',
-        'Your order has been placed successfully!',
-        [
-          {
-            text: 'OK',
-            onPress: () => {
-              navigation.navigate('Main');
-            },
-          },
-        ]
-      );
-    } catch (err) {
-      console.error('Error creating order:', err);
-      setCheckoutLoading(false);
-      Alert.alert('Error', 'Failed to place order. Please try again.');
-    }
+    navigation.navigate('Checkout', promoResult?.valid ? { promoCode: appliedPromotion?.code } : undefined);
   };
 
   // Handle image loading errors
@@ -302,9 +310,9 @@ const CartScreen = () => {
   // Empty cart view
   const renderEmptyCart = () => (
     <View style={styles.emptyCartContainer}>
-      <Text style={styles.emptyCartText}>Your cart is empty</Text>
+      <Text style={styles.emptyCartText}>{t('cart.empty')}</Text>
       <Button
-        title="Start Shopping"
+        title={t('cart.startShopping')}
         onPress={() => navigation.navigate('Main')}
         style={styles.emptyCartButton}
       />
@@ -316,7 +324,7 @@ const CartScreen = () => {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary} />
-        <Text style={styles.loadingText}>Loading cart...</Text>
+        <Text style={styles.loadingText}>{t('cart.loading')}</Text>
       </View>
     );
   }
@@ -327,7 +335,7 @@ const CartScreen = () => {
       <View style={styles.errorContainer}>
         <Text style={styles.errorText}>{error}</Text>
         <Button
-          title="Go Back"
+          title={t('common.goBack')}
           onPress={() => navigation.goBack()}
           style={styles.errorButton}
         />
@@ -344,7 +352,7 @@ const CartScreen = () => {
         >
           <Text style={styles.backButtonText}>←</Text>
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>My Cart</Text>
+        <Text style={styles.headerTitle}>{t('cart.title')}</Text>
         <View style={styles.placeholder} />
       </View>
 
@@ -358,14 +366,48 @@ const CartScreen = () => {
           />
 
           <View style={styles.summaryContainer}>
+            {appliedPromotion ? (
+              <View style={styles.promoApplied}>
+                <Text style={styles.promoAppliedText}>
+                  {appliedPromotion.code}
+                  {promoResult && !promoResult.valid && ` - ${t(`cart.promoRejections.${promoResult.reason}`)}`}
+                </Text>
+                <TouchableOpacity onPress={() => setAppliedPromotion(null)}>
+                  <Text style={styles.removeButtonText}>✕</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <View style={styles.promoContainer}>
+                <TextInput
+                  style={styles.promoInput}
+                  value={promoCode}
+                  onChangeText={setPromoCode}
+                  placeholder={t('cart.promoPlaceholder')}
+                  placeholderTextColor={colors.lightText}
+                  autoCapitalize="characters"
+                />
+                <TouchableOpacity
+                  style={styles.promoButton}
+                  onPress={handleApplyPromo}
+                  disabled={applyingPromo}
+                >
+                  {applyingPromo ? (
+                    <ActivityIndicator size="small" color={colors.white} />
+                  ) : (
+                    <Text style={styles.promoButtonText}>{t('cart.apply')}</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Subtotal</Text>
+              <Text style={styles.summaryLabel}>{t('cart.subtotal')}</Text>
               <Text style={styles.summaryValue}>{formatCurrency(subtotal)}</Text>
             </View>
             
-            {promoApplied && (
+            {discount > 0 && (
               <View style={styles.summaryRow}>
-                <Text style={styles.summaryLabel}>Discount</Text>
+                <Text style={styles.summaryLabel}>{t('cart.discount')}</Text>
                 <Text style={[styles.summaryValue, styles.discountValue]}>
                   -{formatCurrency(discount)}
                 </Text>
@@ -373,21 +415,31 @@ const CartScreen = () => {
             )}
             
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Delivery</Text>
+              <Text style={styles.summaryLabel}>
+                {district ? t('cart.deliveryTo', { district }) : t('cart.deliveryEstimate')}
+              </Text>
               <Text style={styles.summaryValue}>
-                {deliveryFee > 0 ? formatCurrency(deliveryFee) : 'Free'}
+                {deliveryFee > 0 ? formatCurrency(deliveryFee) : t('cart.free')}
               </Text>
             </View>
+
+            {deliveryFees.length > 1 && deliveryFees.map(seller => (
+              <View key={seller.sellerEmail} style={styles.summaryRow}>
+                <Text style={styles.sellerFeeLabel} numberOfLines={1}>{seller.sellerName}</Text>
+                <Text style={styles.sellerFeeLabel}>
+                  {seller.freeShipping ? t('cart.free') : formatCurrency(seller.fee)}
+                </Text>
+              </View>
+            ))}
             
             <View style={[styles.summaryRow, styles.totalRow]}>
-              <Text style={styles.totalLabel}>Total</Text>
+              <Text style={styles.totalLabel}>{t('cart.total')}</Text>
               <Text style={styles.totalValue}>{formatCurrency(total)}</Text>
             </View>
 
             <Button
-              title={checkoutLoading ? "Processing..." : "Checkout"}
+              title={t('cart.checkout')}
               onPress={handleCheckout}
-              disabled={checkoutLoading}
               style={styles.checkoutButton}
             />
           </View>
@@ -542,6 +594,48 @@ const styles = StyleSheet.create({
     borderTopColor: colors.lightGray,
     ...shadows.top,
   },
+  promoContainer: {
+    flexDirection: 'row',
+    marginBottom: spacing.md,
+  },
+  promoInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.gray,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    fontSize: fontSizes.md,
+    color: colors.text,
+    marginRight: spacing.sm,
+  },
+  promoButton: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.lg,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  promoButtonText: {
+    color: colors.white,
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+  },
+  promoApplied: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: colors.lightGray,
+    borderRadius: borderRadius.sm,
+    padding: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  promoAppliedText: {
+    flex: 1,
+    fontSize: fontSizes.sm,
+    color: colors.success,
+    fontWeight: '500',
+  },
   summaryRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -551,6 +645,11 @@ const styles = StyleSheet.create({
     fontSize: fontSizes.md,
     color: colors.lightText,
   },
+  sellerFeeLabel: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+    marginLeft: spacing.md,
+  },
   summaryValue: {
     fontSize: fontSizes.md,
     color: colors.text,
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../types';
+import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
+import Button from '../components/Button';
+import { Ionicons } from '@expo/vector-icons';
+import { MIN_PASSWORD_LENGTH, changePassword, getAuthErrorKey } from '../utilities/authUtils';
+import { useTranslation } from '../hooks/useTranslation';
+
+type ChangePasswordScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'ChangePassword'>;
+
+const ChangePasswordScreen = () => {
+  const navigation = useNavigation<ChangePasswordScreenNavigationProp>();
+  const { t } = useTranslation();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleChangePassword = async () => {
+    if (!currentPassword || !newPassword || !confirmPassword) {
+      Alert.alert(t('common.error'), t('auth.fillAllFields'));
+      return;
+    }
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      Alert.alert(t('common.error'), t('auth.errors.weakPassword'));
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      Alert.alert(t('common.error'), t('auth.passwordsDontMatch'));
+      return;
+    }
+
+    if (newPassword === currentPassword) {
+      Alert.alert(t('common.error'), t('changePassword.samePassword'));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await changePassword(currentPassword, newPassword);
+      Alert.alert(t('common.success'), t('changePassword.changed'), [
+        { text: t('common.ok'), onPress: () => navigation.goBack() },
+      ]);
+    } catch (error) {
+      Alert.alert(t('common.error'), t(getAuthErrorKey(error, 'changePassword.failed')));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('changePassword.title')}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        <Text style={styles.intro}>{t('changePassword.intro')}</Text>
+
+        <View style={styles.formContainer}>
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>{t('changePassword.current')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder={t('changePassword.currentPlaceholder')}
+              value={currentPassword}
+              onChangeText={setCurrentPassword}
+              secureTextEntry
+              autoCapitalize="none"
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>{t('changePassword.new')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder={t('changePassword.newPlaceholder')}
+              value={newPassword}
+              onChangeText={setNewPassword}
+              secureTextEntry
+              autoCapitalize="none"
+            />
+            <Text style={styles.helperText}>
+              {t('changePassword.minLength', { count: MIN_PASSWORD_LENGTH })}
+            </Text>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>{t('auth.confirmPassword')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder={t('auth.confirmPasswordPlaceholder')}
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              secureTextEntry
+              autoCapitalize="none"
+            />
+          </View>
+
+          <Button
+            title={t('changePassword.submit')}
+            onPress={handleChangePassword}
+            loading={saving}
+            disabled={saving}
+            style={styles.saveButton}
+          />
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    marginTop: 30,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.lg,
+    paddingBottom: spacing.sm,
+    backgroundColor: colors.white,
+    ...shadows.small,
+  },
+  headerTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContent: {
+    padding: spacing.md,
+  },
+  intro: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+    marginBottom: spacing.md,
+  },
+  formContainer: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    ...shadows.small,
+  },
+  inputGroup: {
+    marginBottom: spacing.md,
+  },
+  label: {
+    fontSize: fontSizes.sm,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.lightGray,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    fontSize: fontSizes.md,
+    color: colors.text,
+    backgroundColor: colors.white,
+  },
+  helperText: {
+    fontSize: fontSizes.xs,
+    color: colors.lightText,
+    marginTop: spacing.xs,
+  },
+  saveButton: {
+    marginTop: spacing.md,
+  },
+});
+
+export default ChangePasswordScreen;
@@ -0,0 +1,404 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Image,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList, Conversation, ChatMessage } from '../types';
+import { colors, fontSizes, spacing, borderRadius } from '../theme';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { auth } from '../utilities/firebaseConfig';
+import {
+  subscribeToConversation,
+  subscribeToMessages,
+  sendChatMessage,
+  markConversationRead,
+} from '../utilities/firestoreUtils';
+import {
+  MAX_MESSAGE_LENGTH,
+  getOtherParticipant,
+  getUnreadCount,
+  isMessageSeen,
+} from '../utilities/chatUtils';
+import { compressPhoto } from '../utilities/imageUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+
+type ChatScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Chat'>;
+type ChatScreenRouteProp = RouteProp<RootStackParamList, 'Chat'>;
+
+const ChatScreen = () => {
+  const navigation = useNavigation<ChatScreenNavigationProp>();
+  const { t } = useTranslation();
+  const { formatTime } = useFormat();
+  const route = useRoute<ChatScreenRouteProp>();
+  const { conversationId } = route.params;
+  const email = auth.currentUser?.email || '';
+
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+  const listRef = useRef<FlatList<ChatMessage>>(null);
+
+  useEffect(() => {
+    const unsubscribeConversation = subscribeToConversation(conversationId, (updated) => {
+      setConversation(updated);
+      setLoading(false);
+    });
+    const unsubscribeMessages = subscribeToMessages(conversationId, setMessages);
+
+    return () => {
+      unsubscribeConversation();
+      unsubscribeMessages();
+    };
+  }, [conversationId]);
+
+  // Messages that arrive while the thread is open count as read straight away
+  useEffect(() => {
+    if (conversation && email && getUnreadCount(conversation, email) > 0) {
+      markConversationRead(conversation, email).catch(() => undefined);
+    }
+  }, [conversation, email]);
+
+  const handleOpenSubject = () => {
+    if (!conversation) return;
+
+    switch (conversation.subjectType) {
+      case 'product':
+        navigation.navigate('ProductDetails', { productId: conversation.subjectId });
+        break;
+      case 'machine':
+        navigation.navigate('MachineDetails', { machineId: conversation.subjectId });
+        break;
+      case 'shop':
+        navigation.navigate('ShopDetails', { shopId: conversation.subjectId });
+        break;
+      case 'bid':
+        navigation.navigate('BidDetails', { bidId: conversation.subjectId });
+        break;
+    }
+  };
+
+  const handleSendText = async () => {
+    const trimmed = text.trim();
+    if (!conversation || !trimmed) return;
+
+    try {
+      setSending(true);
+      await sendChatMessage(conversation, email, { type: 'text', text: trimmed });
+      setText('');
+    } catch (error) {
+      Alert.alert(t('common.error'), t('messages.sendFailed'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleSendImage = async () => {
+    if (!conversation) return;
+
+    try {
+      const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+      if (!permissionResult.granted) {
+        Alert.alert(t('common.permissionRequired'), t('common.photoPermission'));
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [4, 3],
+        quality: 1,
+      });
+
+      if (!result.canceled) {
+        setSending(true);
+
+        // Storage is disabled, so photos are kept inline as Base64 and shrunk to fit the message doc
+        let photo: string;
+        try {
+          const asset = result.assets[0];
+          photo = await compressPhoto(asset.uri, asset.width);
+        } catch (processError) {
+          console.error('Error compressing image:', processError);
+          Alert.alert(t('common.error'), t('common.imageProcessFailed'));
+          return;
+        }
+
+        await sendChatMessage(conversation, email, { type: 'image', imageUri: photo });
+      }
+    } catch (error) {
+      console.error('Error sending image:', error);
+      Alert.alert(t('common.error'), t('messages.photoFailed'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const renderMessage = ({ item }: { item: ChatMessage }) => {
+    const isMine = item.senderEmail === email;
+    const time = formatTime(item.createdAt);
+
+    return (
+      <View style={[styles.messageRow, isMine ? styles.myMessageRow : styles.theirMessageRow]}>
+        <View style={[styles.bubble, isMine ? styles.myBubble : styles.theirBubble]}>
+          {item.type === 'image' && item.imageUri ? (
+            <Image source={{ uri: item.imageUri }} style={styles.messageImage} />
+          ) : (
+            <Text style={[styles.messageText, isMine && styles.myMessageText]}>{item.text}</Text>
+          )}
+          <View style={styles.messageMeta}>
+            <Text style={[styles.messageTime, isMine && styles.myMessageTime]}>{time}</Text>
+            {isMine && conversation && (
+              <Ionicons
+                name={isMessageSeen(conversation, item) ? 'checkmark-done' : 'checkmark'}
+                size={14}
+                color={isMessageSeen(conversation, item) ? colors.accent : colors.white}
+                style={styles.receiptIcon}
+              />
+            )}
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!conversation) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.emptyText}>{t('messages.notFound')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.headerInfo} onPress={handleOpenSubject}>
+          <Text style={styles.headerTitle} numberOfLines={1}>{conversation.subjectTitle}</Text>
+          <Text style={styles.headerSubtitle} numberOfLines={1}>{getOtherParticipant(conversation, email)}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.backButton} onPress={handleOpenSubject}>
+          <Ionicons name="open-outline" size={22} color={colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        ref={listRef}
+        data={messages}
+        renderItem={renderMessage}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.messageList}
+        onContentSizeChange={() => listRef.current?.scrollToEnd({ animated: false })}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="chatbubble-ellipses-outline" size={48} color={colors.gray} />
+            <Text style={styles.emptyText}>{t('messages.sayHello')}</Text>
+          </View>
+        }
+      />
+
+      <View style={styles.inputBar}>
+        <TouchableOpacity style={styles.iconButton} onPress={handleSendImage} disabled={sending}>
+          <Ionicons name="image-outline" size={24} color={colors.primary} />
+        </TouchableOpacity>
+        <TextInput
+          style={styles.input}
+          value={text}
+          onChangeText={setText}
+          placeholder={t('messages.placeholder')}
+          multiline
+          maxLength={MAX_MESSAGE_LENGTH}
+        />
+        <TouchableOpacity
+          style={[styles.sendButton, (!text.trim() || sending) && styles.sendButtonDisabled]}
+          onPress={handleSendText}
+          disabled={!text.trim() || sending}
+        >
+          {sending ? (
+            <ActivityIndicator size="small" color={colors.white} />
+          ) : (
+            <Ionicons name="send" size={18} color={colors.white} />
+          )}
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  headerInfo: {
+    flex: 1,
+    alignItems: 'center',
+    marginHorizontal: spacing.sm,
+  },
+  headerTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  headerSubtitle: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+  messageList: {
+    padding: spacing.md,
+    flexGrow: 1,
+  },
+  messageRow: {
+    flexDirection: 'row',
+    marginBottom: spacing.sm,
+  },
+  myMessageRow: {
+    justifyContent: 'flex-end',
+  },
+  theirMessageRow: {
+    justifyContent: 'flex-start',
+  },
+  bubble: {
+    maxWidth: '80%',
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  myBubble: {
+    backgroundColor: colors.primary,
+    borderBottomRightRadius: 2,
+  },
+  theirBubble: {
+    backgroundColor: colors.lightGray,
+    borderBottomLeftRadius: 2,
+  },
+  messageText: {
+    fontSize: fontSizes.md,
+    color: colors.text,
+  },
+  myMessageText: {
+    color: colors.white,
+  },
+  messageImage: {
+    width: 200,
+    height: 150,
+    borderRadius: borderRadius.sm,
+  },
+  messageMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    marginTop: 2,
+  },
+  messageTime: {
+    fontSize: fontSizes.xs,
+    color: colors.lightText,
+  },
+  myMessageTime: {
+    color: colors.white,
+  },
+  receiptIcon: {
+    marginLeft: 4,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: fontSizes.md,
+    color: colors.lightText,
+    marginTop: spacing.sm,
+  },
+  inputBar: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    padding: spacing.sm,
+    backgroundColor: colors.white,
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+  },
+  iconButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    maxHeight: 100,
+    minHeight: 40,
+    backgroundColor: colors.lightGray,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    fontSize: fontSizes.md,
+    color: colors.text,
+    marginHorizontal: spacing.xs,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendButtonDisabled: {
+    backgroundColor: colors.gray,
+  },
+});
+
+export default ChatScreen;
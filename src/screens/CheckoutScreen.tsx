@@ -0,0 +1,775 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList, CartItem, DeliveryWindow, PaymentMethod, Promotion, DeliveryRule } from '../types';
+import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
+import { Ionicons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import Button from '../components/Button';
+import { DELIVERY_WINDOWS, PAYMENT_METHODS, DISTRICTS } from '../data';
+import { auth } from '../utilities/firebaseConfig';
+import {
+  getCartItems,
+  getUserById,
+  getPromotionByCode,
+  getDeliveryRules,
+  createOrder,
+  clearCart,
+  InsufficientStockError,
+  PromotionError,
+} from '../utilities/firestoreUtils';
+import {
+  calculateOrderTotals,
+  calculatePromoDiscount,
+  calculateDeliveryFees,
+} from '../utilities/pricingUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+
+type CheckoutNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Checkout'>;
+type CheckoutRouteProp = RouteProp<RootStackParamList, 'Checkout'>;
+
+type CheckoutStep = 'address' | 'slot' | 'payment' | 'summary';
+
+const STEPS: CheckoutStep[] = ['address', 'slot', 'payment', 'summary'];
+
+// Deliveries can be booked from tomorrow up to a week ahead
+const getDeliveryDates = (): Date[] => {
+  const dates: Date[] = [];
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  for (let i = 1; i <= 7; i++) {
+    const date = new Date(today);
+    date.setDate(today.getDate() + i);
+    dates.push(date);
+  }
+
+  return dates;
+};
+
+const CheckoutScreen = () => {
+  const navigation = useNavigation<CheckoutNavigationProp>();
+  const route = useRoute<CheckoutRouteProp>();
+  const { t } = useTranslation();
+  const { formatCurrency, formatDate, formatWeekday, formatNumber, formatHourRange } = useFormat();
+  const promoCode = route.params?.promoCode;
+
+  const [step, setStep] = useState<CheckoutStep>('address');
+  const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const [promotion, setPromotion] = useState<Promotion | null>(null);
+  const [deliveryRules, setDeliveryRules] = useState<DeliveryRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [placingOrder, setPlacingOrder] = useState(false);
+
+  // Form states
+  const [deliveryAddress, setDeliveryAddress] = useState('');
+  const [district, setDistrict] = useState('');
+  const [contactPhone, setContactPhone] = useState('');
+  const [deliveryDates] = useState<Date[]>(getDeliveryDates);
+  const [deliveryDate, setDeliveryDate] = useState<Date>(deliveryDates[0]);
+  const [deliveryWindow, setDeliveryWindow] = useState<DeliveryWindow>('morning');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash_on_delivery');
+
+  const promoResult = promotion && auth.currentUser
+    ? calculatePromoDiscount(promotion, cartItems, auth.currentUser.uid)
+    : null;
+  const deliveryFees = calculateDeliveryFees(cartItems, district, deliveryRules);
+  const { subtotal, discount, deliveryFee, total } = calculateOrderTotals(
+    cartItems,
+    promoResult?.valid ? promoResult.discount : 0,
+    deliveryFees
+  );
+  const stepIndex = STEPS.indexOf(step);
+
+  useEffect(() => {
+    loadCheckoutData();
+  }, []);
+
+  const loadCheckoutData = async () => {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      setLoading(false);
+      Alert.alert(t('common.error'), t('cart.signInToCheckout'));
+      navigation.goBack();
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const [items, user, promo] = await Promise.all([
+        getCartItems(currentUser.uid),
+        getUserById(currentUser.uid),
+        promoCode ? getPromotionByCode(promoCode) : Promise.resolve(null),
+      ]);
+
+      if (items.length === 0) {
+        Alert.alert(t('common.error'), t('cart.emptyAlert'));
+        navigation.goBack();
+        return;
+      }
+
+      setCartItems(items);
+      setPromotion(promo);
+      setDeliveryRules(await getDeliveryRules(items.map(item => item.sellerEmail || '')));
+
+      // Prefill delivery details from the user's profile
+      if (user) {
+        setDeliveryAddress(user.address || '');
+        setDistrict(user.district || '');
+        setContactPhone(user.phone || '');
+      }
+    } catch (error) {
+      console.error('Error loading checkout data:', error);
+      Alert.alert(t('common.error'), t('checkout.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const validateStep = (): boolean => {
+    if (step === 'address') {
+      if (!deliveryAddress.trim()) {
+        Alert.alert(t('common.missingInfo'), t('checkout.enterAddress'));
+        return false;
+      }
+
+      if (!district) {
+        Alert.alert(t('common.missingInfo'), t('checkout.chooseDistrict'));
+        return false;
+      }
+
+      if (!/^\+?[0-9\s-]{9,15}$/.test(contactPhone.trim())) {
+        Alert.alert(t('checkout.invalidPhone'), t('checkout.enterPhone'));
+        return false;
+      }
+    }
+
+    return true;
+  };
+
+  const handleNext = () => {
+    if (!validateStep()) return;
+    setStep(STEPS[stepIndex + 1]);
+  };
+
+  const handleBack = () => {
+    if (stepIndex === 0) {
+      navigation.goBack();
+    } else {
+      setStep(STEPS[stepIndex - 1]);
+    }
+  };
+
+  const handlePlaceOrder = async () => {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      Alert.alert(t('common.error'), t('cart.signInToCheckout'));
+      return;
+    }
+
+    try {
+      setPlacingOrder(true);
+
+      const orderId = await createOrder({
+        userId: currentUser.uid,
+        userEmail: currentUser.email || '',
+        products: cartItems,
+        subtotal,
+        discount,
+        deliveryFee,
+        totalAmount: total,
+        deliveryAddress: deliveryAddress.trim(),
+        deliveryDistrict: district,
+        contactPhone: contactPhone.trim(),
+        deliverySlot: {
+          date: deliveryDate,
+          window: deliveryWindow,
+        },
+        paymentMethod,
+        ...(promotion && promoResult?.valid ? { promoId: promotion.id, promoCode: promotion.code } : {}),
+      });
+
+      // The order is placed by now, so a cart left behind must not send the buyer back to place it again
+      try {
+        await clearCart(currentUser.uid);
+      } catch (error) {
+        console.error('Error clearing cart after placing order:', error);
+      }
+
+      setPlacingOrder(false);
+      navigation.replace('OrderConfirmation', { orderId });
+    } catch (error) {
+      console.error('Error placing order:', error);
+      setPlacingOrder(false);
+
+      if (error instanceof InsufficientStockError) {
+        const details = error.shortages
+          .map(item => item.available > 0
+            ? t('checkout.onlyLeft', { name: item.name, available: item.available, requested: item.requested })
+            : t('checkout.outOfStock', { name: item.name }))
+          .join('\n');
+        Alert.alert(t('checkout.notEnoughStock'), `${t('checkout.updateCart')}\n\n${details}`, [
+          { text: t('checkout.backToCart'), onPress: () => navigation.goBack() },
+        ]);
+        return;
+      }
+
+      if (error instanceof PromotionError) {
+        setPromotion(null);
+        Alert.alert(
+          t('checkout.promoNotApplied'),
+          `${t(`cart.promoRejections.${error.reason}`)}\n\n${t('checkout.reviewTotal')}`
+        );
+        return;
+      }
+
+      Alert.alert(t('common.error'), t('checkout.placeFailed'));
+    }
+  };
+
+  const renderStepIndicator = () => (
+    <View style={styles.stepIndicator}>
+      {STEPS.map((s, index) => (
+        <View key={s} style={styles.stepItem}>
+          <View style={[styles.stepCircle, index <= stepIndex && styles.stepCircleActive]}>
+            {index < stepIndex ? (
+              <Ionicons name="checkmark" size={14} color={colors.white} />
+            ) : (
+              <Text style={[styles.stepNumber, index <= stepIndex && styles.stepNumberActive]}>
+                {index + 1}
+              </Text>
+            )}
+          </View>
+          <Text style={[styles.stepLabel, index === stepIndex && styles.stepLabelActive]}>
+            {t(`checkout.steps.${s}`)}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderAddressStep = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{t('checkout.deliveryAddress')}</Text>
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>{t('checkout.address')}</Text>
+        <TextInput
+          style={[styles.input, styles.multilineInput]}
+          value={deliveryAddress}
+          onChangeText={setDeliveryAddress}
+          placeholder={t('checkout.addressPlaceholder')}
+          placeholderTextColor={colors.lightText}
+          multiline
+          numberOfLines={3}
+        />
+      </View>
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>{t('checkout.district')}</Text>
+        <View style={styles.pickerContainer}>
+          <Picker
+            selectedValue={district}
+            onValueChange={(itemValue) => setDistrict(itemValue)}
+            style={styles.picker}
+            mode="dropdown"
+          >
+            <Picker.Item label={t('checkout.selectDistrict')} value="" />
+            {DISTRICTS.map(d => (
+              <Picker.Item key={d.name} label={d.name} value={d.name} />
+            ))}
+          </Picker>
+        </View>
+      </View>
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>{t('checkout.contactPhone')}</Text>
+        <TextInput
+          style={styles.input}
+          value={contactPhone}
+          onChangeText={setContactPhone}
+          placeholder="+94 77 123 4567"
+          placeholderTextColor={colors.lightText}
+          keyboardType="phone-pad"
+        />
+      </View>
+    </View>
+  );
+
+  const renderSlotStep = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{t('checkout.deliveryDate')}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.dateList}>
+        {deliveryDates.map(date => {
+          const selected = date.getTime() === deliveryDate.getTime();
+          return (
+            <TouchableOpacity
+              key={date.toISOString()}
+              style={[styles.dateChip, selected && styles.chipSelected]}
+              onPress={() => setDeliveryDate(date)}
+            >
+              <Text style={[styles.dateChipDay, selected && styles.chipTextSelected]}>
+                {formatWeekday(date, true)}
+              </Text>
+              <Text style={[styles.dateChipDate, selected && styles.chipTextSelected]}>
+                {formatNumber(date.getDate())}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      <Text style={styles.cardTitle}>{t('checkout.timeSlot')}</Text>
+      {DELIVERY_WINDOWS.map(option => (
+        <TouchableOpacity
+          key={option.key}
+          style={[styles.optionRow, deliveryWindow === option.key && styles.optionRowSelected]}
+          onPress={() => setDeliveryWindow(option.key)}
+        >
+          <Ionicons
+            name={deliveryWindow === option.key ? 'radio-button-on' : 'radio-button-off'}
+            size={20}
+            color={colors.primary}
+          />
+          <View style={styles.optionInfo}>
+            <Text style={styles.optionLabel}>{t(`orders.deliveryWindows.${option.key}`)}</Text>
+            <Text style={styles.optionSubLabel}>{formatHourRange(option.startHour, option.endHour)}</Text>
+          </View>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderPaymentStep = () => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{t('checkout.paymentMethod')}</Text>
+      {PAYMENT_METHODS.map(option => (
+        <TouchableOpacity
+          key={option.key}
+          style={[styles.optionRow, paymentMethod === option.key && styles.optionRowSelected]}
+          onPress={() => setPaymentMethod(option.key)}
+        >
+          <Ionicons
+            name={paymentMethod === option.key ? 'radio-button-on' : 'radio-button-off'}
+            size={20}
+            color={colors.primary}
+          />
+          <Ionicons name={option.icon as any} size={20} color={colors.text} style={styles.optionIcon} />
+          <Text style={styles.optionLabel}>{t(`orders.paymentMethods.${option.key}`)}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const renderSummaryStep = () => {
+    const slot = DELIVERY_WINDOWS.find(w => w.key === deliveryWindow);
+
+    return (
+      <>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('checkout.items')}</Text>
+          {cartItems.map(item => (
+            <View key={item.id} style={styles.summaryRow}>
+              <Text style={styles.summaryItemName} numberOfLines={1}>
+                {item.name} x {item.quantity}
+              </Text>
+              <Text style={styles.summaryValue}>{formatCurrency(item.price * item.quantity)}</Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.detailHeader}>
+            <Text style={styles.cardTitle}>{t('checkout.delivery')}</Text>
+            <TouchableOpacity onPress={() => setStep('address')}>
+              <Text style={styles.editLink}>{t('common.edit')}</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.detailText}>{deliveryAddress}</Text>
+          <Text style={styles.detailText}>{district}</Text>
+          <Text style={styles.detailText}>{contactPhone}</Text>
+          <Text style={styles.detailText}>
+            {formatDate(deliveryDate)}, {t(`orders.deliveryWindows.${deliveryWindow}`)} ({slot && formatHourRange(slot.startHour, slot.endHour)})
+          </Text>
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.detailHeader}>
+            <Text style={styles.cardTitle}>{t('checkout.payment')}</Text>
+            <TouchableOpacity onPress={() => setStep('payment')}>
+              <Text style={styles.editLink}>{t('common.edit')}</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.detailText}>{t(`orders.paymentMethods.${paymentMethod}`)}</Text>
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>{t('cart.subtotal')}</Text>
+            <Text style={styles.summaryValue}>{formatCurrency(subtotal)}</Text>
+          </View>
+          {discount > 0 && (
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>{t('checkout.discountCode', { code: promotion?.code || '' })}</Text>
+              <Text style={[styles.summaryValue, styles.discountValue]}>
+                -{formatCurrency(discount)}
+              </Text>
+            </View>
+          )}
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>{t('checkout.delivery')}</Text>
+            <Text style={styles.summaryValue}>
+              {deliveryFee > 0 ? formatCurrency(deliveryFee) : t('cart.free')}
+            </Text>
+          </View>
+          {deliveryFees.map(seller => (
+            <View key={seller.sellerEmail} style={styles.summaryRow}>
+              <Text style={styles.sellerFeeLabel} numberOfLines={1}>
+                {seller.sellerName} ({seller.weightKg} kg)
+              </Text>
+              <Text style={styles.sellerFeeLabel}>
+                {seller.freeShipping ? t('cart.free') : formatCurrency(seller.fee)}
+              </Text>
+            </View>
+          ))}
+          <View style={[styles.summaryRow, styles.totalRow]}>
+            <Text style={styles.totalLabel}>{t('cart.total')}</Text>
+            <Text style={styles.totalValue}>{formatCurrency(total)}</Text>
+          </View>
+        </View>
+      </>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.loadingText}>{t('checkout.loading')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={handleBack}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('checkout.title')}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      {renderStepIndicator()}
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+      >
+        {step === 'address' && renderAddressStep()}
+        {step === 'slot' && renderSlotStep()}
+        {step === 'payment' && renderPaymentStep()}
+        {step === 'summary' && renderSummaryStep()}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <Button
+          title={stepIndex === 0 ? t('checkout.backToCart') : t('checkout.back')}
+          onPress={handleBack}
+          type="outline"
+          style={styles.footerButton}
+          disabled={placingOrder}
+        />
+        {step === 'summary' ? (
+          <Button
+            title={placingOrder ? t('checkout.placing') : t('checkout.placeOrder')}
+            onPress={handlePlaceOrder}
+            loading={placingOrder}
+            disabled={placingOrder}
+            style={styles.footerButton}
+          />
+        ) : (
+          <Button
+            title={t('checkout.next')}
+            onPress={handleNext}
+            style={styles.footerButton}
+          />
+        )}
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingTop: 20,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+  loadingText: {
+    marginTop: spacing.md,
+    fontSize: fontSizes.md,
+    color: colors.text,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  headerTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepIndicator: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+  },
+  stepItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  stepCircle: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: colors.lightGray,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: spacing.xs,
+  },
+  stepCircleActive: {
+    backgroundColor: colors.primary,
+  },
+  stepNumber: {
+    fontSize: fontSizes.sm,
+    fontWeight: 'bold',
+    color: colors.lightText,
+  },
+  stepNumberActive: {
+    color: colors.white,
+  },
+  stepLabel: {
+    fontSize: fontSizes.xs,
+    color: colors.lightText,
+  },
+  stepLabelActive: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  scrollContent: {
+    padding: spacing.md,
+  },
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    ...shadows.small,
+  },
+  cardTitle: {
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
+  inputGroup: {
+    marginBottom: spacing.md,
+  },
+  label: {
+    fontSize: fontSizes.sm,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.gray,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    fontSize: fontSizes.md,
+    color: colors.text,
+    backgroundColor: colors.white,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: colors.gray,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.white,
+    overflow: 'hidden',
+  },
+  picker: {
+    width: '100%',
+    height: 50,
+  },
+  multilineInput: {
+    height: 100,
+    textAlignVertical: 'top',
+  },
+  dateList: {
+    marginBottom: spacing.md,
+  },
+  dateChip: {
+    width: 56,
+    paddingVertical: spacing.sm,
+    marginRight: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.gray,
+    alignItems: 'center',
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipTextSelected: {
+    color: colors.white,
+  },
+  dateChipDay: {
+    fontSize: fontSizes.xs,
+    color: colors.lightText,
+  },
+  dateChipDate: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.lightGray,
+    marginBottom: spacing.sm,
+  },
+  optionRowSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.lightGray,
+  },
+  optionIcon: {
+    marginLeft: spacing.md,
+  },
+  optionInfo: {
+    marginLeft: spacing.md,
+  },
+  optionLabel: {
+    fontSize: fontSizes.md,
+    color: colors.text,
+    marginLeft: spacing.sm,
+  },
+  optionSubLabel: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+    marginLeft: spacing.sm,
+  },
+  detailHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  editLink: {
+    fontSize: fontSizes.sm,
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  detailText: {
+    fontSize: fontSizes.md,
+    color: colors.text,
+    marginBottom: spacing.xs,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.sm,
+  },
+  summaryItemName: {
+    flex: 1,
+    fontSize: fontSizes.md,
+    color: colors.text,
+    marginRight: spacing.sm,
+  },
+  summaryLabel: {
+    fontSize: fontSizes.md,
+    color: colors.lightText,
+  },
+  summaryValue: {
+    fontSize: fontSizes.md,
+    color: colors.text,
+    fontWeight: '500',
+  },
+  discountValue: {
+    color: colors.success,
+  },
+  sellerFeeLabel: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+    marginLeft: spacing.md,
+  },
+  totalRow: {
+    marginTop: spacing.sm,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+  },
+  totalLabel: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  totalValue: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  footer: {
+    flexDirection: 'row',
+    padding: spacing.md,
+    backgroundColor: colors.white,
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+    ...shadows.top,
+  },
+  footerButton: {
+    flex: 1,
+    marginHorizontal: spacing.xs,
+  },
+});
+
+export default CheckoutScreen;
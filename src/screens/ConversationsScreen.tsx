@@ -0,0 +1,245 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList, Conversation } from '../types';
+import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
+import { Ionicons } from '@expo/vector-icons';
+import { auth } from '../utilities/firebaseConfig';
+import { subscribeToConversations } from '../utilities/firestoreUtils';
+import {
+  CONVERSATION_SUBJECT_ICONS,
+  getMessagePreview,
+  getOtherParticipant,
+  getUnreadCount,
+} from '../utilities/chatUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+
+type ConversationsNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Conversations'>;
+
+const ConversationsScreen = () => {
+  const navigation = useNavigation<ConversationsNavigationProp>();
+  const { t } = useTranslation();
+  const { formatRelativeTime } = useFormat();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const email = auth.currentUser?.email || '';
+
+  useEffect(() => {
+    if (!email) {
+      setLoading(false);
+      return;
+    }
+
+    const unsubscribe = subscribeToConversations(email, (userConversations) => {
+      setConversations(userConversations);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [email]);
+
+  const renderConversation = ({ item }: { item: Conversation }) => {
+    const unread = getUnreadCount(item, email);
+    const preview = getMessagePreview(item, t);
+
+    return (
+      <TouchableOpacity
+        style={styles.conversationCard}
+        onPress={() => navigation.navigate('Chat', { conversationId: item.id })}
+      >
+        <View style={styles.iconContainer}>
+          <Ionicons name={CONVERSATION_SUBJECT_ICONS[item.subjectType] as any} size={22} color={colors.primary} />
+        </View>
+        <View style={styles.conversationContent}>
+          <View style={styles.conversationHeader}>
+            <Text style={styles.subjectTitle} numberOfLines={1}>{item.subjectTitle}</Text>
+            <Text style={styles.timeText}>{formatRelativeTime(item.lastMessageAt || item.createdAt)}</Text>
+          </View>
+          <Text style={styles.participantText} numberOfLines={1}>{getOtherParticipant(item, email)}</Text>
+          <View style={styles.previewRow}>
+            <Text style={[styles.previewText, unread > 0 && styles.unreadPreview]} numberOfLines={1}>
+              {preview
+                ? (item.lastSenderEmail === email ? t('messages.you', { message: preview }) : preview)
+                : t('messages.noMessages')}
+            </Text>
+            {unread > 0 && (
+              <View style={styles.unreadBadge}>
+                <Text style={styles.unreadBadgeText}>{unread}</Text>
+              </View>
+            )}
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('messages.title')}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={conversations}
+          renderItem={renderConversation}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="chatbubbles-outline" size={60} color={colors.gray} />
+              <Text style={styles.emptyText}>{t('messages.noConversations')}</Text>
+              <Text style={styles.emptySubtext}>
+                {t('messages.startHint')}
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  headerTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: spacing.md,
+    flexGrow: 1,
+  },
+  conversationCard: {
+    flexDirection: 'row',
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    ...shadows.small,
+  },
+  iconContainer: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: colors.lightGray,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.md,
+  },
+  conversationContent: {
+    flex: 1,
+  },
+  conversationHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  subjectTitle: {
+    flex: 1,
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginRight: spacing.sm,
+  },
+  timeText: {
+    fontSize: fontSizes.xs,
+    color: colors.gray,
+  },
+  participantText: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+    marginTop: 2,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.xs,
+  },
+  previewText: {
+    flex: 1,
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+  },
+  unreadPreview: {
+    color: colors.text,
+    fontWeight: 'bold',
+  },
+  unreadBadge: {
+    minWidth: 20,
+    height: 20,
+    paddingHorizontal: 5,
+    borderRadius: 10,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: spacing.sm,
+  },
+  unreadBadgeText: {
+    color: colors.white,
+    fontSize: fontSizes.xs,
+    fontWeight: 'bold',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+  },
+  emptyText: {
+    fontSize: fontSizes.md,
+    color: colors.lightText,
+    marginTop: spacing.md,
+  },
+  emptySubtext: {
+    fontSize: fontSizes.sm,
+    color: colors.gray,
+    marginTop: spacing.xs,
+    textAlign: 'center',
+  },
+});
+
+export default ConversationsScreen;
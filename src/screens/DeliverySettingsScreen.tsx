@@ -0,0 +1,431 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Picker } from '@react-native-picker/picker';
+import { RootStackParamList, DeliveryRate, DeliveryZone } from '../types';
+import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
+import { Ionicons } from '@expo/vector-icons';
+import Button from '../components/Button';
+import { DISTRICTS, DELIVERY_ZONES } from '../data';
+import { auth } from '../utilities/firebaseConfig';
+import { getDeliveryRules, saveDeliveryRule } from '../utilities/firestoreUtils';
+import { DEFAULT_DELIVERY_RULE, validateDeliveryRule } from '../utilities/pricingUtils';
+import { useTranslation } from '../hooks/useTranslation';
+
+type DeliverySettingsNavigationProp = NativeStackNavigationProp<RootStackParamList, 'DeliverySettings'>;
+
+// Rates are edited as text and parsed when the rule is saved
+interface RateForm {
+  baseFee: string;
+  perKgFee: string;
+  includedWeightKg: string;
+}
+
+const toRateForm = (rate: DeliveryRate): RateForm => ({
+  baseFee: String(rate.baseFee),
+  perKgFee: String(rate.perKgFee),
+  includedWeightKg: String(rate.includedWeightKg),
+});
+
+const toRate = (form: RateForm): DeliveryRate => ({
+  baseFee: Number(form.baseFee),
+  perKgFee: Number(form.perKgFee),
+  includedWeightKg: Number(form.includedWeightKg),
+});
+
+const mapRateForms = <K extends string>(rates: Partial<Record<K, RateForm>>): Partial<Record<K, DeliveryRate>> => {
+  const result: Partial<Record<K, DeliveryRate>> = {};
+  (Object.keys(rates) as K[]).forEach(key => {
+    result[key] = toRate(rates[key] as RateForm);
+  });
+  return result;
+};
+
+const DeliverySettingsScreen = () => {
+  const navigation = useNavigation<DeliverySettingsNavigationProp>();
+  const { t } = useTranslation();
+  const [defaultRate, setDefaultRate] = useState<RateForm>(toRateForm(DEFAULT_DELIVERY_RULE.defaultRate));
+  const [zoneRates, setZoneRates] = useState<Partial<Record<DeliveryZone, RateForm>>>({});
+  const [districtRates, setDistrictRates] = useState<Record<string, RateForm>>({});
+  const [freeShippingThreshold, setFreeShippingThreshold] = useState('');
+  const [newDistrict, setNewDistrict] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadRule();
+  }, []);
+
+  // Start from the seller's saved rule, or from the marketplace default if they have none yet
+  const loadRule = async () => {
+    const sellerEmail = auth.currentUser?.email;
+    if (!sellerEmail) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const rules = await getDeliveryRules([sellerEmail]);
+      const sellerRule = rules.find(rule => rule.sellerEmail === sellerEmail);
+      const baseRule = sellerRule || rules.find(rule => !rule.sellerEmail) || DEFAULT_DELIVERY_RULE;
+
+      setDefaultRate(toRateForm(baseRule.defaultRate));
+      setFreeShippingThreshold(baseRule.freeShippingThreshold ? String(baseRule.freeShippingThreshold) : '');
+
+      if (sellerRule) {
+        const zoneForms: Partial<Record<DeliveryZone, RateForm>> = {};
+        (Object.keys(sellerRule.zoneRates || {}) as DeliveryZone[]).forEach(zone => {
+          zoneForms[zone] = toRateForm(sellerRule.zoneRates![zone]!);
+        });
+        const districtForms: Record<string, RateForm> = {};
+        Object.entries(sellerRule.districtRates || {}).forEach(([district, rate]) => {
+          districtForms[district] = toRateForm(rate);
+        });
+        setZoneRates(zoneForms);
+        setDistrictRates(districtForms);
+      }
+    } catch (error) {
+      console.error('Error loading delivery rule:', error);
+      Alert.alert(t('common.error'), t('deliverySettings.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleZone = (zone: DeliveryZone, enabled: boolean) => {
+    setZoneRates(prev => {
+      const next = { ...prev };
+      if (enabled) {
+        next[zone] = { ...defaultRate };
+      } else {
+        delete next[zone];
+      }
+      return next;
+    });
+  };
+
+  const addDistrict = () => {
+    if (!newDistrict || districtRates[newDistrict]) return;
+    setDistrictRates(prev => ({ ...prev, [newDistrict]: { ...defaultRate } }));
+    setNewDistrict('');
+  };
+
+  const removeDistrict = (district: string) => {
+    setDistrictRates(prev => {
+      const next = { ...prev };
+      delete next[district];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    const sellerEmail = auth.currentUser?.email;
+    if (!sellerEmail) {
+      Alert.alert(t('common.error'), t('deliverySettings.signInRequired'));
+      return;
+    }
+
+    const rule = {
+      sellerEmail,
+      defaultRate: toRate(defaultRate),
+      zoneRates: mapRateForms(zoneRates),
+      districtRates: mapRateForms(districtRates) as Record<string, DeliveryRate>,
+      freeShippingThreshold: freeShippingThreshold.trim() ? Number(freeShippingThreshold) : 0,
+    };
+
+    const errorKey = validateDeliveryRule(rule);
+    if (errorKey) {
+      Alert.alert(t('common.error'), t(errorKey));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveDeliveryRule(rule);
+      Alert.alert(t('common.success'), t('deliverySettings.saved'), [
+        { text: t('common.ok'), onPress: () => navigation.goBack() },
+      ]);
+    } catch (error) {
+      Alert.alert(t('common.error'), t('deliverySettings.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderRateInputs = (rate: RateForm, onChange: (rate: RateForm) => void) => (
+    <View style={styles.rateRow}>
+      {(['baseFee', 'perKgFee', 'includedWeightKg'] as (keyof RateForm)[]).map(field => (
+        <View key={field} style={styles.rateField}>
+          <Text style={styles.rateLabel}>{t(`deliverySettings.fields.${field}`)}</Text>
+          <TextInput
+            style={styles.input}
+            value={rate[field]}
+            onChangeText={value => onChange({ ...rate, [field]: value })}
+            keyboardType="numeric"
+          />
+        </View>
+      ))}
+    </View>
+  );
+
+  const availableDistricts = DISTRICTS.filter(d => !districtRates[d.name]);
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('deliverySettings.title')}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          <Text style={styles.intro}>{t('deliverySettings.intro')}</Text>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('deliverySettings.defaultRate')}</Text>
+            {renderRateInputs(defaultRate, setDefaultRate)}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('deliverySettings.freeShipping')}</Text>
+            <TextInput
+              style={styles.input}
+              value={freeShippingThreshold}
+              onChangeText={setFreeShippingThreshold}
+              placeholder={t('deliverySettings.freeShippingPlaceholder')}
+              placeholderTextColor={colors.lightText}
+              keyboardType="numeric"
+            />
+            <Text style={styles.helperText}>{t('deliverySettings.freeShippingHelp')}</Text>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('deliverySettings.zoneRates')}</Text>
+            <Text style={styles.helperText}>{t('deliverySettings.zoneRatesHelp')}</Text>
+            {DELIVERY_ZONES.map(zone => {
+              const rate = zoneRates[zone];
+              return (
+                <View key={zone} style={styles.overrideRow}>
+                  <View style={styles.toggleRow}>
+                    <Text style={styles.toggleLabel}>{t(`deliverySettings.zones.${zone}`)}</Text>
+                    <Switch
+                      value={!!rate}
+                      onValueChange={enabled => toggleZone(zone, enabled)}
+                      trackColor={{ false: colors.gray, true: colors.primary }}
+                      thumbColor={colors.white}
+                    />
+                  </View>
+                  {rate && renderRateInputs(rate, updated => setZoneRates(prev => ({ ...prev, [zone]: updated })))}
+                </View>
+              );
+            })}
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>{t('deliverySettings.districtRates')}</Text>
+            <Text style={styles.helperText}>{t('deliverySettings.districtRatesHelp')}</Text>
+            {Object.entries(districtRates).map(([district, rate]) => (
+              <View key={district} style={styles.overrideRow}>
+                <View style={styles.toggleRow}>
+                  <Text style={styles.toggleLabel}>{district}</Text>
+                  <TouchableOpacity onPress={() => removeDistrict(district)}>
+                    <Ionicons name="trash-outline" size={20} color={colors.error} />
+                  </TouchableOpacity>
+                </View>
+                {renderRateInputs(rate, updated => setDistrictRates(prev => ({ ...prev, [district]: updated })))}
+              </View>
+            ))}
+            {availableDistricts.length > 0 && (
+              <View style={styles.addDistrictRow}>
+                <View style={styles.pickerContainer}>
+                  <Picker
+                    selectedValue={newDistrict}
+                    onValueChange={(itemValue) => setNewDistrict(itemValue)}
+                    style={styles.picker}
+                    mode="dropdown"
+                  >
+                    <Picker.Item label={t('checkout.selectDistrict')} value="" />
+                    {availableDistricts.map(d => (
+                      <Picker.Item key={d.name} label={d.name} value={d.name} />
+                    ))}
+                  </Picker>
+                </View>
+                <TouchableOpacity
+                  style={[styles.addButton, !newDistrict && styles.addButtonDisabled]}
+                  onPress={addDistrict}
+                  disabled={!newDistrict}
+                >
+                  <Ionicons name="add" size={22} color={colors.white} />
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+
+          <Button
+            title={t('deliverySettings.save')}
+            onPress={handleSave}
+            loading={saving}
+            disabled={saving}
+            style={styles.saveButton}
+          />
+        </ScrollView>
+      )}
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    marginTop: 30,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.lg,
+    paddingBottom: spacing.sm,
+    backgroundColor: colors.white,
+    ...shadows.small,
+  },
+  headerTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContent: {
+    padding: spacing.md,
+  },
+  intro: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+    marginBottom: spacing.md,
+  },
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    ...shadows.small,
+  },
+  cardTitle: {
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
+  helperText: {
+    fontSize: fontSizes.xs,
+    color: colors.lightText,
+    marginTop: spacing.xs,
+  },
+  rateRow: {
+    flexDirection: 'row',
+    marginHorizontal: -spacing.xs,
+  },
+  rateField: {
+    flex: 1,
+    marginHorizontal: spacing.xs,
+  },
+  rateLabel: {
+    fontSize: fontSizes.xs,
+    color: colors.lightText,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.lightGray,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    fontSize: fontSizes.md,
+    color: colors.text,
+    backgroundColor: colors.white,
+  },
+  overrideRow: {
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+    marginTop: spacing.sm,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xs,
+  },
+  toggleLabel: {
+    fontSize: fontSizes.md,
+    color: colors.text,
+  },
+  addDistrictRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  pickerContainer: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.lightGray,
+    borderRadius: borderRadius.sm,
+    overflow: 'hidden',
+  },
+  picker: {
+    height: 50,
+  },
+  addButton: {
+    width: 44,
+    height: 44,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: spacing.sm,
+  },
+  addButtonDisabled: {
+    backgroundColor: colors.gray,
+  },
+  saveButton: {
+    marginTop: spacing.sm,
+    marginBottom: spacing.xl,
+  },
+});
+
+export default DeliverySettingsScreen;
@@ -14,7 +14,7 @@ import {
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { RootStackParamList, User } from '../types';
+import { RootStackParamList, User, UserRole } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import Button from '../components/Button';
 import { Ionicons } from '@expo/vector-icons';
@@ -24,6 +24,10 @@ import { auth, db, storage, uploadFile } from '../utilities/firebaseConfig';
 import { doc, getDoc, updateDoc, setDoc } from 'firebase/firestore';
 import { updateProfile } from 'firebase/auth';
 import * as FileSystem from 'expo-file-system';
+import RoleSelector from '../components/RoleSelector';
+import { SELECTABLE_ROLES, getUserRoles, mergeSelectedRoles, validateRoles } from '../utilities/roleUtils';
+import { savePublicProfile } from '../utilities/firestoreUtils';
+import { useTranslation } from '../hooks/useTranslation';
 
 type EditProfileScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'EditProfile'>;
 
@@ -41,6 +45,7 @@ const defaultUser: User = {
 
 const EditProfileScreen = () => {
   const navigation = useNavigation<EditProfileScreenNavigationProp>();
+  const { t } = useTranslation();
   const [user, setUser] = useState<User>(defaultUser);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -52,6 +57,7 @@ const EditProfileScreen = () => {
   const [phone, setPhone] = useState('');
   const [address, setAddress] = useState('');
   const [avatar, setAvatar] = useState('');
+  const [selectedRoles, setSelectedRoles] = useState<UserRole[]>([]);
 
   useEffect(() => {
     loadUserData();
@@ -78,9 +84,12 @@ const EditProfileScreen = () => {
               phone: userData.phone || '',
               address: userData.address || '',
               avatar: userData.avatar || currentUser.photoURL || 'https://placehold.co/200x200/png',
+              roles: getUserRoles(userData),
+              verifiedSeller: userData.verifiedSeller === true,
             };
             
             setUser(userObj);
+            setSelectedRoles(getUserRoles(userObj).filter(role => SELECTABLE_ROLES.includes(role)));
             
             // Set form states
             setName(userObj.name);
@@ -103,6 +112,7 @@ const EditProfileScreen = () => {
             };
             
             setUser(userObj);
+            setSelectedRoles(getUserRoles(userObj).filter(role => SELECTABLE_ROLES.includes(role)));
             setName(userObj.name);
             setEmail(userObj.email || '');
             setPhone('');
@@ -123,7 +133,7 @@ const EditProfileScreen = () => {
     } catch (error) {
       console.error('Error loading user data:', error);
       setLoading(false);
-      Alert.alert('Error', 'Failed to load user data. Please try again.');
+      Alert.alert(t('common.error'), t('editProfile.loadFailed'));
     }
   };
 
@@ -133,6 +143,7 @@ const EditProfileScreen = () => {
     if (userData) {
       const parsedUser = JSON.parse(userData) as User;
       setUser(parsedUser);
+      setSelectedRoles(getUserRoles(parsedUser).filter(role => SELECTABLE_ROLES.includes(role)));
       
       // Set form states
       setName(parsedUser.name);
@@ -147,6 +158,7 @@ const EditProfileScreen = () => {
       setPhone(defaultUser.phone);
       setAddress(defaultUser.address || '');
       setAvatar(defaultUser.avatar || '');
+      setSelectedRoles(getUserRoles(defaultUser));
     }
   };
 
@@ -156,18 +168,26 @@ const EditProfileScreen = () => {
       
       // Validate inputs
       if (!name.trim() || !email.trim() || !phone.trim()) {
-        Alert.alert('Error', 'Name, email, and phone number are required fields.');
+        Alert.alert(t('common.error'), t('editProfile.requiredFields'));
         setSaving(false);
         return;
       }
       
       const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
       if (!emailRegex.test(email)) {
-        Alert.alert('Error', 'Please enter a valid email address.');
+        Alert.alert(t('common.error'), t('editProfile.invalidEmail'));
         setSaving(false);
         return;
       }
       
+      const rolesError = validateRoles(selectedRoles);
+      if (rolesError) {
+        Alert.alert(t('common.error'), t(rolesError));
+        setSaving(false);
+        return;
+      }
+      
+      const roles = mergeSelectedRoles(getUserRoles(user), selectedRoles);
       const updatedUser: User = {
         ...user,
         name,
@@ -175,6 +195,7 @@ const EditProfileScreen = () => {
         phone,
         address,
         avatar,
+        roles,
       };
 
       // Check if user is logged in through Firebase
@@ -199,6 +220,7 @@ const EditProfileScreen = () => {
               phone: phone,
               address: address,
               avatar: avatar,
+              roles: roles,
               updatedAt: new Date()
             });
           } else {
@@ -209,13 +231,21 @@ const EditProfileScreen = () => {
               phone: phone,
               address: address,
               avatar: avatar,
+              roles: roles,
               createdAt: new Date(),
               updatedAt: new Date()
             });
           }
+          
+          // Other users only see the public profile
+          await savePublicProfile(currentUser.uid, {
+            name,
+            email: currentUser.email || email,
+            avatar
+          });
         } catch (error) {
           console.error('Error updating Firebase profile:', error);
-          Alert.alert('Warning', 'Profile updated locally but failed to update on the server. Some changes may not persist after logout.');
+          Alert.alert(t('common.warning'), t('editProfile.serverUpdateFailed'));
         }
       }
       
@@ -224,14 +254,14 @@ const EditProfileScreen = () => {
       
       setSaving(false);
       Alert.alert(
-        'Success',
-        'Profile updated successfully',
-        [{ text: 'OK', onPress: () => navigation.goBack() }]
+        t('common.success'),
+        t('editProfile.updated'),
+        [{ text: t('common.ok'), onPress: () => navigation.goBack() }]
       );
     } catch (error) {
       console.error('Error saving user data:', error);
       setSaving(false);
-      Alert.alert('Error', 'Failed to save user data. Please try again.');
+      Alert.alert(t('common.error'), t('editProfile.saveFailed'));
     }
   };
 
@@ -240,7 +270,7 @@ const EditProfileScreen = () => {
       const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
       
       if (!permissionResult.granted) {
-        Alert.alert('Permission Required', 'You need to grant permission to access your photos.');
+        Alert.alert(t('common.permissionRequired'), t('common.photoPermission'));
         return;
       }
       
@@ -265,7 +295,7 @@ const EditProfileScreen = () => {
           console.error('Error processing image:', error);
           // Fallback to local URI
           setAvatar(result.assets[0].uri);
-          Alert.alert('Warning', 'Could not process image properly. Using local version.');
+          Alert.alert(t('common.warning'), t('editProfile.imageFallback'));
         }
         
         setImageLoading(false);
@@ -273,7 +303,7 @@ const EditProfileScreen = () => {
     } catch (error) {
       console.error('Error selecting image:', error);
       setImageLoading(false);
-      Alert.alert('Error', 'Failed to select image. Please try again.');
+      Alert.alert(t('common.error'), t('editProfile.imageSelectFailed'));
     }
   };
 
@@ -282,7 +312,7 @@ const EditProfileScreen = () => {
       const permissionResult = await ImagePicker.requestCameraPermissionsAsync();
       
       if (!permissionResult.granted) {
-        Alert.alert('Permission Required', 'You need to grant permission to access your camera.');
+        Alert.alert(t('common.permissionRequired'), t('common.cameraPermission'));
         return;
       }
       
@@ -306,7 +336,7 @@ const EditProfileScreen = () => {
           console.error('Error processing image:', error);
           // Fallback to local URI
           setAvatar(result.assets[0].uri);
-          Alert.alert('Warning', 'Could not process image properly. Using local version.');
+          Alert.alert(t('common.warning'), t('editProfile.imageFallback'));
         }
         
         setImageLoading(false);
@@ -314,7 +344,7 @@ const EditProfileScreen = () => {
     } catch (error) {
       console.error('Error taking photo:', error);
       setImageLoading(false);
-      Alert.alert('Error', 'Failed to take photo. Please try again.');
+      Alert.alert(t('common.error'), t('common.photoTakeFailed'));
     }
   };
 
@@ -322,7 +352,7 @@ const EditProfileScreen = () => {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary} />
-        <Text style={styles.loadingText}>Loading profile...</Text>
+        <Text style={styles.loadingText}>{t('editProfile.loading')}</Text>
       </View>
     );
   }
@@ -340,7 +370,7 @@ const EditProfileScreen = () => {
         >
           <Ionicons name="arrow-back" size={24} color={colors.text} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Edit Profile</Text>
+        <Text style={styles.headerTitle}>{t('editProfile.title')}</Text>
         <View style={styles.backButton} />
       </View>
 
@@ -366,74 +396,82 @@ const EditProfileScreen = () => {
               onPress={handleSelectImage}
             >
               <Ionicons name="images" size={16} color={colors.white} />
-              <Text style={styles.imageButtonText}>Gallery</Text>
+              <Text style={styles.imageButtonText}>{t('common.gallery')}</Text>
             </TouchableOpacity>
             <TouchableOpacity
               style={styles.imageButton}
               onPress={handleTakePhoto}
             >
               <Ionicons name="camera" size={16} color={colors.white} />
-              <Text style={styles.imageButtonText}>Camera</Text>
+              <Text style={styles.imageButtonText}>{t('common.camera')}</Text>
             </TouchableOpacity>
           </View>
         </View>
 
         <View style={styles.formContainer}>
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Full Name</Text>
+            <Text style={styles.label}>{t('auth.fullName')}</Text>
             <TextInput
               style={styles.input}
               value={name}
               onChangeText={setName}
-              placeholder="Enter your full name"
+              placeholder={t('auth.fullNamePlaceholder')}
               placeholderTextColor={colors.lightText}
             />
           </View>
 
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Email Address</Text>
+            <Text style={styles.label}>{t('editProfile.emailAddress')}</Text>
             <TextInput
               style={styles.input}
               value={email}
               onChangeText={setEmail}
-              placeholder="Enter your email address"
+              placeholder={t('editProfile.emailPlaceholder')}
               placeholderTextColor={colors.lightText}
               keyboardType="email-address"
               autoCapitalize="none"
               editable={!auth.currentUser} // Disable email editing if logged in with Firebase
             />
             {auth.currentUser && (
-              <Text style={styles.helperText}>Email cannot be changed when using Firebase authentication</Text>
+              <Text style={styles.helperText}>{t('editProfile.emailLocked')}</Text>
             )}
           </View>
 
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Phone Number</Text>
+            <Text style={styles.label}>{t('auth.phone')}</Text>
             <TextInput
               style={styles.input}
               value={phone}
               onChangeText={setPhone}
-              placeholder="Enter your phone number"
+              placeholder={t('auth.phonePlaceholder')}
               placeholderTextColor={colors.lightText}
               keyboardType="phone-pad"
             />
           </View>
 
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Address</Text>
+            <Text style={styles.label}>{t('editProfile.address')}</Text>
             <TextInput
               style={[styles.input, styles.multilineInput]}
               value={address}
               onChangeText={setAddress}
-              placeholder="Enter your address"
+              placeholder={t('editProfile.addressPlaceholder')}
               placeholderTextColor={colors.lightText}
               multiline
               numberOfLines={3}
             />
           </View>
 
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>{t('editProfile.roles')}</Text>
+            <RoleSelector selectedRoles={selectedRoles} onChange={setSelectedRoles} />
+            {user.verifiedSeller && (
+              <Text style={styles.helperText}>{t('editProfile.verifiedSeller')}</Text>
+            )}
+          </View>
+
           <Button
-            title={saving ? 'Saving...' : 'Save Changes'}
+            title={saving ? t('common.saving') : t('common.saveChanges')}
             onPress={saveUserData}
             loading={saving}
             disabled={saving}
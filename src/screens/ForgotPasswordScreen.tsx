@@ -11,33 +11,41 @@ import {
   Image,
   Alert,
 } from 'react-native';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import Button from '../components/Button';
 import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from '../hooks/useTranslation';
+import { getAuthErrorKey, requestPasswordReset } from '../utilities/authUtils';
 
 type ForgotPasswordScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'ForgotPassword'>;
+type ForgotPasswordScreenRouteProp = RouteProp<RootStackParamList, 'ForgotPassword'>;
 
 const ForgotPasswordScreen = () => {
   const navigation = useNavigation<ForgotPasswordScreenNavigationProp>();
-  const [email, setEmail] = useState('');
+  const route = useRoute<ForgotPasswordScreenRouteProp>();
+  const { t } = useTranslation();
+  const [email, setEmail] = useState(route.params?.email || '');
   const [loading, setLoading] = useState(false);
   const [resetSent, setResetSent] = useState(false);
 
-  const handleResetPassword = () => {
+  const handleResetPassword = async () => {
     if (!email.trim()) {
-      Alert.alert('Error', 'Please enter your email address');
+      Alert.alert(t('common.error'), t('auth.enterEmail'));
       return;
     }
 
-    setLoading(true);
-    // Simulate API call
-    setTimeout(() => {
-      setLoading(false);
+    try {
+      setLoading(true);
+      await requestPasswordReset(email);
       setResetSent(true);
-    }, 1500);
+    } catch (error) {
+      Alert.alert(t('common.error'), t(getAuthErrorKey(error, 'auth.passwordResetFailed')));
+    } finally {
+      setLoading(false);
+    }
   };
 
   const handleBackToLogin = () => {
@@ -60,11 +68,11 @@ const ForgotPasswordScreen = () => {
             style={styles.logo}
             resizeMode="contain"
           />
-          <Text style={styles.title}>Reset Password</Text>
+          <Text style={styles.title}>{t('auth.resetPassword')}</Text>
           <Text style={styles.subtitle}>
             {resetSent 
-              ? "Password reset link has been sent to your email" 
-              : "Enter your email address to receive a password reset link"}
+              ? t('auth.resetLinkSent')
+              : t('auth.resetInstructions')}
           </Text>
         </View>
 
@@ -72,10 +80,10 @@ const ForgotPasswordScreen = () => {
           {!resetSent ? (
             <>
               <View style={styles.inputGroup}>
-                <Text style={styles.label}>Email</Text>
+                <Text style={styles.label}>{t('auth.email')}</Text>
                 <TextInput
                   style={styles.input}
-                  placeholder="Enter your email"
+                  placeholder={t('auth.emailPlaceholder')}
                   value={email}
                   onChangeText={setEmail}
                   keyboardType="email-address"
@@ -84,7 +92,7 @@ const ForgotPasswordScreen = () => {
               </View>
 
               <Button
-                title="Reset Password"
+                title={t('auth.resetPassword')}
                 onPress={handleResetPassword}
                 loading={loading}
                 style={styles.resetButton}
@@ -94,12 +102,12 @@ const ForgotPasswordScreen = () => {
             <>
               <View style={styles.successMessage}>
                 <Text style={styles.successText}>
-                  We've sent a password reset link to your email address. Please check your inbox and follow the instructions.
+                  {t('auth.resetSentDetails')}
                 </Text>
               </View>
               
               <Button
-                title="Back to Login"
+                title={t('auth.backToLogin')}
                 onPress={handleBackToLogin}
                 style={styles.resetButton}
               />
@@ -114,7 +122,7 @@ const ForgotPasswordScreen = () => {
       >
         <View style={styles.backButtonContent}>
           <Ionicons name="arrow-back" size={24} color={colors.primary} />
-          <Text style={styles.backButtonText}>Back to Login</Text>
+          <Text style={styles.backButtonText}>{t('auth.backToLogin')}</Text>
         </View>
       </TouchableOpacity>
     </KeyboardAvoidingView>
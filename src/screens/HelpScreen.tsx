@@ -14,50 +14,25 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from '../hooks/useTranslation';
 
 type HelpScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Help'>;
 
 interface FAQItem {
-  question: string;
-  answer: string;
+  key: string;
   isExpanded: boolean;
 }
 
+// Questions and answers are under help.faq in the message catalogs
+const FAQ_KEYS = ['createAccount', 'listProducts', 'weather', 'payments', 'trackOrders', 'resetPassword'];
+
 const HelpScreen = () => {
   const navigation = useNavigation<HelpScreenNavigationProp>();
+  const { t } = useTranslation();
   const [supportMessage, setSupportMessage] = useState('');
-  const [faqItems, setFaqItems] = useState<FAQItem[]>([
-    {
-      question: 'How do I create an account?',
-      answer: 'To create an account, go to the Login screen and click on "Register". Fill in your details including name, email, and password, then click "Sign Up".',
-      isExpanded: false,
-    },
-    {
-      question: 'How do I list my products for sale?',
-      answer: 'After logging in, go to your Profile page and select "My Products". Click on "Add New Product" and fill in the required details including product name, description, price, and images.',
-      isExpanded: false,
-    },
-    {
-      question: 'How does the weather forecast work?',
-      answer: 'Our weather forecast uses data from multiple meteorological sources to provide accurate weather predictions for your location. The app automatically shows weather for your current location, but you can also select different regions.',
-      isExpanded: false,
-    },
-    {
-      question: 'What payment methods are supported?',
-      answer: 'Currently, we support cash on delivery, mobile payment platforms like mCash and eZ Cash, and bank transfers. We are working on adding more payment options in future updates.',
-      isExpanded: false,
-    },
-    {
-      question: 'How do I track my orders?',
-      answer: 'Go to your Profile and select "My Orders". Here you can see all your orders and their current status. Click on any order to see more details including delivery information.',
-      isExpanded: false,
-    },
-    {
-      question: 'How can I reset my password?',
-      answer: 'On the login screen, click "Forgot Password". Enter your registered email, and we will send you a password reset link. Follow the instructions in the email to create a new password.',
-      isExpanded: false,
-    },
-  ]);
+  const [faqItems, setFaqItems] = useState<FAQItem[]>(
+    FAQ_KEYS.map(key => ({ key, isExpanded: false }))
+  );
 
   const toggleFAQ = (index: number) => {
     const updatedFaqItems = [...faqItems];
@@ -75,14 +50,14 @@ const HelpScreen = () => {
 
   const handleSubmitMessage = () => {
     if (supportMessage.trim().length === 0) {
-      Alert.alert('Error', 'Please enter a message before submitting.');
+      Alert.alert(t('common.error'), t('help.enterMessage'));
       return;
     }
     
     Alert.alert(
-      'Message Sent',
-      'Thank you for your message. Our support team will get back to you within 24 hours.',
-      [{ text: 'OK', onPress: () => setSupportMessage('') }]
+      t('help.messageSentTitle'),
+      t('help.messageSent'),
+      [{ text: t('common.ok'), onPress: () => setSupportMessage('') }]
     );
   };
 
@@ -99,16 +74,15 @@ const HelpScreen = () => {
         >
           <Ionicons name="arrow-back" size={24} color={colors.text} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Help & Support</Text>
+        <Text style={styles.headerTitle}>{t('help.title')}</Text>
         <View style={styles.placeholderView} />
       </View>
 
       {/* Get Support Section */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Need Help?</Text>
+        <Text style={styles.sectionTitle}>{t('help.needHelp')}</Text>
         <Text style={styles.paragraph}>
-          Our support team is here to help you with any questions or issues you may have.
-          Choose a support option below:
+          {t('help.intro')}
         </Text>
 
         <View style={styles.supportOptions}>
@@ -116,53 +90,53 @@ const HelpScreen = () => {
             <View style={styles.supportIconContainer}>
               <Ionicons name="call" size={24} color={colors.white} />
             </View>
-            <Text style={styles.supportOptionText}>Call Support</Text>
+            <Text style={styles.supportOptionText}>{t('help.callSupport')}</Text>
           </TouchableOpacity>
           
           <TouchableOpacity style={styles.supportOption} onPress={handleSendEmail}>
             <View style={styles.supportIconContainer}>
               <Ionicons name="mail" size={24} color={colors.white} />
             </View>
-            <Text style={styles.supportOptionText}>Email Support</Text>
+            <Text style={styles.supportOptionText}>{t('help.emailSupport')}</Text>
           </TouchableOpacity>
           
           <TouchableOpacity style={styles.supportOption} onPress={handleWhatsApp}>
             <View style={styles.supportIconContainer}>
               <Ionicons name="logo-whatsapp" size={24} color={colors.white} />
             </View>
-            <Text style={styles.supportOptionText}>WhatsApp</Text>
+            <Text style={styles.supportOptionText}>{t('help.whatsApp')}</Text>
           </TouchableOpacity>
         </View>
       </View>
 
       {/* Quick Support Message */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Send a Message</Text>
+        <Text style={styles.sectionTitle}>{t('help.sendMessage')}</Text>
         <TextInput
           style={styles.messageInput}
-          placeholder="Describe your issue or question..."
+          placeholder={t('help.messagePlaceholder')}
           value={supportMessage}
           onChangeText={setSupportMessage}
           multiline
           numberOfLines={4}
         />
         <TouchableOpacity style={styles.sendButton} onPress={handleSubmitMessage}>
-          <Text style={styles.sendButtonText}>Submit</Text>
+          <Text style={styles.sendButtonText}>{t('common.submit')}</Text>
         </TouchableOpacity>
       </View>
 
       {/* FAQs Section */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Frequently Asked Questions</Text>
+        <Text style={styles.sectionTitle}>{t('help.faqTitle')}</Text>
         
         {faqItems.map((item, index) => (
           <TouchableOpacity
-            key={index}
+            key={item.key}
             style={styles.faqItem}
             onPress={() => toggleFAQ(index)}
           >
             <View style={styles.faqHeader}>
-              <Text style={styles.faqQuestion}>{item.question}</Text>
+              <Text style={styles.faqQuestion}>{t(`help.faq.${item.key}.question`)}</Text>
               <Ionicons
                 name={item.isExpanded ? 'chevron-up' : 'chevron-down'}
                 size={20}
@@ -171,7 +145,7 @@ const HelpScreen = () => {
             </View>
             
             {item.isExpanded && (
-              <Text style={styles.faqAnswer}>{item.answer}</Text>
+              <Text style={styles.faqAnswer}>{t(`help.faq.${item.key}.answer`)}</Text>
             )}
           </TouchableOpacity>
         ))}
@@ -179,13 +153,13 @@ const HelpScreen = () => {
 
       {/* User Guides */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>User Guides</Text>
+        <Text style={styles.sectionTitle}>{t('help.guides')}</Text>
         
         <TouchableOpacity style={styles.guideItem}>
           <Ionicons name="document-text" size={24} color={colors.primary} style={styles.guideIcon} />
           <View style={styles.guideContent}>
-            <Text style={styles.guideTitle}>Getting Started Guide</Text>
-            <Text style={styles.guideDescription}>Learn the basics of using AgriSaviya app</Text>
+            <Text style={styles.guideTitle}>{t('help.gettingStarted')}</Text>
+            <Text style={styles.guideDescription}>{t('help.gettingStartedText')}</Text>
           </View>
           <Ionicons name="chevron-forward" size={20} color={colors.lightText} />
         </TouchableOpacity>
@@ -193,8 +167,8 @@ const HelpScreen = () => {
         <TouchableOpacity style={styles.guideItem}>
           <Ionicons name="document-text" size={24} color={colors.primary} style={styles.guideIcon} />
           <View style={styles.guideContent}>
-            <Text style={styles.guideTitle}>Selling Products Guide</Text>
-            <Text style={styles.guideDescription}>Learn how to list and sell your produce</Text>
+            <Text style={styles.guideTitle}>{t('help.sellingGuide')}</Text>
+            <Text style={styles.guideDescription}>{t('help.sellingGuideText')}</Text>
           </View>
           <Ionicons name="chevron-forward" size={20} color={colors.lightText} />
         </TouchableOpacity>
@@ -202,8 +176,8 @@ const HelpScreen = () => {
         <TouchableOpacity style={styles.guideItem}>
           <Ionicons name="document-text" size={24} color={colors.primary} style={styles.guideIcon} />
           <View style={styles.guideContent}>
-            <Text style={styles.guideTitle}>Weather Features Guide</Text>
-            <Text style={styles.guideDescription}>How to use weather forecasts effectively</Text>
+            <Text style={styles.guideTitle}>{t('help.weatherGuide')}</Text>
+            <Text style={styles.guideDescription}>{t('help.weatherGuideText')}</Text>
           </View>
           <Ionicons name="chevron-forward" size={20} color={colors.lightText} />
         </TouchableOpacity>
@@ -211,23 +185,23 @@ const HelpScreen = () => {
 
       {/* Support Hours */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Support Hours</Text>
+        <Text style={styles.sectionTitle}>{t('help.hours')}</Text>
         <View style={styles.supportHoursContainer}>
           <View style={styles.supportHoursItem}>
-            <Text style={styles.supportHoursDay}>Monday - Friday:</Text>
+            <Text style={styles.supportHoursDay}>{t('help.weekdays')}</Text>
             <Text style={styles.supportHoursTime}>8:00 AM - 8:00 PM</Text>
           </View>
           <View style={styles.supportHoursItem}>
-            <Text style={styles.supportHoursDay}>Saturday:</Text>
+            <Text style={styles.supportHoursDay}>{t('help.saturday')}</Text>
             <Text style={styles.supportHoursTime}>9:00 AM - 5:00 PM</Text>
           </View>
           <View style={styles.supportHoursItem}>
-            <Text style={styles.supportHoursDay}>Sunday:</Text>
+            <Text style={styles.supportHoursDay}>{t('help.sunday')}</Text>
             <Text style={styles.supportHoursTime}>10:00 AM - 3:00 PM</Text>
           </View>
         </View>
         <Text style={styles.supportNote}>
-          * All times are in Sri Lanka Standard Time (GMT+5:30)
+          {t('help.timeZone')}
         </Text>
       </View>
     </ScrollView>
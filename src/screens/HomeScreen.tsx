@@ -15,12 +15,17 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList, Bid, Category, Product, Article } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import Card from '../components/Card';
-import { formatCurrency, truncateText } from '../utils';
+import NotificationBell from '../components/NotificationBell';
+import { truncateText } from '../utils';
 import { Ionicons } from '@expo/vector-icons';
 import { collection, getDocs, doc, getDoc } from 'firebase/firestore';
 import { db, auth } from '../utilities/firebaseConfig';
 import { getSavedUserData } from '../utilities/authUtils';
 import { getAllCategories, getCurrentWeather, getFeaturedProducts, getActiveBids, getAllArticles } from '../utilities/firestoreUtils';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+import { canListMachines, canSellProducts } from '../utilities/roleUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
 
 type HomeScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Main'>;
 
@@ -39,16 +44,19 @@ const PLACEHOLDER_IMAGE = 'https://st4.depositphotos.com/14953852/24787/v/450/de
 
 const HomeScreen = () => {
   const navigation = useNavigation<HomeScreenNavigationProp>();
-  const [userName, setUserName] = useState('User');
+  const [userName, setUserName] = useState('');
+  const { user: account } = useCurrentUser();
+  const { t, locale } = useTranslation();
+  const { formatCurrency, formatNumber, formatDate } = useFormat();
   const [categories, setCategories] = useState<Category[]>([]);
   const [activeBids, setActiveBids] = useState<Bid[]>([]);
   const [featuredProducts, setFeaturedProducts] = useState<Product[]>([]);
   const [articles, setArticles] = useState<Article[]>([]);
   const [articlesLoading, setArticlesLoading] = useState(false);
   const [weather, setWeather] = useState<WeatherData>({
-    location: 'Loading...',
+    location: t('common.loading'),
     temperature: 0,
-    condition: 'Loading...',
+    condition: t('common.loading'),
     icon: '☀️'
   });
   const [loading, setLoading] = useState(true);
@@ -76,7 +84,7 @@ const HomeScreen = () => {
     };
 
     loadData();
-  }, []);
+  }, [locale]);
 
   const loadUserData = async () => {
     try {
@@ -89,19 +97,19 @@ const HomeScreen = () => {
         
         if (userDoc.exists()) {
           const userData = userDoc.data();
-          setUserName(userData.name || 'User');
+          setUserName(userData.name || '');
         } else {
           // If no user document, try to get from AsyncStorage
           const savedUserData = await getSavedUserData();
           if (savedUserData) {
-            setUserName(savedUserData.displayName || 'User');
+            setUserName(savedUserData.displayName || '');
           }
         }
       } else {
         // If not authenticated, try to get from AsyncStorage
         const savedUserData = await getSavedUserData();
         if (savedUserData) {
-          setUserName(savedUserData.displayName || 'User');
+          setUserName(savedUserData.displayName || '');
         }
       }
     } catch (error) {
@@ -112,7 +120,7 @@ const HomeScreen = () => {
   const loadCategories = async () => {
     try {
       // Use the new utility function
-      const categoriesData = await getAllCategories();
+      const categoriesData = await getAllCategories(locale);
       
       if (categoriesData.length > 0) {
         setCategories(categoriesData);
@@ -194,7 +202,7 @@ const HomeScreen = () => {
       setArticlesLoading(true);
       
       // Get articles from Firestore
-      const articlesData = await getAllArticles();
+      const articlesData = await getAllArticles(locale);
       
       // Sort by date (newest first) and take first 2
       const sortedArticles = articlesData
@@ -295,7 +303,7 @@ const HomeScreen = () => {
         />
         {(item.rating && item.rating > 4.5) && (
           <View style={styles.topRatedBadge}>
-            <Text style={styles.topRatedText}>Top Rated</Text>
+            <Text style={styles.topRatedText}>{t('home.topRated')}</Text>
           </View>
         )}
       </View>
@@ -303,7 +311,7 @@ const HomeScreen = () => {
         <Text style={styles.productName}>{truncateText(item.name, 18)}</Text>
         <Text style={styles.productPrice}>{formatCurrency(item.price)}</Text>
         <View style={styles.ratingContainer}>
-          <Text style={styles.rating}>★ {item.rating ? item.rating.toFixed(1) : '0.0'}</Text>
+          <Text style={styles.rating}>★ {formatNumber(item.rating || 0, 1)}</Text>
         </View>
       </View>
     </TouchableOpacity>
@@ -322,16 +330,16 @@ const HomeScreen = () => {
       <View style={styles.bidInfo}>
         <Text style={styles.bidName}>{truncateText(item.name, 18)}</Text>
         <Text style={styles.bidStartPrice}>
-          {formatCurrency(item.startPrice)} <Text style={styles.bidStartLabel}>starting bid</Text>
+          {formatCurrency(item.startPrice)} <Text style={styles.bidStartLabel}>{t('home.startingBid')}</Text>
         </Text>
         <View style={styles.bidMeta}>
           <Text style={styles.bidOffers}>
-            <Ionicons name="people" size={12} color={colors.lightText} /> {item.bids.length} offers
+            <Ionicons name="people" size={12} color={colors.lightText} /> {t('profile.offerCount', { count: item.bids.length })}
           </Text>
           <Text style={styles.bidTimeLeft}>
             {new Date() > item.dueDate 
-              ? 'Ended' 
-              : `${Math.ceil((item.dueDate.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24))} days left`}
+              ? t('home.ended')
+              : t('profile.daysLeft', { count: Math.ceil((item.dueDate.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)) })}
           </Text>
         </View>
       </View>
@@ -342,7 +350,7 @@ const HomeScreen = () => {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary} />
-        <Text style={styles.loadingText}>Loading data...</Text>
+        <Text style={styles.loadingText}>{t('home.loadingData')}</Text>
       </View>
     );
   }
@@ -356,18 +364,23 @@ const HomeScreen = () => {
       {/* Header */}
       <View style={styles.header}>
         <View>
-          <Text style={styles.welcomeText}>Welcome Back</Text>
-          <Text style={styles.nameText}>{userName}</Text>
+          <Text style={styles.welcomeText}>{t('home.welcomeBack')}</Text>
+          <Text style={styles.nameText}>{userName || t('home.defaultName')}</Text>
         </View>
-        <TouchableOpacity 
-          style={styles.cartButton}
-          onPress={() => navigation.navigate('Cart')}
-        >
-          <Ionicons name="cart-outline" size={24} color={colors.white} />
-          <View style={styles.cartBadge}>
-            <Text style={styles.cartBadgeText}></Text>
+        <View style={styles.headerActions}>
+          <View style={styles.notificationButton}>
+            <NotificationBell />
           </View>
-        </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.cartButton}
+            onPress={() => navigation.navigate('Cart')}
+          >
+            <Ionicons name="cart-outline" size={24} color={colors.white} />
+            <View style={styles.cartBadge}>
+              <Text style={styles.cartBadgeText}></Text>
+            </View>
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Weather Widget */}
@@ -376,7 +389,7 @@ const HomeScreen = () => {
           <View style={styles.weatherContent}>
             <View>
               <Text style={styles.weatherLocation}>{weather.location}</Text>
-              <Text style={styles.weatherTemp}>{weather.temperature}°C</Text>
+              <Text style={styles.weatherTemp}>{t('units.temperature', { value: weather.temperature })}</Text>
               <Text style={styles.weatherCondition}>{weather.condition}</Text>
             </View>
             <Text style={styles.weatherIcon}>{weather.icon}</Text>
@@ -386,9 +399,9 @@ const HomeScreen = () => {
 
       {/* Categories */}
       <View style={styles.sectionHeader}>
-        <Text style={styles.sectionTitle}>Categories</Text>
+        <Text style={styles.sectionTitle}>{t('home.categories')}</Text>
         <TouchableOpacity onPress={handleViewAllCategories}>
-          <Text style={styles.viewAllText}>View All</Text>
+          <Text style={styles.viewAllText}>{t('home.viewAll')}</Text>
         </TouchableOpacity>
       </View>
 
@@ -400,7 +413,7 @@ const HomeScreen = () => {
         showsHorizontalScrollIndicator={false}
         contentContainerStyle={styles.categoriesList}
         ListEmptyComponent={
-          <Text style={styles.emptyText}>No categories available</Text>
+          <Text style={styles.emptyText}>{t('home.noCategories')}</Text>
         }
       />
 
@@ -411,24 +424,24 @@ const HomeScreen = () => {
       >
         <Card elevation="small">
           <View style={styles.marketPricesContent}>
-            <Text style={styles.marketPricesTitle}>Current Market Prices</Text>
+            <Text style={styles.marketPricesTitle}>{t('home.marketPricesTitle')}</Text>
             <Text style={styles.marketPricesSubtitle}>
-              Check the latest prices from markets across the country
+              {t('home.marketPricesSubtitle')}
             </Text>
-            <Text style={styles.marketPricesActionText}>View Prices →</Text>
+            <Text style={styles.marketPricesActionText}>{t('home.viewPrices')}</Text>
           </View>
         </Card>
       </TouchableOpacity>
 
       {/* Featured Products */}
       <View style={styles.sectionHeader}>
-        <Text style={styles.sectionTitle}>Featured Products</Text>
+        <Text style={styles.sectionTitle}>{t('home.featuredProducts')}</Text>
         <View style={styles.sectionActions}>
           <TouchableOpacity onPress={() => loadFeaturedProducts()} style={styles.refreshButton}>
             <Ionicons name="refresh" size={18} color={colors.primary} />
           </TouchableOpacity>
           <TouchableOpacity onPress={handleViewAllProducts}>
-            <Text style={styles.viewAllText}>View All</Text>
+            <Text style={styles.viewAllText}>{t('home.viewAll')}</Text>
           </TouchableOpacity>
         </View>
       </View>
@@ -436,7 +449,7 @@ const HomeScreen = () => {
       {featuredProductsLoading ? (
         <View style={styles.loadingProductsContainer}>
           <ActivityIndicator size="small" color={colors.primary} />
-          <Text style={styles.loadingText}>Loading products...</Text>
+          <Text style={styles.loadingText}>{t('home.loadingProducts')}</Text>
         </View>
       ) : featuredProducts.length > 0 ? (
         <FlatList
@@ -449,15 +462,15 @@ const HomeScreen = () => {
         />
       ) : (
         <View style={styles.emptyProductsContainer}>
-          <Text style={styles.emptyText}>No featured products available</Text>
+          <Text style={styles.emptyText}>{t('home.noFeaturedProducts')}</Text>
         </View>
       )}
 
       {/* Active Bids */}
       <View style={styles.sectionHeader}>
-        <Text style={styles.sectionTitle}>Active Bids</Text>
+        <Text style={styles.sectionTitle}>{t('home.activeBids')}</Text>
         <TouchableOpacity onPress={handleViewAllBids}>
-          <Text style={styles.viewAllText}>View All</Text>
+          <Text style={styles.viewAllText}>{t('home.viewAll')}</Text>
         </TouchableOpacity>
       </View>
 
@@ -472,12 +485,12 @@ const HomeScreen = () => {
         />
       ) : (
         <View style={styles.emptyBidsContainer}>
-          <Text style={styles.emptyText}>No active bids at the moment</Text>
+          <Text style={styles.emptyText}>{t('home.noActiveBids')}</Text>
           <TouchableOpacity 
             style={styles.createBidButton}
             onPress={() => navigation.navigate('MarketPrices')}
           >
-            <Text style={styles.createBidButtonText}>Create a Bid</Text>
+            <Text style={styles.createBidButtonText}>{t('home.createBid')}</Text>
           </TouchableOpacity>
         </View>
       )}
@@ -489,9 +502,9 @@ const HomeScreen = () => {
       >
         <Card elevation="small">
           <View style={styles.marketPricesContent}>
-            <Text style={styles.marketPricesTitle}>Product Management</Text>
+            <Text style={styles.marketPricesTitle}>{t('home.productManagement')}</Text>
             <Text style={styles.marketPricesSubtitle}>
-              Browse product categories, shops, or add your own products
+              {t('home.productManagementSubtitle')}
             </Text>
             <View style={styles.productManagementActions}>
               <TouchableOpacity 
@@ -499,15 +512,17 @@ const HomeScreen = () => {
                 onPress={() => navigation.navigate('ProductCategories')}
               >
                 <Ionicons name="grid-outline" size={16} color={colors.white} />
-                <Text style={styles.productActionText}>Categories</Text>
-              </TouchableOpacity>
-              <TouchableOpacity 
-                style={styles.productActionButton}
-                onPress={() => navigation.navigate('AddProduct')}
-              >
-                <Ionicons name="add-circle-outline" size={16} color={colors.white} />
-                <Text style={styles.productActionText}>Add Product</Text>
+                <Text style={styles.productActionText}>{t('home.categories')}</Text>
               </TouchableOpacity>
+              {!!account && canSellProducts(account) && (
+                <TouchableOpacity 
+                  style={styles.productActionButton}
+                  onPress={() => navigation.navigate('AddProduct')}
+                >
+                  <Ionicons name="add-circle-outline" size={16} color={colors.white} />
+                  <Text style={styles.productActionText}>{t('home.addProduct')}</Text>
+                </TouchableOpacity>
+              )}
             </View>
           </View>
         </Card>
@@ -520,9 +535,9 @@ const HomeScreen = () => {
       >
         <Card elevation="small">
           <View style={styles.marketPricesContent}>
-            <Text style={styles.marketPricesTitle}>Machine Management</Text>
+            <Text style={styles.marketPricesTitle}>{t('home.machineManagement')}</Text>
             <Text style={styles.marketPricesSubtitle}>
-              Browse machine categories, list machines, or add your own machines
+              {t('home.machineManagementSubtitle')}
             </Text>
             <View style={styles.productManagementActions}>
               <TouchableOpacity 
@@ -530,15 +545,17 @@ const HomeScreen = () => {
                 onPress={() => navigation.navigate('MachineCategories')}
               >
                 <Ionicons name="grid-outline" size={16} color={colors.white} />
-                <Text style={styles.productActionText}>Machines</Text>
-              </TouchableOpacity>
-              <TouchableOpacity 
-                style={styles.productActionButton}
-                onPress={() => navigation.navigate('AddMachine')}
-              >
-                <Ionicons name="add-circle-outline" size={16} color={colors.white} />
-                <Text style={styles.productActionText}>Add Machine</Text>
+                <Text style={styles.productActionText}>{t('home.machines')}</Text>
               </TouchableOpacity>
+              {!!account && canListMachines(account) && (
+                <TouchableOpacity 
+                  style={styles.productActionButton}
+                  onPress={() => navigation.navigate('AddMachine')}
+                >
+                  <Ionicons name="add-circle-outline" size={16} color={colors.white} />
+                  <Text style={styles.productActionText}>{t('home.addMachine')}</Text>
+                </TouchableOpacity>
+              )}
             </View>
           </View>
         </Card>
@@ -551,9 +568,9 @@ const HomeScreen = () => {
       >
         <Card elevation="small">
           <View style={styles.marketPricesContent}>
-            <Text style={styles.marketPricesTitle}>Pest & Disease Control</Text>
+            <Text style={styles.marketPricesTitle}>{t('home.pestControlTitle')}</Text>
             <Text style={styles.marketPricesSubtitle}>
-              Identify and manage crop pests and diseases effectively
+              {t('home.pestControlSubtitle')}
             </Text>
             <View style={styles.productManagementActions}>
               <TouchableOpacity 
@@ -561,14 +578,14 @@ const HomeScreen = () => {
                 onPress={() => navigation.navigate('PestAndDiseaseControl')}
               >
                 <Ionicons name="bug-outline" size={16} color={colors.white} />
-                <Text style={styles.productActionText}>Pest Control</Text>
+                <Text style={styles.productActionText}>{t('home.pestControl')}</Text>
               </TouchableOpacity>
               <TouchableOpacity 
                 style={[styles.productActionButton, { backgroundColor: colors.error }]}
                 onPress={() => navigation.navigate('PestAndDiseaseControl')}
               >
                 <Ionicons name="medkit-outline" size={16} color={colors.white} />
-                <Text style={styles.productActionText}>Disease Control</Text>
+                <Text style={styles.productActionText}>{t('home.diseaseControl')}</Text>
               </TouchableOpacity>
             </View>
           </View>
@@ -577,16 +594,16 @@ const HomeScreen = () => {
 
       {/* Articles */}
       <View style={styles.sectionHeader}>
-        <Text style={styles.sectionTitle}>Latest Articles</Text>
+        <Text style={styles.sectionTitle}>{t('home.latestArticles')}</Text>
         <TouchableOpacity onPress={handleViewAllArticles}>
-          <Text style={styles.viewAllText}>View All</Text>
+          <Text style={styles.viewAllText}>{t('home.viewAll')}</Text>
         </TouchableOpacity>
       </View>
 
       {articlesLoading ? (
         <View style={styles.loadingArticlesContainer}>
           <ActivityIndicator size="small" color={colors.primary} />
-          <Text style={styles.loadingText}>Loading articles...</Text>
+          <Text style={styles.loadingText}>{t('home.loadingArticles')}</Text>
         </View>
       ) : articles.length > 0 ? (
         articles.map((article) => (
@@ -612,7 +629,7 @@ const HomeScreen = () => {
                   <View style={styles.articleMeta}>
                     <Text style={styles.articleAuthor}>{article.author}</Text>
                     <Text style={styles.articleDate}>
-                      {article.date.toLocaleDateString()}
+                      {formatDate(article.date, 'medium')}
                     </Text>
                   </View>
                 </View>
@@ -622,7 +639,7 @@ const HomeScreen = () => {
         ))
       ) : (
         <View style={styles.emptyArticlesContainer}>
-          <Text style={styles.emptyText}>No articles available</Text>
+          <Text style={styles.emptyText}>{t('home.noArticles')}</Text>
         </View>
       )}
     </ScrollView>
@@ -688,6 +705,21 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: colors.white,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  notificationButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.white,
+    marginRight: spacing.sm,
+  },
   cartButton: {
     width: 40,
     height: 40,
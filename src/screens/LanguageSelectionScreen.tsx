@@ -13,20 +13,28 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../types';
 import { colors, fontSizes, spacing, borderRadius } from '../theme';
 import Button from '../components/Button';
+import { useTranslation } from '../hooks/useTranslation';
+import { LOCALES, LOCALE_NAMES, Locale, translate } from '../utilities/i18n';
 
 type LanguageSelectionScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'LanguageSelection'>;
 
+const LANGUAGE_FLAGS: Record<Locale, string> = {
+  en: '🇺🇸',
+  si: '🇱🇰',
+  ta: '🇱🇰',
+};
+
 const LanguageSelectionScreen = () => {
   const navigation = useNavigation<LanguageSelectionScreenNavigationProp>();
-  const [selectedLanguage, setSelectedLanguage] = useState<'en' | 'si'>('en');
+  const { locale, setLocale } = useTranslation();
+  const [selectedLanguage, setSelectedLanguage] = useState<Locale>(locale);
   
-  const handleContinue = () => {
-    // Here you would typically store the selected language in your app's state or context
-    // For now, we just navigate to the login screen
+  const handleContinue = async () => {
+    await setLocale(selectedLanguage);
     navigation.navigate('Login');
   };
 
-  const LangOption = ({ code, label, flag }: { code: 'en' | 'si', label: string, flag: string }) => (
+  const LangOption = ({ code, label, flag }: { code: Locale, label: string, flag: string }) => (
     <TouchableOpacity
       style={[
         styles.languageOption,
@@ -63,17 +71,21 @@ const LanguageSelectionScreen = () => {
       </View>
       
       <View style={styles.content}>
-        <Text style={styles.heading}>Select your language</Text>
-        <Text style={styles.subHeading}>ඔබේ භාෂාව තෝරන්න</Text>
+        {/* Shown in every language until the user has picked one */}
+        <Text style={styles.heading}>{translate(selectedLanguage, 'languageSelection.title')}</Text>
+        {LOCALES.filter(code => code !== selectedLanguage).map(code => (
+          <Text key={code} style={styles.subHeading}>{translate(code, 'languageSelection.title')}</Text>
+        ))}
         
         <View style={styles.languageContainer}>
-          <LangOption code="en" label="English" flag="🇺🇸" />
-          <LangOption code="si" label="සිංහල" flag="🇱🇰" />
+          {LOCALES.map(code => (
+            <LangOption key={code} code={code} label={LOCALE_NAMES[code]} flag={LANGUAGE_FLAGS[code]} />
+          ))}
         </View>
         
         <View style={styles.buttonContainer}>
           <Button
-            title="Continue"
+            title={translate(selectedLanguage, 'languageSelection.continue')}
             onPress={handleContinue}
             style={styles.continueButton}
           />
@@ -119,7 +131,6 @@ const styles = StyleSheet.create({
     color: colors.lightText,
     textAlign: 'center',
     marginTop: spacing.sm,
-    marginBottom: spacing.xl,
   },
   languageContainer: {
     marginVertical: spacing.xl,
@@ -17,10 +17,12 @@ import { RootStackParamList } from '../types';
 import { colors, fontSizes, spacing, borderRadius } from '../theme';
 import Button from '../components/Button';
 import AuthStatus from '../components/AuthStatus';
-import { signInWithEmailAndPassword, sendPasswordResetEmail } from 'firebase/auth';
+import { signInWithEmailAndPassword } from 'firebase/auth';
 import { auth } from '../utilities/firebaseConfig';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { saveUserData, saveAuthToken } from '../utilities/authUtils';
+import { ensurePublicProfile } from '../utilities/firestoreUtils';
+import { useTranslation } from '../hooks/useTranslation';
 
 type LoginScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Login'>;
 
@@ -31,6 +33,7 @@ const REMEMBER_ME_KEY = 'auth_remember_me';
 
 const LoginScreen = () => {
   const navigation = useNavigation<LoginScreenNavigationProp>();
+  const { t } = useTranslation();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [rememberMe, setRememberMe] = useState(false);
@@ -78,7 +81,7 @@ const LoginScreen = () => {
   const handleLogin = async () => {
     // Basic validation
     if (!email || !password) {
-      Alert.alert('Error', 'Please enter both email and password');
+      Alert.alert(t('common.error'), t('auth.enterEmailAndPassword'));
       return;
     }
     
@@ -101,6 +104,14 @@ const LoginScreen = () => {
       };
       
       await saveUserData(userData);
+
+      // Older accounts have no public profile, so sellers and owners could not be contacted.
+      // Signing in still works if it cannot be made now; it is tried again next time.
+      try {
+        await ensurePublicProfile(user.uid, user.email || email);
+      } catch (error) {
+        console.error('Error creating public profile on sign-in:', error);
+      }
       
       // Get ID token and save it
       const token = await user.getIdToken();
@@ -110,7 +121,7 @@ const LoginScreen = () => {
       navigation.replace('Main');
     } catch (error: any) {
       setLoading(false);
-      Alert.alert('Login Failed', error.message || 'Invalid email or password');
+      Alert.alert(t('auth.loginFailed'), error.message || t('auth.invalidCredentials'));
     }
   };
 
@@ -119,22 +130,7 @@ const LoginScreen = () => {
   };
 
   const handleForgotPassword = () => {
-    if (!email) {
-      Alert.alert('Error', 'Please enter your email address');
-      return;
-    }
-    
-    setLoading(true);
-    
-    sendPasswordResetEmail(auth, email)
-      .then(() => {
-        setLoading(false);
-        Alert.alert('Password Reset', 'Password reset email has been sent to your email address');
-      })
-      .catch(error => {
-        setLoading(false);
-        Alert.alert('Error', error.message || 'Failed to send password reset email');
-      });
+    navigation.navigate('ForgotPassword', { email });
   };
 
   const toggleRememberMe = () => {
@@ -160,15 +156,15 @@ const LoginScreen = () => {
             resizeMode="contain"
           />
           <Text style={styles.title}>AgriSaviya</Text>
-          <Text style={styles.subtitle}>Login to your account</Text>
+          <Text style={styles.subtitle}>{t('auth.loginSubtitle')}</Text>
         </View>
 
         <View style={styles.formContainer}>
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Email</Text>
+            <Text style={styles.label}>{t('auth.email')}</Text>
             <TextInput
               style={styles.input}
-              placeholder="Enter your email"
+              placeholder={t('auth.emailPlaceholder')}
               value={email}
               onChangeText={setEmail}
               keyboardType="email-address"
@@ -177,10 +173,10 @@ const LoginScreen = () => {
           </View>
 
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Password</Text>
+            <Text style={styles.label}>{t('auth.password')}</Text>
             <TextInput
               style={styles.input}
-              placeholder="Enter your password"
+              placeholder={t('auth.passwordPlaceholder')}
               value={password}
               onChangeText={setPassword}
               secureTextEntry
@@ -198,27 +194,27 @@ const LoginScreen = () => {
               ]}>
                 {rememberMe && <Text style={styles.checkmark}>✓</Text>}
               </View>
-              <Text style={styles.rememberMeText}>Remember Me</Text>
+              <Text style={styles.rememberMeText}>{t('auth.rememberMe')}</Text>
             </TouchableOpacity>
 
             <TouchableOpacity
               onPress={handleForgotPassword}
             >
-              <Text style={styles.forgotPasswordText}>Forgot Password?</Text>
+              <Text style={styles.forgotPasswordText}>{t('auth.forgotPassword')}</Text>
             </TouchableOpacity>
           </View>
 
           <Button
-            title="Login"
+            title={t('auth.login')}
             onPress={handleLogin}
             loading={loading}
             style={styles.loginButton}
           />
 
           <View style={styles.registerContainer}>
-            <Text style={styles.registerText}>Don't have an account? </Text>
+            <Text style={styles.registerText}>{t('auth.noAccount')}</Text>
             <TouchableOpacity onPress={handleRegister}>
-              <Text style={styles.registerLink}>Register</Text>
+              <Text style={styles.registerLink}>{t('auth.register')}</Text>
             </TouchableOpacity>
           </View>
         </View>
@@ -0,0 +1,400 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList, MachineBooking } from '../types';
+import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
+import { Ionicons } from '@expo/vector-icons';
+import { auth } from '../utilities/firebaseConfig';
+import {
+  getRenterBookings,
+  getOwnerBookings,
+  respondToBookingRequest,
+  cancelMachineBooking,
+} from '../utilities/firestoreUtils';
+import {
+  BOOKING_STATUS_COLORS,
+  OPEN_BOOKING_STATUSES,
+  BookingConflictError,
+} from '../utilities/bookingUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+
+type MachineBookingsNavigationProp = NativeStackNavigationProp<RootStackParamList, 'MachineBookings'>;
+type MachineBookingsRouteProp = RouteProp<RootStackParamList, 'MachineBookings'>;
+
+const MachineBookingsScreen = () => {
+  const navigation = useNavigation<MachineBookingsNavigationProp>();
+  const route = useRoute<MachineBookingsRouteProp>();
+  const { t } = useTranslation();
+  const { formatCurrency, formatDate, formatTime } = useFormat();
+  const [activeTab, setActiveTab] = useState<'renter' | 'owner'>(route.params?.tab || 'renter');
+  const [renterBookings, setRenterBookings] = useState<MachineBooking[]>([]);
+  const [ownerBookings, setOwnerBookings] = useState<MachineBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const currentUser = auth.currentUser;
+
+  const loadBookings = async () => {
+    if (!currentUser?.email) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const [asRenter, asOwner] = await Promise.all([
+        getRenterBookings(currentUser.email),
+        getOwnerBookings(currentUser.uid),
+      ]);
+      setRenterBookings(asRenter);
+      setOwnerBookings(asOwner);
+    } catch (error) {
+      Alert.alert(t('common.error'), t('booking.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadBookings();
+    }, [currentUser?.uid])
+  );
+
+  const handleRespond = async (booking: MachineBooking, approve: boolean) => {
+    if (!currentUser) return;
+
+    try {
+      setUpdatingId(booking.id);
+      await respondToBookingRequest(booking.id, currentUser.uid, approve);
+      await loadBookings();
+    } catch (error) {
+      if (error instanceof BookingConflictError) {
+        Alert.alert(
+          t('booking.alreadyBookedTitle'),
+          t('booking.overlapApproved')
+        );
+      } else {
+        Alert.alert(t('common.error'), t('booking.updateFailed'));
+      }
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleCancel = (booking: MachineBooking) => {
+    if (!currentUser?.email) return;
+    const email = currentUser.email;
+
+    Alert.alert(
+      t('booking.cancelTitle'),
+      t('booking.cancelConfirm', { name: booking.machineName }),
+      [
+        { text: t('booking.keep'), style: 'cancel' },
+        {
+          text: t('booking.cancelTitle'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setUpdatingId(booking.id);
+              await cancelMachineBooking(booking.id, email);
+              await loadBookings();
+            } catch (error: any) {
+              Alert.alert(t('common.error'), error.message || t('booking.cancelFailed'));
+            } finally {
+              setUpdatingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatPeriod = (booking: MachineBooking) => {
+    if (booking.rateUnit === 'hour') {
+      return `${formatDate(booking.startDate)}, ${formatTime(booking.startDate)} - ${formatTime(booking.endDate)}`;
+    }
+    // The end is exclusive, so the last booked day is the one before it
+    const lastDay = new Date(booking.endDate.getTime() - 1);
+    return lastDay.toDateString() === booking.startDate.toDateString()
+      ? formatDate(booking.startDate)
+      : `${formatDate(booking.startDate)} - ${formatDate(lastDay)}`;
+  };
+
+  const renderBooking = ({ item }: { item: MachineBooking }) => {
+    const isOwnerView = activeTab === 'owner';
+    const updating = updatingId === item.id;
+    const canCancel = !isOwnerView && OPEN_BOOKING_STATUSES.includes(item.status) && item.startDate > new Date();
+
+    return (
+      <View style={styles.bookingCard}>
+        <TouchableOpacity onPress={() => navigation.navigate('MachineDetails', { machineId: item.machineId })}>
+          <View style={styles.bookingHeader}>
+            <Text style={styles.machineName} numberOfLines={1}>{item.machineName}</Text>
+            <View style={[styles.statusBadge, { backgroundColor: BOOKING_STATUS_COLORS[item.status] }]}>
+              <Text style={styles.statusText}>{t(`machines.bookingStatus.${item.status}`)}</Text>
+            </View>
+          </View>
+          <View style={styles.detailRow}>
+            <Ionicons name="calendar-outline" size={16} color={colors.lightText} />
+            <Text style={styles.detailText}>{formatPeriod(item)}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Ionicons name="pricetag-outline" size={16} color={colors.lightText} />
+            <Text style={styles.detailText}>
+              {t(`machines.quantity.${item.rateUnit}`, { count: item.quantity })} x {formatCurrency(item.rate)} = {formatCurrency(item.totalPrice)}
+            </Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Ionicons name="person-outline" size={16} color={colors.lightText} />
+            <Text style={styles.detailText}>{isOwnerView ? item.renterEmail : item.ownerEmail}</Text>
+          </View>
+          {item.note && <Text style={styles.noteText}>"{item.note}"</Text>}
+        </TouchableOpacity>
+
+        {updating ? (
+          <ActivityIndicator size="small" color={colors.primary} style={styles.actions} />
+        ) : isOwnerView && item.status === 'pending' ? (
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.declineButton]}
+              onPress={() => handleRespond(item, false)}
+            >
+              <Text style={styles.declineText}>{t('booking.decline')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.approveButton]}
+              onPress={() => handleRespond(item, true)}
+            >
+              <Text style={styles.approveText}>{t('booking.approve')}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : canCancel ? (
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.declineButton]}
+              onPress={() => handleCancel(item)}
+            >
+              <Text style={styles.declineText}>{t('booking.cancelTitle')}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  const pendingRequests = ownerBookings.filter(booking => booking.status === 'pending').length;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('booking.listTitle')}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <View style={styles.tabContainer}>
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'renter' && styles.activeTab]}
+          onPress={() => setActiveTab('renter')}
+        >
+          <Text style={[styles.tabText, activeTab === 'renter' && styles.activeTabText]}>{t('booking.myBookings')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.tab, activeTab === 'owner' && styles.activeTab]}
+          onPress={() => setActiveTab('owner')}
+        >
+          <Text style={[styles.tabText, activeTab === 'owner' && styles.activeTabText]}>
+            {pendingRequests > 0 ? t('booking.requestsPending', { count: pendingRequests }) : t('booking.requests')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {loading && renterBookings.length === 0 && ownerBookings.length === 0 ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={activeTab === 'renter' ? renterBookings : ownerBookings}
+          renderItem={renderBooking}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          refreshing={loading}
+          onRefresh={loadBookings}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="calendar-outline" size={60} color={colors.gray} />
+              <Text style={styles.emptyText}>
+                {activeTab === 'renter' ? t('booking.noBookings') : t('booking.noRequests')}
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  headerTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  tabContainer: {
+    flexDirection: 'row',
+    backgroundColor: colors.white,
+    ...shadows.small,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  activeTab: {
+    borderBottomColor: colors.primary,
+  },
+  tabText: {
+    fontSize: fontSizes.md,
+    color: colors.lightText,
+    fontWeight: '500',
+  },
+  activeTabText: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: spacing.md,
+    flexGrow: 1,
+  },
+  bookingCard: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    ...shadows.small,
+  },
+  bookingHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  machineName: {
+    flex: 1,
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginRight: spacing.sm,
+  },
+  statusBadge: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.sm,
+  },
+  statusText: {
+    color: colors.white,
+    fontSize: fontSizes.xs,
+    fontWeight: 'bold',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.xs,
+  },
+  detailText: {
+    flex: 1,
+    fontSize: fontSizes.sm,
+    color: colors.text,
+    marginLeft: spacing.sm,
+  },
+  noteText: {
+    fontSize: fontSizes.sm,
+    fontStyle: 'italic',
+    color: colors.lightText,
+    marginTop: spacing.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: spacing.sm,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+  },
+  actionButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    marginLeft: spacing.sm,
+  },
+  approveButton: {
+    backgroundColor: colors.primary,
+  },
+  approveText: {
+    color: colors.white,
+    fontWeight: 'bold',
+  },
+  declineButton: {
+    borderWidth: 1,
+    borderColor: colors.error,
+  },
+  declineText: {
+    color: colors.error,
+    fontWeight: 'bold',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+  },
+  emptyText: {
+    fontSize: fontSizes.md,
+    color: colors.lightText,
+    marginTop: spacing.md,
+    textAlign: 'center',
+  },
+});
+
+export default MachineBookingsScreen;
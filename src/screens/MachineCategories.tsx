@@ -17,6 +17,9 @@ import { Ionicons } from '@expo/vector-icons';
 import { collection, getDocs } from 'firebase/firestore';
 import { db } from '../utilities/firebaseConfig';
 import { getMachineCategories } from '../utilities/firestoreUtils';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+import { canListMachines } from '../utilities/roleUtils';
+import { useTranslation } from '../hooks/useTranslation';
 
 type MachinesCategoriesNavigationProp = NativeStackNavigationProp<RootStackParamList, 'MachineCategories'>;
 
@@ -25,10 +28,13 @@ const PLACEHOLDER_IMAGE = 'https://st4.depositphotos.com/14953852/24787/v/450/de
 
 const MachineCategories = () => {
   const navigation = useNavigation<MachinesCategoriesNavigationProp>();
+  const { t } = useTranslation();
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [failedImages, setFailedImages] = useState<{[key: string]: boolean}>({});
   const [retryCount, setRetryCount] = useState(0);
+  const { user } = useCurrentUser();
+  const canAddMachine = !!user && canListMachines(user);
 
   useFocusEffect(
     React.useCallback(() => {
@@ -140,10 +146,10 @@ const MachineCategories = () => {
   if (loading) {
     return (
       <View style={styles.container}>
-        <ScreenHeader title="Machine Categories" showBackButton />
+        <ScreenHeader title={t('machines.categoriesTitle')} showBackButton />
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={colors.primary} />
-          <Text style={styles.loadingText}>Loading categories...</Text>
+          <Text style={styles.loadingText}>{t('machines.loadingCategories')}</Text>
         </View>
       </View>
     );
@@ -151,7 +157,7 @@ const MachineCategories = () => {
 
   return (
     <View style={styles.container}>
-      <ScreenHeader title="Machine Categories" showBackButton />
+      <ScreenHeader title={t('machines.categoriesTitle')} showBackButton />
 
       <View style={styles.content}>
         <FlatList
@@ -163,12 +169,12 @@ const MachineCategories = () => {
           contentContainerStyle={styles.list}
           ListHeaderComponent={
             <View style={styles.headerContainer}>
-              <Text style={styles.headerText}>Select a Category</Text>
+              <Text style={styles.headerText}>{t('machines.selectCategory')}</Text>
             </View>
           }
           ListEmptyComponent={
             <View style={styles.emptyContainer}>
-              <Text style={styles.emptyText}>No machine categories available</Text>
+              <Text style={styles.emptyText}>{t('machines.noCategories')}</Text>
             </View>
           }
           refreshing={loading}
@@ -176,9 +182,11 @@ const MachineCategories = () => {
         />
       </View>
 
-      <TouchableOpacity style={styles.addButton} onPress={handleAddMachine}>
-        <Ionicons name="add" size={24} color={colors.white} />
-      </TouchableOpacity>
+      {canAddMachine && (
+        <TouchableOpacity style={styles.addButton} onPress={handleAddMachine}>
+          <Ionicons name="add" size={24} color={colors.white} />
+        </TouchableOpacity>
+      )}
     </View>
   );
 };
@@ -17,9 +17,22 @@ import { RootStackParamList, Machine } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import { Ionicons } from '@expo/vector-icons';
 import { doc, getDoc, collection, query, getDocs, where, orderBy, limit } from 'firebase/firestore';
-import { db } from '../utilities/firebaseConfig';
-import { formatCurrency } from '../utils';
+import { db, auth } from '../utilities/firebaseConfig';
+import { getPublicProfile, getMachineById, startConversation } from '../utilities/firestoreUtils';
+import {
+  getMachineStatusColor,
+  getDisplayedMachineStatus,
+  getServiceStatus,
+  canEditMachine,
+} from '../utilities/machineUtils';
+import { RATE_UNITS, getMachineRates, canBookMachine } from '../utilities/bookingUtils';
 import ScreenHeader from '../components/ScreenHeader';
+import RatingStars from '../components/RatingStars';
+import ReviewsSection from '../components/ReviewsSection';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+import { canListMachines } from '../utilities/roleUtils';
 
 type MachineDetailsScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'MachineDetails'>;
 type MachineDetailsScreenRouteProp = RouteProp<RootStackParamList, 'MachineDetails'>;
@@ -33,6 +46,9 @@ const FALLBACK_IMAGE = 'https://media.istockphoto.com/id/1320356772/photo/tracto
 const MachineDetails = () => {
   const navigation = useNavigation<MachineDetailsScreenNavigationProp>();
   const route = useRoute<MachineDetailsScreenRouteProp>();
+  const { t } = useTranslation();
+  const { formatCurrency } = useFormat();
+  const { user } = useCurrentUser();
   const { machineId } = route.params;
   
   const [machine, setMachine] = useState<Machine | null>(null);
@@ -152,6 +168,15 @@ const MachineDetails = () => {
           contact: machineData.contact || '',
           phone: machineData.phone || '',
           location: machineData.location || '',
+          rates: machineData.rates || undefined,
+          rating: machineData.rating || 0,
+          reviewCount: machineData.reviewCount || 0,
+          engineHours: machineData.engineHours || 0,
+          nextServiceDate: machineData.nextServiceDate?.toDate ? machineData.nextServiceDate.toDate() : undefined,
+          nextServiceHours: machineData.nextServiceHours ?? undefined,
+          autoUnavailableWhenDue: !!machineData.autoUnavailableWhenDue,
+          createdBy: machineData.createdBy || undefined,
+          ownerEmail: machineData.ownerEmail || undefined,
           image: imageUrl,
           createdAt: createdAt,
           updatedAt: updatedAt
@@ -172,7 +197,7 @@ const MachineDetails = () => {
       }
     } catch (error) {
       console.error('Error loading machine details:', error);
-      Alert.alert('Error', 'Failed to load machine details. Please try again.');
+      Alert.alert(t('common.error'), t('machines.loadDetailsFailed'));
       setMachine(null);
     } finally {
       setLoading(false);
@@ -185,6 +210,44 @@ const MachineDetails = () => {
     }
   };
   
+  // Pick up the new average after a review without reloading the whole screen
+  const refreshRating = async () => {
+    const updated = await getMachineById(machineId);
+    if (updated) {
+      setMachine(current => current && { ...current, rating: updated.rating, reviewCount: updated.reviewCount });
+    }
+  };
+
+  const handleMessageOwner = async () => {
+    const email = auth.currentUser?.email;
+    if (!email) {
+      Alert.alert(t('common.loginRequired'), t('machines.loginToMessage'));
+      return;
+    }
+    if (!machine) return;
+
+    try {
+      // Machines listed before owner emails were recorded only have the owner's uid
+      const ownerEmail = machine.ownerEmail
+        || (machine.createdBy ? (await getPublicProfile(machine.createdBy))?.email : undefined);
+      if (!ownerEmail) {
+        Alert.alert(t('machines.unavailable'), t('machines.phoneOnly'));
+        return;
+      }
+
+      const conversationId = await startConversation({
+        subjectType: 'machine',
+        subjectId: machine.id,
+        subjectTitle: machine.name,
+        buyerEmail: email,
+        sellerEmail: ownerEmail,
+      });
+      navigation.navigate('Chat', { conversationId });
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error.message || t('machines.conversationFailed'));
+    }
+  };
+
   const handleImageError = () => {
     console.log('Image loading error, using placeholder');
     setImageError(true);
@@ -193,10 +256,10 @@ const MachineDetails = () => {
   if (loading) {
     return (
       <View style={styles.container}>
-        <ScreenHeader title="Machine Details" showBackButton />
+        <ScreenHeader title={t('machines.detailsTitle')} showBackButton />
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={colors.primary} />
-          <Text style={styles.loadingText}>Loading machine details...</Text>
+          <Text style={styles.loadingText}>{t('machines.loadingDetails')}</Text>
         </View>
       </View>
     );
@@ -205,53 +268,39 @@ const MachineDetails = () => {
   if (!machine) {
     return (
       <View style={styles.container}>
-        <ScreenHeader title="Machine Details" showBackButton />
+        <ScreenHeader title={t('machines.detailsTitle')} showBackButton />
         <View style={styles.errorContainer}>
-          <Text style={styles.errorText}>Machine not found</Text>
+          <Text style={styles.errorText}>{t('machines.notFound')}</Text>
           <TouchableOpacity
             style={styles.backToHomeButton}
             onPress={() => navigation.navigate('MachineCategories')}
           >
-            <Text style={styles.backToHomeText}>Back to Machines</Text>
+            <Text style={styles.backToHomeText}>{t('machines.backToMachines')}</Text>
           </TouchableOpacity>
         </View>
       </View>
     );
   }
   
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'available':
-        return 'Available';
-      case 'unavailable':
-        return 'Unavailable';
-      case 'for_sale':
-        return 'For Sale';
-      case 'for_rent':
-        return 'For Rent';
-      default:
-        return status;
-    }
-  };
-  
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'available':
-        return colors.success;
-      case 'unavailable':
-        return colors.error;
-      case 'for_sale':
-        return colors.primary;
-      case 'for_rent':
-        return colors.accent;
-      default:
-        return colors.lightText;
-    }
-  };
+  const isOwner = canEditMachine(machine, auth.currentUser?.uid);
+  // The edit and logbook screens are only registered for accounts that can list machines
+  const canManage = isOwner && !!user && canListMachines(user);
+  const status = getDisplayedMachineStatus(machine);
+  const serviceStatus = getServiceStatus(machine);
+  const rates = getMachineRates(machine);
+  const bookable = canBookMachine({ status }) && Object.keys(rates).length > 0;
   
   return (
     <View style={styles.container}>
-      <ScreenHeader title="Machine Details" showBackButton />
+      <ScreenHeader
+        title={t('machines.detailsTitle')}
+        showBackButton
+        rightComponent={canManage ? (
+          <TouchableOpacity onPress={() => navigation.navigate('EditMachine', { machineId: machine.id })}>
+            <Ionicons name="create-outline" size={24} color={colors.white} />
+          </TouchableOpacity>
+        ) : undefined}
+      />
       
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
         {/* Machine Image */}
@@ -267,10 +316,10 @@ const MachineDetails = () => {
           <View 
             style={[
               styles.statusBadge, 
-              { backgroundColor: getStatusColor(machine.status) }
+              { backgroundColor: getMachineStatusColor(status) }
             ]}
           >
-            <Text style={styles.statusText}>{getStatusText(machine.status)}</Text>
+            <Text style={styles.statusText}>{t(`machines.status.${status}`)}</Text>
           </View>
         </View>
         
@@ -278,20 +327,35 @@ const MachineDetails = () => {
         <View style={styles.infoContainer}>
           <Text style={styles.machineName}>{machine.name}</Text>
           <Text style={styles.machinePrice}>{formatCurrency(machine.price)}</Text>
+          <RatingStars rating={machine.rating || 0} reviewCount={machine.reviewCount || 0} />
           
           <View style={styles.locationContainer}>
             <Ionicons name="location-outline" size={16} color={colors.lightText} />
-            <Text style={styles.locationText}>{machine.location || 'Location not specified'}</Text>
+            <Text style={styles.locationText}>{machine.location || t('machines.locationUnknown')}</Text>
           </View>
           
+          {bookable && (
+            <>
+              <View style={styles.divider} />
+              
+              <Text style={styles.sectionTitle}>{t('machines.rentalRates')}</Text>
+              {RATE_UNITS.filter(unit => rates[unit]).map(unit => (
+                <View key={unit} style={styles.rateRow}>
+                  <Text style={styles.rateLabel}>{t(`machines.rateUnits.${unit}`)}</Text>
+                  <Text style={styles.rateText}>{formatCurrency(rates[unit] as number)}</Text>
+                </View>
+              ))}
+            </>
+          )}
+          
           <View style={styles.divider} />
           
-          <Text style={styles.sectionTitle}>Description</Text>
+          <Text style={styles.sectionTitle}>{t('machines.description')}</Text>
           <Text style={styles.descriptionText}>{machine.description}</Text>
           
           <View style={styles.divider} />
           
-          <Text style={styles.sectionTitle}>Contact Information</Text>
+          <Text style={styles.sectionTitle}>{t('machines.contactInfo')}</Text>
           <View style={styles.contactItem}>
             <Ionicons name="person-outline" size={16} color={colors.lightText} />
             <Text style={styles.contactText}>{machine.contact}</Text>
@@ -303,14 +367,72 @@ const MachineDetails = () => {
           </TouchableOpacity>
         </View>
         
+        {bookable && !isOwner && (
+          <TouchableOpacity 
+            style={[styles.contactButton, styles.bookButton]}
+            onPress={() => navigation.navigate('BookMachine', { machineId: machine.id })}
+          >
+            <Ionicons name="calendar" size={20} color={colors.white} />
+            <Text style={styles.contactButtonText}>{t('machines.bookThis')}</Text>
+          </TouchableOpacity>
+        )}
+        
+        {isOwner && (
+          <TouchableOpacity 
+            style={[styles.messageButton, styles.ownerBookingsButton]}
+            onPress={() => navigation.navigate('MachineBookings', { tab: 'owner' })}
+          >
+            <Ionicons name="calendar-outline" size={20} color={colors.primary} />
+            <Text style={styles.messageButtonText}>{t('machines.bookingRequests')}</Text>
+          </TouchableOpacity>
+        )}
+        
+        {canManage && (
+          <TouchableOpacity 
+            style={[styles.messageButton, styles.ownerBookingsButton]}
+            onPress={() => navigation.navigate('MachineLogbook', { machineId: machine.id })}
+          >
+            <Ionicons
+              name={serviceStatus === 'ok' ? 'build-outline' : 'warning-outline'}
+              size={20}
+              color={serviceStatus === 'due' ? colors.error : colors.primary}
+            />
+            <Text style={styles.messageButtonText}>
+              {serviceStatus === 'due'
+                ? t('machines.logbookServiceDue')
+                : serviceStatus === 'due_soon' ? t('machines.logbookServiceDueSoon') : t('machines.logbook')}
+            </Text>
+          </TouchableOpacity>
+        )}
+        
         {/* Contact Button */}
         <TouchableOpacity 
           style={styles.contactButton}
           onPress={handleCallPress}
         >
           <Ionicons name="call" size={20} color={colors.white} />
-          <Text style={styles.contactButtonText}>Contact Seller</Text>
+          <Text style={styles.contactButtonText}>{t('machines.contactSeller')}</Text>
         </TouchableOpacity>
+
+        {(machine.ownerEmail || machine.createdBy) && !isOwner && (
+          <TouchableOpacity 
+            style={styles.messageButton}
+            onPress={handleMessageOwner}
+          >
+            <Ionicons name="chatbubbles-outline" size={20} color={colors.primary} />
+            <Text style={styles.messageButtonText}>{t('machines.messageOwner')}</Text>
+          </TouchableOpacity>
+        )}
+        
+        <ReviewsSection
+          targetType="machine"
+          targetId={machine.id}
+          targetName={machine.name}
+          rating={machine.rating || 0}
+          reviewCount={machine.reviewCount || 0}
+          onReviewAdded={refreshRating}
+          style={styles.reviewsSection}
+        />
       </ScrollView>
     </View>
   );
@@ -458,6 +580,47 @@ const styles = StyleSheet.create({
     fontSize: fontSizes.md,
     marginLeft: spacing.sm,
   },
+  reviewsSection: {
+    margin: spacing.lg,
+  },
+  rateRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xs,
+  },
+  rateLabel: {
+    fontSize: fontSizes.md,
+    color: colors.text,
+  },
+  rateText: {
+    fontSize: fontSizes.md,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  bookButton: {
+    marginBottom: spacing.md,
+  },
+  ownerBookingsButton: {
+    marginTop: 0,
+    marginBottom: spacing.md,
+  },
+  messageButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  messageButtonText: {
+    color: colors.primary,
+    fontWeight: '600',
+    fontSize: fontSizes.md,
+    marginLeft: spacing.sm,
+  },
 });
 
 export default MachineDetails; 
\ No newline at end of file
@@ -15,10 +15,15 @@ import { RootStackParamList, Machine } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import { Ionicons } from '@expo/vector-icons';
 import ScreenHeader from '../components/ScreenHeader';
+import RatingStars from '../components/RatingStars';
 import { getMachinesByCategoryId } from '../utilities/firestoreUtils';
-import { formatCurrency } from '../utils';
+import { getMachineStatusColor, getDisplayedMachineStatus } from '../utilities/machineUtils';
 import { collection, query, where, orderBy, getDocs } from 'firebase/firestore';
 import { db } from '../utilities/firebaseConfig';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+import { canListMachines } from '../utilities/roleUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
 
 type MachineListScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'MachineList'>;
 type MachineListScreenRouteProp = RouteProp<RootStackParamList, 'MachineList'>;
@@ -30,11 +35,15 @@ const FALLBACK_IMAGE = 'https://media.istockphoto.com/id/1320356772/photo/tracto
 const MachineList = () => {
   const navigation = useNavigation<MachineListScreenNavigationProp>();
   const route = useRoute<MachineListScreenRouteProp>();
+  const { t } = useTranslation();
+  const { formatCurrency } = useFormat();
   const { categoryId, categoryName } = route.params;
   
   const [machines, setMachines] = useState<Machine[]>([]);
   const [loading, setLoading] = useState(true);
   const [failedImages, setFailedImages] = useState<{[key: string]: boolean}>({});
+  const { user } = useCurrentUser();
+  const canAddMachine = !!user && canListMachines(user);
   
   useFocusEffect(
     React.useCallback(() => {
@@ -106,6 +115,12 @@ const MachineList = () => {
               phone: data.phone || '',
               location: data.location || '',
               image: data.image || '',
+              rating: data.rating || 0,
+              reviewCount: data.reviewCount || 0,
+              engineHours: data.engineHours || 0,
+              nextServiceDate: data.nextServiceDate?.toDate ? data.nextServiceDate.toDate() : undefined,
+              nextServiceHours: data.nextServiceHours ?? undefined,
+              autoUnavailableWhenDue: !!data.autoUnavailableWhenDue,
               createdAt: createdAt,
               updatedAt: updatedAt
             });
@@ -143,7 +158,7 @@ const MachineList = () => {
       console.log(`Loaded ${processedMachines.length} machines for category ${categoryName}`);
     } catch (error) {
       console.error('Error loading machines:', error);
-      Alert.alert('Error', 'Failed to load machines. Please try again.');
+      Alert.alert(t('common.error'), t('machines.loadFailed'));
       setMachines([]);
     } finally {
       setLoading(false);
@@ -156,7 +171,7 @@ const MachineList = () => {
     // Make sure we have a valid ID before navigating
     if (!machineId) {
       console.error('Invalid machine ID, cannot navigate to details');
-      Alert.alert('Error', 'Cannot view this machine. Please try again.');
+      Alert.alert(t('common.error'), t('machines.cannotView'));
       return;
     }
     
@@ -191,62 +206,37 @@ const MachineList = () => {
         <View 
           style={[
             styles.statusBadge, 
-            { backgroundColor: getStatusColor(item.status) }
+            { backgroundColor: getMachineStatusColor(getDisplayedMachineStatus(item)) }
           ]}
         >
-          <Text style={styles.statusText}>{getStatusText(item.status)}</Text>
+          <Text style={styles.statusText}>{t(`machines.status.${getDisplayedMachineStatus(item)}`)}</Text>
         </View>
       </View>
       <View style={styles.machineInfo}>
         <Text style={styles.machineName}>{item.name}</Text>
         <Text style={styles.machinePrice}>{formatCurrency(item.price)}</Text>
+        {!!item.reviewCount && (
+          <View style={styles.ratingContainer}>
+            <RatingStars rating={item.rating || 0} reviewCount={item.reviewCount} size={12} />
+          </View>
+        )}
         <View style={styles.locationContainer}>
           <Ionicons name="location-outline" size={14} color={colors.lightText} />
           <Text style={styles.locationText}>
-            {item.location || 'Location not specified'}
+            {item.location || t('machines.locationUnknown')}
           </Text>
         </View>
       </View>
     </TouchableOpacity>
   );
   
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'available':
-        return 'Available';
-      case 'unavailable':
-        return 'Unavailable';
-      case 'for_sale':
-        return 'For Sale';
-      case 'for_rent':
-        return 'For Rent';
-      default:
-        return status;
-    }
-  };
-  
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'available':
-        return colors.success;
-      case 'unavailable':
-        return colors.error;
-      case 'for_sale':
-        return colors.primary;
-      case 'for_rent':
-        return colors.accent;
-      default:
-        return colors.lightText;
-    }
-  };
-
   if (loading) {
     return (
       <View style={styles.container}>
-        <ScreenHeader title={`${categoryName} Machines`} showBackButton />
+        <ScreenHeader title={t('machines.listTitle', { categoryName })} showBackButton />
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={colors.primary} />
-          <Text style={styles.loadingText}>Loading machines...</Text>
+          <Text style={styles.loadingText}>{t('machines.loading')}</Text>
         </View>
       </View>
     );
@@ -254,7 +244,7 @@ const MachineList = () => {
 
   return (
     <View style={styles.container}>
-      <ScreenHeader title={`${categoryName} Machines`} showBackButton />
+      <ScreenHeader title={t('machines.listTitle', { categoryName })} showBackButton />
 
       <View style={styles.content}>
         <FlatList
@@ -265,19 +255,21 @@ const MachineList = () => {
           contentContainerStyle={styles.list}
           ListHeaderComponent={
             <View style={styles.headerContainer}>
-              <Text style={styles.headerText}>{categoryName} Machines</Text>
-              <Text style={styles.subHeaderText}>{machines.length} items found</Text>
+              <Text style={styles.headerText}>{t('machines.listTitle', { categoryName })}</Text>
+              <Text style={styles.subHeaderText}>{t('machines.itemsFound', { count: machines.length })}</Text>
             </View>
           }
           ListEmptyComponent={
             <View style={styles.emptyContainer}>
-              <Text style={styles.emptyText}>No machines available in this category</Text>
-              <TouchableOpacity 
-                style={styles.addFirstButton}
-                onPress={handleAddMachine}
-              >
-                <Text style={styles.addFirstButtonText}>Add First Machine</Text>
-              </TouchableOpacity>
+              <Text style={styles.emptyText}>{t('machines.noMachines')}</Text>
+              {canAddMachine && (
+                <TouchableOpacity 
+                  style={styles.addFirstButton}
+                  onPress={handleAddMachine}
+                >
+                  <Text style={styles.addFirstButtonText}>{t('machines.addFirst')}</Text>
+                </TouchableOpacity>
+              )}
             </View>
           }
           refreshing={loading}
@@ -285,9 +277,11 @@ const MachineList = () => {
         />
       </View>
 
-      <TouchableOpacity style={styles.addButton} onPress={handleAddMachine}>
-        <Ionicons name="add" size={24} color={colors.white} />
-      </TouchableOpacity>
+      {canAddMachine && (
+        <TouchableOpacity style={styles.addButton} onPress={handleAddMachine}>
+          <Ionicons name="add" size={24} color={colors.white} />
+        </TouchableOpacity>
+      )}
     </View>
   );
 };
@@ -362,6 +356,9 @@ const styles = StyleSheet.create({
     color: colors.primary,
     marginBottom: spacing.sm,
   },
+  ratingContainer: {
+    marginBottom: spacing.sm,
+  },
   locationContainer: {
     flexDirection: 'row',
     alignItems: 'center',
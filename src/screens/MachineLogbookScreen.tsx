@@ -0,0 +1,758 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import {
+  RootStackParamList,
+  Machine,
+  MachineBooking,
+  MachineLogEntry,
+  MachineLogEntryType,
+  MaintenanceType,
+} from '../types';
+import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
+import { Ionicons } from '@expo/vector-icons';
+import { auth } from '../utilities/firebaseConfig';
+import {
+  getMachineById,
+  getMachineLogbook,
+  getMachineBookings,
+  addMachineLogEntry,
+  updateMachine,
+} from '../utilities/firestoreUtils';
+import {
+  MAINTENANCE_TYPES,
+  canEditMachine,
+  getServiceStatus,
+  getServiceDueText,
+} from '../utilities/machineUtils';
+import Button from '../components/Button';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+
+type MachineLogbookNavigationProp = NativeStackNavigationProp<RootStackParamList, 'MachineLogbook'>;
+type MachineLogbookRouteProp = RouteProp<RootStackParamList, 'MachineLogbook'>;
+
+const SERVICE_STATUS_DISPLAY = {
+  ok: { color: colors.success, icon: 'checkmark-circle' },
+  due_soon: { color: colors.accent, icon: 'time' },
+  due: { color: colors.error, icon: 'warning' },
+};
+
+const MachineLogbookScreen = () => {
+  const navigation = useNavigation<MachineLogbookNavigationProp>();
+  const route = useRoute<MachineLogbookRouteProp>();
+  const { t, locale } = useTranslation();
+  const { formatCurrency, formatDate } = useFormat();
+  const { machineId } = route.params;
+  const userId = auth.currentUser?.uid || '';
+
+  const [machine, setMachine] = useState<Machine | null>(null);
+  const [entries, setEntries] = useState<MachineLogEntry[]>([]);
+  const [bookings, setBookings] = useState<MachineBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // New entry form
+  const [showEntryModal, setShowEntryModal] = useState(false);
+  const [entryType, setEntryType] = useState<MachineLogEntryType>('usage');
+  const [entryDate, setEntryDate] = useState(new Date());
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [hours, setHours] = useState('');
+  const [operator, setOperator] = useState('');
+  const [bookingId, setBookingId] = useState<string | null>(null);
+  const [maintenanceType, setMaintenanceType] = useState<MaintenanceType>('service');
+  const [description, setDescription] = useState('');
+  const [cost, setCost] = useState('');
+  const [nextDueDate, setNextDueDate] = useState<Date | null>(null);
+  const [showNextDuePicker, setShowNextDuePicker] = useState(false);
+  const [nextDueHours, setNextDueHours] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadLogbook();
+  }, [machineId]);
+
+  const loadLogbook = async () => {
+    try {
+      setLoading(true);
+      const [machineData, logEntries, machineBookings] = await Promise.all([
+        getMachineById(machineId),
+        getMachineLogbook(machineId),
+        getMachineBookings(machineId),
+      ]);
+
+      if (machineData && !canEditMachine(machineData, userId)) {
+        Alert.alert(
+          t('addMachine.notAllowed'),
+          t('logbook.notAllowed'),
+          [{ text: t('common.ok'), onPress: () => navigation.goBack() }]
+        );
+        return;
+      }
+
+      setMachine(machineData);
+      setEntries(logEntries);
+      setBookings(machineBookings.filter(booking => booking.status === 'approved'));
+    } catch (error) {
+      Alert.alert(t('common.error'), t('logbook.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setEntryDate(new Date());
+    setHours('');
+    setOperator('');
+    setBookingId(null);
+    setMaintenanceType('service');
+    setDescription('');
+    setCost('');
+    setNextDueDate(null);
+    setNextDueHours('');
+  };
+
+  const openEntryModal = (type: MachineLogEntryType) => {
+    resetForm();
+    setEntryType(type);
+    setShowEntryModal(true);
+  };
+
+  const handleSelectBooking = (booking: MachineBooking) => {
+    if (bookingId === booking.id) {
+      setBookingId(null);
+      return;
+    }
+    setBookingId(booking.id);
+    setEntryDate(booking.startDate);
+    if (!operator) {
+      setOperator(booking.renterEmail);
+    }
+  };
+
+  const handleToggleAutoUnavailable = async (value: boolean) => {
+    if (!machine) return;
+
+    try {
+      setMachine({ ...machine, autoUnavailableWhenDue: value });
+      await updateMachine(machine.id, userId, { autoUnavailableWhenDue: value });
+    } catch (error) {
+      setMachine({ ...machine, autoUnavailableWhenDue: !value });
+      Alert.alert(t('common.error'), t('logbook.settingFailed'));
+    }
+  };
+
+  const handleSaveEntry = async () => {
+    const parsedHours = parseFloat(hours);
+    const parsedCost = cost ? parseFloat(cost) : undefined;
+    const parsedNextDueHours = nextDueHours ? parseFloat(nextDueHours) : undefined;
+
+    if (entryType === 'usage' && (isNaN(parsedHours) || parsedHours <= 0)) {
+      Alert.alert(t('logbook.missingHours'), t('logbook.missingHoursMessage'));
+      return;
+    }
+    if (entryType === 'maintenance') {
+      if (parsedCost !== undefined && (isNaN(parsedCost) || parsedCost < 0)) {
+        Alert.alert(t('logbook.invalidCost'), t('logbook.invalidCostMessage'));
+        return;
+      }
+      if (parsedNextDueHours !== undefined && (isNaN(parsedNextDueHours) || parsedNextDueHours <= 0)) {
+        Alert.alert(t('logbook.invalidHours'), t('logbook.invalidHoursMessage'));
+        return;
+      }
+    }
+
+    try {
+      setSaving(true);
+      await addMachineLogEntry(machineId, userId, entryType === 'usage'
+        ? {
+            type: 'usage',
+            date: entryDate,
+            hours: parsedHours,
+            operator: operator.trim() || undefined,
+            bookingId: bookingId || undefined,
+          }
+        : {
+            type: 'maintenance',
+            date: entryDate,
+            maintenanceType,
+            description: description.trim() || undefined,
+            cost: parsedCost,
+            nextDueDate: nextDueDate || undefined,
+            nextDueHours: parsedNextDueHours,
+          });
+      setShowEntryModal(false);
+      await loadLogbook();
+    } catch (error) {
+      Alert.alert(t('common.error'), t('logbook.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderEntry = ({ item }: { item: MachineLogEntry }) => {
+    const isUsage = item.type === 'usage';
+    const booking = item.bookingId ? bookings.find(b => b.id === item.bookingId) : undefined;
+    const nextDueText = getServiceDueText({ nextServiceDate: item.nextDueDate, nextServiceHours: item.nextDueHours }, locale);
+
+    return (
+      <View style={styles.entryCard}>
+        <View style={[styles.entryIcon, { backgroundColor: isUsage ? colors.info : colors.accent }]}>
+          <Ionicons name={isUsage ? 'speedometer-outline' : 'build-outline'} size={20} color={colors.white} />
+        </View>
+        <View style={styles.entryContent}>
+          <View style={styles.entryHeader}>
+            <Text style={styles.entryTitle}>
+              {isUsage
+                ? t('logbook.hoursUsed', { count: item.hours || 0 })
+                : t(`machines.maintenanceTypes.${item.maintenanceType || 'service'}`)}
+            </Text>
+            <Text style={styles.entryDate}>{formatDate(item.date)}</Text>
+          </View>
+          {item.operator && <Text style={styles.entryText}>{t('logbook.operator', { name: item.operator })}</Text>}
+          {item.bookingId && (
+            <Text style={styles.entryText}>
+              {t('logbook.booking', { id: item.bookingId.substring(0, 6) })}{booking ? ` (${booking.renterEmail})` : ''}
+            </Text>
+          )}
+          {item.description && <Text style={styles.entryText}>{item.description}</Text>}
+          {item.cost !== undefined && <Text style={styles.entryCost}>{formatCurrency(item.cost)}</Text>}
+          {nextDueText && <Text style={styles.entryText}>{nextDueText}</Text>}
+        </View>
+      </View>
+    );
+  };
+
+  if (loading && !machine) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (!machine) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.emptyText}>{t('machines.notFound')}</Text>
+      </View>
+    );
+  }
+
+  const serviceStatusKey = getServiceStatus(machine);
+  const serviceStatus = SERVICE_STATUS_DISPLAY[serviceStatusKey];
+  const serviceDueText = getServiceDueText(machine, locale);
+  const maintenanceCost = entries.reduce((total, entry) => total + (entry.cost || 0), 0);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>{t('logbook.title', { name: machine.name })}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <FlatList
+        data={entries}
+        renderItem={renderEntry}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.listContent}
+        refreshing={loading}
+        onRefresh={loadLogbook}
+        ListHeaderComponent={
+          <>
+            <View style={styles.summaryCard}>
+              <View style={[styles.serviceBanner, { backgroundColor: serviceStatus.color }]}>
+                <Ionicons name={serviceStatus.icon as any} size={18} color={colors.white} />
+                <Text style={styles.serviceBannerText}>{t(`logbook.serviceStatus.${serviceStatusKey}`)}</Text>
+              </View>
+              {serviceDueText && <Text style={styles.summaryText}>{serviceDueText}</Text>}
+              <View style={styles.statsRow}>
+                <View style={styles.stat}>
+                  <Text style={styles.statValue}>{machine.engineHours || 0}</Text>
+                  <Text style={styles.statLabel}>{t('logbook.engineHours')}</Text>
+                </View>
+                <View style={styles.stat}>
+                  <Text style={styles.statValue}>
+                    {machine.lastServiceDate ? formatDate(machine.lastServiceDate) : '-'}
+                  </Text>
+                  <Text style={styles.statLabel}>{t('logbook.lastService')}</Text>
+                </View>
+                <View style={styles.stat}>
+                  <Text style={styles.statValue}>{formatCurrency(maintenanceCost)}</Text>
+                  <Text style={styles.statLabel}>{t('logbook.maintenanceCost')}</Text>
+                </View>
+              </View>
+              <View style={styles.toggleRow}>
+                <Text style={styles.toggleLabel}>{t('logbook.autoUnavailable')}</Text>
+                <Switch
+                  value={!!machine.autoUnavailableWhenDue}
+                  onValueChange={handleToggleAutoUnavailable}
+                  trackColor={{ false: colors.gray, true: colors.primary }}
+                  thumbColor={colors.white}
+                />
+              </View>
+            </View>
+
+            <View style={styles.addRow}>
+              <TouchableOpacity style={styles.addButton} onPress={() => openEntryModal('usage')}>
+                <Ionicons name="speedometer-outline" size={18} color={colors.primary} />
+                <Text style={styles.addButtonText}>{t('logbook.logUsage')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.addButton} onPress={() => openEntryModal('maintenance')}>
+                <Ionicons name="build-outline" size={18} color={colors.primary} />
+                <Text style={styles.addButtonText}>{t('logbook.logMaintenance')}</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="book-outline" size={48} color={colors.gray} />
+            <Text style={styles.emptyText}>{t('logbook.empty')}</Text>
+          </View>
+        }
+      />
+
+      <Modal
+        visible={showEntryModal}
+        transparent={true}
+        animationType="slide"
+        onRequestClose={() => setShowEntryModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {entryType === 'usage' ? t('logbook.logUsage') : t('logbook.logMaintenance')}
+              </Text>
+              <TouchableOpacity onPress={() => setShowEntryModal(false)}>
+                <Ionicons name="close" size={24} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView keyboardShouldPersistTaps="handled">
+              <Text style={styles.inputLabel}>{t('logbook.date')}</Text>
+              <TouchableOpacity style={styles.dateInput} onPress={() => setShowDatePicker(true)}>
+                <Text style={styles.dateText}>{formatDate(entryDate)}</Text>
+                <Ionicons name="calendar-outline" size={18} color={colors.primary} />
+              </TouchableOpacity>
+              {showDatePicker && (
+                <DateTimePicker
+                  value={entryDate}
+                  mode="date"
+                  display="default"
+                  maximumDate={new Date()}
+                  onChange={(event: any, selectedDate?: Date) => {
+                    setShowDatePicker(false);
+                    if (selectedDate) {
+                      setEntryDate(selectedDate);
+                    }
+                  }}
+                />
+              )}
+
+              {entryType === 'usage' ? (
+                <>
+                  <Text style={styles.inputLabel}>{t('logbook.hoursUsedLabel')}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={hours}
+                    onChangeText={setHours}
+                    placeholder={t('logbook.hoursPlaceholder')}
+                    placeholderTextColor={colors.lightText}
+                    keyboardType="numeric"
+                  />
+
+                  <Text style={styles.inputLabel}>{t('logbook.operatorLabel')}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={operator}
+                    onChangeText={setOperator}
+                    placeholder={t('logbook.operatorPlaceholder')}
+                    placeholderTextColor={colors.lightText}
+                  />
+
+                  {bookings.length > 0 && (
+                    <>
+                      <Text style={styles.inputLabel}>{t('logbook.bookingLabel')}</Text>
+                      <View style={styles.chipRow}>
+                        {bookings.map(booking => (
+                          <TouchableOpacity
+                            key={booking.id}
+                            style={[styles.chip, bookingId === booking.id && styles.selectedChip]}
+                            onPress={() => handleSelectBooking(booking)}
+                          >
+                            <Text style={[styles.chipText, bookingId === booking.id && styles.selectedChipText]}>
+                              {formatDate(booking.startDate)}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    </>
+                  )}
+                </>
+              ) : (
+                <>
+                  <Text style={styles.inputLabel}>{t('logbook.type')}</Text>
+                  <View style={styles.chipRow}>
+                    {MAINTENANCE_TYPES.map(type => (
+                      <TouchableOpacity
+                        key={type}
+                        style={[styles.chip, maintenanceType === type && styles.selectedChip]}
+                        onPress={() => setMaintenanceType(type)}
+                      >
+                        <Text style={[styles.chipText, maintenanceType === type && styles.selectedChipText]}>
+                          {t(`machines.maintenanceTypes.${type}`)}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  <Text style={styles.inputLabel}>{t('logbook.workDone')}</Text>
+                  <TextInput
+                    style={[styles.input, styles.textArea]}
+                    value={description}
+                    onChangeText={setDescription}
+                    placeholder={t('logbook.workDonePlaceholder')}
+                    placeholderTextColor={colors.lightText}
+                    multiline
+                    textAlignVertical="top"
+                  />
+
+                  <Text style={styles.inputLabel}>{t('logbook.cost')}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={cost}
+                    onChangeText={setCost}
+                    placeholder={t('format.currencySymbol')}
+                    placeholderTextColor={colors.lightText}
+                    keyboardType="numeric"
+                  />
+
+                  <Text style={styles.inputLabel}>{t('logbook.nextServiceDue')}</Text>
+                  <TouchableOpacity style={styles.dateInput} onPress={() => setShowNextDuePicker(true)}>
+                    <Text style={[styles.dateText, !nextDueDate && styles.placeholderText]}>
+                      {nextDueDate ? formatDate(nextDueDate) : t('logbook.noDate')}
+                    </Text>
+                    {nextDueDate ? (
+                      <TouchableOpacity onPress={() => setNextDueDate(null)}>
+                        <Ionicons name="close-circle" size={18} color={colors.lightText} />
+                      </TouchableOpacity>
+                    ) : (
+                      <Ionicons name="calendar-outline" size={18} color={colors.primary} />
+                    )}
+                  </TouchableOpacity>
+                  {showNextDuePicker && (
+                    <DateTimePicker
+                      value={nextDueDate || new Date()}
+                      mode="date"
+                      display="default"
+                      minimumDate={new Date()}
+                      onChange={(event: any, selectedDate?: Date) => {
+                        setShowNextDuePicker(false);
+                        if (selectedDate) {
+                          setNextDueDate(selectedDate);
+                        }
+                      }}
+                    />
+                  )}
+                  <TextInput
+                    style={[styles.input, styles.spacedInput]}
+                    value={nextDueHours}
+                    onChangeText={setNextDueHours}
+                    placeholder={t('logbook.nextDueHoursPlaceholder', { hours: machine.engineHours || 0 })}
+                    placeholderTextColor={colors.lightText}
+                    keyboardType="numeric"
+                  />
+                </>
+              )}
+
+              <Button
+                title={t('logbook.saveEntry')}
+                onPress={handleSaveEntry}
+                type="primary"
+                disabled={saving}
+                style={styles.saveButton}
+              />
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+    textAlign: 'center',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: spacing.md,
+    flexGrow: 1,
+  },
+  summaryCard: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    ...shadows.small,
+  },
+  serviceBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.sm,
+  },
+  serviceBannerText: {
+    color: colors.white,
+    fontWeight: 'bold',
+    marginLeft: spacing.xs,
+  },
+  summaryText: {
+    fontSize: fontSizes.sm,
+    color: colors.text,
+    marginTop: spacing.sm,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    marginTop: spacing.md,
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+    color: colors.text,
+    textAlign: 'center',
+  },
+  statLabel: {
+    fontSize: fontSizes.xs,
+    color: colors.lightText,
+    marginTop: 2,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: spacing.md,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+  },
+  toggleLabel: {
+    flex: 1,
+    fontSize: fontSizes.sm,
+    color: colors.text,
+    marginRight: spacing.sm,
+  },
+  addRow: {
+    flexDirection: 'row',
+    marginVertical: spacing.md,
+  },
+  addButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.sm,
+    marginHorizontal: spacing.xs,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  addButtonText: {
+    color: colors.primary,
+    fontWeight: '600',
+    marginLeft: spacing.xs,
+  },
+  entryCard: {
+    flexDirection: 'row',
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    ...shadows.small,
+  },
+  entryIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.md,
+  },
+  entryContent: {
+    flex: 1,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  entryTitle: {
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  entryDate: {
+    fontSize: fontSizes.xs,
+    color: colors.lightText,
+  },
+  entryText: {
+    fontSize: fontSizes.sm,
+    color: colors.text,
+    marginTop: 2,
+  },
+  entryCost: {
+    fontSize: fontSizes.sm,
+    fontWeight: '600',
+    color: colors.primary,
+    marginTop: 2,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: spacing.xl,
+  },
+  emptyText: {
+    fontSize: fontSizes.md,
+    color: colors.lightText,
+    marginTop: spacing.sm,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContent: {
+    width: '90%',
+    maxHeight: '85%',
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.lg,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  modalTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  inputLabel: {
+    fontSize: fontSizes.sm,
+    color: colors.text,
+    fontWeight: '600',
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    backgroundColor: colors.lightGray,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    fontSize: fontSizes.md,
+    color: colors.text,
+  },
+  spacedInput: {
+    marginTop: spacing.sm,
+  },
+  textArea: {
+    minHeight: 70,
+  },
+  dateInput: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: colors.lightGray,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+  },
+  dateText: {
+    fontSize: fontSizes.md,
+    color: colors.text,
+  },
+  placeholderText: {
+    color: colors.lightText,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    marginRight: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  selectedChip: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: fontSizes.sm,
+    color: colors.primary,
+  },
+  selectedChipText: {
+    color: colors.white,
+  },
+  saveButton: {
+    marginTop: spacing.lg,
+  },
+});
+
+export default MachineLogbookScreen;
@@ -27,15 +27,21 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList, MarketPrice } from '../types';
 import { colors, fontSizes, spacing, borderRadius } from '../theme';
 import Card from '../components/Card';
+import { MassUnit, convertUnitPrice } from '../utils';
 import { getAllMarketPrices, getMarketPricesByMarket } from '../utilities/firestoreUtils';
-import { formatCurrency } from '../utils';
 import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as ImagePicker from 'expo-image-picker';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { addBid } from '../utilities/firestoreUtils';
+import { validateListingPrices } from '../utilities/auctionRules';
 import { auth, db, storage, uploadFile } from '../utilities/firebaseConfig';
 import * as FileSystem from 'expo-file-system';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+import { canSellProducts } from '../utilities/roleUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+import { useEmailVerification } from '../hooks/useEmailVerification';
 
 const USER_EMAIL_KEY = 'user_email';
 const USER_NAME_KEY = 'user_name';
@@ -53,10 +59,18 @@ const cardShadow = {
   elevation: 2,
 };
 
+// Market prices are quoted per kg, and can also be compared per 50 kg bag
+const PRICE_UNITS: MassUnit[] = ['kg', 'bag'];
+
 const MarketPricesScreen = () => {
   const navigation = useNavigation<MarketPricesScreenNavigationProp>();
+  const { t } = useTranslation();
+  const { formatCurrency, formatNumber, formatDate } = useFormat();
+  const { requireVerifiedEmail } = useEmailVerification();
   const [searchQuery, setSearchQuery] = useState('');
+  const { user: account } = useCurrentUser();
   const [selectedMarket, setSelectedMarket] = useState<string | null>(null);
+  const [priceUnit, setPriceUnit] = useState<MassUnit>('kg');
   const [marketPrices, setMarketPrices] = useState<MarketPrice[]>([]);
   const [allMarkets, setAllMarkets] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
@@ -71,6 +85,8 @@ const MarketPricesScreen = () => {
   const [bidItem, setBidItem] = useState('');
   const [bidDescription, setBidDescription] = useState('');
   const [bidStartPrice, setBidStartPrice] = useState('');
+  const [bidReservePrice, setBidReservePrice] = useState('');
+  const [bidBuyNowPrice, setBidBuyNowPrice] = useState('');
   const [bidStartDate, setBidStartDate] = useState(new Date());
   const [bidDueDate, setBidDueDate] = useState(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)); // 7 days from now
   const [bidEmail, setBidEmail] = useState('');
@@ -105,7 +121,7 @@ const MarketPricesScreen = () => {
         setLoading(false);
       } catch (error) {
         console.error('Error loading market prices:', error);
-        setError('Failed to load market prices. Please try again later.');
+        setError(t('market.loadFailed'));
         setLoading(false);
       }
     };
@@ -169,13 +185,13 @@ const MarketPricesScreen = () => {
           <Text style={styles.marketName}>{item.market}</Text>
         </View>
         <View style={styles.priceContainer}>
-          <Text style={styles.price}>{formatCurrency(item.price)}</Text>
-          <Text style={styles.priceUnit}>per kg</Text>
+          <Text style={styles.price}>{formatCurrency(convertUnitPrice(item.price, 'kg', priceUnit))}</Text>
+          <Text style={styles.priceUnit}>{t('units.perUnit', { unit: t(`units.names.${priceUnit}`) })}</Text>
         </View>
       </View>
       <View style={styles.priceCardFooter}>
         <Text style={styles.updateText}>
-          Updated: {item.date.toLocaleDateString()}
+          {t('market.updated', { date: formatDate(item.date, 'medium') })}
         </Text>
       </View>
     </Card>
@@ -207,7 +223,7 @@ const MarketPricesScreen = () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
     
     if (status !== 'granted') {
-      Alert.alert('Permission required', 'Please grant camera roll permissions to upload an image.');
+      Alert.alert(t('common.permissionRequired'), t('bids.imagePermission'));
       return;
     }
     
@@ -233,7 +249,7 @@ const MarketPricesScreen = () => {
         if (result.assets[0].uri) {
           setBidImage(result.assets[0].uri);
         }
-        Alert.alert('Warning', 'Could not process image. Using local version instead.');
+        Alert.alert(t('common.warning'), t('bids.imageFallback'));
       }
     }
   };
@@ -260,12 +276,12 @@ const MarketPricesScreen = () => {
       
       if (!email) {
         Alert.alert(
-          'Login Required',
-          'Please log in to create a bid',
+          t('common.loginRequired'),
+          t('bids.loginToCreate'),
           [
-            { text: 'Cancel', style: 'cancel' },
+            { text: t('common.cancel'), style: 'cancel' },
             { 
-              text: 'Go to Login', 
+              text: t('common.goToLogin'), 
               onPress: () => navigation.navigate('Login')
             }
           ]
@@ -273,11 +289,13 @@ const MarketPricesScreen = () => {
         return;
       }
       
-      // User is logged in, show the modal
+      if (!(await requireVerifiedEmail())) return;
+      
+      // User is logged in and verified, show the modal
       setIsBidModalVisible(true);
     } catch (error) {
       console.error('Error checking login status:', error);
-      Alert.alert('Error', 'Something went wrong. Please try again.');
+      Alert.alert(t('common.error'), t('common.genericError'));
     }
   };
   
@@ -285,12 +303,12 @@ const MarketPricesScreen = () => {
   const handleSubmitBid = async () => {
     // Validate form fields
     if (!bidImage) {
-      Alert.alert('Missing Image', 'Please upload an image for your bid.');
+      Alert.alert(t('common.missingImage'), t('bids.missingImageMessage'));
       return;
     }
     
     if (!bidName || !bidCategory || !bidItem || !bidDescription || !bidStartPrice) {
-      Alert.alert('Missing Information', 'Please fill in all required fields.');
+      Alert.alert(t('common.missingInfo'), t('bids.fillRequired'));
       return;
     }
     
@@ -301,18 +319,33 @@ const MarketPricesScreen = () => {
         if (email) {
           setBidEmail(email);
         } else {
-          Alert.alert('Login Required', 'Please log in to create a bid.');
+          Alert.alert(t('common.loginRequired'), t('bids.loginToCreate'));
           setIsBidModalVisible(false);
           navigation.navigate('Login');
           return;
         }
       } catch (error) {
         console.error('Error checking email:', error);
-        Alert.alert('Error', 'Could not verify your login status. Please log in again.');
+        Alert.alert(t('common.error'), t('bids.loginCheckFailed'));
         return;
       }
     }
     
+    const startPrice = parseFloat(bidStartPrice);
+    const reservePrice = bidReservePrice ? parseFloat(bidReservePrice) : undefined;
+    const buyNowPrice = bidBuyNowPrice ? parseFloat(bidBuyNowPrice) : undefined;
+    
+    if ([startPrice, reservePrice, buyNowPrice].some(price => price !== undefined && (isNaN(price) || price <= 0))) {
+      Alert.alert(t('common.invalidPrice'), t('bids.invalidPrices'));
+      return;
+    }
+    
+    const priceError = validateListingPrices(startPrice, reservePrice, buyNowPrice);
+    if (priceError) {
+      Alert.alert(t('common.invalidPrice'), t(priceError));
+      return;
+    }
+    
     try {
       setIsSubmitting(true);
       
@@ -323,7 +356,9 @@ const MarketPricesScreen = () => {
         category: bidCategory,
         item: bidItem,
         description: bidDescription,
-        startPrice: parseFloat(bidStartPrice),
+        startPrice,
+        ...(reservePrice !== undefined ? { reservePrice } : {}),
+        ...(buyNowPrice !== undefined ? { buyNowPrice } : {}),
         startDate: bidStartDate,
         dueDate: bidDueDate,
         email: bidEmail,
@@ -344,6 +379,8 @@ const MarketPricesScreen = () => {
       setBidItem('');
       setBidDescription('');
       setBidStartPrice('');
+      setBidReservePrice('');
+      setBidBuyNowPrice('');
       setBidStartDate(new Date());
       setBidDueDate(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000));
       
@@ -351,14 +388,14 @@ const MarketPricesScreen = () => {
       setIsSubmitting(false);
       
       Alert.alert(
-        'Success', 
-        'Your bid has been created successfully!',
-        [{ text: 'OK' }]
+        t('common.success'), 
+        t('bids.created'),
+        [{ text: t('common.ok') }]
       );
     } catch (error) {
       console.error('Error creating bid:', error);
       setIsSubmitting(false);
-      Alert.alert('Error', 'Failed to create bid. Please try again later.');
+      Alert.alert(t('common.error'), t('bids.createFailed'));
     }
   };
   
@@ -371,6 +408,8 @@ const MarketPricesScreen = () => {
     setBidItem('');
     setBidDescription('');
     setBidStartPrice('');
+    setBidReservePrice('');
+    setBidBuyNowPrice('');
     setBidStartDate(new Date());
     setBidDueDate(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000));
     setIsBidModalVisible(false);
@@ -381,7 +420,7 @@ const MarketPricesScreen = () => {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary} />
-        <Text style={styles.loadingText}>Loading market prices...</Text>
+        <Text style={styles.loadingText}>{t('market.loading')}</Text>
       </View>
     );
   }
@@ -395,7 +434,7 @@ const MarketPricesScreen = () => {
           style={styles.retryButton}
           onPress={() => setSelectedMarket(null)} // This will trigger a reload
         >
-          <Text style={styles.retryButtonText}>Retry</Text>
+          <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -405,17 +444,15 @@ const MarketPricesScreen = () => {
     <View style={styles.container}>
       {/* Header */}
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>Market Prices</Text>
-        <Text style={styles.headerSubtitle}>
-          Current prices from markets across the country
-        </Text>
+        <Text style={styles.headerTitle}>{t('market.title')}</Text>
+        <Text style={styles.headerSubtitle}>{t('market.subtitle')}</Text>
       </View>
 
       {/* Search Bar */}
       <View style={styles.searchContainer}>
         <TextInput
           style={styles.searchInput}
-          placeholder="Search product..."
+          placeholder={t('market.searchPlaceholder')}
           value={searchQuery}
           onChangeText={setSearchQuery}
         />
@@ -423,7 +460,7 @@ const MarketPricesScreen = () => {
 
       {/* Markets Filter */}
       <View style={styles.marketsContainer}>
-        <Text style={styles.marketsTitle}>Markets:</Text>
+        <Text style={styles.marketsTitle}>{t('market.markets')}</Text>
         <FlatList
           data={allMarkets}
           renderItem={renderMarketItem}
@@ -432,6 +469,20 @@ const MarketPricesScreen = () => {
           showsHorizontalScrollIndicator={false}
           contentContainerStyle={styles.marketsList}
         />
+        <Text style={styles.marketsTitle}>{t('market.pricePer')}</Text>
+        <View style={styles.unitsRow}>
+          {PRICE_UNITS.map(unit => (
+            <TouchableOpacity
+              key={unit}
+              style={[styles.marketItem, priceUnit === unit && styles.selectedMarketItem]}
+              onPress={() => setPriceUnit(unit)}
+            >
+              <Text style={[styles.marketItemText, priceUnit === unit && styles.selectedMarketItemText]}>
+                {t(`units.names.${unit}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
       </View>
 
       {/* Price List */}
@@ -444,37 +495,37 @@ const MarketPricesScreen = () => {
           showsVerticalScrollIndicator={false}
           ListHeaderComponent={
             <View style={styles.infoCard}>
-              <Text style={styles.infoCardTitle}>Price Overview</Text>
+              <Text style={styles.infoCardTitle}>{t('market.overview')}</Text>
               <View style={styles.infoItems}>
                 <View style={styles.infoItem}>
-                  <Text style={styles.infoValue}>{marketPrices.length}</Text>
-                  <Text style={styles.infoLabel}>Total Listings</Text>
+                  <Text style={styles.infoValue}>{formatNumber(marketPrices.length)}</Text>
+                  <Text style={styles.infoLabel}>{t('market.totalListings')}</Text>
                 </View>
                 <View style={styles.infoItem}>
-                  <Text style={styles.infoValue}>{allMarkets.length}</Text>
-                  <Text style={styles.infoLabel}>Markets</Text>
+                  <Text style={styles.infoValue}>{formatNumber(allMarkets.length)}</Text>
+                  <Text style={styles.infoLabel}>{t('market.marketCount')}</Text>
                 </View>
                 <View style={styles.infoItem}>
                   <Text style={styles.infoValue}>
-                    {new Date().toLocaleDateString()}
+                    {formatDate(new Date(), 'medium')}
                   </Text>
-                  <Text style={styles.infoLabel}>Last Updated</Text>
+                  <Text style={styles.infoLabel}>{t('market.lastUpdated')}</Text>
                 </View>
               </View>
             </View>
           }
           ListFooterComponent={
             <Card style={styles.trendsCard} elevation="small">
-              <Text style={styles.trendsTitle}>Average Prices</Text>
+              <Text style={styles.trendsTitle}>{t('market.averagePrices')}</Text>
               <View style={styles.trendsList}>
                 {averagePrices.map((item) => (
                   <View key={item.productName} style={styles.trendItem}>
                     <Text style={styles.trendProductName}>{item.productName}</Text>
                     <Text style={styles.trendAverage}>
-                      {formatCurrency(item.averagePrice)}
+                      {formatCurrency(convertUnitPrice(item.averagePrice, 'kg', priceUnit))}
                     </Text>
                     <Text style={styles.trendMarkets}>
-                      ({item.markets} market{item.markets > 1 ? 's' : ''})
+                      {t('market.marketsCount', { count: item.markets })}
                     </Text>
                   </View>
                 ))}
@@ -484,7 +535,7 @@ const MarketPricesScreen = () => {
         />
       ) : (
         <View style={styles.noResultsContainer}>
-          <Text style={styles.noResultsText}>No prices found</Text>
+          <Text style={styles.noResultsText}>{t('market.noResults')}</Text>
           <TouchableOpacity
             style={styles.clearFiltersButton}
             onPress={() => {
@@ -492,19 +543,21 @@ const MarketPricesScreen = () => {
               setSelectedMarket(null);
             }}
           >
-            <Text style={styles.clearFiltersButtonText}>Clear Filters</Text>
+            <Text style={styles.clearFiltersButtonText}>{t('common.clearFilters')}</Text>
           </TouchableOpacity>
         </View>
       )}
       
-      {/* Create Bid Button (Floating) */}
-      <TouchableOpacity 
-        style={styles.createBidButton}
-        onPress={handleCreateBidPress}
-      >
-        <Ionicons name="add" size={24} color={colors.white} />
-        <Text style={styles.createBidButtonText}>Create Bid</Text>
-      </TouchableOpacity>
+      {/* Create Bid Button (Floating), for accounts that can sell */}
+      {!!account && canSellProducts(account) && (
+        <TouchableOpacity 
+          style={styles.createBidButton}
+          onPress={handleCreateBidPress}
+        >
+          <Ionicons name="add" size={24} color={colors.white} />
+          <Text style={styles.createBidButtonText}>{t('bids.create')}</Text>
+        </TouchableOpacity>
+      )}
       
       {/* Create Bid Modal */}
       <Modal
@@ -519,7 +572,7 @@ const MarketPricesScreen = () => {
         >
           <ScrollView style={styles.modalContainer}>
             <View style={styles.modalHeader}>
-              <Text style={styles.modalTitle}>Create New Bid</Text>
+              <Text style={styles.modalTitle}>{t('bids.createTitle')}</Text>
               <TouchableOpacity onPress={resetBidForm}>
                 <Ionicons name="close" size={24} color={colors.text} />
               </TouchableOpacity>
@@ -532,72 +585,90 @@ const MarketPricesScreen = () => {
               ) : (
                 <View style={styles.imagePlaceholder}>
                   <Ionicons name="camera" size={40} color={colors.lightText} />
-                  <Text style={styles.uploadText}>Upload Image</Text>
+                  <Text style={styles.uploadText}>{t('common.uploadImage')}</Text>
                 </View>
               )}
             </TouchableOpacity>
             
             {/* Form Fields */}
             <View style={styles.formContainer}>
-              <Text style={styles.inputLabel}>Product Name*</Text>
+              <Text style={styles.inputLabel}>{t('bids.productName')}</Text>
               <TextInput
                 style={styles.input}
                 value={bidName}
                 onChangeText={setBidName}
-                placeholder="Enter product name"
+                placeholder={t('bids.productNamePlaceholder')}
               />
               
-              <Text style={styles.inputLabel}>Contact Number</Text>
+              <Text style={styles.inputLabel}>{t('bids.contactNumber')}</Text>
               <TextInput
                 style={styles.input}
                 value={bidNumber}
                 onChangeText={setBidNumber}
-                placeholder="Enter your contact number"
+                placeholder={t('bids.contactNumberPlaceholder')}
                 keyboardType="phone-pad"
               />
               
-              <Text style={styles.inputLabel}>Category*</Text>
+              <Text style={styles.inputLabel}>{t('bids.category')}</Text>
               <TextInput
                 style={styles.input}
                 value={bidCategory}
                 onChangeText={setBidCategory}
-                placeholder="Enter product category"
+                placeholder={t('bids.categoryPlaceholder')}
               />
               
-              <Text style={styles.inputLabel}>Item/Quantity*</Text>
+              <Text style={styles.inputLabel}>{t('bids.item')}</Text>
               <TextInput
                 style={styles.input}
                 value={bidItem}
                 onChangeText={setBidItem}
-                placeholder="e.g., 5kg, 10 pieces, etc."
+                placeholder={t('bids.itemPlaceholder')}
               />
               
-              <Text style={styles.inputLabel}>Description*</Text>
+              <Text style={styles.inputLabel}>{t('bids.description')}</Text>
               <TextInput
                 style={[styles.input, styles.textArea]}
                 value={bidDescription}
                 onChangeText={setBidDescription}
-                placeholder="Enter detailed description"
+                placeholder={t('bids.descriptionPlaceholder')}
                 multiline={true}
                 numberOfLines={4}
                 textAlignVertical="top"
               />
               
-              <Text style={styles.inputLabel}>Starting Price (Rs)*</Text>
+              <Text style={styles.inputLabel}>{t('bids.startPrice')}</Text>
               <TextInput
                 style={styles.input}
                 value={bidStartPrice}
                 onChangeText={setBidStartPrice}
-                placeholder="Enter starting price"
+                placeholder={t('bids.startPricePlaceholder')}
+                keyboardType="numeric"
+              />
+              
+              <Text style={styles.inputLabel}>{t('bids.reservePrice')}</Text>
+              <TextInput
+                style={styles.input}
+                value={bidReservePrice}
+                onChangeText={setBidReservePrice}
+                placeholder={t('bids.reservePricePlaceholder')}
+                keyboardType="numeric"
+              />
+              
+              <Text style={styles.inputLabel}>{t('bids.buyNowPrice')}</Text>
+              <TextInput
+                style={styles.input}
+                value={bidBuyNowPrice}
+                onChangeText={setBidBuyNowPrice}
+                placeholder={t('bids.buyNowPricePlaceholder')}
                 keyboardType="numeric"
               />
               
-              <Text style={styles.inputLabel}>Start Date</Text>
+              <Text style={styles.inputLabel}>{t('bids.startDate')}</Text>
               <TouchableOpacity 
                 style={styles.datePickerButton}
                 onPress={() => setShowStartDatePicker(true)}
               >
-                <Text>{bidStartDate.toLocaleDateString()}</Text>
+                <Text>{formatDate(bidStartDate, 'medium')}</Text>
                 <Ionicons name="calendar-outline" size={20} color={colors.text} />
               </TouchableOpacity>
               
@@ -610,12 +681,12 @@ const MarketPricesScreen = () => {
                 />
               )}
               
-              <Text style={styles.inputLabel}>Due Date</Text>
+              <Text style={styles.inputLabel}>{t('bids.dueDate')}</Text>
               <TouchableOpacity 
                 style={styles.datePickerButton}
                 onPress={() => setShowDueDatePicker(true)}
               >
-                <Text>{bidDueDate.toLocaleDateString()}</Text>
+                <Text>{formatDate(bidDueDate, 'medium')}</Text>
                 <Ionicons name="calendar-outline" size={20} color={colors.text} />
               </TouchableOpacity>
               
@@ -629,25 +700,23 @@ const MarketPricesScreen = () => {
                 />
               )}
               
-              <Text style={styles.inputLabel}>Your Email</Text>
+              <Text style={styles.inputLabel}>{t('bids.yourEmail')}</Text>
               {emailLoading ? (
                 <View style={[styles.input, styles.emailLoadingContainer]}>
                   <ActivityIndicator size="small" color={colors.primary} />
-                  <Text style={styles.emailLoadingText}>Loading your email...</Text>
+                  <Text style={styles.emailLoadingText}>{t('bids.loadingEmail')}</Text>
                 </View>
               ) : (
                 <TextInput
                   style={styles.input}
                   value={bidEmail}
-                  placeholder="Your email will be shown to bidders"
+                  placeholder={t('bids.emailPlaceholder')}
                   editable={false}
                 />
               )}
               
               {!bidEmail && !emailLoading && (
-                <Text style={styles.emailWarning}>
-                  No email found. Please log in again.
-                </Text>
+                <Text style={styles.emailWarning}>{t('bids.noEmail')}</Text>
               )}
               
               <View style={styles.buttonContainer}>
@@ -656,7 +725,7 @@ const MarketPricesScreen = () => {
                   onPress={resetBidForm}
                   disabled={isSubmitting}
                 >
-                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                  <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
                 </TouchableOpacity>
                 
                 <TouchableOpacity
@@ -667,7 +736,7 @@ const MarketPricesScreen = () => {
                   {isSubmitting ? (
                     <ActivityIndicator size="small" color={colors.white} />
                   ) : (
-                    <Text style={styles.submitButtonText}>Create Bid</Text>
+                    <Text style={styles.submitButtonText}>{t('bids.create')}</Text>
                   )}
                 </TouchableOpacity>
               </View>
@@ -764,6 +833,10 @@ const styles = StyleSheet.create({
   marketsList: {
     paddingVertical: spacing.xs,
   },
+  unitsRow: {
+    flexDirection: 'row',
+    paddingVertical: spacing.xs,
+  },
   marketItem: {
     paddingHorizontal: spacing.md,
     paddingVertical: spacing.xs,
@@ -0,0 +1,371 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Image,
+  Switch,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList, Machine } from '../types';
+import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
+import { Ionicons } from '@expo/vector-icons';
+import { auth } from '../utilities/firebaseConfig';
+import { getMachinesByOwner, updateMachine, deleteMachine } from '../utilities/firestoreUtils';
+import {
+  getMachineStatusColor,
+  getDisplayedMachineStatus,
+  getServiceStatus,
+} from '../utilities/machineUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+
+type MyMachinesNavigationProp = NativeStackNavigationProp<RootStackParamList, 'MyMachines'>;
+
+const MyMachinesScreen = () => {
+  const navigation = useNavigation<MyMachinesNavigationProp>();
+  const { t } = useTranslation();
+  const { formatCurrency } = useFormat();
+  const [machines, setMachines] = useState<Machine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const userId = auth.currentUser?.uid || '';
+
+  const loadMachines = async () => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setMachines(await getMachinesByOwner(userId));
+    } catch (error) {
+      Alert.alert(t('common.error'), t('machines.loadMineFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reload on focus so changes made on the edit screen show up
+  useFocusEffect(
+    useCallback(() => {
+      loadMachines();
+    }, [userId])
+  );
+
+  const handleToggleRented = async (machine: Machine, rented: boolean) => {
+    const status = rented ? 'rented' : 'available';
+
+    try {
+      setUpdatingId(machine.id);
+      await updateMachine(machine.id, userId, { status });
+      setMachines(current => current.map(m => (m.id === machine.id ? { ...m, status } : m)));
+    } catch (error) {
+      Alert.alert(t('common.error'), t('machines.updateStatusFailed'));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleDelete = (machine: Machine) => {
+    Alert.alert(
+      t('machines.deleteTitle'),
+      t('machines.deleteConfirm', { name: machine.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setUpdatingId(machine.id);
+              await deleteMachine(machine.id, userId);
+              setMachines(current => current.filter(m => m.id !== machine.id));
+            } catch (error) {
+              Alert.alert(t('common.error'), t('machines.deleteFailed'));
+            } finally {
+              setUpdatingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderMachine = ({ item }: { item: Machine }) => {
+    const updating = updatingId === item.id;
+    const status = getDisplayedMachineStatus(item);
+    const serviceStatus = getServiceStatus(item);
+
+    return (
+      <View style={styles.machineCard}>
+        <TouchableOpacity
+          style={styles.machineRow}
+          onPress={() => navigation.navigate('MachineDetails', { machineId: item.id })}
+        >
+          {item.image ? (
+            <Image source={{ uri: item.image }} style={styles.machineImage} />
+          ) : (
+            <View style={[styles.machineImage, styles.imagePlaceholder]}>
+              <Ionicons name="construct-outline" size={28} color={colors.lightText} />
+            </View>
+          )}
+          <View style={styles.machineInfo}>
+            <Text style={styles.machineName} numberOfLines={1}>{item.name}</Text>
+            <Text style={styles.machinePrice}>{formatCurrency(item.price)}</Text>
+            <View style={[styles.statusBadge, { backgroundColor: getMachineStatusColor(status) }]}>
+              <Text style={styles.statusText}>{t(`machines.status.${status}`)}</Text>
+            </View>
+            {serviceStatus !== 'ok' && (
+              <View style={styles.serviceFlag}>
+                <Ionicons
+                  name="warning-outline"
+                  size={14}
+                  color={serviceStatus === 'due' ? colors.error : colors.accent}
+                />
+                <Text style={[styles.serviceFlagText, serviceStatus === 'due' && styles.serviceDueText]}>
+                  {serviceStatus === 'due' ? t('machines.serviceDue') : t('machines.serviceDueSoon')}
+                </Text>
+              </View>
+            )}
+          </View>
+        </TouchableOpacity>
+
+        <View style={styles.actionsRow}>
+          <View style={styles.rentedToggle}>
+            <Text style={styles.rentedLabel}>{t('machines.rented')}</Text>
+            <Switch
+              value={item.status === 'rented'}
+              onValueChange={(value) => handleToggleRented(item, value)}
+              disabled={updating}
+              trackColor={{ false: colors.gray, true: colors.primary }}
+              thumbColor={colors.white}
+            />
+          </View>
+          <View style={styles.actionButtons}>
+            {updating && <ActivityIndicator size="small" color={colors.primary} />}
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => navigation.navigate('MachineLogbook', { machineId: item.id })}
+            >
+              <Ionicons name="book-outline" size={20} color={colors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => navigation.navigate('EditMachine', { machineId: item.id })}
+              disabled={updating}
+            >
+              <Ionicons name="create-outline" size={20} color={colors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleDelete(item)}
+              disabled={updating}
+            >
+              <Ionicons name="trash-outline" size={20} color={colors.error} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('machines.myMachinesTitle')}</Text>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.navigate('AddMachine')}>
+          <Ionicons name="add" size={26} color={colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      {loading && machines.length === 0 ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={machines}
+          renderItem={renderMachine}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          refreshing={loading}
+          onRefresh={loadMachines}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="construct-outline" size={60} color={colors.gray} />
+              <Text style={styles.emptyText}>{t('machines.noneListed')}</Text>
+              <TouchableOpacity
+                style={styles.addFirstButton}
+                onPress={() => navigation.navigate('AddMachine')}
+              >
+                <Text style={styles.addFirstButtonText}>{t('machines.addMachine')}</Text>
+              </TouchableOpacity>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  headerTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: spacing.md,
+    flexGrow: 1,
+  },
+  machineCard: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    ...shadows.small,
+  },
+  machineRow: {
+    flexDirection: 'row',
+  },
+  machineImage: {
+    width: 72,
+    height: 72,
+    borderRadius: borderRadius.sm,
+    marginRight: spacing.md,
+  },
+  imagePlaceholder: {
+    backgroundColor: colors.lightGray,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  machineInfo: {
+    flex: 1,
+  },
+  machineName: {
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  machinePrice: {
+    fontSize: fontSizes.md,
+    color: colors.primary,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  statusBadge: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.sm,
+    marginTop: spacing.xs,
+  },
+  statusText: {
+    color: colors.white,
+    fontSize: fontSizes.xs,
+    fontWeight: 'bold',
+  },
+  serviceFlag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.xs,
+  },
+  serviceFlagText: {
+    fontSize: fontSizes.xs,
+    color: colors.text,
+    marginLeft: 4,
+  },
+  serviceDueText: {
+    color: colors.error,
+    fontWeight: 'bold',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+  },
+  rentedToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rentedLabel: {
+    fontSize: fontSizes.sm,
+    color: colors.text,
+    marginRight: spacing.sm,
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  actionButton: {
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: spacing.xs,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+  },
+  emptyText: {
+    fontSize: fontSizes.md,
+    color: colors.lightText,
+    marginTop: spacing.md,
+  },
+  addFirstButton: {
+    marginTop: spacing.md,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.md,
+  },
+  addFirstButtonText: {
+    color: colors.white,
+    fontWeight: 'bold',
+  },
+});
+
+export default MyMachinesScreen;
@@ -14,11 +14,12 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList, Bid } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import { Ionicons } from '@expo/vector-icons';
-import { formatCurrency } from '../utils';
 import { auth, db } from '../utilities/firebaseConfig';
 import { collection, query, where, getDocs, orderBy } from 'firebase/firestore';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { getBidsByEmail } from '../utilities/firestoreUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
 
 type MyOffersScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'MyOffers'>;
 
@@ -26,6 +27,8 @@ const USER_EMAIL_KEY = 'user_email';
 
 const MyOffersScreen = () => {
   const navigation = useNavigation<MyOffersScreenNavigationProp>();
+  const { t } = useTranslation();
+  const { formatCurrency, formatDate } = useFormat();
   const [userBids, setUserBids] = useState<Bid[]>([]);
   const [loading, setLoading] = useState(true);
   const [userEmail, setUserEmail] = useState<string>('');
@@ -55,7 +58,7 @@ const MyOffersScreen = () => {
           setUserEmail(email);
         } else {
           setLoading(false);
-          Alert.alert('Error', 'User email not found. Please log in again.');
+          Alert.alert(t('common.error'), t('bids.emailNotFound'));
           navigation.navigate('Login');
         }
       }
@@ -77,7 +80,7 @@ const MyOffersScreen = () => {
     } catch (error) {
       console.error('Error loading bids:', error);
       setLoading(false);
-      Alert.alert('Error', 'Failed to load bids. Please try again.');
+      Alert.alert(t('common.error'), t('bids.loadListFailed'));
     }
   };
 
@@ -100,7 +103,7 @@ const MyOffersScreen = () => {
         <Text style={styles.bidPrice}>{formatCurrency(item.startPrice)}</Text>
         <View style={styles.bidMeta}>
           <Text style={styles.bidOffers}>
-            <Ionicons name="people" size={12} color={colors.lightText} /> {item.bids.length} offers
+            <Ionicons name="people" size={12} color={colors.lightText} /> {t('bids.offerCount', { count: item.bids.length })}
           </Text>
           <Text 
             style={[
@@ -109,17 +112,17 @@ const MyOffersScreen = () => {
                      item.status === 'closed' ? colors.warning : colors.error }
             ]}
           >
-            {item.status}
+            {t(`bids.status.${item.status}`)}
           </Text>
         </View>
         <View style={styles.bidFooter}>
           <Text style={styles.bidDate}>
-            Created: {item.createdAt?.toLocaleDateString?.() || 'Unknown date'}
+            {t('bids.created', { date: item.createdAt ? formatDate(item.createdAt, 'medium') : t('bids.unknownDate') })}
           </Text>
           <Text style={styles.bidTimeLeft}>
             {new Date() > item.dueDate 
-              ? 'Ended' 
-              : `${Math.ceil((item.dueDate.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24))} days left`}
+              ? t('bids.ended') 
+              : t('bids.daysLeft', { count: Math.ceil((item.dueDate.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)) })}
           </Text>
         </View>
       </View>
@@ -131,15 +134,15 @@ const MyOffersScreen = () => {
       <Ionicons name="briefcase-outline" size={60} color={colors.lightGray} />
       <Text style={styles.emptyText}>
         {activeTab === 'myBids' 
-          ? "You haven't created any bids yet" 
-          : "You haven't made any offers on bids yet"}
+          ? t('bids.noBidsCreated') 
+          : t('bids.noOffersMade')}
       </Text>
       <TouchableOpacity 
         style={styles.createButton}
         onPress={() => navigation.navigate('Main')}
       >
         <Text style={styles.createButtonText}>
-          {activeTab === 'myBids' ? 'Create New Bid' : 'Explore Bids'}
+          {activeTab === 'myBids' ? t('bids.createNew') : t('bids.explore')}
         </Text>
       </TouchableOpacity>
     </View>
@@ -154,7 +157,7 @@ const MyOffersScreen = () => {
         >
           <Ionicons name="arrow-back" size={24} color={colors.text} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>My Offers</Text>
+        <Text style={styles.headerTitle}>{t('bids.myOffersTitle')}</Text>
         <TouchableOpacity
           style={styles.refreshButton}
           onPress={loadBids}
@@ -169,7 +172,7 @@ const MyOffersScreen = () => {
           onPress={() => setActiveTab('myBids')}
         >
           <Text style={[styles.tabText, activeTab === 'myBids' && styles.activeTabText]}>
-            My Bids
+            {t('bids.myBidsTab')}
           </Text>
         </TouchableOpacity>
         <TouchableOpacity
@@ -177,7 +180,7 @@ const MyOffersScreen = () => {
           onPress={() => setActiveTab('myOffers')}
         >
           <Text style={[styles.tabText, activeTab === 'myOffers' && styles.activeTabText]}>
-            My Offers
+            {t('bids.myOffersTab')}
           </Text>
         </TouchableOpacity>
       </View>
@@ -185,7 +188,7 @@ const MyOffersScreen = () => {
       {loading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={colors.primary} />
-          <Text style={styles.loadingText}>Loading your offers...</Text>
+          <Text style={styles.loadingText}>{t('bids.loadingOffers')}</Text>
         </View>
       ) : (
         <FlatList
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList, AppNotification } from '../types';
+import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
+import { Ionicons } from '@expo/vector-icons';
+import { auth } from '../utilities/firebaseConfig';
+import {
+  getNotifications,
+  markNotificationRead,
+  markAllNotificationsRead,
+} from '../utilities/firestoreUtils';
+import { NOTIFICATION_ICONS, getNotificationText } from '../utilities/notificationUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+
+type NotificationsNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Notifications'>;
+
+const NotificationsScreen = () => {
+  const navigation = useNavigation<NotificationsNavigationProp>();
+  const { t } = useTranslation();
+  const { formatRelativeTime, formatCurrency, formatDate } = useFormat();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadNotifications();
+    }, [])
+  );
+
+  const loadNotifications = async () => {
+    const email = auth.currentUser?.email;
+    if (!email) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const userNotifications = await getNotifications(email);
+      setNotifications(userNotifications);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    loadNotifications();
+  };
+
+  const handleMarkAllRead = async () => {
+    const email = auth.currentUser?.email;
+    if (!email) return;
+
+    try {
+      await markAllNotificationsRead(email);
+      setNotifications(current => current.map(notification => ({ ...notification, read: true })));
+    } catch (error) {
+      Alert.alert(t('common.error'), t('notifications.markReadFailed'));
+    }
+  };
+
+  const handleNotificationPress = (notification: AppNotification) => {
+    if (!notification.read) {
+      setNotifications(current =>
+        current.map(n => (n.id === notification.id ? { ...n, read: true } : n))
+      );
+      markNotificationRead(notification.id).catch(() => undefined);
+    }
+
+    if (notification.orderId) {
+      navigation.navigate('OrderDetails', { orderId: notification.orderId });
+    } else if (notification.bidId) {
+      navigation.navigate('BidDetails', { bidId: notification.bidId });
+    } else if (notification.productId) {
+      navigation.navigate('ProductDetails', { productId: notification.productId });
+    } else if (notification.bookingId) {
+      navigation.navigate('MachineBookings', { tab: notification.type === 'booking_request' ? 'owner' : 'renter' });
+    }
+  };
+
+  const hasUnread = notifications.some(notification => !notification.read);
+
+  const renderNotification = ({ item }: { item: AppNotification }) => {
+    const { title, body } = getNotificationText(item, { t, formatCurrency, formatDate });
+
+    return (
+      <TouchableOpacity
+        style={[styles.notificationCard, !item.read && styles.unreadCard]}
+        onPress={() => handleNotificationPress(item)}
+      >
+        <View style={styles.iconContainer}>
+          <Ionicons name={NOTIFICATION_ICONS[item.type] as any} size={22} color={colors.primary} />
+        </View>
+        <View style={styles.notificationContent}>
+          <Text style={[styles.notificationTitle, !item.read && styles.unreadTitle]}>{title}</Text>
+          <Text style={styles.notificationBody}>{body}</Text>
+          <Text style={styles.notificationTime}>{formatRelativeTime(item.createdAt)}</Text>
+        </View>
+        {!item.read && <View style={styles.unreadDot} />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('notifications.title')}</Text>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={handleMarkAllRead}
+          disabled={!hasUnread}
+        >
+          <Ionicons
+            name="checkmark-done-outline"
+            size={24}
+            color={hasUnread ? colors.primary : colors.gray}
+          />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={notifications}
+          renderItem={renderNotification}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} colors={[colors.primary]} />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="notifications-off-outline" size={60} color={colors.gray} />
+              <Text style={styles.emptyText}>{t('notifications.empty')}</Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  headerTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: spacing.md,
+    flexGrow: 1,
+  },
+  notificationCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    ...shadows.small,
+  },
+  unreadCard: {
+    borderLeftWidth: 3,
+    borderLeftColor: colors.primary,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: colors.lightGray,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.sm,
+  },
+  notificationContent: {
+    flex: 1,
+  },
+  notificationTitle: {
+    fontSize: fontSizes.md,
+    color: colors.text,
+    marginBottom: 2,
+  },
+  unreadTitle: {
+    fontWeight: 'bold',
+  },
+  notificationBody: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+    marginBottom: spacing.xs,
+  },
+  notificationTime: {
+    fontSize: fontSizes.xs,
+    color: colors.gray,
+  },
+  unreadDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: colors.primary,
+    marginLeft: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: fontSizes.md,
+    color: colors.lightText,
+    marginTop: spacing.md,
+  },
+});
+
+export default NotificationsScreen;
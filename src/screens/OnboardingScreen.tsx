@@ -5,6 +5,7 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../types';
 import { colors, fontSizes, spacing } from '../theme';
 import Button from '../components/Button';
+import { useTranslation } from '../hooks/useTranslation';
 
 type OnboardingScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Onboarding'>;
 
@@ -13,26 +14,22 @@ const { width } = Dimensions.get('window');
 const onboardingData = [
   {
     id: '1',
-    title: 'Welcome to AgriSaviya',
-    description: 'Your complete farming companion that helps you grow better crops and increase your profits.',
+    key: 'welcome',
     image: require('../assets/images/onBoarding.png'),
   },
   {
     id: '2',
-    title: 'Shop for Quality Products',
-    description: 'Find the best seeds, tools, and equipment for your farming needs at competitive prices.',
+    key: 'shop',
     image: require('../assets/images/onBoarding.png'),
   },
   {
     id: '3',
-    title: 'Track Weather Conditions',
-    description: 'Stay updated with real-time weather forecasts to plan your farming activities better.',
+    key: 'weather',
     image: require('../assets/images/onBoarding.png'),
   },
   {
     id: '4',
-    title: 'Learn New Techniques',
-    description: 'Access articles and resources about modern farming methods to increase your yield.',
+    key: 'learn',
     image: require('../assets/images/onBoarding.png'),
   },
 ];
@@ -40,6 +37,7 @@ const onboardingData = [
 const OnboardingScreen = () => {
   const navigation = useNavigation<OnboardingScreenNavigationProp>();
   const [currentIndex, setCurrentIndex] = useState(0);
+  const { t } = useTranslation();
 
   const handleNext = () => {
     if (currentIndex < onboardingData.length - 1) {
@@ -63,8 +61,8 @@ const OnboardingScreen = () => {
     <View style={styles.slide}>
       <Image source={item.image} style={styles.image} resizeMode="cover" />
       <View style={styles.textContainer}>
-        <Text style={styles.title}>{item.title}</Text>
-        <Text style={styles.description}>{item.description}</Text>
+        <Text style={styles.title}>{t(`onboarding.${item.key}.title`)}</Text>
+        <Text style={styles.description}>{t(`onboarding.${item.key}.description`)}</Text>
       </View>
     </View>
   );
@@ -88,7 +86,7 @@ const OnboardingScreen = () => {
   return (
     <View style={styles.container}>
       <TouchableOpacity style={styles.skipButton} onPress={handleSkip}>
-        <Text style={styles.skipText}>Skip</Text>
+        <Text style={styles.skipText}>{t('onboarding.skip')}</Text>
       </TouchableOpacity>
 
       <FlatList
@@ -109,7 +107,7 @@ const OnboardingScreen = () => {
 
       <View style={styles.buttonContainer}>
         <Button
-          title={currentIndex === onboardingData.length - 1 ? "Get Started" : "Next"}
+          title={currentIndex === onboardingData.length - 1 ? t('onboarding.getStarted') : t('onboarding.next')}
           onPress={handleNext}
           type="primary"
           size="large"
@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList, Order } from '../types';
+import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
+import { Ionicons } from '@expo/vector-icons';
+import Button from '../components/Button';
+import { DELIVERY_WINDOWS, PAYMENT_METHODS } from '../data';
+import { getOrderById } from '../utilities/firestoreUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+
+type OrderConfirmationNavigationProp = NativeStackNavigationProp<RootStackParamList, 'OrderConfirmation'>;
+type OrderConfirmationRouteProp = RouteProp<RootStackParamList, 'OrderConfirmation'>;
+
+const OrderConfirmationScreen = () => {
+  const navigation = useNavigation<OrderConfirmationNavigationProp>();
+  const { t } = useTranslation();
+  const { formatCurrency, formatDate, formatHourRange } = useFormat();
+  const route = useRoute<OrderConfirmationRouteProp>();
+  const { orderId } = route.params;
+
+  const [order, setOrder] = useState<Order | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadOrder = async () => {
+      try {
+        setLoading(true);
+        const orderData = await getOrderById(orderId);
+        setOrder(orderData);
+      } catch (error) {
+        console.error('Error loading order confirmation:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadOrder();
+  }, [orderId]);
+
+  const deliveryWindow = DELIVERY_WINDOWS.find(w => w.key === order?.deliverySlot?.window);
+  const paymentMethod = PAYMENT_METHODS.find(p => p.key === order?.paymentMethod);
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+        <Text style={styles.loadingText}>{t('orders.confirmation.confirming')}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.successContainer}>
+          <Ionicons name="checkmark-circle" size={80} color={colors.success} />
+          <Text style={styles.successTitle}>{t('orders.confirmation.placed')}</Text>
+          <Text style={styles.successText}>
+            {t('orders.confirmation.thanks')}
+          </Text>
+          <Text style={styles.orderId}>{t('orders.orderNumber', { id: orderId.substring(0, 8) })}</Text>
+        </View>
+
+        {order && (
+          <View style={styles.card}>
+            {order.deliverySlot && (
+              <View style={styles.detailRow}>
+                <Ionicons name="calendar-outline" size={20} color={colors.primary} />
+                <View style={styles.detailInfo}>
+                  <Text style={styles.detailLabel}>{t('orders.confirmation.delivery')}</Text>
+                  <Text style={styles.detailText}>{formatDate(order.deliverySlot.date)}</Text>
+                  <Text style={styles.detailText}>{deliveryWindow && `${t(`orders.deliveryWindows.${deliveryWindow.key}`)} (${formatHourRange(deliveryWindow.startHour, deliveryWindow.endHour)})`}</Text>
+                </View>
+              </View>
+            )}
+
+            {!!order.deliveryAddress && (
+              <View style={styles.detailRow}>
+                <Ionicons name="location-outline" size={20} color={colors.primary} />
+                <View style={styles.detailInfo}>
+                  <Text style={styles.detailLabel}>{t('orders.confirmation.address')}</Text>
+                  <Text style={styles.detailText}>{order.deliveryAddress}</Text>
+                  <Text style={styles.detailText}>{order.contactPhone}</Text>
+                </View>
+              </View>
+            )}
+
+            {paymentMethod && (
+              <View style={styles.detailRow}>
+                <Ionicons name="wallet-outline" size={20} color={colors.primary} />
+                <View style={styles.detailInfo}>
+                  <Text style={styles.detailLabel}>{t('orders.confirmation.payment')}</Text>
+                  <Text style={styles.detailText}>{t(`orders.paymentMethods.${paymentMethod.key}`)}</Text>
+                </View>
+              </View>
+            )}
+
+            <View style={styles.totalRow}>
+              <Text style={styles.totalLabel}>{t('orders.confirmation.total')}</Text>
+              <Text style={styles.totalValue}>{formatCurrency(order.totalAmount)}</Text>
+            </View>
+          </View>
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <Button
+          title={t('orders.confirmation.viewOrder')}
+          onPress={() => navigation.replace('OrderDetails', { orderId })}
+          style={styles.footerButton}
+        />
+        <Button
+          title={t('orders.confirmation.continueShopping')}
+          onPress={() => navigation.navigate('Main')}
+          type="outline"
+          style={styles.footerButton}
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingTop: 20,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+  },
+  loadingText: {
+    marginTop: spacing.md,
+    fontSize: fontSizes.md,
+    color: colors.text,
+  },
+  scrollContent: {
+    padding: spacing.md,
+  },
+  successContainer: {
+    alignItems: 'center',
+    paddingVertical: spacing.xl,
+  },
+  successTitle: {
+    fontSize: fontSizes.xxl,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginTop: spacing.md,
+  },
+  successText: {
+    fontSize: fontSizes.md,
+    color: colors.lightText,
+    textAlign: 'center',
+    marginTop: spacing.sm,
+    paddingHorizontal: spacing.lg,
+  },
+  orderId: {
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+    color: colors.primary,
+    marginTop: spacing.md,
+  },
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    ...shadows.small,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    marginBottom: spacing.md,
+  },
+  detailInfo: {
+    flex: 1,
+    marginLeft: spacing.md,
+  },
+  detailLabel: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+    marginBottom: spacing.xs,
+  },
+  detailText: {
+    fontSize: fontSizes.md,
+    color: colors.text,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingTop: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+  },
+  totalLabel: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  totalValue: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  footer: {
+    padding: spacing.md,
+    backgroundColor: colors.white,
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+  },
+  footerButton: {
+    marginBottom: spacing.sm,
+  },
+});
+
+export default OrderConfirmationScreen;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -9,20 +9,26 @@ import {
   Image,
   Alert,
 } from 'react-native';
-import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp, useFocusEffect } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { RootStackParamList, Order, Product } from '../types';
+import { RootStackParamList, Order, OrderStatusChange, Product } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import { Ionicons } from '@expo/vector-icons';
-import { formatCurrency } from '../utils';
-import { db } from '../utilities/firebaseConfig';
-import { doc, getDoc } from 'firebase/firestore';
+import { DELIVERY_WINDOWS, RETURN_REASONS } from '../data';
+import { auth } from '../utilities/firebaseConfig';
+import { getOrderById, cancelOrder, resolveReturnRequest } from '../utilities/firestoreUtils';
+import { canRequestReturn } from '../utilities/orderStatus';
+import ReviewFormModal from '../components/ReviewFormModal';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
 
 type OrderDetailsScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'OrderDetails'>;
 type OrderDetailsScreenRouteProp = RouteProp<RootStackParamList, 'OrderDetails'>;
 
 const OrderDetailsScreen = () => {
   const navigation = useNavigation<OrderDetailsScreenNavigationProp>();
+  const { t } = useTranslation();
+  const { formatCurrency, formatDate, formatTime, formatHourRange } = useFormat();
   const route = useRoute<OrderDetailsScreenRouteProp>();
   const { orderId } = route.params;
   
@@ -30,56 +36,76 @@ const OrderDetailsScreen = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    fetchOrderDetails();
-  }, [orderId]);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [reviewSellerEmail, setReviewSellerEmail] = useState<string | null>(null);
+  const currentUserEmail = auth.currentUser?.email || '';
+
+  // Reload when returning from the return request screen
+  useFocusEffect(
+    React.useCallback(() => {
+      fetchOrderDetails();
+    }, [orderId])
+  );
 
   const fetchOrderDetails = async () => {
     try {
       setLoading(true);
       
       if (!orderId) {
-        setError('Order ID is missing');
+        setError(t('orders.details.missingId'));
         setLoading(false);
         return;
       }
       
       // Get order details from Firestore
-      const orderRef = doc(db, 'orders', orderId);
-      const orderDoc = await getDoc(orderRef);
+      const orderData = await getOrderById(orderId);
       
-      if (!orderDoc.exists()) {
-        setError('Order not found');
+      if (!orderData) {
+        setError(t('orders.details.notFound'));
         setLoading(false);
         return;
       }
       
-      const data = orderDoc.data();
-      
-      // Convert Firestore timestamps to Date objects
-      const createdAt = data.createdAt?.toDate ? data.createdAt.toDate() : new Date();
-      const updatedAt = data.updatedAt?.toDate ? data.updatedAt.toDate() : new Date();
-      
-      const orderData: Order = {
-        id: orderDoc.id,
-        userId: data.userId || '',
-        userEmail: data.userEmail || '',
-        products: data.products || [],
-        totalAmount: data.totalAmount || 0,
-        status: data.status || 'pending',
-        createdAt: createdAt,
-        updatedAt: updatedAt,
-      };
-      
       setOrder(orderData);
       setLoading(false);
     } catch (error) {
       console.error('Error fetching order details:', error);
-      setError('Failed to load order details. Please try again.');
+      setError(t('orders.details.loadFailed'));
       setLoading(false);
     }
   };
 
+  const handleCancelOrder = async () => {
+    try {
+      setActionLoading(true);
+      await cancelOrder(orderId, 'Cancelled by buyer');
+      await fetchOrderDetails();
+      Alert.alert(t('orders.details.cancelledTitle'), t('orders.details.cancelledMessage'));
+    } catch (error) {
+      console.error('Error cancelling order:', error);
+      Alert.alert(t('common.error'), t('orders.details.cancelFailed'));
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleResolveReturn = async (approved: boolean) => {
+    try {
+      setActionLoading(true);
+      await resolveReturnRequest(
+        orderId,
+        approved,
+        approved ? 'Return approved by seller' : 'Return rejected by seller'
+      );
+      await fetchOrderDetails();
+    } catch (error) {
+      console.error('Error resolving return request:', error);
+      Alert.alert(t('common.error'), t('orders.details.returnUpdateFailed'));
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
   const getStatusColor = (status: Order['status']) => {
     switch (status) {
       case 'pending':
@@ -114,12 +140,95 @@ const OrderDetailsScreen = () => {
     }
   };
 
-  const getFormattedDate = (date: Date) => {
-    return date.toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-    });
+  // Orders placed before status history was recorded only have their current status
+  const getTimeline = (order: Order): OrderStatusChange[] => {
+    if (order.statusHistory && order.statusHistory.length > 0) {
+      return order.statusHistory;
+    }
+    return [{ status: order.status, changedBy: 'buyer', changedAt: order.updatedAt }];
+  };
+
+  const renderTimelineEntry = (change: OrderStatusChange, index: number, timeline: OrderStatusChange[]) => {
+    const isLast = index === timeline.length - 1;
+
+    return (
+      <View key={`${change.status}-${index}`} style={styles.timelineEntry}>
+        <View style={styles.timelineMarker}>
+          <View style={[styles.timelineDot, { backgroundColor: getStatusColor(change.status) }]}>
+            <Ionicons name={getStatusIcon(change.status) as any} size={14} color={colors.white} />
+          </View>
+          {!isLast && <View style={styles.timelineLine} />}
+        </View>
+        <View style={styles.timelineContent}>
+          <Text style={[styles.timelineStatus, isLast && { color: getStatusColor(change.status) }]}>
+            {t(`orders.statusLabels.${change.status}`)}
+          </Text>
+          <Text style={styles.timelineMeta}>
+            {formatDate(change.changedAt, 'short')}, {formatTime(change.changedAt)}
+            {' · '}{t('orders.details.changedBy', { actor: t(`orders.actors.${change.changedBy}`) })}
+          </Text>
+          {!!change.note && <Text style={styles.timelineNote}>{change.note}</Text>}
+        </View>
+      </View>
+    );
+  };
+
+  const renderReturnRequest = (order: Order) => {
+    const returnRequest = order.returnRequest!;
+    const reason = RETURN_REASONS.find(r => r.key === returnRequest.reason);
+    const isSeller = !!currentUserEmail && (order.sellerEmails || []).includes(currentUserEmail);
+    const statusColor = returnRequest.status === 'approved'
+      ? colors.success
+      : returnRequest.status === 'rejected' ? colors.error : colors.warning;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('orders.details.returnRequest')}</Text>
+        <View style={styles.addressCard}>
+          <View style={styles.returnHeader}>
+            <Text style={styles.addressName}>{reason && t(`orders.returnReasons.${reason.key}`)}</Text>
+            <Text style={[styles.returnStatus, { color: statusColor }]}>
+              {t(`orders.returnStatus.${returnRequest.status}`)}
+            </Text>
+          </View>
+          <Text style={styles.timelineMeta}>
+            {t('orders.details.requestedOn', { date: formatDate(returnRequest.requestedAt) })}
+          </Text>
+          {!!returnRequest.details && (
+            <Text style={styles.addressText}>{returnRequest.details}</Text>
+          )}
+          {returnRequest.photos.length > 0 && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.returnPhotos}>
+              {returnRequest.photos.map((photo, index) => (
+                <Image key={index} source={{ uri: photo }} style={styles.returnPhoto} />
+              ))}
+            </ScrollView>
+          )}
+          {!!returnRequest.sellerNote && (
+            <Text style={styles.timelineNote}>{returnRequest.sellerNote}</Text>
+          )}
+
+          {isSeller && returnRequest.status === 'requested' && (
+            <View style={styles.returnActions}>
+              <TouchableOpacity
+                style={[styles.returnActionButton, { backgroundColor: colors.success }]}
+                onPress={() => handleResolveReturn(true)}
+                disabled={actionLoading}
+              >
+                <Text style={styles.returnActionText}>{t('orders.details.approve')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.returnActionButton, { backgroundColor: colors.error }]}
+                onPress={() => handleResolveReturn(false)}
+                disabled={actionLoading}
+              >
+                <Text style={styles.returnActionText}>{t('orders.details.reject')}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </View>
+    );
   };
 
   const renderProductItem = (product: Product) => (
@@ -131,7 +240,7 @@ const OrderDetailsScreen = () => {
       />
       <View style={styles.productInfo}>
         <Text style={styles.productName}>{product.name}</Text>
-        <Text style={styles.productQuantity}>Quantity: {product.quantity}</Text>
+        <Text style={styles.productQuantity}>{t('orders.details.quantity', { count: product.quantity || 1 })}</Text>
         <Text style={styles.productPrice}>{formatCurrency(product.price)}</Text>
       </View>
       <Text style={styles.productTotal}>
@@ -140,11 +249,13 @@ const OrderDetailsScreen = () => {
     </View>
   );
 
+  const deliveryWindow = DELIVERY_WINDOWS.find(w => w.key === order?.deliverySlot?.window);
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary} />
-        <Text style={styles.loadingText}>Loading order details...</Text>
+        <Text style={styles.loadingText}>{t('orders.details.loading')}</Text>
       </View>
     );
   }
@@ -158,7 +269,7 @@ const OrderDetailsScreen = () => {
           style={styles.backButton}
           onPress={() => navigation.goBack()}
         >
-          <Text style={styles.backButtonText}>Go Back</Text>
+          <Text style={styles.backButtonText}>{t('common.goBack')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -168,12 +279,12 @@ const OrderDetailsScreen = () => {
     return (
       <View style={styles.errorContainer}>
         <Ionicons name="alert-circle-outline" size={60} color={colors.error} />
-        <Text style={styles.errorText}>Order not found</Text>
+        <Text style={styles.errorText}>{t('orders.details.notFound')}</Text>
         <TouchableOpacity
           style={styles.backButton}
           onPress={() => navigation.goBack()}
         >
-          <Text style={styles.backButtonText}>Go Back</Text>
+          <Text style={styles.backButtonText}>{t('common.goBack')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -188,7 +299,7 @@ const OrderDetailsScreen = () => {
         >
           <Ionicons name="arrow-back" size={24} color={colors.text} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Order Details</Text>
+        <Text style={styles.headerTitle}>{t('orders.details.title')}</Text>
         <View style={styles.headerButton} />
       </View>
 
@@ -197,27 +308,24 @@ const OrderDetailsScreen = () => {
         <View style={styles.orderInfoCard}>
           <View style={styles.orderHeader}>
             <View>
-              <Text style={styles.orderIdLabel}>Order ID</Text>
+              <Text style={styles.orderIdLabel}>{t('orders.details.orderId')}</Text>
               <Text style={styles.orderId}>#{orderId.substring(0, 8)}</Text>
             </View>
             <View>
-              <Text style={styles.orderDateLabel}>Order Date</Text>
-              <Text style={styles.orderDate}>{getFormattedDate(order.createdAt)}</Text>
+              <Text style={styles.orderDateLabel}>{t('orders.details.orderDate')}</Text>
+              <Text style={styles.orderDate}>{formatDate(order.createdAt)}</Text>
             </View>
           </View>
           
-          {/* Order Status */}
-          <View style={styles.statusContainer}>
-            <View style={[styles.statusBadge, { backgroundColor: getStatusColor(order.status) }]}>
-              <Ionicons name={getStatusIcon(order.status) as any} size={16} color={colors.white} />
-              <Text style={styles.statusText}>{order.status}</Text>
-            </View>
+          {/* Order Status Timeline */}
+          <View style={styles.timeline}>
+            {getTimeline(order).map(renderTimelineEntry)}
           </View>
         </View>
 
         {/* Products List */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Products</Text>
+          <Text style={styles.sectionTitle}>{t('orders.details.products')}</Text>
           <View style={styles.productsList}>
             {order.products.map(renderProductItem)}
           </View>
@@ -225,23 +333,25 @@ const OrderDetailsScreen = () => {
 
         {/* Price Summary */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Order Summary</Text>
+          <Text style={styles.sectionTitle}>{t('orders.details.summary')}</Text>
           <View style={styles.summaryCard}>
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Subtotal</Text>
-              <Text style={styles.summaryValue}>{formatCurrency(order.totalAmount)}</Text>
+              <Text style={styles.summaryLabel}>{t('orders.details.subtotal')}</Text>
+              <Text style={styles.summaryValue}>{formatCurrency(order.subtotal || order.totalAmount)}</Text>
             </View>
+            {!!order.discount && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>{t('orders.details.discount')}</Text>
+                <Text style={styles.summaryValue}>-{formatCurrency(order.discount)}</Text>
+              </View>
+            )}
             <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Shipping</Text>
-              <Text style={styles.summaryValue}>Rs. 0.00</Text>
-            </View>
-            <View style={styles.summaryRow}>
-              <Text style={styles.summaryLabel}>Tax</Text>
-              <Text style={styles.summaryValue}>Rs. 0.00</Text>
+              <Text style={styles.summaryLabel}>{t('orders.details.shipping')}</Text>
+              <Text style={styles.summaryValue}>{formatCurrency(order.deliveryFee || 0)}</Text>
             </View>
             <View style={styles.divider} />
             <View style={styles.summaryRow}>
-              <Text style={styles.totalLabel}>Total</Text>
+              <Text style={styles.totalLabel}>{t('orders.details.total')}</Text>
               <Text style={styles.totalValue}>{formatCurrency(order.totalAmount)}</Text>
             </View>
           </View>
@@ -249,15 +359,24 @@ const OrderDetailsScreen = () => {
 
         {/* Shipping Address */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Shipping Address</Text>
+          <Text style={styles.sectionTitle}>{t('orders.details.shippingAddress')}</Text>
           <View style={styles.addressCard}>
             <Text style={styles.addressName}>{order.userEmail}</Text>
-            <Text style={styles.addressText}>123 Temple Road, Colombo</Text>
-            <Text style={styles.addressText}>Sri Lanka</Text>
-            <Text style={styles.addressText}>+94 77 123 4567</Text>
+            <Text style={styles.addressText}>{order.deliveryAddress || t('orders.details.noAddress')}</Text>
+            {!!order.contactPhone && (
+              <Text style={styles.addressText}>{order.contactPhone}</Text>
+            )}
+            {deliveryWindow && order.deliverySlot && (
+              <Text style={styles.addressText}>
+                {formatDate(order.deliverySlot.date)}, {t(`orders.deliveryWindows.${deliveryWindow.key}`)} ({formatHourRange(deliveryWindow.startHour, deliveryWindow.endHour)})
+              </Text>
+            )}
           </View>
         </View>
 
+        {/* Return Request */}
+        {order.returnRequest && renderReturnRequest(order)}
+
         {/* Order Actions */}
         <View style={styles.actions}>
           <TouchableOpacity 
@@ -265,33 +384,72 @@ const OrderDetailsScreen = () => {
             onPress={() => navigation.navigate('Help')}
           >
             <Ionicons name="chatbubble-outline" size={20} color={colors.primary} />
-            <Text style={styles.supportButtonText}>Contact Support</Text>
+            <Text style={styles.supportButtonText}>{t('orders.details.contactSupport')}</Text>
           </TouchableOpacity>
           
-          {order.status === 'pending' && (
+          {order.status === 'pending' && order.userId === auth.currentUser?.uid && (
             <TouchableOpacity 
               style={[styles.actionButton, styles.cancelButton]}
               onPress={() => {
                 Alert.alert(
-                  'Cancel Order',
-                  'Are you sure you want to cancel this order?',
+                  t('orders.details.cancelOrder'),
+                  t('orders.details.cancelConfirm'),
                   [
-                    { text: 'No', style: 'cancel' },
+                    { text: t('common.no'), style: 'cancel' },
                     { 
-                      text: 'Yes', 
+                      text: t('common.yes'), 
                       style: 'destructive',
-                      onPress: () => Alert.alert('Coming Soon', 'This feature will be available soon.') 
+                      onPress: handleCancelOrder
                     }
                   ]
                 );
               }}
+              disabled={actionLoading}
             >
               <Ionicons name="close-circle-outline" size={20} color={colors.error} />
-              <Text style={styles.cancelButtonText}>Cancel Order</Text>
+              <Text style={styles.cancelButtonText}>{t('orders.details.cancelOrder')}</Text>
             </TouchableOpacity>
           )}
+
+          {canRequestReturn(order.status) && !order.returnRequest && order.userId === auth.currentUser?.uid && (
+            <TouchableOpacity 
+              style={[styles.actionButton, styles.supportButton]}
+              onPress={() => navigation.navigate('RequestReturn', { orderId })}
+            >
+              <Ionicons name="return-down-back-outline" size={20} color={colors.primary} />
+              <Text style={styles.supportButtonText}>{t('orders.details.requestReturn')}</Text>
+            </TouchableOpacity>
+          )}
+
+          {order.status === 'delivered' && order.userId === auth.currentUser?.uid &&
+            (order.sellerEmails || []).map(sellerEmail => (
+              <TouchableOpacity
+                key={sellerEmail}
+                style={[styles.actionButton, styles.supportButton]}
+                onPress={() => setReviewSellerEmail(sellerEmail)}
+              >
+                <Ionicons name="star-outline" size={20} color={colors.primary} />
+                <Text style={styles.supportButtonText} numberOfLines={1}>
+                  {order.sellerEmails!.length > 1
+                    ? t('orders.details.rateSellerEmail', { email: sellerEmail })
+                    : t('orders.details.rateSeller')}
+                </Text>
+              </TouchableOpacity>
+            ))}
         </View>
       </ScrollView>
+
+      <ReviewFormModal
+        visible={!!reviewSellerEmail}
+        targetType="seller"
+        targetId={reviewSellerEmail || ''}
+        targetName={reviewSellerEmail || ''}
+        onClose={() => setReviewSellerEmail(null)}
+        onSubmitted={() => {
+          setReviewSellerEmail(null);
+          Alert.alert(t('common.thankYou'), t('orders.details.sellerReviewPosted'));
+        }}
+      />
     </View>
   );
 };
@@ -361,23 +519,50 @@ const styles = StyleSheet.create({
     color: colors.text,
     textAlign: 'right',
   },
-  statusContainer: {
-    flexDirection: 'row',
-    justifyContent: 'flex-start',
+  timeline: {
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+    paddingTop: spacing.md,
   },
-  statusBadge: {
+  timelineEntry: {
     flexDirection: 'row',
+  },
+  timelineMarker: {
     alignItems: 'center',
-    paddingHorizontal: spacing.md,
-    paddingVertical: spacing.sm,
-    borderRadius: borderRadius.sm,
+    marginRight: spacing.md,
   },
-  statusText: {
-    color: colors.white,
-    fontSize: fontSizes.sm,
+  timelineDot: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    minHeight: spacing.md,
+    backgroundColor: colors.gray,
+  },
+  timelineContent: {
+    flex: 1,
+    paddingBottom: spacing.md,
+  },
+  timelineStatus: {
+    fontSize: fontSizes.md,
     fontWeight: 'bold',
-    marginLeft: spacing.xs,
-    textTransform: 'capitalize',
+    color: colors.text,
+  },
+  timelineMeta: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+    marginTop: spacing.xs / 2,
+  },
+  timelineNote: {
+    fontSize: fontSizes.sm,
+    color: colors.text,
+    marginTop: spacing.xs,
+    fontStyle: 'italic',
   },
   section: {
     marginBottom: spacing.md,
@@ -482,6 +667,41 @@ const styles = StyleSheet.create({
     color: colors.text,
     marginBottom: spacing.xs,
   },
+  returnHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  returnStatus: {
+    fontSize: fontSizes.sm,
+    fontWeight: 'bold',
+    textTransform: 'capitalize',
+  },
+  returnPhotos: {
+    marginTop: spacing.sm,
+  },
+  returnPhoto: {
+    width: 80,
+    height: 80,
+    borderRadius: borderRadius.sm,
+    marginRight: spacing.sm,
+  },
+  returnActions: {
+    flexDirection: 'row',
+    marginTop: spacing.md,
+  },
+  returnActionButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.sm,
+    marginHorizontal: spacing.xs,
+  },
+  returnActionText: {
+    color: colors.white,
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+  },
   actions: {
     marginVertical: spacing.md,
     marginBottom: spacing.xl,
@@ -15,10 +15,11 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList, Order } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import { Ionicons } from '@expo/vector-icons';
-import { formatCurrency } from '../utils';
 import { auth, db } from '../utilities/firebaseConfig';
 import { collection, query, where, getDocs, orderBy } from 'firebase/firestore';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
 
 type OrdersScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Orders'>;
 
@@ -28,6 +29,8 @@ type FilterStatus = 'all' | 'pending' | 'processing' | 'shipped' | 'delivered' |
 
 const OrdersScreen = () => {
   const navigation = useNavigation<OrdersScreenNavigationProp>();
+  const { t } = useTranslation();
+  const { formatCurrency, formatDate } = useFormat();
   const [orders, setOrders] = useState<Order[]>([]);
   const [filteredOrders, setFilteredOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
@@ -58,7 +61,7 @@ const OrdersScreen = () => {
           setUserEmail(email);
         } else {
           setLoading(false);
-          Alert.alert('Error', 'User email not found. Please log in again.');
+          Alert.alert(t('common.error'), t('orders.list.emailNotFound'));
           navigation.navigate('Login');
         }
       }
@@ -115,7 +118,7 @@ const OrdersScreen = () => {
     } catch (error) {
       console.error('Error fetching orders:', error);
       setLoading(false);
-      Alert.alert('Error', 'Failed to fetch orders. Please try again.');
+      Alert.alert(t('common.error'), t('orders.list.loadFailed'));
     }
   };
 
@@ -155,16 +158,12 @@ const OrdersScreen = () => {
       <View style={styles.orderHeader}>
         <View>
           <Text style={styles.orderDate}>
-            {item.createdAt.toLocaleDateString('en-US', {
-              year: 'numeric',
-              month: 'short',
-              day: 'numeric',
-            })}
+            {formatDate(item.createdAt, 'medium')}
           </Text>
-          <Text style={styles.orderId}>Order #{item.id.substring(0, 6)}</Text>
+          <Text style={styles.orderId}>{t('orders.orderNumber', { id: item.id.substring(0, 6) })}</Text>
         </View>
         <View style={[styles.statusBadge, { backgroundColor: getOrderStatusColor(item.status) }]}>
-          <Text style={styles.statusText}>{item.status}</Text>
+          <Text style={styles.statusText}>{t(`orders.status.${item.status}`)}</Text>
         </View>
       </View>
 
@@ -178,7 +177,7 @@ const OrdersScreen = () => {
             />
             <View style={styles.productInfo}>
               <Text style={styles.productName}>{product.name}</Text>
-              <Text style={styles.productQuantity}>Qty: {product.quantity}</Text>
+              <Text style={styles.productQuantity}>{t('orders.quantity', { count: product.quantity || 1 })}</Text>
             </View>
             <Text style={styles.productPrice}>{formatCurrency(product.price * (product.quantity || 1))}</Text>
           </View>
@@ -186,7 +185,7 @@ const OrdersScreen = () => {
       </View>
 
       <View style={styles.orderFooter}>
-        <Text style={styles.totalText}>Total Amount:</Text>
+        <Text style={styles.totalText}>{t('orders.list.totalAmount')}</Text>
         <Text style={styles.totalAmount}>{formatCurrency(item.totalAmount)}</Text>
       </View>
     </TouchableOpacity>
@@ -195,12 +194,12 @@ const OrdersScreen = () => {
   const renderEmptyList = () => (
     <View style={styles.emptyContainer}>
       <Ionicons name="cart-outline" size={60} color={colors.lightGray} />
-      <Text style={styles.emptyText}>No orders found</Text>
+      <Text style={styles.emptyText}>{t('orders.list.empty')}</Text>
       <TouchableOpacity 
         style={styles.shopButton}
         onPress={() => navigation.navigate('Main')}
       >
-        <Text style={styles.shopButtonText}>Start Shopping</Text>
+        <Text style={styles.shopButtonText}>{t('orders.list.startShopping')}</Text>
       </TouchableOpacity>
     </View>
   );
@@ -214,7 +213,7 @@ const OrdersScreen = () => {
         >
           <Ionicons name="arrow-back" size={24} color={colors.text} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>My Orders</Text>
+        <Text style={styles.headerTitle}>{t('orders.list.title')}</Text>
         <TouchableOpacity
           style={styles.refreshButton}
           onPress={fetchOrders}
@@ -233,44 +232,44 @@ const OrdersScreen = () => {
           style={[styles.filterTab, activeFilter === 'all' && styles.activeFilterTab]}
           onPress={() => handleFilterChange('all')}
         >
-          <Text style={[styles.filterText, activeFilter === 'all' && styles.activeFilterText]}>All</Text>
+          <Text style={[styles.filterText, activeFilter === 'all' && styles.activeFilterText]}>{t('common.all')}</Text>
         </TouchableOpacity>
         <TouchableOpacity
           style={[styles.filterTab, activeFilter === 'pending' && styles.activeFilterTab]}
           onPress={() => handleFilterChange('pending')}
         >
-          <Text style={[styles.filterText, activeFilter === 'pending' && styles.activeFilterText]}>Pending</Text>
+          <Text style={[styles.filterText, activeFilter === 'pending' && styles.activeFilterText]}>{t('orders.status.pending')}</Text>
         </TouchableOpacity>
         <TouchableOpacity
           style={[styles.filterTab, activeFilter === 'processing' && styles.activeFilterTab]}
           onPress={() => handleFilterChange('processing')}
         >
-          <Text style={[styles.filterText, activeFilter === 'processing' && styles.activeFilterText]}>Processing</Text>
+          <Text style={[styles.filterText, activeFilter === 'processing' && styles.activeFilterText]}>{t('orders.status.processing')}</Text>
         </TouchableOpacity>
         <TouchableOpacity
           style={[styles.filterTab, activeFilter === 'shipped' && styles.activeFilterTab]}
           onPress={() => handleFilterChange('shipped')}
         >
-          <Text style={[styles.filterText, activeFilter === 'shipped' && styles.activeFilterText]}>Shipped</Text>
+          <Text style={[styles.filterText, activeFilter === 'shipped' && styles.activeFilterText]}>{t('orders.status.shipped')}</Text>
         </TouchableOpacity>
         <TouchableOpacity
           style={[styles.filterTab, activeFilter === 'delivered' && styles.activeFilterTab]}
           onPress={() => handleFilterChange('delivered')}
         >
-          <Text style={[styles.filterText, activeFilter === 'delivered' && styles.activeFilterText]}>Delivered</Text>
+          <Text style={[styles.filterText, activeFilter === 'delivered' && styles.activeFilterText]}>{t('orders.status.delivered')}</Text>
         </TouchableOpacity>
         <TouchableOpacity
           style={[styles.filterTab, activeFilter === 'cancelled' && styles.activeFilterTab]}
           onPress={() => handleFilterChange('cancelled')}
         >
-          <Text style={[styles.filterText, activeFilter === 'cancelled' && styles.activeFilterText]}>Cancelled</Text>
+          <Text style={[styles.filterText, activeFilter === 'cancelled' && styles.activeFilterText]}>{t('orders.status.cancelled')}</Text>
         </TouchableOpacity>
       </ScrollView>
 
       {loading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={colors.primary} />
-          <Text style={styles.loadingText}>Loading orders...</Text>
+          <Text style={styles.loadingText}>{t('orders.list.loading')}</Text>
         </View>
       ) : (
         <FlatList
@@ -14,6 +14,7 @@ import { RootStackParamList, Category } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import { Ionicons } from '@expo/vector-icons';
 import { getAllCategories } from '../utilities/firestoreUtils';
+import { useTranslation } from '../hooks/useTranslation';
 
 type ProductCategoriesNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -21,18 +22,19 @@ const PLACEHOLDER_IMAGE = 'https://st4.depositphotos.com/14953852/24787/v/450/de
 
 const ProductCategories = () => {
   const navigation = useNavigation<ProductCategoriesNavigationProp>();
+  const { t, locale } = useTranslation();
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [failedImages, setFailedImages] = useState<{[key: string]: boolean}>({});
 
   useEffect(() => {
     loadCategories();
-  }, []);
+  }, [locale]);
 
   const loadCategories = async () => {
     try {
       setLoading(true);
-      const categoriesData = await getAllCategories();
+      const categoriesData = await getAllCategories(locale);
       
       if (categoriesData.length > 0) {
         setCategories(categoriesData);
@@ -80,7 +82,7 @@ const ProductCategories = () => {
       <View style={styles.categoryInfo}>
         <Text style={styles.categoryName}>{item.name}</Text>
         <View style={styles.actionButton}>
-          <Text style={styles.actionButtonText}>View Shops</Text>
+          <Text style={styles.actionButtonText}>{t('categories.viewShops')}</Text>
           <Ionicons name="chevron-forward" size={16} color={colors.white} />
         </View>
       </View>
@@ -91,7 +93,7 @@ const ProductCategories = () => {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary} />
-        <Text style={styles.loadingText}>Loading categories...</Text>
+        <Text style={styles.loadingText}>{t('categories.loading')}</Text>
       </View>
     );
   }
@@ -102,7 +104,7 @@ const ProductCategories = () => {
         <TouchableOpacity onPress={() => navigation.goBack()}>
           <Ionicons name="arrow-back" size={24} color={colors.white} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Product Categories</Text>
+        <Text style={styles.headerTitle}>{t('categories.title')}</Text>
         <View style={{ width: 24 }} />
       </View>
 
@@ -114,12 +116,12 @@ const ProductCategories = () => {
         showsVerticalScrollIndicator={false}
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
-            <Text style={styles.emptyText}>No categories available</Text>
+            <Text style={styles.emptyText}>{t('categories.empty')}</Text>
             <TouchableOpacity 
               style={styles.refreshButton}
               onPress={loadCategories}
             >
-              <Text style={styles.refreshButtonText}>Refresh</Text>
+              <Text style={styles.refreshButtonText}>{t('common.refresh')}</Text>
             </TouchableOpacity>
           </View>
         }
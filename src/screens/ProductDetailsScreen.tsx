@@ -7,17 +7,23 @@ import {
   Image,
   TouchableOpacity,
   Alert,
-  ActivityIndicator
+  ActivityIndicator,
+  TextInput
 } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { RootStackParamList, Product, Review } from '../types';
+import { RootStackParamList, Product, RatingSummary, Review } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
-import { formatCurrency } from '../utils';
 import Button from '../components/Button';
-import { getProductById, getProductReviews } from '../utilities/firestoreUtils';
+import ReviewFormModal from '../components/ReviewFormModal';
+import ReportReviewModal from '../components/ReportReviewModal';
+import RatingStars from '../components/RatingStars';
+import { getProductById, getProductReviews, getSellerRating, startConversation, replyToReview } from '../utilities/firestoreUtils';
+import { MAX_REPLY_LENGTH, REVIEW_MESSAGE_PARAMS, validateReviewReply } from '../utilities/reviewUtils';
 import { db, auth } from '../utilities/firebaseConfig';
 import { doc, getDoc, setDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
 
 type ProductDetailsRouteProp = RouteProp<RootStackParamList, 'ProductDetails'>;
 type ProductDetailsNavigationProp = NativeStackNavigationProp<RootStackParamList, 'ProductDetails'>;
@@ -28,17 +34,29 @@ const PLACEHOLDER_IMAGE = 'https://st4.depositphotos.com/14953852/24787/v/450/de
 const ProductDetailsScreen = () => {
   const route = useRoute<ProductDetailsRouteProp>();
   const navigation = useNavigation<ProductDetailsNavigationProp>();
+  const { t } = useTranslation();
+  const { formatCurrency, formatDate } = useFormat();
   const { productId } = route.params;
   
   const [product, setProduct] = useState<Product | null>(null);
   const [productReviews, setProductReviews] = useState<Review[]>([]);
+  const [sellerRating, setSellerRating] = useState<RatingSummary | null>(null);
   const [quantity, setQuantity] = useState(1);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [imageError, setImageError] = useState(false);
   const [addingToCart, setAddingToCart] = useState(false);
+  const [showReviewForm, setShowReviewForm] = useState(false);
+  const [reportingReviewId, setReportingReviewId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [savingReply, setSavingReply] = useState(false);
 
   // Calculate average rating
+  // The seller answers reviews of their own products
+  const isSeller = !!product?.sellerEmail &&
+    product.sellerEmail.toLowerCase() === auth.currentUser?.email?.toLowerCase();
+
   const averageRating = productReviews.length > 0
     ? productReviews.reduce((sum, review) => sum + review.rating, 0) / productReviews.length
     : product?.rating || 0;
@@ -53,20 +71,27 @@ const ProductDetailsScreen = () => {
         const productData = await getProductById(productId);
         
         if (!productData) {
-          setError('Product not found');
+          setError(t('product.notFound'));
           setLoading(false);
           return;
         }
         
         setProduct(productData);
         
+        // The seller's rating is extra detail, so the page still loads without it
+        if (productData.sellerEmail) {
+          getSellerRating(productData.sellerEmail)
+            .then(setSellerRating)
+            .catch(() => setSellerRating(null));
+        }
+        
         // Get reviews for this product
         const reviews = await getProductReviews(productId);
         setProductReviews(reviews);
         
       } catch (err) {
         console.error('Error loading product data:', err);
-        setError('Failed to load product data. Please try again.');
+        setError(t('product.loadFailed'));
       } finally {
         setLoading(false);
       }
@@ -75,6 +100,41 @@ const ProductDetailsScreen = () => {
     loadProductData();
   }, [productId]);
 
+  const handleReviewSubmitted = async () => {
+    setShowReviewForm(false);
+    setProductReviews(await getProductReviews(productId));
+  };
+
+  const handleStartReply = (review: Review) => {
+    setReplyingTo(review.id);
+    setReplyText(review.reply?.text || '');
+  };
+
+  const handleSaveReply = async (reviewId: string) => {
+    const currentUser = auth.currentUser;
+    if (!currentUser?.email) {
+      return;
+    }
+
+    const validationError = validateReviewReply(replyText);
+    if (validationError) {
+      Alert.alert(t('product.invalidReply'), t(validationError, REVIEW_MESSAGE_PARAMS));
+      return;
+    }
+
+    try {
+      setSavingReply(true);
+      await replyToReview(reviewId, { uid: currentUser.uid, email: currentUser.email }, replyText);
+      setReplyingTo(null);
+      setReplyText('');
+      setProductReviews(await getProductReviews(productId));
+    } catch (error) {
+      Alert.alert(t('common.error'), t('product.replyFailed'));
+    } finally {
+      setSavingReply(false);
+    }
+  };
+
   const handleQuantityDecrease = () => {
     if (quantity > 1) {
       setQuantity(quantity - 1);
@@ -92,12 +152,12 @@ const ProductDetailsScreen = () => {
     const currentUser = auth.currentUser;
     if (!currentUser) {
       Alert.alert(
-        'Sign In Required', 
-        'Please sign in to add items to your cart',
+        t('product.signInRequired'),
+        t('product.signInForCart'),
         [
-          { text: 'Cancel', style: 'cancel' },
+          { text: t('common.cancel'), style: 'cancel' },
           { 
-            text: 'Sign In', 
+            text: t('product.signIn'), 
             onPress: () => navigation.navigate('Login' as any)
           }
         ]
@@ -135,6 +195,11 @@ const ProductDetailsScreen = () => {
               name: product.name,
               price: product.price,
               image: product.image || PLACEHOLDER_IMAGE,
+              category: product.category || '',
+              shopId: product.shopId || '',
+              shopName: product.shopName || '',
+              sellerEmail: product.sellerEmail || '',
+              unit: product.unit || '',
               quantity: quantity
             },
             updatedAt: serverTimestamp()
@@ -150,6 +215,11 @@ const ProductDetailsScreen = () => {
               name: product.name,
               price: product.price,
               image: product.image || PLACEHOLDER_IMAGE,
+              category: product.category || '',
+              shopId: product.shopId || '',
+              shopName: product.shopName || '',
+              sellerEmail: product.sellerEmail || '',
+              unit: product.unit || '',
               quantity: quantity
             }
           },
@@ -159,12 +229,12 @@ const ProductDetailsScreen = () => {
       }
       
       setAddingToCart(false);
-      Alert.alert('Success', `Added ${quantity} ${product.name} to cart`);
+      Alert.alert(t('common.success'), t('product.addedToCart', { quantity, name: product.name }));
       
     } catch (err) {
       console.error('Error adding to cart:', err);
       setAddingToCart(false);
-      Alert.alert('Error', 'Failed to add item to cart. Please try again.');
+      Alert.alert(t('common.error'), t('product.addToCartFailed'));
     }
   };
 
@@ -175,6 +245,28 @@ const ProductDetailsScreen = () => {
     });
   };
 
+  const handleMessageSeller = async () => {
+    const email = auth.currentUser?.email;
+    if (!email) {
+      Alert.alert(t('reviews.loginRequired'), t('product.loginToMessage'));
+      return;
+    }
+    if (!product?.sellerEmail) return;
+
+    try {
+      const conversationId = await startConversation({
+        subjectType: 'product',
+        subjectId: product.id,
+        subjectTitle: product.name,
+        buyerEmail: email,
+        sellerEmail: product.sellerEmail,
+      });
+      navigation.navigate('Chat', { conversationId });
+    } catch (err: any) {
+      Alert.alert(t('common.error'), err.message || t('product.conversationFailed'));
+    }
+  };
+
   const handleImageError = () => {
     setImageError(true);
   };
@@ -204,7 +296,7 @@ const ProductDetailsScreen = () => {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary} />
-        <Text style={styles.loadingText}>Loading product...</Text>
+        <Text style={styles.loadingText}>{t('product.loading')}</Text>
       </View>
     );
   }
@@ -213,12 +305,12 @@ const ProductDetailsScreen = () => {
   if (error || !product) {
     return (
       <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>{error || 'Product not found'}</Text>
+        <Text style={styles.errorText}>{error || t('product.notFound')}</Text>
         <TouchableOpacity
           style={styles.backButton}
           onPress={() => navigation.goBack()}
         >
-          <Text style={styles.backButtonText}>Go Back</Text>
+          <Text style={styles.backButtonText}>{t('product.goBack')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -244,16 +336,27 @@ const ProductDetailsScreen = () => {
 
           <Text style={styles.price}>{formatCurrency(product.price)}</Text>
 
+          {!!product.sellerEmail && (
+            <View style={styles.sellerRow}>
+              <Text style={styles.sellerName}>
+                {t('product.soldBy', { name: product.shopName || product.sellerName || product.sellerEmail })}
+              </Text>
+              {sellerRating && (
+                <RatingStars rating={sellerRating.rating} reviewCount={sellerRating.reviewCount} size={12} />
+              )}
+            </View>
+          )}
+
           <View style={styles.divider} />
 
-          <Text style={styles.sectionTitle}>Description</Text>
+          <Text style={styles.sectionTitle}>{t('product.description')}</Text>
           <Text style={styles.description}>{product.description}</Text>
 
           <View style={styles.divider} />
 
           {/* Quantity Selector */}
           <View style={styles.quantityContainer}>
-            <Text style={styles.quantityLabel}>Quantity:</Text>
+            <Text style={styles.quantityLabel}>{t('product.quantity')}</Text>
             <View style={styles.quantityControls}>
               <TouchableOpacity
                 style={styles.quantityButton}
@@ -273,7 +376,7 @@ const ProductDetailsScreen = () => {
 
           {/* Subtotal */}
           <View style={styles.subtotalContainer}>
-            <Text style={styles.subtotalLabel}>Subtotal:</Text>
+            <Text style={styles.subtotalLabel}>{t('product.subtotal')}</Text>
             <Text style={styles.subtotalValue}>
               {formatCurrency(product.price * quantity)}
             </Text>
@@ -282,30 +385,39 @@ const ProductDetailsScreen = () => {
           {/* Action Buttons */}
           <View style={styles.actionButtons}>
             <Button
-              title={addingToCart ? "Adding..." : "Add to Cart"}
+              title={addingToCart ? t('product.adding') : t('product.addToCart')}
               onPress={handleAddToCart}
               type="outline"
               style={styles.addToCartButton}
               disabled={addingToCart}
             />
             <Button
-              title="Buy Now"
+              title={t('product.buyNow')}
               onPress={handleBuyNow}
               style={styles.buyNowButton}
               disabled={addingToCart}
             />
           </View>
 
+          {!!product.sellerEmail && product.sellerEmail !== auth.currentUser?.email && (
+            <Button
+              title={t('product.messageSeller')}
+              onPress={handleMessageSeller}
+              type="text"
+              style={styles.messageSellerButton}
+            />
+          )}
+
           {/* Reviews Section */}
           {productReviews.length > 0 && (
             <View style={styles.reviewsContainer}>
-              <Text style={styles.sectionTitle}>Reviews</Text>
+              <Text style={styles.sectionTitle}>{t('product.reviews')}</Text>
               {productReviews.map((review) => (
                 <View key={review.id} style={styles.reviewItem}>
                   <View style={styles.reviewHeader}>
                     <Text style={styles.reviewUser}>{review.userName}</Text>
                     <Text style={styles.reviewDate}>
-                      {review.date.toLocaleDateString()}
+                      {formatDate(review.date, 'medium')}
                     </Text>
                   </View>
                   <View style={styles.reviewRating}>
@@ -322,10 +434,66 @@ const ProductDetailsScreen = () => {
                     ))}
                   </View>
                   <Text style={styles.reviewText}>{review.text}</Text>
+
+                  {review.reply && replyingTo !== review.id && (
+                    <View style={styles.replyContainer}>
+                      <Text style={styles.replyLabel}>{t('product.sellersReply')}</Text>
+                      <Text style={styles.replyText}>{review.reply.text}</Text>
+                    </View>
+                  )}
+
+                  {replyingTo === review.id ? (
+                    <View style={styles.replyContainer}>
+                      <TextInput
+                        style={styles.replyInput}
+                        value={replyText}
+                        onChangeText={setReplyText}
+                        placeholder={t('product.replyPlaceholder')}
+                        placeholderTextColor={colors.lightText}
+                        multiline
+                        maxLength={MAX_REPLY_LENGTH}
+                        textAlignVertical="top"
+                      />
+                      <View style={styles.reviewActions}>
+                        <TouchableOpacity onPress={() => setReplyingTo(null)} disabled={savingReply}>
+                          <Text style={styles.reviewActionText}>{t('common.cancel')}</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => handleSaveReply(review.id)} disabled={savingReply}>
+                          <Text style={[styles.reviewActionText, styles.reviewActionPrimary]}>
+                            {savingReply ? t('common.saving') : t('product.postReply')}
+                          </Text>
+                        </TouchableOpacity>
+                      </View>
+                    </View>
+                  ) : (
+                    <View style={styles.reviewActions}>
+                      {isSeller && (
+                        <TouchableOpacity onPress={() => handleStartReply(review)}>
+                          <Text style={[styles.reviewActionText, styles.reviewActionPrimary]}>
+                            {review.reply ? t('product.editReply') : t('product.reply')}
+                          </Text>
+                        </TouchableOpacity>
+                      )}
+                      {auth.currentUser && auth.currentUser.uid !== review.userId && (
+                        <TouchableOpacity onPress={() => setReportingReviewId(review.id)}>
+                          <Text style={styles.reviewActionText}>{t('reviews.report')}</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  )}
                 </View>
               ))}
             </View>
           )}
+
+          {auth.currentUser && (
+            <Button
+              title={t('reviews.write')}
+              onPress={() => setShowReviewForm(true)}
+              type="outline"
+              style={styles.writeReviewButton}
+            />
+          )}
         </View>
       </ScrollView>
 
@@ -336,6 +504,17 @@ const ProductDetailsScreen = () => {
       >
         <Text style={styles.backButtonIcon}>←</Text>
       </TouchableOpacity>
+
+      <ReviewFormModal
+        visible={showReviewForm}
+        targetType="product"
+        targetId={product.id}
+        targetName={product.name}
+        onClose={() => setShowReviewForm(false)}
+        onSubmitted={handleReviewSubmitted}
+      />
+
+      <ReportReviewModal reviewId={reportingReviewId} onClose={() => setReportingReviewId(null)} />
     </View>
   );
 };
@@ -405,6 +584,14 @@ const styles = StyleSheet.create({
     color: colors.primary,
     marginBottom: spacing.md,
   },
+  sellerRow: {
+    marginBottom: spacing.sm,
+  },
+  sellerName: {
+    fontSize: fontSizes.sm,
+    color: colors.text,
+    marginBottom: spacing.xs,
+  },
   divider: {
     height: 1,
     backgroundColor: colors.lightGray,
@@ -485,9 +672,54 @@ const styles = StyleSheet.create({
     flex: 1,
     marginLeft: spacing.sm,
   },
+  messageSellerButton: {
+    marginTop: -spacing.md,
+    marginBottom: spacing.lg,
+  },
   reviewsContainer: {
     marginTop: spacing.md,
   },
+  replyContainer: {
+    marginTop: spacing.sm,
+    padding: spacing.sm,
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.sm,
+    borderLeftWidth: 3,
+    borderLeftColor: colors.primary,
+  },
+  replyLabel: {
+    fontSize: fontSizes.sm,
+    fontWeight: 'bold',
+    color: colors.primary,
+    marginBottom: 2,
+  },
+  replyText: {
+    fontSize: fontSizes.sm,
+    color: colors.text,
+    lineHeight: 18,
+  },
+  replyInput: {
+    minHeight: 60,
+    fontSize: fontSizes.sm,
+    color: colors.text,
+  },
+  reviewActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: spacing.sm,
+  },
+  reviewActionText: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+    marginLeft: spacing.md,
+  },
+  reviewActionPrimary: {
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  writeReviewButton: {
+    marginTop: spacing.sm,
+  },
   reviewItem: {
     marginBottom: spacing.lg,
     padding: spacing.md,
@@ -17,13 +17,17 @@ import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import { Ionicons } from '@expo/vector-icons';
 import { getAllBids, getBidsByEmail, seedProductsCollection } from '../utilities/firestoreUtils';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { formatCurrency } from '../utils';
 import { PRODUCTS } from '../data';
 import { auth } from '../utilities/firebaseConfig';
 import { getDoc, doc } from 'firebase/firestore';
 import { db } from '../utilities/firebaseConfig';
 import { logoutUser, getSavedUserData } from '../utilities/authUtils';
 import { seedAllData } from '../utilities/seedAllData';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+import { canListMachines, canSellProducts, getUserRoles, isAdmin } from '../utilities/roleUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+import { useEmailVerification } from '../hooks/useEmailVerification';
 
 type ProfileNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Profile'>;
 
@@ -48,42 +52,92 @@ const ProfileScreen = () => {
   const [loadingBids, setLoadingBids] = useState(true);
   const [user, setUser] = useState<User>(defaultUser);
   const [loadingUser, setLoadingUser] = useState(true);
+  const { user: account } = useCurrentUser();
+  const { t } = useTranslation();
+  const { formatCurrency } = useFormat();
+  const { resendVerification } = useEmailVerification();
 
-  // Menu items to display
+  // Menu items to display; selling and machine tools only show for those roles
   const menuItems = [
     {
       id: 'personal',
-      title: 'Personal Information',
+      title: t('profile.menu.personal'),
       icon: 'person-outline',
       onPress: () => navigation.navigate('EditProfile'),
     },
+    {
+      id: 'password',
+      title: t('profile.menu.password'),
+      icon: 'lock-closed-outline',
+      onPress: () => navigation.navigate('ChangePassword'),
+    },
     {
       id: 'orders',
-      title: 'My Orders',
+      title: t('profile.menu.orders'),
       icon: 'cart-outline',
       onPress: () => navigation.navigate('Orders'),
     },
+    {
+      id: 'sellerOrders',
+      title: t('profile.menu.sellerOrders'),
+      icon: 'storefront-outline',
+      onPress: () => navigation.navigate('SellerOrders'),
+      visible: canSellProducts(account),
+    },
+    {
+      id: 'returns',
+      title: t('profile.menu.returns'),
+      icon: 'return-down-back-outline',
+      onPress: () => navigation.navigate('ReturnRequests'),
+      visible: canSellProducts(account),
+    },
+    {
+      id: 'delivery',
+      title: t('profile.menu.delivery'),
+      icon: 'car-outline',
+      onPress: () => navigation.navigate('DeliverySettings'),
+      visible: canSellProducts(account),
+    },
     {
       id: 'offers',
-      title: 'My Offers',
+      title: t('profile.menu.offers'),
       icon: 'briefcase-outline',
       onPress: () => navigation.navigate('MyOffers'),
     },
+    {
+      id: 'machines',
+      title: t('profile.menu.machines'),
+      icon: 'construct-outline',
+      onPress: () => navigation.navigate('MyMachines'),
+      visible: canListMachines(account),
+    },
+    {
+      id: 'bookings',
+      title: t('profile.menu.bookings'),
+      icon: 'calendar-outline',
+      onPress: () => navigation.navigate('MachineBookings'),
+    },
+    {
+      id: 'messages',
+      title: t('profile.menu.messages'),
+      icon: 'chatbubbles-outline',
+      onPress: () => navigation.navigate('Conversations'),
+    },
     {
       id: 'settings',
-      title: 'Settings',
+      title: t('profile.menu.settings'),
       icon: 'settings-outline',
       onPress: () => navigation.navigate('Settings'),
     },
     {
       id: 'about',
-      title: 'About AgriSaviya',
+      title: t('profile.menu.about'),
       icon: 'information-circle-outline',
       onPress: () => navigation.navigate('About'),
     },
     {
       id: 'help',
-      title: 'Help & Support',
+      title: t('profile.menu.help'),
       icon: 'help-circle-outline',
       onPress: () => navigation.navigate('Help'),
     },
@@ -216,12 +270,12 @@ const ProfileScreen = () => {
         <Text style={styles.bidPrice}>{formatCurrency(item.startPrice)}</Text>
         <View style={styles.bidMeta}>
           <Text style={styles.bidOffers}>
-            <Ionicons name="people" size={12} color={colors.lightText} /> {item.bids.length} offers
+            <Ionicons name="people" size={12} color={colors.lightText} /> {t('profile.offerCount', { count: item.bids.length })}
           </Text>
           <Text style={styles.bidTimeLeft}>
             {new Date() > item.dueDate 
-              ? 'Ended' 
-              : `${Math.ceil((item.dueDate.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24))} days left`}
+              ? t('profile.ended')
+              : t('profile.daysLeft', { count: Math.ceil((item.dueDate.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)) })}
           </Text>
         </View>
       </View>
@@ -258,7 +312,7 @@ const ProfileScreen = () => {
       });
     } catch (error) {
       console.error('Error logging out:', error);
-      Alert.alert('Error', 'Failed to log out. Please try again.');
+      Alert.alert(t('common.error'), t('profile.logoutFailed'));
     }
   };
 
@@ -268,19 +322,19 @@ const ProfileScreen = () => {
 
   const handleSeedProducts = async () => {
     try {
-      Alert.alert("Seeding Data", "Starting to seed all data to Firebase...");
+      Alert.alert(t('profile.seeding'), t('profile.seedingStarted'));
       
       // Call the seedAllData function with proper error handling
       const result = await seedAllData();
       
       if (result) {
-        Alert.alert("Success", "All data has been successfully added to Firebase!");
+        Alert.alert(t('common.success'), t('profile.seedSuccess'));
       } else {
-        Alert.alert("Error", "Failed to seed data to Firebase. Check console for details.");
+        Alert.alert(t('common.error'), t('profile.seedFailed'));
       }
     } catch (error) {
       console.error('Error seeding data:', error);
-      Alert.alert("Error", "Failed to seed data to Firebase. Check console for details.");
+      Alert.alert(t('common.error'), t('profile.seedFailed'));
     }
   };
 
@@ -288,7 +342,7 @@ const ProfileScreen = () => {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary} />
-        <Text style={styles.loadingText}>Loading profile...</Text>
+        <Text style={styles.loadingText}>{t('profile.loadingProfile')}</Text>
       </View>
     );
   }
@@ -313,34 +367,55 @@ const ProfileScreen = () => {
           <Text style={styles.userDetails}>{user.email}</Text>
           <Text style={styles.userDetails}>{user.phone}</Text>
           {user.address && <Text style={styles.userDetails}>{user.address}</Text>}
+          {account && (
+            <View style={styles.rolesRow}>
+              {getUserRoles(account).map(role => (
+                <View key={role} style={styles.roleBadge}>
+                  <Text style={styles.roleBadgeText}>{t(`roles.${role}.label`)}</Text>
+                </View>
+              ))}
+              {account.verifiedSeller && (
+                <View style={[styles.roleBadge, styles.verifiedBadge]}>
+                  <Ionicons name="checkmark-circle" size={12} color={colors.white} />
+                  <Text style={[styles.roleBadgeText, styles.verifiedBadgeText]}>{t('roles.verifiedSeller')}</Text>
+                </View>
+              )}
+            </View>
+          )}
+          {!!auth.currentUser && !auth.currentUser.emailVerified && (
+            <TouchableOpacity style={styles.unverifiedBadge} onPress={resendVerification}>
+              <Ionicons name="mail-unread-outline" size={14} color={colors.error} />
+              <Text style={styles.unverifiedBadgeText}>{t('auth.verification.notVerified')}</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Stats Section */}
         <View style={styles.statsContainer}>
           <View style={styles.statItem}>
             <Text style={styles.statValue}>12</Text>
-            <Text style={styles.statLabel}>Orders</Text>
+            <Text style={styles.statLabel}>{t('profile.orders')}</Text>
           </View>
           
           <View style={styles.statDivider} />
           
           <View style={styles.statItem}>
             <Text style={styles.statValue}>3</Text>
-            <Text style={styles.statLabel}>Wishlist</Text>
+            <Text style={styles.statLabel}>{t('profile.wishlist')}</Text>
           </View>
           
           <View style={styles.statDivider} />
           
           <View style={styles.statItem}>
             <Text style={styles.statValue}>{new Date().getFullYear()}</Text>
-            <Text style={styles.statLabel}>Joined</Text>
+            <Text style={styles.statLabel}>{t('profile.joined')}</Text>
           </View>
         </View>
 
         {/* Your Bids Section */}
         <View style={styles.bidsSection}>
           <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>Your Bids</Text>
+            <Text style={styles.sectionTitle}>{t('profile.yourBids')}</Text>
             <TouchableOpacity onPress={handleRefreshBids}>
               <Ionicons name="refresh" size={20} color={colors.primary} />
             </TouchableOpacity>
@@ -357,14 +432,14 @@ const ProfileScreen = () => {
               contentContainerStyle={styles.bidsList}
             />
           ) : (
-            <Text style={styles.emptyText}>You haven't created any bids yet</Text>
+            <Text style={styles.emptyText}>{t('profile.noBids')}</Text>
           )}
         </View>
 
         {/* All Bids Section */}
         <View style={styles.bidsSection}>
           <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>All Active Bids</Text>
+            <Text style={styles.sectionTitle}>{t('profile.allActiveBids')}</Text>
             <TouchableOpacity onPress={handleRefreshBids}>
               <Ionicons name="refresh" size={20} color={colors.primary} />
             </TouchableOpacity>
@@ -381,23 +456,33 @@ const ProfileScreen = () => {
               contentContainerStyle={styles.bidsList}
             />
           ) : (
-            <Text style={styles.emptyText}>No active bids available</Text>
+            <Text style={styles.emptyText}>{t('profile.noActiveBids')}</Text>
           )}
         </View>
 
         {/* Menu Section */}
         <View style={styles.menuContainer}>
-          {menuItems.map(renderMenuItem)}
+          {menuItems.filter(item => item.visible !== false).map(renderMenuItem)}
         </View>
 
         {/* Admin Functions */}
-        <View style={styles.adminSection}>
-          <Text style={styles.sectionTitle}>Admin Functions</Text>
-          <TouchableOpacity style={styles.adminButton} onPress={handleSeedProducts}>
-            <Ionicons name="cloud-upload" size={20} color={colors.white} />
-            <Text style={styles.adminButtonText}>Seed All Data to Firebase</Text>
-          </TouchableOpacity>
-        </View>
+        {isAdmin(account) && (
+          <View style={styles.adminSection}>
+            <Text style={styles.sectionTitle}>{t('profile.adminFunctions')}</Text>
+            <TouchableOpacity style={styles.adminButton} onPress={handleSeedProducts}>
+              <Ionicons name="cloud-upload" size={20} color={colors.white} />
+              <Text style={styles.adminButtonText}>{t('profile.seedAll')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.adminButton} onPress={() => navigation.navigate('ReviewModeration')}>
+              <Ionicons name="shield-checkmark" size={20} color={colors.white} />
+              <Text style={styles.adminButtonText}>{t('profile.reviewModeration')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.adminButton} onPress={() => navigation.navigate('SellerVerification')}>
+              <Ionicons name="ribbon" size={20} color={colors.white} />
+              <Text style={styles.adminButtonText}>{t('profile.sellerVerification')}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
 
         {/* Logout Button */}
         <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
@@ -407,7 +492,7 @@ const ProfileScreen = () => {
             color={colors.error} 
             style={styles.logoutIcon}
           />
-          <Text style={styles.logoutText}>Logout</Text>
+          <Text style={styles.logoutText}>{t('profile.logout')}</Text>
         </TouchableOpacity>
       </ScrollView>
     </View>
@@ -471,6 +556,51 @@ const styles = StyleSheet.create({
     color: colors.lightText,
     marginBottom: spacing.xs,
   },
+  rolesRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginTop: spacing.xs,
+  },
+  roleBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    marginHorizontal: 2,
+    marginBottom: spacing.xs,
+  },
+  roleBadgeText: {
+    fontSize: fontSizes.xs,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  verifiedBadge: {
+    backgroundColor: colors.primary,
+  },
+  verifiedBadgeText: {
+    color: colors.white,
+    marginLeft: 2,
+  },
+  unverifiedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    borderColor: colors.error,
+    marginTop: spacing.xs,
+  },
+  unverifiedBadgeText: {
+    fontSize: fontSizes.xs,
+    color: colors.error,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
   statsContainer: {
     flexDirection: 'row',
     backgroundColor: colors.white,
@@ -13,34 +13,46 @@ import {
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { RootStackParamList } from '../types';
+import { RootStackParamList, UserRole } from '../types';
 import { colors, fontSizes, spacing, borderRadius } from '../theme';
 import Button from '../components/Button';
 import { createUserWithEmailAndPassword } from 'firebase/auth';
 import { doc, setDoc } from 'firebase/firestore';
 import { auth, db } from '../utilities/firebaseConfig';
-import { saveUserData, saveAuthToken } from '../utilities/authUtils';
+import { saveUserData, saveAuthToken, sendVerificationEmail } from '../utilities/authUtils';
+import { savePublicProfile } from '../utilities/firestoreUtils';
+import { DEFAULT_ROLES, validateRoles } from '../utilities/roleUtils';
+import RoleSelector from '../components/RoleSelector';
+import { useTranslation } from '../hooks/useTranslation';
 
 type RegisterScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Register'>;
 
 const RegisterScreen = () => {
   const navigation = useNavigation<RegisterScreenNavigationProp>();
+  const { t } = useTranslation();
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [phone, setPhone] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [roles, setRoles] = useState<UserRole[]>(DEFAULT_ROLES);
   const [loading, setLoading] = useState(false);
 
   const handleRegister = async () => {
     // Basic validation
     if (!name || !email || !phone || !password || !confirmPassword) {
-      Alert.alert('Error', 'Please fill in all fields');
+      Alert.alert(t('common.error'), t('auth.fillAllFields'));
       return;
     }
     
     if (password !== confirmPassword) {
-      Alert.alert('Error', 'Passwords do not match');
+      Alert.alert(t('common.error'), t('auth.passwordsDontMatch'));
+      return;
+    }
+    
+    const rolesError = validateRoles(roles);
+    if (rolesError) {
+      Alert.alert(t('common.error'), t(rolesError));
       return;
     }
     
@@ -56,11 +68,13 @@ const RegisterScreen = () => {
         name: name,
         email: email,
         phone: phone,
+        roles: roles,
         createdAt: new Date().toISOString(),
       };
       
       // Save additional user data to Firestore
       await setDoc(doc(db, "users", user.uid), userData);
+      await savePublicProfile(user.uid, { name, email: user.email || email });
       
       // Save user data to AsyncStorage
       const authUserData = {
@@ -76,11 +90,19 @@ const RegisterScreen = () => {
       const token = await user.getIdToken();
       await saveAuthToken(token);
       
+      // Selling and bidding wait for the address to be verified; the rest of the app does not
+      try {
+        await sendVerificationEmail();
+        Alert.alert(t('auth.verification.sentTitle'), t('auth.verification.sentOnRegister', { email }));
+      } catch (error) {
+        console.error('Error sending verification email:', error);
+      }
+      
       setLoading(false);
       navigation.replace('Main');
     } catch (error: any) {
       setLoading(false);
-      Alert.alert('Registration Error', error.message || 'Failed to register');
+      Alert.alert(t('auth.registrationError'), error.message || t('auth.registrationFailed'));
     }
   };
 
@@ -105,15 +127,15 @@ const RegisterScreen = () => {
             resizeMode="contain"
           />
           <Text style={styles.title}>AgriSaviya</Text>
-          <Text style={styles.subtitle}>Create your account</Text>
+          <Text style={styles.subtitle}>{t('auth.registerSubtitle')}</Text>
         </View>
 
         <View style={styles.formContainer}>
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Full Name</Text>
+            <Text style={styles.label}>{t('auth.fullName')}</Text>
             <TextInput
               style={styles.input}
-              placeholder="Enter your full name"
+              placeholder={t('auth.fullNamePlaceholder')}
               value={name}
               onChangeText={setName}
               autoCapitalize="words"
@@ -121,10 +143,10 @@ const RegisterScreen = () => {
           </View>
 
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Email</Text>
+            <Text style={styles.label}>{t('auth.email')}</Text>
             <TextInput
               style={styles.input}
-              placeholder="Enter your email"
+              placeholder={t('auth.emailPlaceholder')}
               value={email}
               onChangeText={setEmail}
               keyboardType="email-address"
@@ -133,10 +155,10 @@ const RegisterScreen = () => {
           </View>
 
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Phone Number</Text>
+            <Text style={styles.label}>{t('auth.phone')}</Text>
             <TextInput
               style={styles.input}
-              placeholder="Enter your phone number"
+              placeholder={t('auth.phonePlaceholder')}
               value={phone}
               onChangeText={setPhone}
               keyboardType="phone-pad"
@@ -144,10 +166,10 @@ const RegisterScreen = () => {
           </View>
 
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Password</Text>
+            <Text style={styles.label}>{t('auth.password')}</Text>
             <TextInput
               style={styles.input}
-              placeholder="Enter your password"
+              placeholder={t('auth.passwordPlaceholder')}
               value={password}
               onChangeText={setPassword}
               secureTextEntry
@@ -155,27 +177,32 @@ const RegisterScreen = () => {
           </View>
 
           <View style={styles.inputGroup}>
-            <Text style={styles.label}>Confirm Password</Text>
+            <Text style={styles.label}>{t('auth.confirmPassword')}</Text>
             <TextInput
               style={styles.input}
-              placeholder="Confirm your password"
+              placeholder={t('auth.confirmPasswordPlaceholder')}
               value={confirmPassword}
               onChangeText={setConfirmPassword}
               secureTextEntry
             />
           </View>
 
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>{t('auth.iAmA')}</Text>
+            <RoleSelector selectedRoles={roles} onChange={setRoles} />
+          </View>
+
           <Button
-            title="Register"
+            title={t('auth.register')}
             onPress={handleRegister}
             loading={loading}
             style={styles.registerButton}
           />
 
           <View style={styles.loginContainer}>
-            <Text style={styles.loginText}>Already have an account? </Text>
+            <Text style={styles.loginText}>{t('auth.haveAccount')}</Text>
             <TouchableOpacity onPress={navigateToLogin}>
-              <Text style={styles.loginLink}>Login</Text>
+              <Text style={styles.loginLink}>{t('auth.login')}</Text>
             </TouchableOpacity>
           </View>
         </View>
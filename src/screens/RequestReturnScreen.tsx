@@ -0,0 +1,311 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Image,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList, ReturnReason } from '../types';
+import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import Button from '../components/Button';
+import { RETURN_REASONS } from '../data';
+import { requestReturn } from '../utilities/firestoreUtils';
+import { MAX_INLINE_PHOTO_BYTES, compressPhoto, getInlinePhotosSize } from '../utilities/imageUtils';
+import { useTranslation } from '../hooks/useTranslation';
+
+type RequestReturnNavigationProp = NativeStackNavigationProp<RootStackParamList, 'RequestReturn'>;
+type RequestReturnRouteProp = RouteProp<RootStackParamList, 'RequestReturn'>;
+
+const MAX_PHOTOS = 3;
+
+const RequestReturnScreen = () => {
+  const navigation = useNavigation<RequestReturnNavigationProp>();
+  const route = useRoute<RequestReturnRouteProp>();
+  const { t } = useTranslation();
+  const { orderId } = route.params;
+
+  const [reason, setReason] = useState<ReturnReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [imageLoading, setImageLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const pickPhoto = async () => {
+    if (photos.length >= MAX_PHOTOS) {
+      Alert.alert(t('orders.returns.limitReached'), t('orders.returns.photoLimit', { count: MAX_PHOTOS }));
+      return;
+    }
+
+    try {
+      const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
+
+      if (!permissionResult.granted) {
+        Alert.alert(t('common.permissionRequired'), t('common.photoPermission'));
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        allowsEditing: true,
+        aspect: [4, 3],
+        quality: 1,
+      });
+
+      if (!result.canceled) {
+        setImageLoading(true);
+
+        // Storage is disabled, so photos are kept inline as Base64 and shrunk to fit the order doc
+        try {
+          const asset = result.assets[0];
+          const photo = await compressPhoto(asset.uri, asset.width);
+
+          if (getInlinePhotosSize([...photos, photo]) > MAX_INLINE_PHOTO_BYTES) {
+            Alert.alert(t('orders.returns.limitReached'), t('orders.returns.photosTooLarge'));
+          } else {
+            setPhotos(prev => [...prev, photo]);
+          }
+        } catch (processError) {
+          console.error('Error compressing image:', processError);
+          Alert.alert(t('common.error'), t('common.imageProcessFailed'));
+        }
+
+        setImageLoading(false);
+      }
+    } catch (error) {
+      console.error('Error picking image:', error);
+      Alert.alert(t('common.error'), t('common.imagePickFailed'));
+      setImageLoading(false);
+    }
+  };
+
+  const removePhoto = (index: number) => {
+    setPhotos(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async () => {
+    if (!reason) {
+      Alert.alert(t('common.missingInfo'), t('orders.returns.chooseReason'));
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      await requestReturn(orderId, { reason, details: details.trim(), photos });
+      setSubmitting(false);
+
+      Alert.alert(
+        t('orders.returns.sentTitle'),
+        t('orders.returns.sentMessage'),
+        [{ text: t('common.ok'), onPress: () => navigation.goBack() }]
+      );
+    } catch (error: any) {
+      console.error('Error requesting return:', error);
+      setSubmitting(false);
+      Alert.alert(t('common.error'), error.message || t('orders.returns.sendFailed'));
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+    >
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('orders.returns.title')}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('orders.returns.whatWentWrong')}</Text>
+          {RETURN_REASONS.map(option => (
+            <TouchableOpacity
+              key={option.key}
+              style={[styles.optionRow, reason === option.key && styles.optionRowSelected]}
+              onPress={() => setReason(option.key)}
+            >
+              <Ionicons
+                name={reason === option.key ? 'radio-button-on' : 'radio-button-off'}
+                size={20}
+                color={colors.primary}
+              />
+              <Ionicons name={option.icon as any} size={20} color={colors.text} style={styles.optionIcon} />
+              <Text style={styles.optionLabel}>{t(`orders.returnReasons.${option.key}`)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('orders.returns.details')}</Text>
+          <TextInput
+            style={styles.input}
+            value={details}
+            onChangeText={setDetails}
+            placeholder={t('orders.returns.detailsPlaceholder')}
+            placeholderTextColor={colors.lightText}
+            multiline
+            numberOfLines={4}
+          />
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('orders.returns.photos')}</Text>
+          <View style={styles.photoRow}>
+            {photos.map((photo, index) => (
+              <View key={index} style={styles.photoContainer}>
+                <Image source={{ uri: photo }} style={styles.photo} />
+                <TouchableOpacity style={styles.removePhoto} onPress={() => removePhoto(index)}>
+                  <Ionicons name="close-circle" size={20} color={colors.error} />
+                </TouchableOpacity>
+              </View>
+            ))}
+            {photos.length < MAX_PHOTOS && (
+              <TouchableOpacity style={styles.addPhoto} onPress={pickPhoto} disabled={imageLoading}>
+                {imageLoading ? (
+                  <ActivityIndicator color={colors.primary} />
+                ) : (
+                  <Ionicons name="camera-outline" size={28} color={colors.lightText} />
+                )}
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
+        <Button
+          title={submitting ? t('orders.returns.sending') : t('orders.returns.send')}
+          onPress={handleSubmit}
+          loading={submitting}
+          disabled={submitting}
+          style={styles.submitButton}
+        />
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  headerTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContent: {
+    padding: spacing.md,
+  },
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    ...shadows.small,
+  },
+  cardTitle: {
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.lightGray,
+    marginBottom: spacing.sm,
+  },
+  optionRowSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.lightGray,
+  },
+  optionIcon: {
+    marginLeft: spacing.md,
+  },
+  optionLabel: {
+    fontSize: fontSizes.md,
+    color: colors.text,
+    marginLeft: spacing.sm,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: colors.gray,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    fontSize: fontSizes.md,
+    color: colors.text,
+    height: 100,
+    textAlignVertical: 'top',
+  },
+  photoRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  photoContainer: {
+    marginRight: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  photo: {
+    width: 80,
+    height: 80,
+    borderRadius: borderRadius.sm,
+  },
+  removePhoto: {
+    position: 'absolute',
+    top: -8,
+    right: -8,
+    backgroundColor: colors.white,
+    borderRadius: 10,
+  },
+  addPhoto: {
+    width: 80,
+    height: 80,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: colors.gray,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  submitButton: {
+    marginBottom: spacing.xl,
+  },
+});
+
+export default RequestReturnScreen;
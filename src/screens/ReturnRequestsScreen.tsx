@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList, Order } from '../types';
+import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
+import { Ionicons } from '@expo/vector-icons';
+import { RETURN_REASONS } from '../data';
+import { auth } from '../utilities/firebaseConfig';
+import { getSellerReturnRequests } from '../utilities/firestoreUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+
+type ReturnRequestsNavigationProp = NativeStackNavigationProp<RootStackParamList, 'ReturnRequests'>;
+
+const ReturnRequestsScreen = () => {
+  const navigation = useNavigation<ReturnRequestsNavigationProp>();
+  const { t } = useTranslation();
+  const { formatCurrency, formatDate } = useFormat();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadReturnRequests();
+    }, [])
+  );
+
+  const loadReturnRequests = async () => {
+    const sellerEmail = auth.currentUser?.email;
+    if (!sellerEmail) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const requests = await getSellerReturnRequests(sellerEmail);
+      setOrders(requests);
+    } catch (error) {
+      console.error('Error loading return requests:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderRequest = ({ item }: { item: Order }) => {
+    const reason = RETURN_REASONS.find(r => r.key === item.returnRequest?.reason);
+
+    return (
+      <TouchableOpacity
+        style={styles.requestCard}
+        onPress={() => navigation.navigate('OrderDetails', { orderId: item.id })}
+      >
+        <View style={styles.requestHeader}>
+          <Text style={styles.orderId}>{t('orders.orderNumber', { id: item.id.substring(0, 6) })}</Text>
+          <Text style={styles.requestDate}>
+            {item.returnRequest && formatDate(item.returnRequest.requestedAt)}
+          </Text>
+        </View>
+        <View style={styles.reasonRow}>
+          <Ionicons name={(reason?.icon || 'help-circle-outline') as any} size={18} color={colors.warning} />
+          <Text style={styles.reasonText}>{reason && t(`orders.returnReasons.${reason.key}`)}</Text>
+        </View>
+        {!!item.returnRequest?.details && (
+          <Text style={styles.detailsText} numberOfLines={2}>{item.returnRequest.details}</Text>
+        )}
+        <View style={styles.requestFooter}>
+          <Text style={styles.buyerText}>{item.userEmail}</Text>
+          <Text style={styles.amountText}>{formatCurrency(item.totalAmount)}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('orders.returns.requestsTitle')}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={orders}
+          renderItem={renderRequest}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="checkmark-done-outline" size={60} color={colors.gray} />
+              <Text style={styles.emptyText}>{t('orders.returns.noRequests')}</Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  headerTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: spacing.md,
+    flexGrow: 1,
+  },
+  requestCard: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    ...shadows.small,
+  },
+  requestHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.sm,
+  },
+  orderId: {
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  requestDate: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.xs,
+  },
+  reasonText: {
+    fontSize: fontSizes.md,
+    color: colors.text,
+    marginLeft: spacing.xs,
+  },
+  detailsText: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+    marginBottom: spacing.xs,
+  },
+  requestFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.sm,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+  },
+  buyerText: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+  },
+  amountText: {
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: fontSizes.md,
+    color: colors.lightText,
+    marginTop: spacing.md,
+  },
+});
+
+export default ReturnRequestsScreen;
@@ -0,0 +1,277 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList, Review } from '../types';
+import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
+import { Ionicons } from '@expo/vector-icons';
+import { getReviewsPendingModeration, moderateReview } from '../utilities/firestoreUtils';
+import RatingStars from '../components/RatingStars';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+
+type ReviewModerationNavigationProp = NativeStackNavigationProp<RootStackParamList, 'ReviewModeration'>;
+
+const ReviewModerationScreen = () => {
+  const navigation = useNavigation<ReviewModerationNavigationProp>();
+  const { t } = useTranslation();
+  const { formatDate } = useFormat();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const loadReviews = async () => {
+    try {
+      setLoading(true);
+      setReviews(await getReviewsPendingModeration());
+    } catch (error) {
+      Alert.alert(t('common.error'), t('reviews.moderation.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadReviews();
+    }, [])
+  );
+
+  const handleModerate = async (review: Review, approve: boolean) => {
+    try {
+      setUpdatingId(review.id);
+      await moderateReview(review.id, approve);
+      setReviews(current => current.filter(r => r.id !== review.id));
+    } catch (error) {
+      Alert.alert(t('common.error'), t('reviews.moderation.updateFailed'));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const renderReview = ({ item }: { item: Review }) => {
+    const updating = updatingId === item.id;
+
+    return (
+      <View style={styles.reviewCard}>
+        <View style={styles.reviewHeader}>
+          <Text style={styles.reviewUser}>{item.userName}</Text>
+          <Text style={styles.reviewDate}>{formatDate(item.date, 'medium')}</Text>
+        </View>
+        <Text style={styles.targetText} numberOfLines={1}>
+          {t('reviews.moderation.reviewOf', { target: t(`reviews.targets.${item.targetType}`), id: item.targetId })}
+        </Text>
+        <RatingStars rating={item.rating} size={12} />
+        {!!item.text && <Text style={styles.reviewText}>{item.text}</Text>}
+
+        <View style={styles.flagsRow}>
+          {(item.flags || []).map(flag => (
+            <View key={flag} style={styles.flagBadge}>
+              <Text style={styles.flagText}>{t(`reviews.flags.${flag}`)}</Text>
+            </View>
+          ))}
+          {!!item.reportCount && (
+            <Text style={styles.reportCountText}>
+              {t('reviews.moderation.reportCount', { count: item.reportCount })}
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.actionsRow}>
+          {updating && <ActivityIndicator size="small" color={colors.primary} />}
+          <TouchableOpacity
+            style={[styles.actionButton, styles.removeButton]}
+            onPress={() => handleModerate(item, false)}
+            disabled={updating}
+          >
+            <Text style={styles.removeButtonText}>{t('common.remove')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.approveButton]}
+            onPress={() => handleModerate(item, true)}
+            disabled={updating}
+          >
+            <Text style={styles.approveButtonText}>{t('reviews.moderation.publish')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('reviews.moderation.title')}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      {loading && reviews.length === 0 ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={reviews}
+          renderItem={renderReview}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          refreshing={loading}
+          onRefresh={loadReviews}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="shield-checkmark-outline" size={60} color={colors.gray} />
+              <Text style={styles.emptyText}>{t('reviews.moderation.empty')}</Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  headerTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: spacing.md,
+    flexGrow: 1,
+  },
+  reviewCard: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    ...shadows.small,
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  reviewUser: {
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  reviewDate: {
+    fontSize: fontSizes.xs,
+    color: colors.lightText,
+  },
+  targetText: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+    marginBottom: spacing.xs,
+  },
+  reviewText: {
+    fontSize: fontSizes.sm,
+    color: colors.text,
+    marginTop: spacing.xs,
+  },
+  flagsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  flagBadge: {
+    backgroundColor: colors.error,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.sm,
+    marginRight: spacing.xs,
+    marginBottom: spacing.xs,
+  },
+  flagText: {
+    color: colors.white,
+    fontSize: fontSizes.xs,
+    fontWeight: 'bold',
+  },
+  reportCountText: {
+    fontSize: fontSizes.xs,
+    color: colors.lightText,
+    marginBottom: spacing.xs,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.lightGray,
+  },
+  actionButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.md,
+    marginLeft: spacing.sm,
+  },
+  removeButton: {
+    borderWidth: 1,
+    borderColor: colors.error,
+  },
+  removeButtonText: {
+    color: colors.error,
+    fontWeight: 'bold',
+  },
+  approveButton: {
+    backgroundColor: colors.primary,
+  },
+  approveButtonText: {
+    color: colors.white,
+    fontWeight: 'bold',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+  },
+  emptyText: {
+    fontSize: fontSizes.md,
+    color: colors.lightText,
+    marginTop: spacing.md,
+  },
+});
+
+export default ReviewModerationScreen;
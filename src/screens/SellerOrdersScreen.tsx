@@ -0,0 +1,417 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Image,
+  Alert,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList, SellerOrder, SellerOrderLine } from '../types';
+import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
+import { Ionicons } from '@expo/vector-icons';
+import { DELIVERY_WINDOWS } from '../data';
+import { auth } from '../utilities/firebaseConfig';
+import { getSellerOrders, updateSellerOrderLineStatus } from '../utilities/firestoreUtils';
+import { getNextFulfilmentStatus } from '../utilities/orderStatus';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
+
+type SellerOrdersNavigationProp = NativeStackNavigationProp<RootStackParamList, 'SellerOrders'>;
+
+type FilterStatus = 'all' | SellerOrder['status'];
+
+const FILTERS: FilterStatus[] = ['all', 'pending', 'packed', 'shipped', 'cancelled'];
+
+const SellerOrdersScreen = () => {
+  const navigation = useNavigation<SellerOrdersNavigationProp>();
+  const { t } = useTranslation();
+  const { formatCurrency, formatDate } = useFormat();
+  const [sellerOrders, setSellerOrders] = useState<SellerOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeFilter, setActiveFilter] = useState<FilterStatus>('all');
+  const [updatingLine, setUpdatingLine] = useState<string | null>(null);
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadSellerOrders();
+    }, [])
+  );
+
+  const loadSellerOrders = async () => {
+    const sellerEmail = auth.currentUser?.email;
+    if (!sellerEmail) {
+      setLoading(false);
+      Alert.alert(t('common.error'), t('orders.seller.signInRequired'));
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const orders = await getSellerOrders(sellerEmail);
+      setSellerOrders(orders);
+    } catch (error) {
+      console.error('Error loading seller orders:', error);
+      Alert.alert(t('common.error'), t('orders.list.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdvanceLine = async (sellerOrder: SellerOrder, line: SellerOrderLine) => {
+    const nextStatus = getNextFulfilmentStatus(line.fulfilmentStatus);
+    if (!nextStatus) return;
+
+    const lineKey = `${sellerOrder.id}-${line.id}`;
+    try {
+      setUpdatingLine(lineKey);
+      await updateSellerOrderLineStatus(sellerOrder.id, line.id, nextStatus);
+      await loadSellerOrders();
+    } catch (error: any) {
+      console.error('Error updating order line:', error);
+      Alert.alert(t('common.error'), error.message || t('orders.seller.updateFailed'));
+    } finally {
+      setUpdatingLine(null);
+    }
+  };
+
+  const getStatusColor = (status: SellerOrder['status']) => {
+    switch (status) {
+      case 'pending':
+        return colors.warning;
+      case 'packed':
+        return colors.info;
+      case 'shipped':
+        return colors.success;
+      case 'cancelled':
+        return colors.error;
+      default:
+        return colors.lightText;
+    }
+  };
+
+  const renderLine = (sellerOrder: SellerOrder, line: SellerOrderLine) => {
+    const nextStatus = getNextFulfilmentStatus(line.fulfilmentStatus);
+    const lineKey = `${sellerOrder.id}-${line.id}`;
+
+    return (
+      <View key={line.id} style={styles.productItem}>
+        <Image
+          source={{ uri: line.image }}
+          style={styles.productImage}
+          defaultSource={{ uri: 'https://placehold.co/150x150/png' }}
+        />
+        <View style={styles.productInfo}>
+          <Text style={styles.productName}>{line.name}</Text>
+          <Text style={styles.productQuantity}>
+            {t('orders.quantity', { count: line.quantity })} · {t(`orders.fulfilment.${line.fulfilmentStatus}`)}
+          </Text>
+        </View>
+        {sellerOrder.status !== 'cancelled' && nextStatus && (
+          <TouchableOpacity
+            style={styles.lineButton}
+            onPress={() => handleAdvanceLine(sellerOrder, line)}
+            disabled={updatingLine !== null}
+          >
+            {updatingLine === lineKey ? (
+              <ActivityIndicator size="small" color={colors.white} />
+            ) : (
+              <Text style={styles.lineButtonText}>
+                {t('orders.seller.markAs', { status: t(`orders.fulfilment.${nextStatus}`) })}
+              </Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderSellerOrder = ({ item }: { item: SellerOrder }) => {
+    const deliveryWindow = DELIVERY_WINDOWS.find(w => w.key === item.deliverySlot?.window);
+
+    return (
+      <View style={styles.orderCard}>
+        <View style={styles.orderHeader}>
+          <View>
+            <Text style={styles.orderDate}>{formatDate(item.createdAt)}</Text>
+            <Text style={styles.orderId}>{t('orders.orderNumber', { id: item.orderId.substring(0, 6) })}</Text>
+          </View>
+          <View style={[styles.statusBadge, { backgroundColor: getStatusColor(item.status) }]}>
+            <Text style={styles.statusText}>{t(`orders.sellerStatus.${item.status}`)}</Text>
+          </View>
+        </View>
+
+        <View style={styles.deliveryInfo}>
+          <Text style={styles.deliveryText}>{item.buyerEmail}</Text>
+          {!!item.deliveryAddress && <Text style={styles.deliveryText}>{item.deliveryAddress}</Text>}
+          {!!item.contactPhone && <Text style={styles.deliveryText}>{item.contactPhone}</Text>}
+          {item.deliverySlot && deliveryWindow && (
+            <Text style={styles.deliveryText}>
+              {t('orders.seller.deliver', {
+                date: formatDate(item.deliverySlot.date),
+                window: t(`orders.deliveryWindows.${deliveryWindow.key}`),
+              })}
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.productsList}>
+          {item.products.map(line => renderLine(item, line))}
+        </View>
+
+        <View style={styles.orderFooter}>
+          <Text style={styles.totalText}>{t('orders.seller.yourItems')}</Text>
+          <Text style={styles.totalAmount}>{formatCurrency(item.subtotal)}</Text>
+        </View>
+      </View>
+    );
+  };
+
+  const filteredOrders = activeFilter === 'all'
+    ? sellerOrders
+    : sellerOrders.filter(order => order.status === activeFilter);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('orders.seller.title')}</Text>
+        <TouchableOpacity style={styles.backButton} onPress={loadSellerOrders}>
+          <Ionicons name="refresh" size={24} color={colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      <View>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filtersContainer}
+        >
+          {FILTERS.map(filter => (
+            <TouchableOpacity
+              key={filter}
+              style={[styles.filterTab, activeFilter === filter && styles.activeFilterTab]}
+              onPress={() => setActiveFilter(filter)}
+            >
+              <Text style={[styles.filterText, activeFilter === filter && styles.activeFilterText]}>
+                {filter === 'all' ? t('common.all') : t(`orders.sellerStatus.${filter}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+          <Text style={styles.loadingText}>{t('orders.list.loading')}</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={filteredOrders}
+          renderItem={renderSellerOrder}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.ordersList}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="storefront-outline" size={60} color={colors.gray} />
+              <Text style={styles.emptyText}>{t('orders.seller.empty')}</Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.lg,
+    backgroundColor: colors.white,
+    ...shadows.small,
+  },
+  headerTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  filtersContainer: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+  },
+  filterTab: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.lg,
+    marginRight: spacing.sm,
+    backgroundColor: colors.lightGray,
+  },
+  activeFilterTab: {
+    backgroundColor: colors.primary,
+  },
+  filterText: {
+    fontSize: fontSizes.sm,
+    color: colors.text,
+  },
+  activeFilterText: {
+    color: colors.white,
+    fontWeight: 'bold',
+  },
+  ordersList: {
+    padding: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+  orderCard: {
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.md,
+    overflow: 'hidden',
+    ...shadows.small,
+  },
+  orderHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  orderDate: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+    marginBottom: spacing.xs,
+  },
+  orderId: {
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  statusBadge: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs / 2,
+    borderRadius: borderRadius.sm,
+  },
+  statusText: {
+    fontSize: fontSizes.xs,
+    fontWeight: 'bold',
+    color: colors.white,
+    textTransform: 'capitalize',
+  },
+  deliveryInfo: {
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.sm,
+  },
+  deliveryText: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+    marginBottom: spacing.xs / 2,
+  },
+  productsList: {
+    padding: spacing.md,
+  },
+  productItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+    paddingBottom: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  productImage: {
+    width: 50,
+    height: 50,
+    borderRadius: borderRadius.sm,
+    marginRight: spacing.sm,
+  },
+  productInfo: {
+    flex: 1,
+  },
+  productName: {
+    fontSize: fontSizes.md,
+    fontWeight: '500',
+    color: colors.text,
+    marginBottom: spacing.xs / 2,
+  },
+  productQuantity: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+  },
+  lineButton: {
+    backgroundColor: colors.primary,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.sm,
+    minWidth: 100,
+    alignItems: 'center',
+  },
+  lineButtonText: {
+    color: colors.white,
+    fontSize: fontSizes.sm,
+    fontWeight: 'bold',
+    textTransform: 'capitalize',
+  },
+  orderFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: colors.background,
+    padding: spacing.md,
+  },
+  totalText: {
+    fontSize: fontSizes.md,
+    color: colors.text,
+  },
+  totalAmount: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.primary,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: spacing.md,
+    fontSize: fontSizes.md,
+    color: colors.text,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.xl,
+    minHeight: 300,
+  },
+  emptyText: {
+    fontSize: fontSizes.lg,
+    color: colors.lightText,
+    marginVertical: spacing.md,
+    textAlign: 'center',
+  },
+});
+
+export default SellerOrdersScreen;
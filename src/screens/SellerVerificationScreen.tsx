@@ -0,0 +1,281 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RootStackParamList, User } from '../types';
+import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
+import { Ionicons } from '@expo/vector-icons';
+import { getSellerAccounts, setSellerVerified } from '../utilities/firestoreUtils';
+import { getUserRoles } from '../utilities/roleUtils';
+import { useTranslation } from '../hooks/useTranslation';
+
+type SellerVerificationNavigationProp = NativeStackNavigationProp<RootStackParamList, 'SellerVerification'>;
+
+const SellerVerificationScreen = () => {
+  const navigation = useNavigation<SellerVerificationNavigationProp>();
+  const { t } = useTranslation();
+  const [sellers, setSellers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const loadSellers = async () => {
+    try {
+      setLoading(true);
+      setSellers(await getSellerAccounts());
+    } catch (error) {
+      Alert.alert(t('common.error'), t('sellerVerification.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSellers();
+    }, [])
+  );
+
+  const handleToggleVerified = async (seller: User) => {
+    const verified = !seller.verifiedSeller;
+    try {
+      setUpdatingId(seller.id);
+      await setSellerVerified(seller.id, verified);
+      setSellers(current => current.map(s => (s.id === seller.id ? { ...s, verifiedSeller: verified } : s)));
+    } catch (error) {
+      Alert.alert(t('common.error'), t('sellerVerification.updateFailed'));
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const confirmToggle = (seller: User) => {
+    if (!seller.verifiedSeller) {
+      handleToggleVerified(seller);
+      return;
+    }
+    Alert.alert(
+      t('sellerVerification.removeTitle'),
+      t('sellerVerification.removeConfirm', { name: seller.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('common.remove'), style: 'destructive', onPress: () => handleToggleVerified(seller) },
+      ]
+    );
+  };
+
+  const search = searchQuery.trim().toLowerCase();
+  const filteredSellers = search
+    ? sellers.filter(s => s.name.toLowerCase().includes(search) || s.email.toLowerCase().includes(search))
+    : sellers;
+
+  const renderSeller = ({ item }: { item: User }) => {
+    const updating = updatingId === item.id;
+
+    return (
+      <View style={styles.sellerCard}>
+        <View style={styles.sellerInfo}>
+          <View style={styles.nameRow}>
+            <Text style={styles.sellerName}>{item.name}</Text>
+            {item.verifiedSeller && (
+              <Ionicons name="checkmark-circle" size={16} color={colors.primary} style={styles.verifiedIcon} />
+            )}
+          </View>
+          <Text style={styles.sellerDetails}>{item.email}</Text>
+          {!!item.district && <Text style={styles.sellerDetails}>{item.district}</Text>}
+          <Text style={styles.sellerRoles}>
+            {getUserRoles(item).map(role => t(`roles.${role}.label`)).join(', ')}
+          </Text>
+        </View>
+
+        {updating ? (
+          <ActivityIndicator size="small" color={colors.primary} />
+        ) : (
+          <TouchableOpacity
+            style={[styles.actionButton, item.verifiedSeller ? styles.revokeButton : styles.verifyButton]}
+            onPress={() => confirmToggle(item)}
+          >
+            <Text style={item.verifiedSeller ? styles.revokeButtonText : styles.verifyButtonText}>
+              {item.verifiedSeller ? t('sellerVerification.revoke') : t('sellerVerification.verify')}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('sellerVerification.title')}</Text>
+        <View style={styles.backButton} />
+      </View>
+
+      <View style={styles.searchContainer}>
+        <Ionicons name="search" size={20} color={colors.lightText} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder={t('sellerVerification.searchPlaceholder')}
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+          autoCapitalize="none"
+        />
+      </View>
+
+      {loading && sellers.length === 0 ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <FlatList
+          data={filteredSellers}
+          renderItem={renderSeller}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.listContent}
+          refreshing={loading}
+          onRefresh={loadSellers}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="people-outline" size={60} color={colors.gray} />
+              <Text style={styles.emptyText}>{t('sellerVerification.empty')}</Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    paddingTop: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    backgroundColor: colors.white,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.lightGray,
+  },
+  headerTitle: {
+    fontSize: fontSizes.lg,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.white,
+    margin: spacing.md,
+    marginBottom: 0,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.md,
+    ...shadows.small,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: spacing.sm,
+    marginLeft: spacing.sm,
+    fontSize: fontSizes.md,
+    color: colors.text,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: spacing.md,
+    flexGrow: 1,
+  },
+  sellerCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    ...shadows.small,
+  },
+  sellerInfo: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sellerName: {
+    fontSize: fontSizes.md,
+    fontWeight: 'bold',
+    color: colors.text,
+  },
+  verifiedIcon: {
+    marginLeft: spacing.xs,
+  },
+  sellerDetails: {
+    fontSize: fontSizes.sm,
+    color: colors.lightText,
+  },
+  sellerRoles: {
+    fontSize: fontSizes.xs,
+    color: colors.primary,
+    marginTop: spacing.xs,
+  },
+  actionButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.md,
+  },
+  verifyButton: {
+    backgroundColor: colors.primary,
+  },
+  verifyButtonText: {
+    color: colors.white,
+    fontWeight: 'bold',
+  },
+  revokeButton: {
+    borderWidth: 1,
+    borderColor: colors.error,
+  },
+  revokeButtonText: {
+    color: colors.error,
+    fontWeight: 'bold',
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+  },
+  emptyText: {
+    fontSize: fontSizes.md,
+    color: colors.lightText,
+    marginTop: spacing.md,
+  },
+});
+
+export default SellerVerificationScreen;
@@ -14,24 +14,17 @@ import { RootStackParamList } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import { Ionicons } from '@expo/vector-icons';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { auth } from '../utilities/firebaseConfig';
+import { saveNotificationPreferences } from '../utilities/firestoreUtils';
+import { SETTINGS_KEYS, getNotificationPreferences } from '../utilities/settingsUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { LOCALES, LOCALE_NAMES, Locale, translate } from '../utilities/i18n';
 
 type SettingsScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Settings'>;
 
-const SETTINGS_KEYS = {
-  LANGUAGE: 'settings_language',
-  NOTIFICATIONS: 'settings_notifications',
-  MARKET_ALERTS: 'settings_market_alerts',
-  WEATHER_ALERTS: 'settings_weather_alerts',
-  DARK_MODE: 'settings_dark_mode',
-  LOCATION_SERVICES: 'settings_location_services',
-  DATA_SAVER: 'settings_data_saver',
-};
-
 const SettingsScreen = () => {
   const navigation = useNavigation<SettingsScreenNavigationProp>();
-  
-  // Language settings
-  const [language, setLanguage] = useState('English');
+  const { t, locale, setLocale } = useTranslation();
   
   // Notification settings
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
@@ -49,19 +42,12 @@ const SettingsScreen = () => {
 
   const loadSettings = async () => {
     try {
-      // Load language setting
-      const savedLanguage = await AsyncStorage.getItem(SETTINGS_KEYS.LANGUAGE);
-      if (savedLanguage) setLanguage(savedLanguage);
-      
       // Load notification settings
-      const notificationsValue = await AsyncStorage.getItem(SETTINGS_KEYS.NOTIFICATIONS);
-      setNotificationsEnabled(notificationsValue === 'true');
+      const notificationPreferences = await getNotificationPreferences();
+      setNotificationsEnabled(notificationPreferences.notifications);
+      setMarketAlertsEnabled(notificationPreferences.marketAlerts);
       
-      const marketAlertsValue = await AsyncStorage.getItem(SETTINGS_KEYS.MARKET_ALERTS);
-      setMarketAlertsEnabled(marketAlertsValue === 'true');
-      
-      const weatherAlertsValue = await AsyncStorage.getItem(SETTINGS_KEYS.WEATHER_ALERTS);
-      setWeatherAlertsEnabled(weatherAlertsValue === 'true');
+      setWeatherAlertsEnabled(notificationPreferences.weatherAlerts);
       
       // Load app preferences
       const darkModeValue = await AsyncStorage.getItem(SETTINGS_KEYS.DARK_MODE);
@@ -85,10 +71,26 @@ const SettingsScreen = () => {
     }
   };
 
-  const handleLanguageSelect = (value: string) => {
-    setLanguage(value);
-    saveSettings(SETTINGS_KEYS.LANGUAGE, value);
-    Alert.alert('Language Changed', `Language has been changed to ${value}`);
+  // Notifications are sent by other users' actions, so the toggles that control them are also saved to the account
+  const syncNotificationPreferences = async (notifications: boolean, marketAlerts: boolean, weatherAlerts: boolean) => {
+    const email = auth.currentUser?.email;
+    if (!email) return;
+    
+    try {
+      await saveNotificationPreferences(email, { notifications, marketAlerts, weatherAlerts });
+    } catch (error) {
+      console.error('Error syncing notification preferences:', error);
+    }
+  };
+
+  // The whole app switches language straight away; the choice is saved for next time
+  const handleLanguageSelect = async (value: Locale) => {
+    if (value === locale) return;
+    await setLocale(value);
+    Alert.alert(
+      translate(value, 'settings.languageChanged'),
+      translate(value, 'settings.languageChangedMessage', { language: LOCALE_NAMES[value] })
+    );
   };
   
   const toggleNotifications = (value: boolean) => {
@@ -102,22 +104,25 @@ const SettingsScreen = () => {
       saveSettings(SETTINGS_KEYS.MARKET_ALERTS, 'false');
       saveSettings(SETTINGS_KEYS.WEATHER_ALERTS, 'false');
     }
+    syncNotificationPreferences(value, value && marketAlertsEnabled, value && weatherAlertsEnabled);
   };
   
   const toggleMarketAlerts = (value: boolean) => {
     setMarketAlertsEnabled(value);
     saveSettings(SETTINGS_KEYS.MARKET_ALERTS, value.toString());
+    syncNotificationPreferences(notificationsEnabled, value, weatherAlertsEnabled);
   };
   
   const toggleWeatherAlerts = (value: boolean) => {
     setWeatherAlertsEnabled(value);
     saveSettings(SETTINGS_KEYS.WEATHER_ALERTS, value.toString());
+    syncNotificationPreferences(notificationsEnabled, marketAlertsEnabled, value);
   };
   
   const toggleDarkMode = (value: boolean) => {
     setDarkModeEnabled(value);
     saveSettings(SETTINGS_KEYS.DARK_MODE, value.toString());
-    Alert.alert('Coming Soon', 'Dark mode will be available in the next update!');
+    Alert.alert(t('common.comingSoon'), t('settings.darkModeComingSoon'));
   };
   
   const toggleLocationServices = (value: boolean) => {
@@ -132,18 +137,18 @@ const SettingsScreen = () => {
 
   const handleClearCache = () => {
     Alert.alert(
-      'Clear Cache',
-      'Are you sure you want to clear the app cache? This will not affect your personal data.',
+      t('settings.clearCache'),
+      t('settings.clearCacheConfirm'),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Clear',
+          text: t('settings.clear'),
           onPress: () => {
             // Add cache clearing logic here
-            Alert.alert('Cache Cleared', 'App cache has been successfully cleared.');
+            Alert.alert(t('settings.cacheCleared'), t('settings.cacheClearedMessage'));
           },
           style: 'destructive',
         },
@@ -160,30 +165,30 @@ const SettingsScreen = () => {
         >
           <Ionicons name="arrow-back" size={24} color={colors.text} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Settings</Text>
+        <Text style={styles.headerTitle}>{t('settings.title')}</Text>
         <View style={styles.placeholderView} />
       </View>
       
       {/* Language Settings */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Language</Text>
+        <Text style={styles.sectionTitle}>{t('settings.language')}</Text>
         <View style={styles.optionsContainer}>
-          {['English', 'සිංහල', 'தமிழ்'].map((lang) => (
+          {LOCALES.map((lang) => (
             <TouchableOpacity
               key={lang}
               style={[
                 styles.languageOption,
-                language === lang && styles.selectedLanguageOption,
+                locale === lang && styles.selectedLanguageOption,
               ]}
               onPress={() => handleLanguageSelect(lang)}
             >
               <Text
                 style={[
                   styles.languageText,
-                  language === lang && styles.selectedLanguageText,
+                  locale === lang && styles.selectedLanguageText,
                 ]}
               >
-                {lang}
+                {LOCALE_NAMES[lang]}
               </Text>
             </TouchableOpacity>
           ))}
@@ -192,9 +197,9 @@ const SettingsScreen = () => {
       
       {/* Notification Settings */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Notifications</Text>
+        <Text style={styles.sectionTitle}>{t('settings.notifications')}</Text>
         <View style={styles.settingItem}>
-          <Text style={styles.settingText}>Enable Notifications</Text>
+          <Text style={styles.settingText}>{t('settings.enableNotifications')}</Text>
           <Switch
             trackColor={{ false: colors.lightGray, true: colors.lightGray }}
             thumbColor={notificationsEnabled ? colors.primary : colors.gray}
@@ -204,7 +209,7 @@ const SettingsScreen = () => {
         </View>
         
         <View style={[styles.settingItem, !notificationsEnabled && styles.disabledSetting]}>
-          <Text style={styles.settingText}>Market Price Alerts</Text>
+          <Text style={styles.settingText}>{t('settings.marketAlerts')}</Text>
           <Switch
             trackColor={{ false: colors.lightGray, true: colors.lightGray }}
             thumbColor={marketAlertsEnabled ? colors.primary : colors.gray}
@@ -215,7 +220,7 @@ const SettingsScreen = () => {
         </View>
         
         <View style={[styles.settingItem, !notificationsEnabled && styles.disabledSetting]}>
-          <Text style={styles.settingText}>Weather Alerts</Text>
+          <Text style={styles.settingText}>{t('settings.weatherAlerts')}</Text>
           <Switch
             trackColor={{ false: colors.lightGray, true: colors.lightGray }}
             thumbColor={weatherAlertsEnabled ? colors.primary : colors.gray}
@@ -228,9 +233,9 @@ const SettingsScreen = () => {
       
       {/* App Preferences */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>App Preferences</Text>
+        <Text style={styles.sectionTitle}>{t('settings.appPreferences')}</Text>
         <View style={styles.settingItem}>
-          <Text style={styles.settingText}>Dark Mode</Text>
+          <Text style={styles.settingText}>{t('settings.darkMode')}</Text>
           <Switch
             trackColor={{ false: colors.lightGray, true: colors.lightGray }}
             thumbColor={darkModeEnabled ? colors.primary : colors.gray}
@@ -240,7 +245,7 @@ const SettingsScreen = () => {
         </View>
         
         <View style={styles.settingItem}>
-          <Text style={styles.settingText}>Location Services</Text>
+          <Text style={styles.settingText}>{t('settings.locationServices')}</Text>
           <Switch
             trackColor={{ false: colors.lightGray, true: colors.lightGray }}
             thumbColor={locationServicesEnabled ? colors.primary : colors.gray}
@@ -250,7 +255,7 @@ const SettingsScreen = () => {
         </View>
         
         <View style={styles.settingItem}>
-          <Text style={styles.settingText}>Data Saver Mode</Text>
+          <Text style={styles.settingText}>{t('settings.dataSaver')}</Text>
           <Switch
             trackColor={{ false: colors.lightGray, true: colors.lightGray }}
             thumbColor={dataSaverEnabled ? colors.primary : colors.gray}
@@ -262,21 +267,21 @@ const SettingsScreen = () => {
       
       {/* Storage and Data */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Storage and Data</Text>
+        <Text style={styles.sectionTitle}>{t('settings.storage')}</Text>
         <TouchableOpacity style={styles.actionButton} onPress={handleClearCache}>
-          <Text style={styles.actionButtonText}>Clear Cache</Text>
+          <Text style={styles.actionButtonText}>{t('settings.clearCache')}</Text>
         </TouchableOpacity>
       </View>
       
       {/* App Information */}
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>About</Text>
+        <Text style={styles.sectionTitle}>{t('settings.about')}</Text>
         <View style={styles.infoItem}>
-          <Text style={styles.infoLabel}>App Version</Text>
+          <Text style={styles.infoLabel}>{t('settings.appVersion')}</Text>
           <Text style={styles.infoValue}>1.0.0</Text>
         </View>
         <View style={styles.infoItem}>
-          <Text style={styles.infoLabel}>Build Number</Text>
+          <Text style={styles.infoLabel}>{t('settings.buildNumber')}</Text>
           <Text style={styles.infoValue}>100</Text>
         </View>
       </View>
@@ -9,14 +9,20 @@ import {
   FlatList,
   Linking,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList, Shop, Product } from '../types';
 import { colors, fontSizes, spacing, borderRadius, shadows } from '../theme';
 import { Ionicons } from '@expo/vector-icons';
-import { getShopById, getShopProducts } from '../utilities/firestoreUtils';
-import { formatCurrency, truncateText } from '../utils';
+import { getShopById, getShopProducts, startConversation } from '../utilities/firestoreUtils';
+import { auth } from '../utilities/firebaseConfig';
+import { truncateText } from '../utils';
+import RatingStars from '../components/RatingStars';
+import ReviewsSection from '../components/ReviewsSection';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
 
 type ShopDetailsRouteProp = RouteProp<RootStackParamList, 'ShopDetails'>;
 type ShopDetailsNavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -26,6 +32,8 @@ const PLACEHOLDER_IMAGE = 'https://st4.depositphotos.com/14953852/24787/v/450/de
 const ShopDetails = () => {
   const navigation = useNavigation<ShopDetailsNavigationProp>();
   const route = useRoute<ShopDetailsRouteProp>();
+  const { t } = useTranslation();
+  const { formatCurrency } = useFormat();
   const { shopId } = route.params;
   
   const [shop, setShop] = useState<Shop | null>(null);
@@ -54,6 +62,13 @@ const ShopDetails = () => {
     }
   };
 
+  const refreshRating = async () => {
+    const updated = await getShopById(shopId);
+    if (updated) {
+      setShop(updated);
+    }
+  };
+
   const handleProductPress = (productId: string) => {
     navigation.navigate('ProductDetails', { productId });
   };
@@ -66,6 +81,28 @@ const ShopDetails = () => {
     Linking.openURL(`whatsapp://send?phone=${phone.replace(/\s+/g, '')}`);
   };
 
+  const handleMessage = async () => {
+    const email = auth.currentUser?.email;
+    if (!email) {
+      Alert.alert(t('common.loginRequired'), t('shops.loginToMessage'));
+      return;
+    }
+    if (!shop) return;
+
+    try {
+      const conversationId = await startConversation({
+        subjectType: 'shop',
+        subjectId: shop.id,
+        subjectTitle: shop.name,
+        buyerEmail: email,
+        sellerEmail: shop.owner,
+      });
+      navigation.navigate('Chat', { conversationId });
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error.message || t('shops.conversationFailed'));
+    }
+  };
+
   const handleMapPress = () => {
     if (shop?.location) {
       const { latitude, longitude } = shop.location;
@@ -104,7 +141,7 @@ const ShopDetails = () => {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary} />
-        <Text style={styles.loadingText}>Loading shop details...</Text>
+        <Text style={styles.loadingText}>{t('shops.loadingShop')}</Text>
       </View>
     );
   }
@@ -112,12 +149,12 @@ const ShopDetails = () => {
   if (!shop) {
     return (
       <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>Shop not found</Text>
+        <Text style={styles.errorText}>{t('shops.notFound')}</Text>
         <TouchableOpacity 
           style={styles.backButton}
           onPress={() => navigation.goBack()}
         >
-          <Text style={styles.backButtonText}>Go Back</Text>
+          <Text style={styles.backButtonText}>{t('common.goBack')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -141,10 +178,13 @@ const ShopDetails = () => {
 
       <View style={styles.detailsContainer}>
         <Text style={styles.shopName}>{shop.name}</Text>
+        <View style={styles.ratingContainer}>
+          <RatingStars rating={shop.rating || 0} reviewCount={shop.reviewCount || 0} />
+        </View>
         <Text style={styles.shopDescription}>{shop.description}</Text>
 
         <View style={styles.contactSection}>
-          <Text style={styles.sectionTitle}>Contact Information</Text>
+          <Text style={styles.sectionTitle}>{t('shops.contactInfo')}</Text>
           
           <View style={styles.contactItem}>
             <Ionicons name="person" size={18} color={colors.primary} />
@@ -156,7 +196,7 @@ const ShopDetails = () => {
             <Text style={styles.contactText}>{shop.address}</Text>
             {shop.location && (
               <TouchableOpacity onPress={handleMapPress}>
-                <Text style={styles.viewMapText}>View on Map</Text>
+                <Text style={styles.viewMapText}>{t('shops.viewOnMap')}</Text>
               </TouchableOpacity>
             )}
           </View>
@@ -167,7 +207,7 @@ const ShopDetails = () => {
               onPress={() => handleCall(shop.phone)}
             >
               <Ionicons name="call" size={18} color={colors.white} />
-              <Text style={styles.contactButtonText}>Call</Text>
+              <Text style={styles.contactButtonText}>{t('shops.call')}</Text>
             </TouchableOpacity>
             
             <TouchableOpacity 
@@ -175,13 +215,21 @@ const ShopDetails = () => {
               onPress={() => handleWhatsApp(shop.whatsapp || shop.phone)}
             >
               <Ionicons name="logo-whatsapp" size={18} color={colors.white} />
-              <Text style={styles.contactButtonText}>WhatsApp</Text>
+              <Text style={styles.contactButtonText}>{t('shops.whatsapp')}</Text>
             </TouchableOpacity>
           </View>
+
+          {/* Shops added in the app record their owner's email; older ones only have a name */}
+          {shop.owner.includes('@') && shop.owner !== auth.currentUser?.email && (
+            <TouchableOpacity style={styles.messageButton} onPress={handleMessage}>
+              <Ionicons name="chatbubbles-outline" size={18} color={colors.primary} />
+              <Text style={styles.messageButtonText}>{t('shops.messageShop')}</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         <View style={styles.productsSection}>
-          <Text style={styles.sectionTitle}>Shop Products</Text>
+          <Text style={styles.sectionTitle}>{t('shops.shopProducts')}</Text>
           
           {products.length > 0 ? (
             <FlatList
@@ -194,10 +242,20 @@ const ShopDetails = () => {
             />
           ) : (
             <View style={styles.emptyProductsContainer}>
-              <Text style={styles.emptyText}>No products available</Text>
+              <Text style={styles.emptyText}>{t('common.noProducts')}</Text>
             </View>
           )}
         </View>
+
+        <ReviewsSection
+          targetType="shop"
+          targetId={shop.id}
+          targetName={shop.name}
+          rating={shop.rating || 0}
+          reviewCount={shop.reviewCount || 0}
+          onReviewAdded={refreshRating}
+          style={styles.reviewsSection}
+        />
       </View>
     </ScrollView>
   );
@@ -276,6 +334,9 @@ const styles = StyleSheet.create({
     color: colors.text,
     marginBottom: spacing.sm,
   },
+  ratingContainer: {
+    marginBottom: spacing.sm,
+  },
   shopDescription: {
     fontSize: fontSizes.md,
     color: colors.lightText,
@@ -334,9 +395,28 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginLeft: spacing.xs,
   },
+  messageButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  messageButtonText: {
+    color: colors.primary,
+    fontSize: fontSizes.md,
+    fontWeight: '600',
+    marginLeft: spacing.xs,
+  },
   productsSection: {
     marginBottom: spacing.lg,
   },
+  reviewsSection: {
+    marginBottom: spacing.lg,
+  },
   productsList: {
     paddingRight: spacing.sm,
   },
@@ -18,6 +18,11 @@ import { Ionicons } from '@expo/vector-icons';
 import { getShopsByCategory, getCategoryById } from '../utilities/firestoreUtils';
 import { collection, query, where, getDocs, orderBy, limit } from 'firebase/firestore';
 import { db } from '../utilities/firebaseConfig';
+import RatingStars from '../components/RatingStars';
+import { useCurrentUser } from '../hooks/useCurrentUser';
+import { canSellProducts } from '../utilities/roleUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
 
 type ShopsListRouteProp = RouteProp<RootStackParamList, 'ShopsList'>;
 type ShopsListNavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -32,15 +37,21 @@ type Section = {
   shopDescription: string;
   shopAddress: string;
   shopPhone: string;
+  shopRating?: number; // Only shops stored in the database have reviews
+  shopReviewCount?: number;
   data: Product[];
 };
 
 const ShopsList = () => {
   const navigation = useNavigation<ShopsListNavigationProp>();
   const route = useRoute<ShopsListRouteProp>();
+  const { t, locale } = useTranslation();
+  const { formatCurrency, formatNumber } = useFormat();
   const { categoryId } = route.params;
   
   const [shops, setShops] = useState<Shop[]>([]);
+  const { user } = useCurrentUser();
+  const canAddProduct = !!user && canSellProducts(user);
   const [products, setProducts] = useState<Product[]>([]);
   const [sections, setSections] = useState<Section[]>([]);
   const [categoryName, setCategoryName] = useState('');
@@ -196,6 +207,8 @@ const ShopsList = () => {
               categoryId: data.categoryId || catId,
               owner: data.owner || '',
               whatsapp: data.whatsapp || '',
+              rating: data.rating || 0,
+              reviewCount: data.reviewCount || 0,
               // Map other Shop fields as needed
             } as Shop);
           } catch (docError) {
@@ -252,7 +265,7 @@ const ShopsList = () => {
       console.log("ShopsList - Loading data for category ID:", categoryId, typeof categoryId);
       
       // Load category name
-      const category = await getCategoryById(categoryId);
+      const category = await getCategoryById(categoryId, locale);
       if (category) {
         console.log("Found category:", category.name);
         setCategoryName(category.name);
@@ -291,7 +304,7 @@ const ShopsList = () => {
         setShops(combinedShops);
         setDebugInfo(prev => prev + `\nFound ${combinedShops.length} unique shops`);
         
-        // Load products from productsC collection
+        // Load the products listed in this category
         const productsData = await loadProductsByCategory(categoryId);
         
         // Organize data into sections by shop
@@ -324,12 +337,12 @@ const ShopsList = () => {
       console.log("ShopsList - Loading products for category:", categoryId);
       
       // First try with exact categoryId match
-      const productsRef = collection(db, 'productsC');
+      const productsRef = collection(db, 'products');
       let querySnapshot: any = { empty: true, size: 0, forEach: () => {} };
       
       try {
         // Log info about the query we're about to make
-        console.log(`Preparing Firestore query for productsC collection with category='${categoryId}'`);
+        console.log(`Preparing Firestore query for products collection with category='${categoryId}'`);
         
         // Try with direct equality first
         const q = query(
@@ -472,6 +485,8 @@ const ShopsList = () => {
             shopDescription: shop.description || '',
             shopAddress: shop.address || '',
             shopPhone: shop.phone || '',
+            shopRating: shop.rating || 0,
+            shopReviewCount: shop.reviewCount || 0,
             data: shopProducts
           });
           
@@ -500,9 +515,9 @@ const ShopsList = () => {
             shopId: firstProduct.shopId || 'virtual-shop-' + shopName,
             shopName: shopName,
             shopImage: firstProduct.image || PLACEHOLDER_IMAGE,
-            shopDescription: `Products by ${shopName}`,
-            shopAddress: firstProduct.location || 'Location not specified',
-            shopPhone: 'Contact via app',
+            shopDescription: t('shops.productsBy', { shopName }),
+            shopAddress: firstProduct.location || t('shops.locationUnknown'),
+            shopPhone: t('shops.contactViaApp'),
             data: prods
           });
         }
@@ -515,10 +530,10 @@ const ShopsList = () => {
       if (sectionsData.length === 0 && currentProducts.length > 0) {
         sectionsData.push({
           shopId: 'default-shop',
-          shopName: 'All Products',
+          shopName: t('shops.allProducts'),
           shopImage: PLACEHOLDER_IMAGE,
-          shopDescription: 'All products in this category',
-          shopAddress: 'Various locations',
+          shopDescription: t('shops.allProductsDescription'),
+          shopAddress: t('shops.variousLocations'),
           shopPhone: '',
           data: currentProducts
         });
@@ -545,7 +560,7 @@ const ShopsList = () => {
         if (products.length > 0) {
           const fallbackSection = [{
             shopId: 'fallback-shop',
-            shopName: 'All Products',
+            shopName: t('shops.allProducts'),
             shopImage: PLACEHOLDER_IMAGE,
             shopDescription: 'Fallback section due to error',
             shopAddress: '',
@@ -628,6 +643,9 @@ const ShopsList = () => {
           <Text style={styles.shopHeaderDescription} numberOfLines={1}>
             {section.shopDescription}
           </Text>
+          {!!section.shopReviewCount && (
+            <RatingStars rating={section.shopRating || 0} reviewCount={section.shopReviewCount} size={12} />
+          )}
           <View style={styles.shopHeaderMeta}>
             <Ionicons name="location-outline" size={12} color={colors.lightText} />
             <Text style={styles.shopHeaderMetaText}>{section.shopAddress}</Text>
@@ -654,9 +672,9 @@ const ShopsList = () => {
       />
       <View style={styles.productInfo}>
         <Text style={styles.productName} numberOfLines={2}>{item.name}</Text>
-        <Text style={styles.productPrice}>Rs. {item.price}</Text>
+        <Text style={styles.productPrice}>{formatCurrency(item.price)}</Text>
         <Text style={styles.productQuantity}>
-          {item.quantity || 1} {item.unit || 'unit'}
+          {formatNumber(item.quantity || 1)} {item.unit || 'unit'}
         </Text>
       </View>
     </TouchableOpacity>
@@ -666,7 +684,7 @@ const ShopsList = () => {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary} />
-        <Text style={styles.loadingText}>Loading {categoryName} data...</Text>
+        <Text style={styles.loadingText}>{t('shops.loadingCategory', { categoryName })}</Text>
       </View>
     );
   }
@@ -677,10 +695,14 @@ const ShopsList = () => {
         <TouchableOpacity onPress={() => navigation.goBack()}>
           <Ionicons name="arrow-back" size={24} color={colors.white} />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>{categoryName || 'Loading...'}</Text>
-        <TouchableOpacity onPress={handleAddProduct}>
-          <Ionicons name="add-circle-outline" size={24} color={colors.white} />
-        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{categoryName || t('common.loading')}</Text>
+        {canAddProduct ? (
+          <TouchableOpacity onPress={handleAddProduct}>
+            <Ionicons name="add-circle-outline" size={24} color={colors.white} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.headerSpacer} />
+        )}
       </View>
 
       {sections.length > 0 ? (
@@ -697,17 +719,19 @@ const ShopsList = () => {
       ) : (
         <View style={styles.emptyContainer}>
           <Ionicons name="basket-outline" size={64} color={colors.lightText} />
-          <Text style={styles.emptyText}>No products or shops available</Text>
-          <Text style={styles.emptySubtext}>
-            Be the first to add products in this category!
-          </Text>
-          <TouchableOpacity 
-            style={styles.addButton}
-            onPress={handleAddProduct}
-          >
-            <Ionicons name="add-circle-outline" size={16} color={colors.white} />
-            <Text style={styles.buttonText}>Add Product</Text>
-          </TouchableOpacity>
+          <Text style={styles.emptyText}>{t('shops.empty')}</Text>
+          {canAddProduct && (
+            <>
+              <Text style={styles.emptySubtext}>{t('shops.beFirst')}</Text>
+              <TouchableOpacity 
+                style={styles.addButton}
+                onPress={handleAddProduct}
+              >
+                <Ionicons name="add-circle-outline" size={16} color={colors.white} />
+                <Text style={styles.buttonText}>{t('addProduct.submit')}</Text>
+              </TouchableOpacity>
+            </>
+          )}
           
           {__DEV__ && (
             <View style={styles.debugContainer}>
@@ -795,6 +819,9 @@ const styles = StyleSheet.create({
     borderBottomLeftRadius: 20,
     borderBottomRightRadius: 20,
   },
+  headerSpacer: {
+    width: 24,
+  },
   headerTitle: {
     fontSize: fontSizes.lg,
     fontWeight: 'bold',
@@ -4,11 +4,13 @@ import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../types';
 import { colors, fontSizes } from '../theme';
+import { useTranslation } from '../hooks/useTranslation';
 
 type SplashScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Splash'>;
 
 const SplashScreen = () => {
   const navigation = useNavigation<SplashScreenNavigationProp>();
+  const { t } = useTranslation();
 
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -28,7 +30,7 @@ const SplashScreen = () => {
         resizeMode="contain"
       />
       <Text style={styles.title}>AgriSaviya</Text>
-      <Text style={styles.subtitle}>Your Farming Companion</Text>
+      <Text style={styles.subtitle}>{t('splash.tagline')}</Text>
     </View>
   );
 };
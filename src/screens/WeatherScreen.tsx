@@ -15,6 +15,8 @@ import { RootStackParamList, Weather } from '../types';
 import { colors, fontSizes, spacing, borderRadius } from '../theme';
 import Card from '../components/Card';
 import { getCurrentWeather, getAllWeather } from '../utilities/firestoreUtils';
+import { useTranslation } from '../hooks/useTranslation';
+import { useFormat } from '../hooks/useFormat';
 
 type WeatherScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Weather'>;
 
@@ -41,6 +43,8 @@ const getWeatherIcon = (condition: string) => {
 
 const WeatherScreen = () => {
   const navigation = useNavigation<WeatherScreenNavigationProp>();
+  const { t } = useTranslation();
+  const { formatDate, formatWeekday } = useFormat();
   const [weatherData, setWeatherData] = useState<Weather[]>([]);
   const [selectedLocation, setSelectedLocation] = useState<Weather | null>(null);
   const [loading, setLoading] = useState(true);
@@ -56,7 +60,7 @@ const WeatherScreen = () => {
         const allWeatherData = await getAllWeather();
         
         if (allWeatherData.length === 0) {
-          setError('No weather data available');
+          setError(t('weather.noData'));
           setLoading(false);
           return;
         }
@@ -69,7 +73,7 @@ const WeatherScreen = () => {
         setLoading(false);
       } catch (err) {
         console.error('Error loading weather data:', err);
-        setError('Failed to load weather data. Please try again.');
+        setError(t('weather.loadFailed'));
         setLoading(false);
       }
     };
@@ -100,7 +104,7 @@ const WeatherScreen = () => {
       setLoading(false);
     } catch (err) {
       console.error('Error refreshing weather data:', err);
-      setError('Failed to refresh weather data. Please try again.');
+      setError(t('weather.refreshFailed'));
       setLoading(false);
     }
   };
@@ -158,7 +162,7 @@ const WeatherScreen = () => {
     return (
       <View style={styles.loadingContainer}>
         <ActivityIndicator size="large" color={colors.primary} />
-        <Text style={styles.loadingText}>Loading weather data...</Text>
+        <Text style={styles.loadingText}>{t('weather.loading')}</Text>
       </View>
     );
   }
@@ -167,12 +171,12 @@ const WeatherScreen = () => {
   if (error || !selectedLocation) {
     return (
       <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>{error || 'No weather data available'}</Text>
+        <Text style={styles.errorText}>{error || t('weather.noData')}</Text>
         <TouchableOpacity
           style={styles.retryButton}
           onPress={handleRefresh}
         >
-          <Text style={styles.retryButtonText}>Retry</Text>
+          <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
         </TouchableOpacity>
       </View>
     );
@@ -198,13 +202,11 @@ const WeatherScreen = () => {
         {/* Current Weather */}
         <Card style={styles.currentWeatherCard}>
           <View style={styles.currentWeatherHeader}>
-            <Text style={styles.currentWeatherTitle}>Current Weather</Text>
+            <Text style={styles.currentWeatherTitle}>{t('weather.current')}</Text>
             <Text style={styles.currentWeatherDate}>
-              {selectedLocation.date.toLocaleDateString('en-US', {
-                weekday: 'long',
-                year: 'numeric',
-                month: 'long',
-                day: 'numeric',
+              {t('format.weekdayDate', {
+                weekday: formatWeekday(selectedLocation.date),
+                date: formatDate(selectedLocation.date),
               })}
             </Text>
           </View>
@@ -212,7 +214,7 @@ const WeatherScreen = () => {
           <View style={styles.currentWeatherContent}>
             <View style={styles.weatherMainInfo}>
               <Text style={styles.weatherLocation}>{selectedLocation.location}</Text>
-              <Text style={styles.weatherTemp}>{selectedLocation.temperature}°C</Text>
+              <Text style={styles.weatherTemp}>{t('units.temperature', { value: selectedLocation.temperature })}</Text>
               <Text style={styles.weatherCondition}>{selectedLocation.condition}</Text>
             </View>
             <Text style={styles.weatherIcon}>
@@ -222,45 +224,45 @@ const WeatherScreen = () => {
 
           <View style={styles.weatherDetailsContainer}>
             <View style={styles.weatherDetailItem}>
-              <Text style={styles.weatherDetailTitle}>Humidity</Text>
-              <Text style={styles.weatherDetailValue}>{selectedLocation.humidity}%</Text>
+              <Text style={styles.weatherDetailTitle}>{t('weather.humidity')}</Text>
+              <Text style={styles.weatherDetailValue}>{t('units.percent', { value: selectedLocation.humidity })}</Text>
             </View>
             <View style={styles.weatherDetailDivider} />
             <View style={styles.weatherDetailItem}>
-              <Text style={styles.weatherDetailTitle}>Wind</Text>
-              <Text style={styles.weatherDetailValue}>10 km/h</Text>
+              <Text style={styles.weatherDetailTitle}>{t('weather.wind')}</Text>
+              <Text style={styles.weatherDetailValue}>{t('units.windSpeed', { value: 10 })}</Text>
             </View>
             <View style={styles.weatherDetailDivider} />
             <View style={styles.weatherDetailItem}>
-              <Text style={styles.weatherDetailTitle}>Pressure</Text>
-              <Text style={styles.weatherDetailValue}>1014 hPa</Text>
+              <Text style={styles.weatherDetailTitle}>{t('weather.pressure')}</Text>
+              <Text style={styles.weatherDetailValue}>{t('units.pressure', { value: 1014 })}</Text>
             </View>
           </View>
         </Card>
 
         {/* Forecast */}
-        <Text style={styles.forecastTitle}>5-Day Forecast</Text>
+        <Text style={styles.forecastTitle}>{t('weather.forecast')}</Text>
 
         {forecast.map((day) => (
           <Card key={day.id} style={styles.forecastCard}>
             <View style={styles.forecastItem}>
               <View style={styles.forecastItemLeft}>
                 <Text style={styles.forecastDay}>
-                  {day.date.toLocaleDateString('en-US', { weekday: 'long' })}
+                  {formatWeekday(day.date)}
                 </Text>
                 <Text style={styles.forecastDate}>
-                  {day.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  {formatDate(day.date, 'short')}
                 </Text>
               </View>
 
               <View style={styles.forecastItemCenter}>
                 <Text style={styles.forecastCondition}>{day.condition}</Text>
-                <Text style={styles.forecastHumidity}>Humidity: {day.humidity}%</Text>
+                <Text style={styles.forecastHumidity}>{t('weather.forecastHumidity', { humidity: day.humidity })}</Text>
               </View>
 
               <View style={styles.forecastItemRight}>
                 <Text style={styles.forecastIcon}>{getWeatherIcon(day.condition)}</Text>
-                <Text style={styles.forecastTemp}>{day.temperature}°C</Text>
+                <Text style={styles.forecastTemp}>{t('units.temperature', { value: day.temperature })}</Text>
               </View>
             </View>
           </Card>
@@ -268,15 +270,15 @@ const WeatherScreen = () => {
 
         {/* Weather Tips */}
         <Card style={styles.tipsCard}>
-          <Text style={styles.tipsTitle}>Farming Tips</Text>
+          <Text style={styles.tipsTitle}>{t('weather.tips')}</Text>
           <Text style={styles.tipItem}>
-            • {selectedLocation.condition === 'Sunny' ? 'Provide adequate water to crops during this sunny period.' : 'Take advantage of cloudy conditions for transplanting.'}
+            • {selectedLocation.condition === 'Sunny' ? t('weather.tipSunny') : t('weather.tipCloudy')}
           </Text>
           <Text style={styles.tipItem}>
-            • Check soil moisture levels regularly during current weather conditions.
+            • {t('weather.tipSoil')}
           </Text>
           <Text style={styles.tipItem}>
-            • {selectedLocation.humidity > 70 ? 'High humidity may increase fungal disease risk. Monitor your crops.' : 'Lower humidity means increased evaporation. Consider mulching.'}
+            • {selectedLocation.humidity > 70 ? t('weather.tipHumid') : t('weather.tipDry')}
           </Text>
         </Card>
       </ScrollView>
@@ -1,3 +1,5 @@
+import { Locale } from './utilities/i18n';
+
 export interface Product {
   id: string;
   name: string;
@@ -7,6 +9,7 @@ export interface Product {
   category: string;
   quantity?: number;
   rating?: number;
+  reviewCount?: number;
   shopId?: string;
   shopName?: string;
   location?: string;
@@ -19,13 +22,99 @@ export interface Product {
   updatedAt?: any;
 }
 
+// What a user does on the marketplace; one account can hold several roles
+export type UserRole = 'farmer' | 'buyer' | 'seller' | 'machine_owner' | 'admin';
+
 export interface User {
   id: string;
   name: string;
   email: string;
   phone: string;
   address?: string;
+  district?: string;
   avatar?: string;
+  roles?: UserRole[]; // Missing on accounts created before roles existed
+  verifiedSeller?: boolean; // Granted by an admin
+}
+
+// The part of a user's profile other users can read, kept in publicProfiles under the same id
+export type PublicProfile = Pick<User, 'id' | 'name' | 'email' | 'avatar' | 'verifiedSeller'>;
+
+export type PaymentMethod = 'cash_on_delivery' | 'bank_transfer' | 'card_on_delivery';
+
+export type DeliveryWindow = 'morning' | 'afternoon' | 'evening';
+
+export interface DeliverySlot {
+  date: Date;
+  window: DeliveryWindow;
+}
+
+// Delivery zones follow Sri Lanka's provinces; each district belongs to one
+export type DeliveryZone =
+  | 'western'
+  | 'central'
+  | 'southern'
+  | 'northern'
+  | 'eastern'
+  | 'north_western'
+  | 'north_central'
+  | 'uva'
+  | 'sabaragamuwa';
+
+export interface DeliveryRate {
+  baseFee: number;
+  perKgFee: number; // Charged for every kg above includedWeightKg
+  includedWeightKg: number;
+}
+
+// How a seller charges for delivery. The rule with an empty sellerEmail is the marketplace default.
+export interface DeliveryRule {
+  id: string;
+  sellerEmail: string;
+  defaultRate: DeliveryRate;
+  zoneRates?: Partial<Record<DeliveryZone, DeliveryRate>>;
+  districtRates?: Record<string, DeliveryRate>; // Overrides the zone rate for specific districts
+  freeShippingThreshold?: number;
+}
+
+// The delivery fee charged by one seller on an order
+export interface SellerDeliveryFee {
+  sellerEmail: string;
+  sellerName: string;
+  subtotal: number;
+  weightKg: number;
+  fee: number;
+  freeShipping: boolean;
+}
+
+export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+
+// Who is acting on an order: the customer who placed it, a seller fulfilling it,
+// or the marketplace, which cancels orders whose prices do not check out
+export type OrderActor = 'buyer' | 'seller' | 'marketplace';
+
+// Checkout prices an order on the buyer's device; the order check job then confirms or rejects it
+export type OrderPricing = 'pending' | 'confirmed' | 'rejected';
+
+export interface OrderStatusChange {
+  status: OrderStatus;
+  changedBy: OrderActor;
+  changedAt: Date;
+  note?: string;
+}
+
+export type ReturnReason = 'damaged_produce' | 'wrong_quantity' | 'not_delivered';
+
+export type ReturnRequestStatus = 'requested' | 'approved' | 'rejected';
+
+export interface ReturnRequest {
+  reason: ReturnReason;
+  details?: string;
+  photos: string[];
+  status: ReturnRequestStatus;
+  requestedAt: Date;
+  resolvedAt?: Date;
+  sellerNote?: string;
 }
 
 export interface Order {
@@ -33,8 +122,24 @@ export interface Order {
   userId: string;
   userEmail?: string;
   products: Product[];
+  subtotal?: number;
+  discount?: number;
+  deliveryFee?: number;
   totalAmount: number;
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  pricing?: OrderPricing;
+  status: OrderStatus;
+  statusHistory?: OrderStatusChange[];
+  deliveryAddress?: string;
+  contactPhone?: string;
+  deliverySlot?: DeliverySlot;
+  deliveryDistrict?: string;
+  deliveryBreakdown?: SellerDeliveryFee[];
+  paymentMethod?: PaymentMethod;
+  promoId?: string;
+  promoCode?: string;
+  sellerEmails?: string[];
+  subOrderIds?: string[];
+  returnRequest?: ReturnRequest;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -43,6 +148,54 @@ export interface CartItem extends Product {
   quantity: number;
 }
 
+export type PromotionType = 'percentage' | 'fixed';
+
+export interface Promotion {
+  id: string;
+  code: string;
+  description?: string;
+  type: PromotionType;
+  value: number; // Percent off for percentage promos, LKR off for fixed ones
+  minOrderValue?: number;
+  categories?: string[]; // Only items in these categories count towards the discount
+  shopIds?: string[]; // Only items from these shops count towards the discount
+  usageLimitPerUser?: number;
+  usageByUser?: Record<string, number>;
+  startsAt?: Date;
+  expiresAt?: Date;
+  active: boolean;
+}
+
+// Progress of a seller's lines within an order
+export type FulfilmentStatus = 'pending' | 'packed' | 'shipped';
+
+export interface SellerOrderLine extends CartItem {
+  fulfilmentStatus: FulfilmentStatus;
+}
+
+// The part of a buyer's order that a single seller is responsible for
+export interface SellerOrder {
+  id: string;
+  orderId: string;
+  sellerEmail: string;
+  shopIds: string[];
+  buyerId: string;
+  buyerEmail?: string;
+  products: SellerOrderLine[];
+  subtotal: number;
+  deliveryFee?: number;
+  status: FulfilmentStatus | 'cancelled';
+  deliveryAddress?: string;
+  contactPhone?: string;
+  deliverySlot?: DeliverySlot;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Content written in several languages. Records saved before translations were added hold plain English
+export type LocalizedText = string | Partial<Record<Locale, string>>;
+
+// Category names are stored as LocalizedText and read in the user's language
 export interface Category {
   id: string;
   name: string;
@@ -50,14 +203,53 @@ export interface Category {
   image?: string;
 }
 
+// What a review is about; seller reviews are keyed by the seller's email
+export type ReviewTargetType = 'product' | 'machine' | 'shop' | 'seller';
+
+// Reviews caught by the spam filter or reported by several users wait for a moderator
+export type ReviewStatus = 'published' | 'pending' | 'removed';
+
+// Why a review was held for moderation
+export type ReviewFlag = 'phone_number' | 'url' | 'profanity' | 'reported';
+
+export type ReviewReportReason = 'spam' | 'offensive' | 'fake' | 'other';
+
+export interface ReviewReply {
+  text: string;
+  userId: string;
+  date: Date;
+}
+
+export interface ReviewReport {
+  id: string;
+  reviewId: string;
+  reporterId: string;
+  reason: ReviewReportReason;
+  details?: string;
+  date: Date;
+}
+
 export interface Review {
   id: string;
-  productId: string;
+  targetType: ReviewTargetType;
+  targetId: string;
+  productId?: string; // also set on product reviews, which existed before the other targets
   userId: string;
   userName: string;
+  userEmail?: string;
   rating: number;
   text: string;
   date: Date;
+  status: ReviewStatus;
+  flags?: ReviewFlag[];
+  reportCount?: number;
+  reply?: ReviewReply; // The seller's or owner's answer, shown under the review
+}
+
+// Average rating and number of reviews, kept up to date on the reviewed document
+export interface RatingSummary {
+  rating: number;
+  reviewCount: number;
 }
 
 export interface Weather {
@@ -69,6 +261,7 @@ export interface Weather {
   icon?: string;
 }
 
+// Title, summary and content are stored as LocalizedText and read in the user's language
 export interface Article {
   id: string;
   title: string;
@@ -80,6 +273,34 @@ export interface Article {
   tags: string[];
 }
 
+export type PestType = 'pest' | 'disease';
+
+// A pest or disease as listed in the app, with its text in each language we have.
+// Not every record has its full write-up yet
+export interface PestRecord {
+  id: string;
+  name: LocalizedText;
+  image: string;
+  crops: LocalizedText[];
+  description?: LocalizedText;
+  symptoms?: LocalizedText[];
+  controlMethods?: LocalizedText[];
+  preventionMethods?: LocalizedText[];
+}
+
+// A pest or disease with its text in the user's language
+export interface Pest {
+  id: string;
+  type: PestType;
+  name: string;
+  image: string;
+  crops: string[];
+  description?: string;
+  symptoms: string[];
+  controlMethods: string[];
+  preventionMethods: string[];
+}
+
 export interface MarketPrice {
   id: string;
   productName: string;
@@ -96,6 +317,9 @@ export interface Bid {
   item: string;
   description: string;
   startPrice: number;
+  reservePrice?: number; // Hidden minimum the seller will accept. Only set when creating a listing; it is saved apart from it
+  hasReserve?: boolean; // Whether the seller set a reserve price, which only they and the auction job can read
+  buyNowPrice?: number; // An offer at or above this ends the auction immediately
   startDate: Date;
   dueDate: Date;
   email: string;
@@ -103,6 +327,23 @@ export interface Bid {
   status: 'active' | 'closed' | 'sold';
   createdAt: Date;
   bids: BidOffer[];
+  winner?: BidWinner | null; // Set when the auction closes; null if nobody placed a valid offer
+  reserveMet?: boolean;
+  closedAt?: Date;
+  soldAt?: Date;
+}
+
+// A bidder's private maximum; the system bids on their behalf up to this amount
+export interface ProxyBid {
+  email: string;
+  maxAmount: number;
+  createdAt: Date;
+}
+
+export interface BidWinner {
+  offerId: string;
+  email: string;
+  amount: number;
 }
 
 export interface BidOffer {
@@ -113,6 +354,85 @@ export interface BidOffer {
   createdAt: Date;
 }
 
+export type NotificationType =
+  | 'outbid'
+  | 'new_offer'
+  | 'auction_ending'
+  | 'auction_won'
+  | 'auction_lost'
+  | 'order_update'
+  | 'price_alert'
+  | 'weather_warning'
+  | 'booking_request'
+  | 'booking_update';
+
+// Values for a notification's message. Amounts and dates are kept as numbers so they can be
+// written in the reader's language when the notification is shown.
+export type NotificationParams = Record<string, string | number>;
+
+export interface AppNotification {
+  id: string;
+  recipientEmail: string;
+  type: NotificationType;
+  // Message under notifications.messages in the catalogs, translated when the notification is shown
+  messageKey?: string;
+  params?: NotificationParams;
+  // English text saved before notifications had message keys
+  title: string;
+  body: string;
+  // At most one of these is set; it is the screen the notification opens
+  orderId?: string;
+  bidId?: string;
+  productId?: string;
+  bookingId?: string;
+  read: boolean;
+  createdAt: Date;
+}
+
+// Mirrors the notification toggles in SettingsScreen so other users' actions can respect them
+export interface NotificationPreferences {
+  notifications: boolean;
+  marketAlerts: boolean;
+  weatherAlerts: boolean;
+}
+
+// What a conversation is about; buyers start one from the listing's screen
+export type ConversationSubject = 'product' | 'machine' | 'shop' | 'bid';
+
+// Each side of a conversation: the person who asked and the one selling or renting
+export type ConversationRole = 'buyer' | 'seller';
+
+export interface Conversation {
+  id: string;
+  subjectType: ConversationSubject;
+  subjectId: string;
+  subjectTitle: string;
+  buyerEmail: string;
+  sellerEmail: string;
+  participants: string[];
+  lastMessage?: string;
+  lastMessageType?: ChatMessageType;
+  lastSenderEmail?: string;
+  lastMessageAt?: Date;
+  buyerUnread: number;
+  sellerUnread: number;
+  buyerLastReadAt?: Date;
+  sellerLastReadAt?: Date;
+  createdAt: Date;
+}
+
+export type ChatMessageType = 'text' | 'image';
+
+export interface ChatMessage {
+  id: string;
+  conversationId: string;
+  senderEmail: string;
+  type: ChatMessageType;
+  text?: string;
+  imageUri?: string; // Base64 data URI, since Storage is disabled
+  createdAt: Date;
+}
+
 export interface Shop {
   id: string;
   name: string;
@@ -128,6 +448,8 @@ export interface Shop {
     latitude: number;
     longitude: number;
   };
+  rating?: number;
+  reviewCount?: number;
 }
 
 export interface Machine {
@@ -141,26 +463,95 @@ export interface Machine {
   contact: string;
   phone: string;
   location?: string;
+  rates?: MachineRates;
+  rating?: number;
+  reviewCount?: number;
+  // Kept up to date from the machine's logbook
+  engineHours?: number;
+  lastServiceDate?: Date;
+  nextServiceDate?: Date;
+  nextServiceHours?: number; // engine hours at which the next service is due
+  autoUnavailableWhenDue?: boolean;
+  createdBy?: string; // uid of the user who listed the machine
+  ownerEmail?: string;
   createdAt?: any;
   updatedAt?: any;
 }
 
+export type MachineLogEntryType = 'usage' | 'maintenance';
+
+export type MaintenanceType = 'service' | 'repair' | 'inspection' | 'parts';
+
+// Where a machine stands against its service schedule
+export type ServiceStatus = 'ok' | 'due_soon' | 'due';
+
+// One line in a machine's logbook, either time it was worked or work done on it
+export interface MachineLogEntry {
+  id: string;
+  machineId: string;
+  type: MachineLogEntryType;
+  date: Date;
+  // Usage
+  hours?: number;
+  operator?: string;
+  bookingId?: string;
+  // Maintenance
+  maintenanceType?: MaintenanceType;
+  description?: string;
+  cost?: number;
+  nextDueDate?: Date;
+  nextDueHours?: number;
+  createdAt: Date;
+}
+
+// How a machine is charged for when it is rented
+export type RateUnit = 'hour' | 'day' | 'acre';
+
+// Rental prices per unit; units the owner has not priced cannot be booked
+export type MachineRates = Partial<Record<RateUnit, number>>;
+
+// Pending requests wait for the owner; only approved bookings block the calendar
+export type BookingStatus = 'pending' | 'approved' | 'declined' | 'cancelled';
+
+export interface MachineBooking {
+  id: string;
+  machineId: string;
+  machineName: string;
+  ownerId: string;
+  ownerEmail: string;
+  renterEmail: string;
+  startDate: Date;
+  endDate: Date; // exclusive
+  rateUnit: RateUnit;
+  quantity: number; // hours, days or acres depending on rateUnit
+  rate: number;
+  totalPrice: number;
+  note?: string;
+  status: BookingStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export type RootStackParamList = {
   Splash: undefined;
   Onboarding: undefined;
   LanguageSelection: undefined;
   Login: undefined;
   Register: undefined;
-  ForgotPassword: undefined;
+  ForgotPassword: { email?: string } | undefined;
   Main: undefined;
   ProductDetails: { productId: string };
   Cart: undefined;
-  Checkout: undefined;
+  Checkout: { promoCode?: string } | undefined;
   OrderConfirmation: { orderId: string };
   Profile: undefined;
   EditProfile: undefined;
   Orders: undefined;
   OrderDetails: { orderId: string };
+  RequestReturn: { orderId: string };
+  ReturnRequests: undefined;
+  SellerOrders: undefined;
+  DeliverySettings: undefined;
   Settings: undefined;
   About: undefined;
   Help: undefined;
@@ -173,6 +564,9 @@ export type RootStackParamList = {
   OrderHistory: undefined;
   BidDetails: { bidId: string };
   MyOffers: undefined;
+  Notifications: undefined;
+  Conversations: undefined;
+  Chat: { conversationId: string };
   ProductCategories: undefined;
   AddProduct: { preselectedCategoryId?: string; categoryName?: string } | undefined;
   ShopsList: { categoryId: string };
@@ -184,8 +578,14 @@ export type RootStackParamList = {
   Home: undefined;
   ChangePassword: undefined;
   EditMachine: { machineId: string };
+  MyMachines: undefined;
+  BookMachine: { machineId: string };
+  MachineBookings: { tab?: 'renter' | 'owner' } | undefined;
+  MachineLogbook: { machineId: string };
+  ReviewModeration: undefined;
+  SellerVerification: undefined;
   ProductsList: { categoryId: string; categoryName: string };
   NewsAndTips: undefined;
   PestAndDiseaseControl: undefined;
-  PestDetails: { pestId: string; type: string };
+  PestDetails: { pestId: string; type: PestType };
 }; 
\ No newline at end of file
@@ -0,0 +1,266 @@
+import { Bid, BidOffer, ProxyBid } from '../types';
+
+// This module is shared with the auction job, which runs in Node, so it must not import anything from React Native
+
+// Each new offer must beat the current high bid by at least this much, in LKR
+const BID_INCREMENT_TIERS: { below: number; increment: number }[] = [
+  { below: 1000, increment: 20 },
+  { below: 10000, increment: 100 },
+  { below: 100000, increment: 500 },
+  { below: Infinity, increment: 1000 },
+];
+
+// Offers in the last few minutes push the due date back so others have time to respond
+export const ANTI_SNIPING_WINDOW_MINUTES = 5;
+export const ANTI_SNIPING_EXTENSION_MINUTES = 5;
+
+// Bidders are notified once when an auction they are in has this long left
+export const AUCTION_ENDING_NOTICE_MINUTES = 60;
+
+export type BidRejection =
+  | 'not_active'
+  | 'not_started'
+  | 'ended'
+  | 'own_listing'
+  | 'below_minimum';
+
+// Thrown when an offer breaks the auction rules. Screens show the bids.rejections message for `reason`
+export class BidValidationError extends Error {
+  reason: BidRejection;
+  minimumAmount?: number;
+
+  constructor(reason: BidRejection, message: string, minimumAmount?: number) {
+    super(message);
+    this.name = 'BidValidationError';
+    this.reason = reason;
+    this.minimumAmount = minimumAmount;
+  }
+}
+
+// Timestamps from both the client and the Admin SDK have toDate
+const toDate = (value: any): Date => {
+  return value?.toDate ? value.toDate() : new Date();
+};
+
+// Map a bid document to the Bid type
+export const mapBidData = (id: string, data: any): Bid => {
+  return {
+    id,
+    name: data.name || '',
+    number: data.number || '',
+    category: data.category || '',
+    item: data.item || '',
+    description: data.description || '',
+    startPrice: data.startPrice || 0,
+    hasReserve: !!data.hasReserve || !!data.reservePrice,
+    buyNowPrice: data.buyNowPrice || undefined,
+    startDate: data.startDate ? new Date(data.startDate.seconds * 1000) : new Date(),
+    dueDate: data.dueDate ? new Date(data.dueDate.seconds * 1000) : new Date(),
+    email: data.email || '',
+    imageUri: data.imageUri || '',
+    status: data.status || 'active',
+    createdAt: data.createdAt ? new Date(data.createdAt.seconds * 1000) : new Date(),
+    bids: (data.bids || []).map((offer: any): BidOffer => ({
+      id: offer.id,
+      bidId: offer.bidId || id,
+      amount: offer.amount || 0,
+      email: offer.email || '',
+      createdAt: toDate(offer.createdAt)
+    })),
+    winner: data.winner || null,
+    reserveMet: data.reserveMet,
+    closedAt: data.closedAt ? toDate(data.closedAt) : undefined,
+    soldAt: data.soldAt ? toDate(data.soldAt) : undefined
+  };
+};
+
+// Map a bidder's document in a listing's proxyBids subcollection to the ProxyBid type
+export const mapProxyBid = (data: any): ProxyBid => {
+  return {
+    email: data.email || '',
+    maxAmount: data.maxAmount || 0,
+    createdAt: toDate(data.createdAt)
+  };
+};
+
+/**
+ * Get the minimum step above the current high bid for the next offer
+ * @param currentAmount The current highest offer
+ * @returns Minimum increment in LKR
+ */
+export const getMinimumIncrement = (currentAmount: number): number => {
+  return BID_INCREMENT_TIERS.find(tier => currentAmount < tier.below)!.increment;
+};
+
+export const getHighestOffer = (offers: BidOffer[]): BidOffer | null => {
+  return offers.reduce<BidOffer | null>(
+    (highest, offer) => (!highest || offer.amount > highest.amount ? offer : highest),
+    null
+  );
+};
+
+/**
+ * Get the smallest amount the next offer on a listing may be
+ * @param bid The listing being bid on
+ * @returns The start price for the first offer, otherwise the high bid plus the increment
+ */
+export const getMinimumNextBid = (bid: Pick<Bid, 'startPrice' | 'bids'>): number => {
+  const highest = getHighestOffer(bid.bids);
+  return highest ? highest.amount + getMinimumIncrement(highest.amount) : bid.startPrice;
+};
+
+/**
+ * Check an offer against the auction rules
+ * @param bid The listing being bid on
+ * @param amount The offered amount
+ * @param email Email of the bidder
+ * @param now The time the offer is made
+ * @throws BidValidationError if the offer is not allowed
+ */
+export const assertValidOffer = (bid: Bid, amount: number, email: string, now: Date = new Date()): void => {
+  if (bid.status !== 'active') {
+    throw new BidValidationError('not_active', 'This bid is no longer active');
+  }
+  if (now < bid.startDate) {
+    throw new BidValidationError('not_started', 'Bidding for this item has not started yet');
+  }
+  if (now > bid.dueDate) {
+    throw new BidValidationError('ended', 'The bidding period for this item has ended');
+  }
+  if (email.toLowerCase() === bid.email.toLowerCase()) {
+    throw new BidValidationError('own_listing', 'You cannot bid on your own listing');
+  }
+
+  const minimum = getMinimumNextBid(bid);
+  if (amount < minimum) {
+    throw new BidValidationError('below_minimum', `Your bid must be at least ${minimum}`, minimum);
+  }
+};
+
+export const isReserveMet = (bid: Pick<Bid, 'reservePrice'>, amount: number): boolean => {
+  return !bid.reservePrice || amount >= bid.reservePrice;
+};
+
+export const isBuyNowOffer = (bid: Pick<Bid, 'buyNowPrice'>, amount: number): boolean => {
+  return !!bid.buyNowPrice && amount >= bid.buyNowPrice;
+};
+
+/**
+ * Get the due date after an offer, extended if the offer arrived in the closing minutes
+ * @param dueDate The auction's current due date
+ * @param now The time the offer was made
+ * @returns The original due date, or a later one if it was extended
+ */
+export const getExtendedDueDate = (dueDate: Date, now: Date = new Date()): Date => {
+  const windowStart = dueDate.getTime() - ANTI_SNIPING_WINDOW_MINUTES * 60 * 1000;
+  if (now.getTime() < windowStart) {
+    return dueDate;
+  }
+
+  const extended = new Date(now.getTime() + ANTI_SNIPING_EXTENSION_MINUTES * 60 * 1000);
+  return extended > dueDate ? extended : dueDate;
+};
+
+/**
+ * Check that a new listing's prices make sense together
+ * @returns Message key under bids.priceErrors, or null if the prices are valid
+ */
+export const validateListingPrices = (
+  startPrice: number,
+  reservePrice?: number,
+  buyNowPrice?: number
+): string | null => {
+  if (reservePrice !== undefined && reservePrice < startPrice) {
+    return 'bids.priceErrors.reserveBelowStart';
+  }
+  if (buyNowPrice !== undefined && buyNowPrice <= startPrice) {
+    return 'bids.priceErrors.buyNowNotAboveStart';
+  }
+  if (buyNowPrice !== undefined && reservePrice !== undefined && buyNowPrice < reservePrice) {
+    return 'bids.priceErrors.buyNowBelowReserve';
+  }
+  return null;
+};
+
+// Auctions past their due date are closed by closeExpiredAuctions in closeAuctions.ts
+export const isAuctionExpired = (bid: Pick<Bid, 'status' | 'dueDate'>, now: Date = new Date()): boolean => {
+  return bid.status === 'active' && now >= bid.dueDate;
+};
+
+/**
+ * Pick the offer that wins a closed auction. Offers below the start price or from
+ * the seller are ignored, and ties go to whoever bid first.
+ * @param bid The listing being closed
+ * @returns The winning offer, or null if there is no valid offer
+ */
+export const selectWinningOffer = (bid: Pick<Bid, 'startPrice' | 'email' | 'bids'>): BidOffer | null => {
+  const validOffers = bid.bids.filter(offer =>
+    offer.amount >= bid.startPrice && offer.email.toLowerCase() !== bid.email.toLowerCase()
+  );
+
+  return validOffers.reduce<BidOffer | null>((winner, offer) => {
+    if (!winner || offer.amount > winner.amount) return offer;
+    if (offer.amount === winner.amount && offer.createdAt < winner.createdAt) return offer;
+    return winner;
+  }, null);
+};
+
+/**
+ * Work out the offers proxy bidders make in response to the current bids. A challenger
+ * whose maximum beats the leader's jumps straight to the lowest winning amount, and a
+ * leader whose maximum is higher answers with just enough to stay ahead, so only the
+ * resulting offers are added to the history. Equal maximums go to the current leader.
+ * @param bid The listing with its current offers
+ * @param proxyBids Every bidder's private maximum
+ * @returns Offers to place, in order
+ */
+export const resolveProxyBids = (
+  bid: Pick<Bid, 'startPrice' | 'email' | 'bids'>,
+  proxyBids: ProxyBid[]
+): { email: string; amount: number }[] => {
+  const offers: { email: string; amount: number }[] = [];
+  const working = { startPrice: bid.startPrice, bids: [...bid.bids] };
+  const placeOffer = (email: string, amount: number) => {
+    offers.push({ email, amount });
+    working.bids.push({ id: '', bidId: '', email, amount, createdAt: new Date() });
+  };
+  const getMaxAmount = (email: string) => proxyBids.find(proxy => proxy.email === email)?.maxAmount || 0;
+
+  // Each round either changes the leader or ends the bidding, so this bound is never reached in practice
+  for (let round = 0; round <= proxyBids.length; round++) {
+    const leader = getHighestOffer(working.bids);
+    const minimum = getMinimumNextBid(working);
+    const challenger = proxyBids
+      .filter(proxy =>
+        proxy.email !== leader?.email &&
+        proxy.email.toLowerCase() !== bid.email.toLowerCase() &&
+        proxy.maxAmount >= minimum
+      )
+      .sort((a, b) => b.maxAmount - a.maxAmount || a.createdAt.getTime() - b.createdAt.getTime())[0];
+
+    if (!challenger) {
+      break;
+    }
+
+    const leaderMax = leader ? Math.max(leader.amount, getMaxAmount(leader.email)) : 0;
+
+    if (leader && leaderMax >= challenger.maxAmount) {
+      // The leader's maximum holds; the challenger is pushed to their limit
+      if (leaderMax > challenger.maxAmount) {
+        placeOffer(challenger.email, challenger.maxAmount);
+        placeOffer(leader.email, Math.min(leaderMax, challenger.maxAmount + getMinimumIncrement(challenger.maxAmount)));
+      } else if (leader.amount < leaderMax) {
+        placeOffer(leader.email, leaderMax);
+      }
+      break;
+    }
+
+    // The challenger takes the lead, after the outgoing leader's proxy has gone as high as it can
+    if (leader && leaderMax > leader.amount && leaderMax >= minimum) {
+      placeOffer(leader.email, leaderMax);
+    }
+    placeOffer(challenger.email, Math.min(challenger.maxAmount, getMinimumNextBid(working)));
+  }
+
+  return offers;
+};
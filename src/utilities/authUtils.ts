@@ -1,4 +1,12 @@
-import { signOut } from 'firebase/auth';
+import {
+  signOut,
+  reload,
+  sendEmailVerification,
+  sendPasswordResetEmail,
+  reauthenticateWithCredential,
+  updatePassword,
+  EmailAuthProvider,
+} from 'firebase/auth';
 import { auth } from './firebaseConfig';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
@@ -6,6 +14,30 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 const USER_KEY = 'auth_user_data';
 const AUTH_TOKEN_KEY = 'auth_token';
 
+// Firebase Auth rejects shorter passwords
+export const MIN_PASSWORD_LENGTH = 6;
+
+// Translation keys for the Firebase Auth errors users can do something about
+const AUTH_ERROR_KEYS: Record<string, string> = {
+  'auth/invalid-email': 'auth.errors.invalidEmail',
+  'auth/wrong-password': 'auth.errors.wrongPassword',
+  'auth/invalid-credential': 'auth.errors.wrongPassword',
+  'auth/weak-password': 'auth.errors.weakPassword',
+  'auth/too-many-requests': 'auth.errors.tooManyRequests',
+  'auth/network-request-failed': 'auth.errors.network',
+  'auth/requires-recent-login': 'auth.errors.requiresRecentLogin',
+};
+
+/**
+ * Get the message to show for a failed Firebase Auth call
+ * @param error The error thrown by Firebase
+ * @param fallbackKey Translation key to use for errors without a message of their own
+ * @returns The translation key of the message
+ */
+export const getAuthErrorKey = (error: any, fallbackKey: string): string => {
+  return AUTH_ERROR_KEYS[error?.code] || fallbackKey;
+};
+
 /**
  * Sign out the currently authenticated user
  * @returns Promise that resolves when sign out is complete
@@ -23,6 +55,66 @@ export const logoutUser = async (): Promise<void> => {
   }
 };
 
+/**
+ * Email a link for choosing a new password. Unknown addresses are not reported,
+ * so the form cannot be used to find out who has an account.
+ * @param email The address the account was registered with
+ */
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  try {
+    await sendPasswordResetEmail(auth, email.trim());
+  } catch (error: any) {
+    if (error?.code !== 'auth/user-not-found') {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Send the signed-in user a link to verify their email address
+ */
+export const sendVerificationEmail = async (): Promise<void> => {
+  if (!auth.currentUser) {
+    throw new Error('Not signed in');
+  }
+  await sendEmailVerification(auth.currentUser);
+};
+
+/**
+ * Check whether the signed-in user has verified their email, asking Firebase again
+ * so that a link opened since they signed in is picked up
+ * @returns True if the email address is verified
+ */
+export const refreshEmailVerified = async (): Promise<boolean> => {
+  const user = auth.currentUser;
+  if (!user) return false;
+  if (user.emailVerified) return true;
+
+  await reload(user);
+  if (!user.emailVerified) return false;
+
+  // Security rules read email_verified from the ID token, so get one issued after verifying
+  await user.getIdToken(true);
+  return true;
+};
+
+/**
+ * Change the signed-in user's password. Firebase only allows this shortly after
+ * signing in, so the current password is checked again first.
+ * @param currentPassword The password the user signs in with now
+ * @param newPassword The password to change to
+ */
+export const changePassword = async (currentPassword: string, newPassword: string): Promise<void> => {
+  const user = auth.currentUser;
+  if (!user?.email) {
+    throw new Error('Not signed in');
+  }
+
+  const credential = EmailAuthProvider.credential(user.email, currentPassword);
+  await reauthenticateWithCredential(user, credential);
+  await updatePassword(user, newPassword);
+};
+
 /**
  * Get the current authenticated user
  * @returns The current user or null if not authenticated
@@ -0,0 +1,187 @@
+import { BookingStatus, Machine, MachineBooking, MachineRates, RateUnit } from '../types';
+import { colors } from '../theme';
+
+// Labels for rate units, booking statuses and booked quantities are under machines.* in the message catalogs
+export const RATE_UNITS: RateUnit[] = ['hour', 'day', 'acre'];
+
+export const BOOKING_STATUS_COLORS: Record<BookingStatus, string> = {
+  pending: colors.accent,
+  approved: colors.success,
+  declined: colors.error,
+  cancelled: colors.lightText,
+};
+
+// Bookings in these statuses hold the machine and block overlapping requests
+export const BLOCKING_BOOKING_STATUSES: BookingStatus[] = ['approved'];
+
+// Bookings the owner still has to act on or that are going ahead
+export const OPEN_BOOKING_STATUSES: BookingStatus[] = ['pending', 'approved'];
+
+// Thrown when a booking would overlap one that has already been approved
+export class BookingConflictError extends Error {
+  constructor(public conflictingBooking: MachineBooking) {
+    super('The machine is already booked for part of this period');
+    this.name = 'BookingConflictError';
+  }
+}
+
+/**
+ * Get the rental prices a machine can be booked at.
+ * Listings made before rates existed only have a single price, which is treated as the daily rate.
+ * @param machine The machine listing
+ * @returns The priced units; empty if the machine cannot be rented
+ */
+export const getMachineRates = (machine: Pick<Machine, 'rates' | 'price'>): MachineRates => {
+  const rates: MachineRates = {};
+  RATE_UNITS.forEach(unit => {
+    const rate = machine.rates?.[unit];
+    if (rate && rate > 0) {
+      rates[unit] = rate;
+    }
+  });
+
+  if (Object.keys(rates).length === 0 && machine.price > 0) {
+    rates.day = machine.price;
+  }
+  return rates;
+};
+
+// Machines that are for sale or taken off the market cannot be booked
+export const canBookMachine = (machine: Pick<Machine, 'status'>): boolean => {
+  return machine.status !== 'for_sale' && machine.status !== 'unavailable';
+};
+
+export const startOfDay = (date: Date): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, date.getHours(), date.getMinutes());
+};
+
+export const isSameDay = (a: Date, b: Date): boolean => {
+  return a.toDateString() === b.toDateString();
+};
+
+/**
+ * Work out the period a booking covers
+ * @param unit How the booking is charged
+ * @param firstDay The first day selected on the calendar
+ * @param lastDay The last day selected; ignored for hourly bookings
+ * @param startHour Hour of the day an hourly booking starts
+ * @param hours Length of an hourly booking
+ * @returns The start and exclusive end of the booking
+ */
+export const getBookingPeriod = (
+  unit: RateUnit,
+  firstDay: Date,
+  lastDay: Date,
+  startHour: number,
+  hours: number
+): { startDate: Date; endDate: Date } => {
+  if (unit === 'hour') {
+    const startDate = new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate(), startHour);
+    return { startDate, endDate: new Date(startDate.getTime() + hours * 60 * 60 * 1000) };
+  }
+  return { startDate: startOfDay(firstDay), endDate: addDays(startOfDay(lastDay), 1) };
+};
+
+// Number of whole days a period covers, counting a part day as a full one
+export const getBookingDays = (startDate: Date, endDate: Date): number => {
+  return Math.max(1, Math.ceil((endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000)));
+};
+
+export const calculateBookingTotal = (rate: number, quantity: number): number => {
+  return Math.round(rate * quantity * 100) / 100;
+};
+
+/**
+ * Check a booking request before it is sent to the owner
+ * @param rates The machine's rental prices
+ * @param unit How the booking is charged
+ * @param startDate Start of the booking
+ * @param endDate Exclusive end of the booking
+ * @param quantity Hours, days or acres being booked
+ * @param now The current time
+ * @returns Message key under machines.bookingErrors, or null if the request is valid
+ */
+export const validateBookingRequest = (
+  rates: MachineRates,
+  unit: RateUnit,
+  startDate: Date,
+  endDate: Date,
+  quantity: number,
+  now: Date = new Date()
+): string | null => {
+  if (!rates[unit]) {
+    return `machines.bookingErrors.unitUnavailable.${unit}`;
+  }
+  if (startDate < now) {
+    return 'machines.bookingErrors.startInPast';
+  }
+  if (endDate <= startDate) {
+    return 'machines.bookingErrors.endBeforeStart';
+  }
+  if (!(quantity > 0)) {
+    return unit === 'acre' ? 'machines.bookingErrors.enterAcres' : 'machines.bookingErrors.selectDuration';
+  }
+  return null;
+};
+
+export const periodsOverlap = (aStart: Date, aEnd: Date, bStart: Date, bEnd: Date): boolean => {
+  return aStart < bEnd && bStart < aEnd;
+};
+
+/**
+ * Find an approved booking that overlaps a period
+ * @param bookings Bookings for the machine
+ * @param startDate Start of the period
+ * @param endDate Exclusive end of the period
+ * @param ignoreBookingId A booking to leave out, such as the one being approved
+ * @returns The first conflicting booking, or null if the period is free
+ */
+export const findBookingConflict = (
+  bookings: MachineBooking[],
+  startDate: Date,
+  endDate: Date,
+  ignoreBookingId?: string
+): MachineBooking | null => {
+  return bookings.find(booking =>
+    booking.id !== ignoreBookingId &&
+    BLOCKING_BOOKING_STATUSES.includes(booking.status) &&
+    periodsOverlap(booking.startDate, booking.endDate, startDate, endDate)
+  ) || null;
+};
+
+/**
+ * How a day should be shown on the availability calendar
+ * @param day The calendar day
+ * @param bookings Bookings for the machine
+ * @returns 'booked' if an approved booking covers any of the day, 'pending' if only requests do, otherwise null
+ */
+export const getDayAvailability = (day: Date, bookings: MachineBooking[]): 'booked' | 'pending' | null => {
+  const dayStart = startOfDay(day);
+  const dayEnd = addDays(dayStart, 1);
+  const covering = bookings.filter(booking => periodsOverlap(booking.startDate, booking.endDate, dayStart, dayEnd));
+
+  if (covering.some(booking => BLOCKING_BOOKING_STATUSES.includes(booking.status))) {
+    return 'booked';
+  }
+  return covering.some(booking => booking.status === 'pending') ? 'pending' : null;
+};
+
+/**
+ * Lay out a month for a calendar grid that starts on Sunday
+ * @param month Any date in the month
+ * @returns The month's days, padded with nulls before the 1st so each row is a week
+ */
+export const getCalendarDays = (month: Date): (Date | null)[] => {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const days: (Date | null)[] = Array(first.getDay()).fill(null);
+
+  for (let day = 1; day <= daysInMonth; day++) {
+    days.push(new Date(month.getFullYear(), month.getMonth(), day));
+  }
+  return days;
+};
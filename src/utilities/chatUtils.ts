@@ -0,0 +1,64 @@
+import { ChatMessage, Conversation, ConversationRole, ConversationSubject } from '../types';
+
+// Longest text message that can be sent, in characters
+export const MAX_MESSAGE_LENGTH = 1000;
+
+export const CONVERSATION_SUBJECT_ICONS: Record<ConversationSubject, string> = {
+  product: 'leaf-outline',
+  machine: 'construct-outline',
+  shop: 'storefront-outline',
+  bid: 'hammer-outline',
+};
+
+/**
+ * Build the id of the conversation between a buyer and the seller of a listing.
+ * A buyer has one thread per listing, so asking again reopens the earlier history.
+ * @param subjectType What the conversation is about
+ * @param subjectId Id of the product, machine, shop or bid
+ * @param buyerEmail Email of the person who started the conversation
+ * @returns The conversation document id
+ */
+export const getConversationId = (
+  subjectType: ConversationSubject,
+  subjectId: string,
+  buyerEmail: string
+): string => {
+  return `${subjectType}_${subjectId}_${buyerEmail.toLowerCase()}`;
+};
+
+export const getConversationRole = (
+  conversation: Pick<Conversation, 'buyerEmail'>,
+  email: string
+): ConversationRole => {
+  return conversation.buyerEmail.toLowerCase() === email.toLowerCase() ? 'buyer' : 'seller';
+};
+
+export const getOtherParticipant = (conversation: Conversation, email: string): string => {
+  return getConversationRole(conversation, email) === 'buyer' ? conversation.sellerEmail : conversation.buyerEmail;
+};
+
+export const getUnreadCount = (conversation: Conversation, email: string): number => {
+  return getConversationRole(conversation, email) === 'buyer' ? conversation.buyerUnread : conversation.sellerUnread;
+};
+
+/**
+ * Check whether the other participant has read a message
+ * @param conversation The conversation, with each side's last read time
+ * @param message The message to check
+ * @returns True once the recipient has opened the conversation after the message was sent
+ */
+export const isMessageSeen = (conversation: Conversation, message: ChatMessage): boolean => {
+  const recipientReadAt = getConversationRole(conversation, message.senderEmail) === 'buyer'
+    ? conversation.sellerLastReadAt
+    : conversation.buyerLastReadAt;
+  return !!recipientReadAt && recipientReadAt >= message.createdAt;
+};
+
+// The last message as listed with a conversation. Photos are saved as a type rather than text,
+// so each reader sees the label in their own language.
+export const getMessagePreview = (
+  conversation: Pick<Conversation, 'lastMessage' | 'lastMessageType'>,
+  t: (key: string) => string
+): string => {
+  return conversation.lastMessageType === 'image' ? t('messages.photo') : conversation.lastMessage || '';
+};
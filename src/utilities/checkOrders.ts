@@ -0,0 +1,186 @@
+/**
+ * Scheduled job that checks the prices of new orders
+ *
+ * Checkout prices an order on the buyer's device, and the security rules cannot check a
+ * list of lines, so the totals it writes cannot be trusted. The job prices each new order
+ * again from the stored products, promotion and delivery rules. Orders that match are
+ * confirmed, which counts their promotion as used and lets sellers start on them. Orders
+ * that do not are cancelled, their stock is put back and the buyer is asked to check out again.
+ *
+ * Usage:
+ * 1. Run once (e.g. from cron): npm run check-orders
+ * 2. Keep running and check every N minutes: npm run check-orders -- --every=1
+ *
+ * The job uses the Firebase Admin SDK; see jobUtils.ts for the credentials it needs.
+ */
+
+import { DocumentData, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import { DEFAULT_DELIVERY_RULE_ID, DeliveryItem, mapDeliveryRuleData, mapPromotionData, priceOrder } from './pricingUtils';
+import { getOrderRejectedNotification } from './notificationUtils';
+import { db, runJob, sendNotifications } from './jobUtils';
+import { OrderPricing, Promotion } from '../types';
+
+// Amounts are stored in rupees; anything closer than a cent is the same amount
+const isSameAmount = (a: number, b: number): boolean => Math.abs((a || 0) - (b || 0)) < 0.01;
+
+const isSameList = (a: string[], b: string[]): boolean => {
+  const sortedB = [...b].sort();
+  return a.length === b.length && [...a].sort().every((value, index) => value === sortedB[index]);
+};
+
+// Check a single order that is waiting for its prices to be confirmed.
+// Returns whether it was confirmed or rejected, or null if it no longer needed checking.
+const checkOrder = async (orderId: string, now: Date): Promise<OrderPricing | null> => {
+  const orderRef = db.doc(`orders/${orderId}`);
+
+  return db.runTransaction(async (transaction) => {
+    const orderDoc = await transaction.get(orderRef);
+    const order = orderDoc.data();
+    if (!order || order.pricing !== 'pending' || order.status !== 'pending') return null;
+
+    // Everything the price depends on is read from the stored documents, as checkout did
+    const lines: DocumentData[] = order.products || [];
+    const productDocs = lines.length
+      ? await transaction.getAll(...lines.map(line => db.doc(`products/${line.id}`)))
+      : [];
+    const shopIds = Array.from(new Set(productDocs.map(productDoc => productDoc.get('shopId')).filter(Boolean)));
+    const shopDocs = shopIds.length
+      ? await transaction.getAll(...shopIds.map(shopId => db.doc(`shops/${shopId}`)))
+      : [];
+    const promoDoc = order.promoId ? await transaction.get(db.doc(`promotions/${order.promoId}`)) : null;
+    const subOrderIds: string[] = order.subOrderIds || [];
+    const subOrderDocs = subOrderIds.length
+      ? await transaction.getAll(...subOrderIds.map(subOrderId => db.doc(`sellerOrders/${subOrderId}`)))
+      : [];
+
+    // Products listed without a seller email belong to the owner of their shop
+    const items: DeliveryItem[] = [];
+    productDocs.forEach((productDoc, index) => {
+      if (!productDoc.exists) return;
+      const shopOwner = shopDocs.find(shopDoc => shopDoc.id === productDoc.get('shopId'))?.get('owner');
+      items.push({
+        price: productDoc.get('price') || 0,
+        quantity: lines[index].quantity || 1,
+        category: productDoc.get('category') || '',
+        shopId: productDoc.get('shopId') || '',
+        unit: productDoc.get('unit') || '',
+        shopName: productDoc.get('shopName') || '',
+        sellerEmail: productDoc.get('sellerEmail') || shopOwner || '',
+      });
+    });
+    const sellerEmails = Array.from(new Set(items.map(item => item.sellerEmail || '').filter(Boolean)));
+
+    const ruleDocs = await transaction.getAll(
+      ...[DEFAULT_DELIVERY_RULE_ID, ...sellerEmails].map(ruleId => db.doc(`deliveryRules/${ruleId}`))
+    );
+    const promotion: Promotion | null = promoDoc?.exists ? mapPromotionData(promoDoc.id, promoDoc.data()) : null;
+    const createdAt: Date = order.createdAt?.toDate ? order.createdAt.toDate() : now;
+    const pricing = priceOrder(
+      items,
+      order.deliveryDistrict || '',
+      ruleDocs.filter(ruleDoc => ruleDoc.exists).map(ruleDoc => mapDeliveryRuleData(ruleDoc.id, ruleDoc.data())),
+      promotion,
+      order.userId,
+      createdAt
+    );
+
+    // Each tracked product must hold back everything the order's lines ask for
+    const orderedQuantities: Record<string, number> = {};
+    lines.forEach(line => {
+      orderedQuantities[line.id] = (orderedQuantities[line.id] || 0) + (line.quantity || 1);
+    });
+    const isReserved = productDocs.every(productDoc => {
+      return typeof productDoc.get('quantity') !== 'number'
+        || productDoc.get(`reservations.${orderId}`) === orderedQuantities[productDoc.id];
+    });
+
+    const confirmed = pricing.valid
+      && items.length === lines.length
+      && (!order.promoId || !!promotion)
+      && items.every((item, index) => isSameAmount(item.price, lines[index].price))
+      && isSameAmount(pricing.totals.subtotal, order.subtotal)
+      && isSameAmount(pricing.totals.discount, order.discount)
+      && isSameAmount(pricing.totals.deliveryFee, order.deliveryFee)
+      && isSameAmount(pricing.totals.total, order.totalAmount)
+      && isSameList(sellerEmails, order.sellerEmails || [])
+      && isReserved;
+
+    if (confirmed) {
+      transaction.update(orderRef, { pricing: 'confirmed', pricedAt: FieldValue.serverTimestamp() });
+      if (promoDoc) {
+        transaction.update(promoDoc.ref, {
+          [`usageByUser.${order.userId}`]: FieldValue.increment(1),
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      }
+      return 'confirmed';
+    }
+
+    // Put back whatever checkout took for the order, as a cancellation from the app does
+    const uniqueProductDocs = productDocs.filter((productDoc, index) => {
+      return productDocs.findIndex(otherDoc => otherDoc.id === productDoc.id) === index;
+    });
+    uniqueProductDocs.forEach(productDoc => {
+      const reserved = productDoc.get(`reservations.${orderId}`);
+      if (typeof reserved === 'number') {
+        transaction.update(productDoc.ref, {
+          quantity: FieldValue.increment(reserved),
+          [`reservations.${orderId}`]: FieldValue.delete(),
+          stockOrderId: orderId,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      }
+    });
+    subOrderDocs
+      .filter(subOrderDoc => subOrderDoc.exists && subOrderDoc.get('orderId') === orderId)
+      .forEach(subOrderDoc => {
+        transaction.update(subOrderDoc.ref, { status: 'cancelled', updatedAt: FieldValue.serverTimestamp() });
+      });
+    transaction.update(orderRef, {
+      pricing: 'rejected',
+      status: 'cancelled',
+      statusHistory: [
+        ...(order.statusHistory || []),
+        { status: 'cancelled', changedBy: 'marketplace', changedAt: Timestamp.fromDate(now) },
+      ],
+      reservedProductIds: [],
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return 'rejected';
+  });
+};
+
+// Check every order waiting for its prices to be confirmed. Returns the ids of the orders confirmed.
+export const checkPendingOrders = async (now: Date = new Date()): Promise<string[]> => {
+  const snapshot = await db.collection('orders')
+    .where('pricing', '==', 'pending')
+    .where('status', '==', 'pending')
+    .get();
+
+  const confirmedIds: string[] = [];
+  let rejected = 0;
+  for (const orderDoc of snapshot.docs) {
+    try {
+      const result = await checkOrder(orderDoc.id, now);
+      if (result === 'confirmed') {
+        confirmedIds.push(orderDoc.id);
+      } else if (result === 'rejected') {
+        rejected++;
+        console.log(`Rejected order ${orderDoc.id}`);
+        if (orderDoc.get('userEmail')) {
+          await sendNotifications([getOrderRejectedNotification(orderDoc.id, orderDoc.get('userEmail'))]);
+        }
+      }
+    } catch (error) {
+      console.error(`Error checking order ${orderDoc.id}:`, error);
+    }
+  }
+
+  console.log(`${confirmedIds.length} order(s) confirmed and ${rejected} rejected at ${now.toISOString()}`);
+  return confirmedIds;
+};
+
+// Check if running directly rather than imported
+if (require.main === module) {
+  runJob('the order check job', checkPendingOrders);
+}
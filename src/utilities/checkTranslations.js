@@ -0,0 +1,122 @@
+/**
+ * Reports messages that are missing from the Sinhala and Tamil catalogs
+ *
+ * English (src/locales/en.json) is the reference catalog. For every other locale this
+ * lists the keys it does not have, plural messages missing a form, and keys that
+ * English no longer has. The app falls back to English for missing messages, so
+ * these show up as untranslated text rather than errors.
+ *
+ * Usage:
+ *   node src/utilities/checkTranslations.js           report every locale
+ *   node src/utilities/checkTranslations.js si        report one locale
+ *
+ * Exits with status 1 when any message is missing, so it can run in CI.
+ */
+
+const path = require('path');
+
+const LOCALES_DIR = path.join(__dirname, '..', 'locales');
+const REFERENCE_LOCALE = 'en';
+const LOCALES = ['en', 'si', 'ta'];
+const PLURAL_CATEGORIES = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+// Kept in step with getPluralCategory in i18n.ts
+const REQUIRED_PLURAL_FORMS = {
+  en: ['one', 'other'],
+  si: ['one', 'other'],
+  ta: ['one', 'other'],
+};
+
+function isPluralEntry(entry) {
+  const keys = Object.keys(entry);
+  return keys.includes('other') && keys.every(key => PLURAL_CATEGORIES.includes(key));
+}
+
+// Flatten a catalog to { 'dotted.key': message or plural forms }
+function flattenCatalog(catalog, prefix = '', result = {}) {
+  Object.entries(catalog).forEach(([key, entry]) => {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    if (typeof entry === 'string' || isPluralEntry(entry)) {
+      result[fullKey] = entry;
+    } else {
+      flattenCatalog(entry, fullKey, result);
+    }
+  });
+  return result;
+}
+
+function loadCatalog(locale) {
+  return flattenCatalog(require(path.join(LOCALES_DIR, `${locale}.json`)));
+}
+
+function placeholders(message) {
+  const messages = typeof message === 'string' ? [message] : Object.values(message);
+  return new Set(messages.flatMap(text => (text.match(/\{\{\s*\w+\s*\}\}/g) || []).map(p => p.replace(/[{}\s]/g, ''))));
+}
+
+function checkLocale(locale, reference) {
+  const catalog = loadCatalog(locale);
+  const missing = [];
+  const problems = [];
+
+  Object.entries(reference).forEach(([key, referenceMessage]) => {
+    const message = catalog[key];
+    if (message === undefined) {
+      missing.push(key);
+      return;
+    }
+
+    if (typeof referenceMessage !== typeof message) {
+      problems.push(`${key}: should be ${typeof referenceMessage === 'string' ? 'a message' : 'plural forms'}`);
+      return;
+    }
+
+    if (typeof message !== 'string') {
+      const missingForms = REQUIRED_PLURAL_FORMS[locale].filter(form => message[form] === undefined);
+      if (missingForms.length > 0) {
+        problems.push(`${key}: missing plural forms ${missingForms.join(', ')}`);
+      }
+    }
+
+    const expected = placeholders(referenceMessage);
+    const unknown = [...placeholders(message)].filter(name => !expected.has(name));
+    if (unknown.length > 0) {
+      problems.push(`${key}: unknown placeholders ${unknown.join(', ')}`);
+    }
+  });
+
+  const unused = Object.keys(catalog).filter(key => reference[key] === undefined);
+
+  return { missing, problems, unused };
+}
+
+function main() {
+  const requested = process.argv[2];
+  if (requested && !LOCALES.includes(requested)) {
+    console.error(`Unknown locale "${requested}". Expected one of: ${LOCALES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const reference = loadCatalog(REFERENCE_LOCALE);
+  const locales = requested ? [requested] : LOCALES.filter(locale => locale !== REFERENCE_LOCALE);
+  let failed = false;
+
+  console.log(`${Object.keys(reference).length} messages in ${REFERENCE_LOCALE}.json`);
+
+  locales.forEach(locale => {
+    const { missing, problems, unused } = checkLocale(locale, reference);
+
+    console.log(`\n${locale}: ${missing.length} missing, ${problems.length} problems, ${unused.length} unused`);
+    missing.forEach(key => console.log(`  missing  ${key}`));
+    problems.forEach(problem => console.log(`  problem  ${problem}`));
+    unused.forEach(key => console.log(`  unused   ${key}`));
+
+    if (missing.length > 0 || problems.length > 0) {
+      failed = true;
+    }
+  });
+
+  process.exit(failed ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,237 @@
+/**
+ * Scheduled job that bids for proxy bidders and closes auctions whose due date has passed
+ *
+ * Bidders' proxy maximums are kept where only they can read them, so the job places the
+ * offers they lead to. Each expired auction is then marked `closed` and the highest valid
+ * offer is recorded as its `winner`. The seller confirms the sale or relists from BidDetailsScreen.
+ * Bidders are notified when an auction they are in has an hour left, and again
+ * when it closes to tell them whether they won.
+ *
+ * Usage:
+ * 1. Run once (e.g. from cron): npm run close-auctions
+ * 2. Keep running and check every N minutes: npm run close-auctions -- --every=1
+ *    Proxy bids answer new offers on each run, so run it well within the anti-sniping extension.
+ *
+ * The job uses the Firebase Admin SDK; see jobUtils.ts for the credentials it needs.
+ */
+
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import {
+  AUCTION_ENDING_NOTICE_MINUTES,
+  getExtendedDueDate,
+  isAuctionExpired,
+  isBuyNowOffer,
+  isReserveMet,
+  mapBidData,
+  mapProxyBid,
+  resolveProxyBids,
+  selectWinningOffer,
+} from './auctionRules';
+import {
+  NewNotification,
+  getAuctionEndingNotifications,
+  getAuctionResultNotifications,
+  getOfferNotifications,
+} from './notificationUtils';
+import { db, runJob, sendNotifications } from './jobUtils';
+import { BidWinner } from '../types';
+
+// Place the offers proxy bidders make in answer to the current bids on an active auction.
+// Returns the notifications to send, or null if no offers were placed.
+const placeProxyOffers = async (bidId: string, now: Date): Promise<NewNotification[] | null> => {
+  const bidRef = db.doc(`bids/${bidId}`);
+
+  return db.runTransaction(async (transaction) => {
+    const bidDoc = await transaction.get(bidRef);
+    if (!bidDoc.exists) return null;
+
+    const bid = mapBidData(bidDoc.id, bidDoc.data());
+    if (bid.status !== 'active' || now < bid.startDate) return null;
+
+    const proxyBidsSnapshot = await transaction.get(bidRef.collection('proxyBids'));
+    const offers = resolveProxyBids(bid, proxyBidsSnapshot.docs.map(proxyBidDoc => mapProxyBid(proxyBidDoc.data())));
+    if (!offers.length) return null;
+
+    const bids = [...(bidDoc.get('bids') || [])];
+    const placedOffers: { email: string; amount: number }[] = [];
+    let buyNowWinner: BidWinner | null = null;
+    for (const offer of offers) {
+      const offerRef = bidRef.collection('offers').doc();
+      const newBidOffer = { id: offerRef.id, bidId, amount: offer.amount, email: offer.email };
+
+      // The offers subcollection keeps the full record; the array is what listings display
+      transaction.create(offerRef, { ...newBidOffer, createdAt: FieldValue.serverTimestamp() });
+      bids.push({ ...newBidOffer, createdAt: Timestamp.fromDate(now) });
+      placedOffers.push(offer);
+
+      if (isBuyNowOffer(bid, offer.amount)) {
+        buyNowWinner = { offerId: offerRef.id, email: offer.email, amount: offer.amount };
+        break;
+      }
+    }
+
+    const notifications = getOfferNotifications(bid, placedOffers);
+
+    if (buyNowWinner) {
+      // Meeting the buy now price wins the auction outright
+      transaction.update(bidRef, {
+        bids,
+        status: 'closed',
+        dueDate: Timestamp.fromDate(now),
+        winner: buyNowWinner,
+        reserveMet: true,
+        closedAt: FieldValue.serverTimestamp(),
+      });
+      proxyBidsSnapshot.docs.forEach(proxyBidDoc => transaction.delete(proxyBidDoc.ref));
+      notifications.push(...getAuctionResultNotifications(mapBidData(bidId, { ...bidDoc.data(), bids }), buyNowWinner));
+    } else {
+      // Answering offers made before the deadline does not reopen an auction that has already ended
+      transaction.update(bidRef, {
+        bids,
+        ...(isAuctionExpired(bid, now) ? {} : { dueDate: Timestamp.fromDate(getExtendedDueDate(bid.dueDate, now)) }),
+      });
+    }
+
+    return notifications;
+  });
+};
+
+// Let proxy bidders answer the latest offers on every auction they are in. Returns how many auctions they bid on.
+const placeAllProxyOffers = async (now: Date): Promise<number> => {
+  const snapshot = await db.collectionGroup('proxyBids').get();
+  const bidIds = Array.from(new Set(snapshot.docs.map(proxyBidDoc => proxyBidDoc.ref.parent.parent?.id)))
+    .filter((bidId): bidId is string => !!bidId);
+
+  let placed = 0;
+  for (const bidId of bidIds) {
+    try {
+      const notifications = await placeProxyOffers(bidId, now);
+      if (notifications) {
+        placed++;
+        await sendNotifications(notifications);
+      }
+    } catch (error) {
+      console.error(`Error placing proxy bids on auction ${bidId}:`, error);
+    }
+  }
+
+  return placed;
+};
+
+// Close a single auction if it is still active and past its due date.
+// Its proxy maximums are removed, so a relisted auction starts afresh.
+// Returns the won and lost notifications to send, or null if the auction was not closed.
+const closeAuction = async (bidId: string, now: Date): Promise<NewNotification[] | null> => {
+  const bidRef = db.doc(`bids/${bidId}`);
+
+  return db.runTransaction(async (transaction) => {
+    const bidDoc = await transaction.get(bidRef);
+    if (!bidDoc.exists) return null;
+
+    const bid = mapBidData(bidDoc.id, bidDoc.data());
+    if (!isAuctionExpired(bid, now)) return null;
+
+    // The reserve is kept apart from the listing; older listings still have it on the bid itself
+    const reserveDoc = await transaction.get(bidRef.collection('private').doc('reserve'));
+    const reservePrice: number | undefined = reserveDoc.get('reservePrice') || bidDoc.get('reservePrice') || undefined;
+    const proxyBidsSnapshot = await transaction.get(bidRef.collection('proxyBids'));
+
+    // An auction that ends below the reserve closes without a winner
+    const winningOffer = selectWinningOffer(bid);
+    const reserveMet = !!winningOffer && isReserveMet({ reservePrice }, winningOffer.amount);
+    const winner: BidWinner | null = winningOffer && reserveMet
+      ? { offerId: winningOffer.id, email: winningOffer.email, amount: winningOffer.amount }
+      : null;
+
+    transaction.update(bidRef, {
+      status: 'closed',
+      winner,
+      reserveMet,
+      closedAt: FieldValue.serverTimestamp(),
+    });
+    proxyBidsSnapshot.docs.forEach(proxyBidDoc => transaction.delete(proxyBidDoc.ref));
+
+    return getAuctionResultNotifications(bid, winner);
+  });
+};
+
+// Mark an auction's ending notice as sent, returning the notices for its bidders.
+// Returns null if the notice already went out or the auction is no longer ending soon.
+const claimEndingNotice = async (bidId: string, now: Date, noticeFrom: Date): Promise<NewNotification[] | null> => {
+  const bidRef = db.doc(`bids/${bidId}`);
+
+  return db.runTransaction(async (transaction) => {
+    const bidDoc = await transaction.get(bidRef);
+    if (!bidDoc.exists) return null;
+
+    const bid = mapBidData(bidDoc.id, bidDoc.data());
+    if (bid.status !== 'active' || bidDoc.get('endingNoticeSentAt') || bid.dueDate <= now || bid.dueDate > noticeFrom) {
+      return null;
+    }
+
+    transaction.update(bidRef, { endingNoticeSentAt: FieldValue.serverTimestamp() });
+    return getAuctionEndingNotifications(bid);
+  });
+};
+
+// Tell bidders about auctions that end within the notice window. Returns how many notices were sent.
+const notifyAuctionsEndingSoon = async (now: Date): Promise<number> => {
+  const noticeFrom = new Date(now.getTime() + AUCTION_ENDING_NOTICE_MINUTES * 60 * 1000);
+  const snapshot = await db.collection('bids')
+    .where('status', '==', 'active')
+    .where('dueDate', '<=', Timestamp.fromDate(noticeFrom))
+    .get();
+
+  let notified = 0;
+  for (const bidDoc of snapshot.docs) {
+    try {
+      const notifications = await claimEndingNotice(bidDoc.id, now, noticeFrom);
+      if (notifications) {
+        notified += await sendNotifications(notifications);
+      }
+    } catch (error) {
+      console.error(`Error sending ending notice for auction ${bidDoc.id}:`, error);
+    }
+  }
+
+  return notified;
+};
+
+// Place proxy bids, close every expired auction and send the ending notices that are due.
+// Proxy bids go first so they can still answer offers made just before an auction ended.
+// Returns the ids of the auctions closed.
+export const closeExpiredAuctions = async (now: Date = new Date()): Promise<string[]> => {
+  const proxyAuctions = await placeAllProxyOffers(now);
+
+  const snapshot = await db.collection('bids')
+    .where('status', '==', 'active')
+    .where('dueDate', '<=', Timestamp.fromDate(now))
+    .get();
+
+  const closedIds: string[] = [];
+  for (const bidDoc of snapshot.docs) {
+    try {
+      const notifications = await closeAuction(bidDoc.id, now);
+      if (notifications) {
+        closedIds.push(bidDoc.id);
+        console.log(`Closed auction ${bidDoc.id}`);
+        await sendNotifications(notifications);
+      }
+    } catch (error) {
+      console.error(`Error closing auction ${bidDoc.id}:`, error);
+    }
+  }
+
+  const notified = await notifyAuctionsEndingSoon(now);
+
+  console.log(
+    `Proxy bids placed on ${proxyAuctions} auction(s), ${closedIds.length} auction(s) closed ` +
+    `and ${notified} ending notice(s) sent at ${now.toISOString()}`
+  );
+  return closedIds;
+};
+
+// Check if running directly rather than imported
+if (require.main === module) {
+  runJob('the auction job', closeExpiredAuctions);
+}
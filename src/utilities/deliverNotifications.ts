@@ -0,0 +1,99 @@
+/**
+ * Scheduled job that delivers the notifications users send each other
+ *
+ * Users can only write their own notifications, so the app saves the ones it sends to
+ * other users as requests in notificationRequests. The job delivers a request when its
+ * sender and recipient both take part in the bid, order or booking it links to, skips
+ * notifications the recipient has turned off, and deletes the request either way. Requests
+ * that could not be checked are left for the next run.
+ *
+ * Usage:
+ * 1. Run once (e.g. from cron): npm run deliver-notifications
+ * 2. Keep running and check every N minutes: npm run deliver-notifications -- --every=1
+ *
+ * The job uses the Firebase Admin SDK; see jobUtils.ts for the credentials it needs.
+ */
+
+import { DocumentData, DocumentReference } from 'firebase-admin/firestore';
+import { NewNotification } from './notificationUtils';
+import { db, runJob, sendNotifications } from './jobUtils';
+
+// Requests handled per run, to keep each batch of deletes within Firestore's write limit
+const MAX_REQUESTS_PER_RUN = 400;
+
+// The emails, in lower case, of everyone taking part in the bid, order or booking a request links to
+const getParticipantEmails = async (request: DocumentData): Promise<string[]> => {
+  let emails: string[] = [];
+
+  if (request.bidId) {
+    const bidDoc = await db.doc(`bids/${request.bidId}`).get();
+    emails = [bidDoc.get('email'), ...(bidDoc.get('bids') || []).map((offer: any) => offer.email)];
+  } else if (request.orderId) {
+    const orderDoc = await db.doc(`orders/${request.orderId}`).get();
+    emails = [orderDoc.get('userEmail'), ...(orderDoc.get('sellerEmails') || [])];
+  } else if (request.bookingId) {
+    const bookingDoc = await db.doc(`machineBookings/${request.bookingId}`).get();
+    emails = [bookingDoc.get('ownerEmail'), bookingDoc.get('renterEmail')];
+  }
+
+  return emails.filter((email): email is string => typeof email === 'string').map(email => email.toLowerCase());
+};
+
+// Turn a request into the notification it asks for, or null if the sender may not send it
+const checkRequest = async (request: DocumentData): Promise<NewNotification | null> => {
+  if (typeof request.recipientEmail !== 'string' || typeof request.messageKey !== 'string' || !request.type) {
+    return null;
+  }
+
+  const participants = await getParticipantEmails(request);
+  const isParticipant = (email: string) => participants.includes(email.toLowerCase());
+  if (!isParticipant(request.senderEmail) || !isParticipant(request.recipientEmail)) {
+    return null;
+  }
+
+  return {
+    recipientEmail: request.recipientEmail,
+    type: request.type,
+    messageKey: request.messageKey,
+    params: request.params || {},
+    ...(request.orderId ? { orderId: request.orderId } : {}),
+    ...(request.bidId ? { bidId: request.bidId } : {}),
+    ...(request.productId ? { productId: request.productId } : {}),
+    ...(request.bookingId ? { bookingId: request.bookingId } : {}),
+  };
+};
+
+// Deliver the waiting notification requests. Returns how many notifications were sent.
+export const deliverNotificationRequests = async (now: Date = new Date()): Promise<number> => {
+  const snapshot = await db.collection('notificationRequests').limit(MAX_REQUESTS_PER_RUN).get();
+
+  const notifications: NewNotification[] = [];
+  const handled: DocumentReference[] = [];
+  for (const requestDoc of snapshot.docs) {
+    try {
+      const notification = await checkRequest(requestDoc.data());
+      handled.push(requestDoc.ref);
+      if (notification) {
+        notifications.push(notification);
+      } else {
+        console.log(`Dropped notification request ${requestDoc.id} from ${requestDoc.get('senderEmail')}`);
+      }
+    } catch (error) {
+      console.error(`Error checking notification request ${requestDoc.id}:`, error);
+    }
+  }
+
+  const sent = await sendNotifications(notifications);
+
+  const batch = db.batch();
+  handled.forEach(requestRef => batch.delete(requestRef));
+  await batch.commit();
+
+  console.log(`${sent} notification(s) sent from ${handled.length} request(s) at ${now.toISOString()}`);
+  return sent;
+};
+
+// Check if running directly rather than imported
+if (require.main === module) {
+  runJob('the notification job', deliverNotificationRequests);
+}
@@ -1,7 +1,7 @@
 // firebase.ts
 import { initializeApp, getApps, getApp, FirebaseApp } from 'firebase/app';
-import { getAuth, Auth } from 'firebase/auth';
-import { getFirestore, Firestore } from 'firebase/firestore';
+import { getAuth, Auth, connectAuthEmulator } from 'firebase/auth';
+import { getFirestore, Firestore, connectFirestoreEmulator } from 'firebase/firestore';
 // Import but don't use getStorage
 import { getStorage } from 'firebase/storage';
 
@@ -42,6 +42,17 @@ const db: Firestore = getFirestore(app);
 // Initialize Authentication
 const auth: Auth = getAuth(app);
 
+// Set these (e.g. localhost:9099 and localhost:8080) to run the app against the local emulators.
+// The Auth emulator prints password reset and verification links instead of emailing them.
+if (process.env.EXPO_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST) {
+    connectAuthEmulator(auth, `http://${process.env.EXPO_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST}`);
+}
+
+if (process.env.EXPO_PUBLIC_FIRESTORE_EMULATOR_HOST) {
+    const [host, port] = process.env.EXPO_PUBLIC_FIRESTORE_EMULATOR_HOST.split(':');
+    connectFirestoreEmulator(db, host, parseInt(port, 10));
+}
+
 // Create a disabled mock storage implementation
 const disabledStorage: CustomStorage = {
     _unavailable: true,
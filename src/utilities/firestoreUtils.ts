@@ -12,9 +12,17 @@ import {
   limit,
   Timestamp,
   serverTimestamp,
-  setDoc
+  setDoc,
+  runTransaction,
+  increment,
+  Transaction,
+  DocumentSnapshot,
+  writeBatch,
+  deleteField,
+  onSnapshot,
+  Unsubscribe
 } from 'firebase/firestore';
-import { db } from './firebaseConfig';
+import { auth, db } from './firebaseConfig';
 import { 
   Product, 
   Category, 
@@ -22,19 +30,97 @@ import {
   Article, 
   MarketPrice, 
   User, 
+  PublicProfile,
   Order, 
   Review,
   Bid,
   BidOffer,
   Shop,
-  Machine
+  Machine,
+  CartItem,
+  OrderActor,
+  OrderStatus,
+  OrderStatusChange,
+  ReturnRequest,
+  FulfilmentStatus,
+  SellerOrder,
+  SellerOrderLine,
+  Promotion,
+  DeliveryRule,
+  BidWinner,
+  AppNotification,
+  NotificationPreferences,
+  Conversation,
+  ConversationSubject,
+  ChatMessage,
+  ProxyBid,
+  MachineBooking,
+  BookingStatus,
+  MachineLogEntry,
+  ReviewTargetType,
+  ReviewStatus,
+  ReviewReport,
+  RatingSummary
 } from '../types';
 import { getRandomId } from '../utils';
+import { hasRole } from './roleUtils';
+import {
+  INITIAL_ORDER_STATUS,
+  assertTransition,
+  canRequestReturn,
+  getNextFulfilmentStatus,
+  getOverallFulfilmentStatus,
+  deriveOrderStatusFromFulfilment
+} from './orderStatus';
+import {
+  PromoRejection,
+  DEFAULT_DELIVERY_RULE_ID,
+  mapDeliveryRuleData,
+  mapPromotionData,
+  normalisePromoCode,
+  priceOrder
+} from './pricingUtils';
+import {
+  BidValidationError,
+  assertValidOffer,
+  getHighestOffer,
+  isBuyNowOffer,
+  getExtendedDueDate,
+  mapBidData,
+  mapProxyBid
+} from './auctionRules';
+import {
+  NewNotification,
+  toNotificationDoc,
+  getOfferNotifications,
+  getAuctionResultNotifications,
+  getOrderStatusNotification,
+  getBookingRequestNotification,
+  getBookingUpdateNotification
+} from './notificationUtils';
+import { Locale, DEFAULT_LOCALE, getLocalizedText } from './i18n';
+import { getConversationId, getConversationRole } from './chatUtils';
+import { BookingConflictError, OPEN_BOOKING_STATUSES, findBookingConflict } from './bookingUtils';
+import { MAX_INLINE_PHOTO_BYTES, getInlinePhotosSize } from './imageUtils';
+import {
+  REPORTS_BEFORE_HOLD,
+  ReviewNotAllowedError,
+  getReviewId,
+  getUpdatedRating,
+  getRatingWithout,
+  getRatingPath,
+  getReviewFlags,
+  getReviewStatus,
+  isReviewPublished,
+  canReplyToReview,
+  hasDeliveredOrderFor,
+  hasCompletedBookingFor
+} from './reviewUtils';
 
 /*** CATEGORIES ***/
 
-// Get all categories
-export const getAllCategories = async (): Promise<Category[]> => {
+// Get all categories, named in the given language
+export const getAllCategories = async (locale: Locale = DEFAULT_LOCALE): Promise<Category[]> => {
   try {
     const categoriesCollection = collection(db, 'categories');
     const categoriesSnapshot = await getDocs(categoriesCollection);
@@ -44,7 +130,7 @@ export const getAllCategories = async (): Promise<Category[]> => {
       const data = doc.data();
       categoriesData.push({
         id: doc.id,
-        name: data.name || '',
+        name: getLocalizedText(data.name, locale),
         icon: data.icon || '',
         image: data.image || ''
       });
@@ -57,8 +143,8 @@ export const getAllCategories = async (): Promise<Category[]> => {
   }
 };
 
-// Get category by ID
-export const getCategoryById = async (categoryId: string): Promise<Category | null> => {
+// Get category by ID, named in the given language
+export const getCategoryById = async (categoryId: string, locale: Locale = DEFAULT_LOCALE): Promise<Category | null> => {
   try {
     const categoryDoc = await getDoc(doc(db, 'categories', categoryId));
     
@@ -66,7 +152,7 @@ export const getCategoryById = async (categoryId: string): Promise<Category | nu
       const data = categoryDoc.data();
       return {
         id: categoryDoc.id,
-        name: data.name || '',
+        name: getLocalizedText(data.name, locale),
         icon: data.icon || '',
         image: data.image || ''
       };
@@ -81,27 +167,35 @@ export const getCategoryById = async (categoryId: string): Promise<Category | nu
 
 /*** PRODUCTS ***/
 
+// Map a product document to the Product type. Listings from the app and seeded
+// catalogue items live in the same collection, so the listing fields are optional.
+const mapProductData = (id: string, data: any): Product => {
+  return {
+    id,
+    name: data.name || '',
+    price: data.price || 0,
+    image: data.image || '',
+    description: data.description || '',
+    category: data.category || '',
+    rating: data.rating || 0,
+    reviewCount: data.reviewCount || 0,
+    quantity: data.quantity,
+    unit: data.unit,
+    location: data.location,
+    shopId: data.shopId,
+    shopName: data.shopName,
+    sellerEmail: data.sellerEmail,
+    sellerName: data.sellerName,
+    status: data.status,
+    additionalImages: data.additionalImages,
+  };
+};
+
 // Get all products
 export const getAllProducts = async (): Promise<Product[]> => {
   try {
-    const productsCollection = collection(db, 'products');
-    const productsSnapshot = await getDocs(productsCollection);
-    
-    const productsData: Product[] = [];
-    productsSnapshot.forEach((doc) => {
-      const data = doc.data();
-      productsData.push({
-        id: doc.id,
-        name: data.name || '',
-        price: data.price || 0,
-        image: data.image || '',
-        description: data.description || '',
-        category: data.category || '',
-        rating: data.rating || 0
-      });
-    });
-    
-    return productsData;
+    const productsSnapshot = await getDocs(collection(db, 'products'));
+    return productsSnapshot.docs.map(productDoc => mapProductData(productDoc.id, productDoc.data()));
   } catch (error) {
     console.error('Error getting products:', error);
     throw error;
@@ -111,25 +205,9 @@ export const getAllProducts = async (): Promise<Product[]> => {
 // Get products by category
 export const getProductsByCategory = async (categoryName: string): Promise<Product[]> => {
   try {
-    const productsCollection = collection(db, 'products');
-    const q = query(productsCollection, where('category', '==', categoryName));
+    const q = query(collection(db, 'products'), where('category', '==', categoryName));
     const productsSnapshot = await getDocs(q);
-    
-    const productsData: Product[] = [];
-    productsSnapshot.forEach((doc) => {
-      const data = doc.data();
-      productsData.push({
-        id: doc.id,
-        name: data.name || '',
-        price: data.price || 0,
-        image: data.image || '',
-        description: data.description || '',
-        category: data.category || '',
-        rating: data.rating || 0
-      });
-    });
-    
-    return productsData;
+    return productsSnapshot.docs.map(productDoc => mapProductData(productDoc.id, productDoc.data()));
   } catch (error) {
     console.error(`Error getting products by category: ${categoryName}`, error);
     throw error;
@@ -140,21 +218,7 @@ export const getProductsByCategory = async (categoryName: string): Promise<Produ
 export const getProductById = async (productId: string): Promise<Product | null> => {
   try {
     const productDoc = await getDoc(doc(db, 'products', productId));
-    
-    if (productDoc.exists()) {
-      const data = productDoc.data();
-      return {
-        id: productDoc.id,
-        name: data.name || '',
-        price: data.price || 0,
-        image: data.image || '',
-        description: data.description || '',
-        category: data.category || '',
-        rating: data.rating || 0
-      };
-    } else {
-      return null;
-    }
+    return productDoc.exists() ? mapProductData(productDoc.id, productDoc.data()) : null;
   } catch (error) {
     console.error('Error getting product by ID:', error);
     throw error;
@@ -164,25 +228,9 @@ export const getProductById = async (productId: string): Promise<Product | null>
 // Get featured products
 export const getFeaturedProducts = async (limitNum: number = 4): Promise<Product[]> => {
   try {
-    const productsCollection = collection(db, 'products');
-    const q = query(productsCollection, orderBy('rating', 'desc'), limit(limitNum));
+    const q = query(collection(db, 'products'), orderBy('rating', 'desc'), limit(limitNum));
     const productsSnapshot = await getDocs(q);
-    
-    const productsData: Product[] = [];
-    productsSnapshot.forEach((doc) => {
-      const data = doc.data();
-      productsData.push({
-        id: doc.id,
-        name: data.name || '',
-        price: data.price || 0,
-        image: data.image || '',
-        description: data.description || '',
-        category: data.category || '',
-        rating: data.rating || 0
-      });
-    });
-    
-    return productsData;
+    return productsSnapshot.docs.map(productDoc => mapProductData(productDoc.id, productDoc.data()));
   } catch (error) {
     console.error('Error getting featured products:', error);
     throw error;
@@ -243,8 +291,8 @@ export const getAllWeather = async (): Promise<Weather[]> => {
 
 /*** ARTICLES ***/
 
-// Get all articles
-export const getAllArticles = async (): Promise<Article[]> => {
+// Get all articles, in the given language
+export const getAllArticles = async (locale: Locale = DEFAULT_LOCALE): Promise<Article[]> => {
   try {
     const articlesCollection = collection(db, 'articles');
     const q = query(articlesCollection, orderBy('date', 'desc'));
@@ -255,9 +303,9 @@ export const getAllArticles = async (): Promise<Article[]> => {
       const data = doc.data();
       articlesData.push({
         id: doc.id,
-        title: data.title || '',
-        summary: data.summary || '',
-        content: data.content || '',
+        title: getLocalizedText(data.title, locale),
+        summary: getLocalizedText(data.summary, locale),
+        content: getLocalizedText(data.content, locale),
         image: data.image || '',
         author: data.author || '',
         date: data.date ? new Date(data.date.seconds * 1000) : new Date(),
@@ -272,8 +320,8 @@ export const getAllArticles = async (): Promise<Article[]> => {
   }
 };
 
-// Get article by ID
-export const getArticleById = async (articleId: string): Promise<Article | null> => {
+// Get article by ID, in the given language
+export const getArticleById = async (articleId: string, locale: Locale = DEFAULT_LOCALE): Promise<Article | null> => {
   try {
     const articleDoc = await getDoc(doc(db, 'articles', articleId));
     
@@ -281,9 +329,9 @@ export const getArticleById = async (articleId: string): Promise<Article | null>
       const data = articleDoc.data();
       return {
         id: articleDoc.id,
-        title: data.title || '',
-        summary: data.summary || '',
-        content: data.content || '',
+        title: getLocalizedText(data.title, locale),
+        summary: getLocalizedText(data.summary, locale),
+        content: getLocalizedText(data.content, locale),
         image: data.image || '',
         author: data.author || '',
         date: data.date ? new Date(data.date.seconds * 1000) : new Date(),
@@ -298,8 +346,8 @@ export const getArticleById = async (articleId: string): Promise<Article | null>
   }
 };
 
-// Get articles by tag
-export const getArticlesByTag = async (tag: string): Promise<Article[]> => {
+// Get articles by tag, in the given language
+export const getArticlesByTag = async (tag: string, locale: Locale = DEFAULT_LOCALE): Promise<Article[]> => {
   try {
     const articlesCollection = collection(db, 'articles');
     const q = query(articlesCollection, where('tags', 'array-contains', tag), orderBy('date', 'desc'));
@@ -310,9 +358,9 @@ export const getArticlesByTag = async (tag: string): Promise<Article[]> => {
       const data = doc.data();
       articlesData.push({
         id: doc.id,
-        title: data.title || '',
-        summary: data.summary || '',
-        content: data.content || '',
+        title: getLocalizedText(data.title, locale),
+        summary: getLocalizedText(data.summary, locale),
+        content: getLocalizedText(data.content, locale),
         image: data.image || '',
         author: data.author || '',
         date: data.date ? new Date(data.date.seconds * 1000) : new Date(),
@@ -383,21 +431,28 @@ export const getMarketPricesByMarket = async (marketName: string): Promise<Marke
 
 /*** USERS ***/
 
+// Map a user document to the User type
+const mapUserData = (id: string, data: any): User => {
+  return {
+    id,
+    name: data.name || '',
+    email: data.email || '',
+    phone: data.phone || '',
+    address: data.address || '',
+    district: data.district || '',
+    avatar: data.avatar || '',
+    roles: data.roles || undefined,
+    verifiedSeller: data.verifiedSeller === true,
+  };
+};
+
 // Get user by ID
 export const getUserById = async (userId: string): Promise<User | null> => {
   try {
     const userDoc = await getDoc(doc(db, 'users', userId));
     
     if (userDoc.exists()) {
-      const data = userDoc.data();
-      return {
-        id: userDoc.id,
-        name: data.name || '',
-        email: data.email || '',
-        phone: data.phone || '',
-        address: data.address || '',
-        avatar: data.avatar || '',
-      };
+      return mapUserData(userDoc.id, userDoc.data());
     } else {
       return null;
     }
@@ -407,6 +462,110 @@ export const getUserById = async (userId: string): Promise<User | null> => {
   }
 };
 
+// Map a public profile document to the PublicProfile type
+const mapPublicProfileData = (id: string, data: any): PublicProfile => {
+  return {
+    id,
+    name: data.name || '',
+    email: data.email || '',
+    avatar: data.avatar || '',
+    verifiedSeller: data.verifiedSeller === true,
+  };
+};
+
+// Get the name, email and avatar another user has made public. Only the owner and admins can read the full profile.
+export const getPublicProfile = async (userId: string): Promise<PublicProfile | null> => {
+  try {
+    const profileDoc = await getDoc(doc(db, 'publicProfiles', userId));
+    return profileDoc.exists() ? mapPublicProfileData(profileDoc.id, profileDoc.data()) : null;
+  } catch (error) {
+    console.error(`Error getting public profile: ${userId}`, error);
+    throw error;
+  }
+};
+
+// Copy the signed-in user's display fields to their public profile. The verified badge is left to admins.
+export const savePublicProfile = async (
+  userId: string,
+  profile: Pick<PublicProfile, 'name' | 'email' | 'avatar'>
+): Promise<void> => {
+  try {
+    await setDoc(doc(db, 'publicProfiles', userId), {
+      name: profile.name,
+      email: profile.email,
+      avatar: profile.avatar || '',
+      updatedAt: serverTimestamp()
+    }, { merge: true });
+  } catch (error) {
+    console.error(`Error saving public profile: ${userId}`, error);
+    throw error;
+  }
+};
+
+// Create the public profile of an account made before profiles were public, from its full profile.
+// Accounts that already have one are left as they are.
+export const ensurePublicProfile = async (userId: string, email: string): Promise<void> => {
+  try {
+    const profileDoc = await getDoc(doc(db, 'publicProfiles', userId));
+    if (profileDoc.exists()) return;
+
+    const user = await getUserById(userId);
+    await savePublicProfile(userId, { name: user?.name || '', email, avatar: user?.avatar || '' });
+  } catch (error) {
+    console.error(`Error creating public profile: ${userId}`, error);
+    throw error;
+  }
+};
+
+// Listen to a user's profile so role changes show up straight away.
+// Calls back with null if the user has no profile document.
+export const subscribeToUser = (userId: string, onUser: (user: User | null) => void): Unsubscribe => {
+  return onSnapshot(doc(db, 'users', userId), (userDoc) => {
+    onUser(userDoc.exists() ? mapUserData(userDoc.id, userDoc.data()) : null);
+  }, (error) => {
+    console.error(`Error listening to user: ${userId}`, error);
+  });
+};
+
+// Get the accounts that sell products, for admins deciding who to verify.
+// Accounts without roles count as farmers, and a query cannot match a missing field, so every account is read.
+export const getSellerAccounts = async (): Promise<User[]> => {
+  try {
+    const usersSnapshot = await getDocs(collection(db, 'users'));
+    
+    return usersSnapshot.docs
+      .map(userDoc => mapUserData(userDoc.id, userDoc.data()))
+      .filter(user => hasRole(user, 'farmer') || hasRole(user, 'seller'))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error getting seller accounts:', error);
+    throw error;
+  }
+};
+
+// Grant or withdraw a seller's verified badge. Only admins may do this.
+export const setSellerVerified = async (userId: string, verified: boolean): Promise<void> => {
+  try {
+    // The badge is shown to buyers, so it is copied to the public profile too.
+    // Accounts made before profiles were public get their display fields copied with it.
+    const user = await getUserById(userId);
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'users', userId), {
+      verifiedSeller: verified,
+      updatedAt: serverTimestamp()
+    });
+    batch.set(doc(db, 'publicProfiles', userId), {
+      ...(user ? { name: user.name, email: user.email, avatar: user.avatar } : {}),
+      verifiedSeller: verified,
+      updatedAt: serverTimestamp()
+    }, { merge: true });
+    await batch.commit();
+  } catch (error) {
+    console.error(`Error updating verification for user: ${userId}`, error);
+    throw error;
+  }
+};
+
 // Update user
 export const updateUser = async (userId: string, userData: Partial<User>): Promise<void> => {
   try {
@@ -420,6 +579,68 @@ export const updateUser = async (userId: string, userData: Partial<User>): Promi
   }
 };
 
+/*** PROMOTIONS ***/
+
+// Thrown when a promo code cannot be applied to an order
+export class PromotionError extends Error {
+  reason: PromoRejection | 'not_found';
+
+  constructor(reason: PromoRejection | 'not_found') {
+    super(`Promotion cannot be applied: ${reason}`);
+    this.name = 'PromotionError';
+    this.reason = reason;
+  }
+}
+
+// Look up a promotion by the code a customer typed in
+export const getPromotionByCode = async (code: string): Promise<Promotion | null> => {
+  try {
+    const promotionsCollection = collection(db, 'promotions');
+    const q = query(promotionsCollection, where('code', '==', normalisePromoCode(code)), limit(1));
+    const promotionsSnapshot = await getDocs(q);
+    
+    if (promotionsSnapshot.empty) {
+      return null;
+    }
+    
+    const promotionDoc = promotionsSnapshot.docs[0];
+    return mapPromotionData(promotionDoc.id, promotionDoc.data());
+  } catch (error) {
+    console.error(`Error getting promotion with code: ${code}`, error);
+    throw error;
+  }
+};
+
+/*** DELIVERY ***/
+
+// Get the delivery rules for a set of sellers along with the marketplace default
+export const getDeliveryRules = async (sellerEmails: string[]): Promise<DeliveryRule[]> => {
+  try {
+    const ruleIds = [DEFAULT_DELIVERY_RULE_ID, ...sellerEmails.filter(Boolean)];
+    const ruleDocs = await Promise.all(ruleIds.map(id => getDoc(doc(db, 'deliveryRules', id))));
+    
+    return ruleDocs
+      .filter(ruleDoc => ruleDoc.exists())
+      .map(ruleDoc => mapDeliveryRuleData(ruleDoc.id, ruleDoc.data()));
+  } catch (error) {
+    console.error('Error getting delivery rules:', error);
+    throw error;
+  }
+};
+
+// Save the delivery rule a seller charges with
+export const saveDeliveryRule = async (rule: Omit<DeliveryRule, 'id'>): Promise<void> => {
+  try {
+    await setDoc(doc(db, 'deliveryRules', rule.sellerEmail || DEFAULT_DELIVERY_RULE_ID), {
+      ...rule,
+      updatedAt: serverTimestamp()
+    });
+  } catch (error) {
+    console.error('Error saving delivery rule:', error);
+    throw error;
+  }
+};
+
 /*** ORDERS ***/
 
 // Get orders for a user
@@ -429,150 +650,1025 @@ export const getUserOrders = async (userId: string): Promise<Order[]> => {
     const q = query(ordersCollection, where('userId', '==', userId), orderBy('createdAt', 'desc'));
     const ordersSnapshot = await getDocs(q);
     
-    const ordersData: Order[] = [];
-    ordersSnapshot.forEach((doc) => {
-      const data = doc.data();
-      ordersData.push({
-        id: doc.id,
-        userId: data.userId || '',
-        products: data.products || [],
-        totalAmount: data.totalAmount || 0,
-        status: data.status || 'processing',
-        createdAt: data.createdAt ? new Date(data.createdAt.seconds * 1000) : new Date(),
-        updatedAt: data.updatedAt ? new Date(data.updatedAt.seconds * 1000) : new Date(),
-      });
-    });
-    
-    return ordersData;
+    return ordersSnapshot.docs.map(orderDoc => mapOrderData(orderDoc.id, orderDoc.data()));
   } catch (error) {
     console.error(`Error getting orders for user: ${userId}`, error);
     throw error;
   }
 };
 
-// Create a new order
-export const createOrder = async (orderData: Omit<Order, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> => {
+// A product that does not have enough stock left to fill an order line
+export interface StockShortage {
+  productId: string;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+// Thrown by createOrder when one or more products cannot be reserved
+export class InsufficientStockError extends Error {
+  shortages: StockShortage[];
+
+  constructor(shortages: StockShortage[]) {
+    super(
+      'Not enough stock for: ' +
+      shortages.map(item => `${item.name} (requested ${item.requested}, available ${item.available})`).join(', ')
+    );
+    this.name = 'InsufficientStockError';
+    this.shortages = shortages;
+  }
+}
+
+// Create a new order, reserving stock for every product in the same transaction.
+// Names and prices are read from the product documents, not taken from the cart.
+export const createOrder = async (
+  orderData: Omit<Order, 'id' | 'pricing' | 'status' | 'statusHistory' | 'createdAt' | 'updatedAt'>
+): Promise<string> => {
   try {
-    const orderCollection = collection(db, 'orders');
-    const newOrder = {
-      ...orderData,
-      createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp()
-    };
+    const orderRef = doc(collection(db, 'orders'));
     
-    const docRef = await addDoc(orderCollection, newOrder);
-    return docRef.id;
+    await runTransaction(db, async (transaction) => {
+      const productRefs = orderData.products.map(product => doc(db, 'products', product.id));
+      const productDocs = await Promise.all(productRefs.map(ref => transaction.get(ref)));
+      
+      const shortages: StockShortage[] = [];
+      const reservedProductIds: string[] = [];
+      const reservedQuantities: Record<string, number> = {};
+      const sellerEmails: string[] = [];
+      
+      productDocs.forEach((productDoc, index) => {
+        const product = orderData.products[index];
+        const requested = product.quantity || 1;
+        
+        // A product removed since it was added to the cart can no longer be bought
+        if (!productDoc.exists()) {
+          shortages.push({ productId: product.id, name: product.name, requested, available: 0 });
+          return;
+        }
+        
+        // Seeded catalogue items have no stock level and are not tracked
+        if (typeof productDoc.data().quantity !== 'number') {
+          return;
+        }
+        
+        const available = productDoc.data().quantity;
+        if (available < requested) {
+          shortages.push({ productId: product.id, name: product.name, requested, available });
+        } else {
+          reservedProductIds.push(product.id);
+          reservedQuantities[product.id] = (reservedQuantities[product.id] || 0) + requested;
+        }
+      });
+      
+      if (shortages.length > 0) {
+        throw new InsufficientStockError(shortages);
+      }
+      
+      // Record who sells each line so sellers can find the orders they need to handle
+      const products = orderData.products.map((product, index) => {
+        const productData = productDocs[index].data() || {};
+        return {
+          ...product,
+          name: productData.name || product.name,
+          price: productData.price || 0,
+          category: productData.category || '',
+          unit: productData.unit || '',
+          shopName: productData.shopName || '',
+          sellerEmail: productData.sellerEmail || '',
+          shopId: productData.shopId || ''
+        };
+      });
+      
+      // Products listed without a seller email belong to the owner of their shop
+      const ownerlessShopIds = products
+        .filter(product => !product.sellerEmail && product.shopId)
+        .map(product => product.shopId)
+        .filter((shopId, index, shopIds) => shopIds.indexOf(shopId) === index);
+      const shopDocs = await Promise.all(
+        ownerlessShopIds.map(shopId => transaction.get(doc(db, 'shops', shopId)))
+      );
+      const shopOwners: Record<string, string> = {};
+      shopDocs.forEach((shopDoc) => {
+        if (shopDoc.exists() && shopDoc.data().owner) {
+          shopOwners[shopDoc.id] = shopDoc.data().owner;
+        }
+      });
+      
+      // Re-check the promotion against the stored rules rather than trusting the client's discount
+      let promotion: Promotion | null = null;
+      if (orderData.promoId) {
+        const promoDoc = await transaction.get(doc(db, 'promotions', orderData.promoId));
+        if (!promoDoc.exists()) {
+          throw new PromotionError('not_found');
+        }
+        promotion = mapPromotionData(promoDoc.id, promoDoc.data());
+      }
+      
+      // Split the order into one sub-order per seller
+      const linesBySeller: Record<string, any[]> = {};
+      products.forEach((product) => {
+        const sellerEmail = product.sellerEmail || shopOwners[product.shopId] || '';
+        if (sellerEmail && !sellerEmails.includes(sellerEmail)) {
+          sellerEmails.push(sellerEmail);
+        }
+        linesBySeller[sellerEmail] = [
+          ...(linesBySeller[sellerEmail] || []),
+          { ...product, sellerEmail, fulfilmentStatus: 'pending' }
+        ];
+      });
+      
+      // Charge delivery from each seller's stored rules rather than the client's estimate
+      const ruleIds = [DEFAULT_DELIVERY_RULE_ID, ...sellerEmails];
+      const ruleDocs = await Promise.all(
+        ruleIds.map(id => transaction.get(doc(db, 'deliveryRules', id)))
+      );
+      const pricing = priceOrder(
+        Object.values(linesBySeller).flat().map(line => ({ ...line, quantity: line.quantity || 1 })),
+        orderData.deliveryDistrict || '',
+        ruleDocs
+          .filter(ruleDoc => ruleDoc.exists())
+          .map(ruleDoc => mapDeliveryRuleData(ruleDoc.id, ruleDoc.data())),
+        promotion,
+        orderData.userId
+      );
+      if (!pricing.valid) {
+        throw new PromotionError(pricing.reason);
+      }
+      const { deliveryBreakdown } = pricing;
+      
+      const subOrderIds: string[] = [];
+      const fulfilment: Record<string, string> = {};
+      Object.entries(linesBySeller).forEach(([sellerEmail, lines]) => {
+        const subOrderRef = doc(collection(db, 'sellerOrders'));
+        subOrderIds.push(subOrderRef.id);
+        fulfilment[subOrderRef.id] = 'pending';
+        
+        transaction.set(subOrderRef, {
+          orderId: orderRef.id,
+          sellerEmail,
+          shopIds: lines
+            .map(line => line.shopId)
+            .filter((shopId, index, shopIds) => shopId && shopIds.indexOf(shopId) === index),
+          buyerId: orderData.userId,
+          buyerEmail: orderData.userEmail || '',
+          products: lines,
+          subtotal: lines.reduce((sum, line) => sum + line.price * (line.quantity || 1), 0),
+          deliveryFee: deliveryBreakdown.find(seller => seller.sellerEmail === sellerEmail)?.fee || 0,
+          status: 'pending',
+          deliveryAddress: orderData.deliveryAddress || '',
+          contactPhone: orderData.contactPhone || '',
+          ...(orderData.deliverySlot ? { deliverySlot: orderData.deliverySlot } : {}),
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        });
+      });
+      
+      // The rules only let a buyer take off the amounts the order records. Each product keeps
+      // what was taken under the order's id, which is all a cancellation can put back.
+      Object.entries(reservedQuantities).forEach(([productId, quantity]) => {
+        transaction.update(doc(db, 'products', productId), {
+          quantity: increment(-quantity),
+          [`reservations.${orderRef.id}`]: quantity,
+          stockOrderId: orderRef.id,
+          updatedAt: serverTimestamp()
+        });
+      });
+      
+      // The order check job confirms these totals and counts the promotion as used
+      transaction.set(orderRef, {
+        ...orderData,
+        products,
+        subtotal: pricing.totals.subtotal,
+        discount: pricing.totals.discount,
+        deliveryFee: pricing.totals.deliveryFee,
+        deliveryBreakdown,
+        totalAmount: pricing.totals.total,
+        pricing: 'pending',
+        sellerEmails,
+        subOrderIds,
+        fulfilment,
+        status: INITIAL_ORDER_STATUS,
+        statusHistory: [{
+          status: INITIAL_ORDER_STATUS,
+          changedBy: 'buyer',
+          changedAt: Timestamp.now()
+        }],
+        reservedProductIds,
+        reservedQuantities,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+    });
+    
+    return orderRef.id;
   } catch (error) {
     console.error('Error creating order:', error);
     throw error;
   }
 };
 
-/*** REVIEWS ***/
+// Sellers start on an order once the order check job has confirmed its prices
+const assertPricingConfirmed = (orderData: any): void => {
+  if (orderData.pricing === 'pending') {
+    throw new Error('This order is waiting for its prices to be confirmed');
+  }
+};
 
-// Get reviews for a product
-export const getProductReviews = async (productId: string): Promise<Review[]> => {
+// Build the fields that move an order to a new status and record it in the history
+const buildStatusUpdate = (orderData: any, status: OrderStatus, actor: OrderActor, note?: string) => {
+  assertTransition(orderData.status || INITIAL_ORDER_STATUS, status, actor);
+  if (status === 'processing') {
+    assertPricingConfirmed(orderData);
+  }
+  
+  return {
+    status,
+    statusHistory: [
+      ...(orderData.statusHistory || []),
+      {
+        status,
+        changedBy: actor,
+        changedAt: Timestamp.now(),
+        ...(note ? { note } : {})
+      }
+    ]
+  };
+};
+
+// Move an order to a new status, recording the change in its history.
+// Reserved stock is put back when the order is cancelled and released when it is delivered.
+export const updateOrderStatus = async (
+  orderId: string,
+  status: OrderStatus,
+  actor: OrderActor,
+  note?: string
+): Promise<void> => {
   try {
-    const reviewsCollection = collection(db, 'reviews');
-    const q = query(reviewsCollection, where('productId', '==', productId), orderBy('date', 'desc'));
-    const reviewsSnapshot = await getDocs(q);
-    
-    const reviewsData: Review[] = [];
-    reviewsSnapshot.forEach((doc) => {
-      const data = doc.data();
-      reviewsData.push({
-        id: doc.id,
-        productId: data.productId || '',
-        userId: data.userId || '',
-        userName: data.userName || '',
-        rating: data.rating || 0,
-        text: data.text || '',
-        date: data.date ? new Date(data.date.seconds * 1000) : new Date(),
+    const notifications = await runTransaction(db, async (transaction) => {
+      const orderRef = doc(db, 'orders', orderId);
+      const orderDoc = await transaction.get(orderRef);
+      
+      if (!orderDoc.exists()) {
+        throw new Error('Order not found');
+      }
+      
+      const data = orderDoc.data();
+      const reservedProductIds: string[] = Array.from(new Set<string>(data.reservedProductIds || []));
+      const releasesStock = status === 'cancelled' || status === 'delivered';
+      const statusUpdate = buildStatusUpdate(data, status, actor, note);
+      
+      if (releasesStock && reservedProductIds.length > 0) {
+        const productDocs = await Promise.all(
+          reservedProductIds.map(productId => transaction.get(doc(db, 'products', productId)))
+        );
+        
+        // Products record what the order took from them. Deleted products and orders placed
+        // before reservations were recorded are skipped, so an admin restocks those.
+        productDocs.forEach((productDoc) => {
+          const reserved = productDoc.exists() ? productDoc.data().reservations?.[orderId] : undefined;
+          if (typeof reserved === 'number') {
+            transaction.update(productDoc.ref, {
+              ...(status === 'cancelled' ? { quantity: increment(reserved) } : {}),
+              [`reservations.${orderId}`]: deleteField(),
+              stockOrderId: orderId,
+              updatedAt: serverTimestamp()
+            });
+          }
+        });
+      }
+      
+      // Sellers stop seeing cancelled orders as work to do
+      if (status === 'cancelled') {
+        (data.subOrderIds || []).forEach((subOrderId: string) => {
+          transaction.update(doc(db, 'sellerOrders', subOrderId), {
+            status: 'cancelled',
+            updatedAt: serverTimestamp()
+          });
+        });
+      }
+      
+      transaction.update(orderRef, {
+        ...statusUpdate,
+        ...(releasesStock ? { reservedProductIds: [] } : {}),
+        updatedAt: serverTimestamp()
       });
+      
+      // Buyers hear about changes the seller makes, not the ones they make themselves
+      return actor === 'seller' && data.userEmail
+        ? [getOrderStatusNotification(orderId, data.userEmail, status, note)]
+        : [];
     });
     
-    return reviewsData;
+    await notifyAfterCommit(notifications);
   } catch (error) {
-    console.error(`Error getting reviews for product: ${productId}`, error);
+    console.error(`Error updating status for order: ${orderId}`, error);
     throw error;
   }
 };
 
-// Add a review
-export const addReview = async (reviewData: Omit<Review, 'id' | 'date'>): Promise<string> => {
+// Convert a Firestore timestamp (or missing value) to a Date
+const toDate = (value: any): Date => {
+  return value?.toDate ? value.toDate() : new Date();
+};
+
+// Map an order document to the Order type
+const mapOrderData = (id: string, data: any): Order => {
+  return {
+    id,
+    userId: data.userId || '',
+    userEmail: data.userEmail || '',
+    products: data.products || [],
+    subtotal: data.subtotal || 0,
+    discount: data.discount || 0,
+    deliveryFee: data.deliveryFee || 0,
+    totalAmount: data.totalAmount || 0,
+    // Orders placed before prices were checked by the job count as confirmed
+    pricing: data.pricing || 'confirmed',
+    status: data.status || 'pending',
+    statusHistory: (data.statusHistory || []).map((change: any): OrderStatusChange => ({
+      status: change.status,
+      changedBy: change.changedBy,
+      changedAt: toDate(change.changedAt),
+      note: change.note
+    })),
+    deliveryAddress: data.deliveryAddress || '',
+    contactPhone: data.contactPhone || '',
+    deliverySlot: data.deliverySlot ? {
+      date: toDate(data.deliverySlot.date),
+      window: data.deliverySlot.window,
+    } : undefined,
+    deliveryDistrict: data.deliveryDistrict || '',
+    deliveryBreakdown: data.deliveryBreakdown || [],
+    paymentMethod: data.paymentMethod,
+    promoId: data.promoId,
+    promoCode: data.promoCode,
+    sellerEmails: data.sellerEmails || [],
+    returnRequest: data.returnRequest ? {
+      reason: data.returnRequest.reason,
+      details: data.returnRequest.details || '',
+      photos: data.returnRequest.photos || [],
+      status: data.returnRequest.status,
+      requestedAt: toDate(data.returnRequest.requestedAt),
+      resolvedAt: data.returnRequest.resolvedAt ? toDate(data.returnRequest.resolvedAt) : undefined,
+      sellerNote: data.returnRequest.sellerNote || ''
+    } : undefined,
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  };
+};
+
+// Get order by ID
+export const getOrderById = async (orderId: string): Promise<Order | null> => {
   try {
-    const reviewsCollection = collection(db, 'reviews');
-    const newReview = {
-      ...reviewData,
-      date: serverTimestamp()
-    };
+    const orderDoc = await getDoc(doc(db, 'orders', orderId));
     
-    const docRef = await addDoc(reviewsCollection, newReview);
-    return docRef.id;
+    if (orderDoc.exists()) {
+      return mapOrderData(orderDoc.id, orderDoc.data());
+    } else {
+      return null;
+    }
   } catch (error) {
-    console.error('Error adding review:', error);
+    console.error('Error getting order by ID:', error);
     throw error;
   }
 };
 
-// Utility function to seed products from mock data
-export const seedProductsCollection = async (products: Product[]): Promise<void> => {
+// Cancel an order on behalf of the buyer who placed it
+export const cancelOrder = async (orderId: string, reason?: string): Promise<void> => {
+  await updateOrderStatus(orderId, 'cancelled', 'buyer', reason);
+};
+
+// Ask the seller to take back or refund a shipped or delivered order
+export const requestReturn = async (
+  orderId: string,
+  request: Pick<ReturnRequest, 'reason' | 'details' | 'photos'>
+): Promise<void> => {
   try {
-    console.log('Adding products...');
+    const orderRef = doc(db, 'orders', orderId);
+    const orderDoc = await getDoc(orderRef);
     
-    const batch = products.map(product => 
-      addDoc(collection(db, 'products'), {
-        name: product.name,
-        price: product.price,
-        image: product.image,
-        description: product.description,
-        category: product.category,
-        rating: product.rating
-      })
-    );
+    if (!orderDoc.exists()) {
+      throw new Error('Order not found');
+    }
     
-    await Promise.all(batch);
-    console.log('Products added successfully!');
+    const data = orderDoc.data();
+    if (!canRequestReturn(data.status)) {
+      throw new Error('Returns can only be requested for shipped or delivered orders');
+    }
+    
+    if (data.returnRequest) {
+      throw new Error('A return has already been requested for this order');
+    }
+    
+    if (getInlinePhotosSize(request.photos) > MAX_INLINE_PHOTO_BYTES) {
+      throw new Error('Return photos are too large to attach to the order');
+    }
+    
+    await updateDoc(orderRef, {
+      returnRequest: {
+        reason: request.reason,
+        details: request.details || '',
+        photos: request.photos,
+        status: 'requested',
+        requestedAt: serverTimestamp()
+      },
+      updatedAt: serverTimestamp()
+    });
   } catch (error) {
-    console.error('Error seeding products:', error);
+    console.error(`Error requesting return for order: ${orderId}`, error);
     throw error;
   }
 };
 
-// Utility function to seed articles from mock data
-export const seedArticlesCollection = async (articles: Article[]): Promise<void> => {
+// Approve or reject a buyer's return request
+export const resolveReturnRequest = async (
+  orderId: string,
+  approved: boolean,
+  sellerNote?: string
+): Promise<void> => {
   try {
-    console.log('Adding articles...');
+    const orderRef = doc(db, 'orders', orderId);
+    const orderDoc = await getDoc(orderRef);
     
-    const batch = articles.map(article => 
-      addDoc(collection(db, 'articles'), {
-        title: article.title,
-        summary: article.summary,
-        content: article.content,
-        image: article.image,
-        author: article.author,
-        date: Timestamp.fromDate(article.date),
-        tags: article.tags
-      })
-    );
+    if (!orderDoc.exists()) {
+      throw new Error('Order not found');
+    }
     
-    await Promise.all(batch);
-    console.log('Articles added successfully!');
+    const returnRequest = orderDoc.data().returnRequest;
+    if (!returnRequest || returnRequest.status !== 'requested') {
+      throw new Error('There is no open return request for this order');
+    }
+    
+    await updateDoc(orderRef, {
+      'returnRequest.status': approved ? 'approved' : 'rejected',
+      'returnRequest.sellerNote': sellerNote || '',
+      'returnRequest.resolvedAt': serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
   } catch (error) {
-    console.error('Error seeding articles:', error);
+    console.error(`Error resolving return request for order: ${orderId}`, error);
     throw error;
   }
 };
 
-// Utility function to seed market prices from mock data
-export const seedMarketPricesCollection = async (marketPrices: MarketPrice[]): Promise<void> => {
+// Get orders containing a seller's products that have an open return request
+export const getSellerReturnRequests = async (sellerEmail: string): Promise<Order[]> => {
   try {
-    console.log('Adding market prices...');
+    const q = query(collection(db, 'orders'), where('sellerEmails', 'array-contains', sellerEmail));
+    const ordersSnapshot = await getDocs(q);
     
-    const batch = marketPrices.map(price => 
-      addDoc(collection(db, 'marketPrices'), {
-        productName: price.productName,
-        price: price.price,
+    const ordersData: Order[] = [];
+    ordersSnapshot.forEach((doc) => {
+      const order = mapOrderData(doc.id, doc.data());
+      if (order.returnRequest?.status === 'requested') {
+        ordersData.push(order);
+      }
+    });
+    
+    return ordersData.sort(
+      (a, b) => b.returnRequest!.requestedAt.getTime() - a.returnRequest!.requestedAt.getTime()
+    );
+  } catch (error) {
+    console.error(`Error getting return requests for seller: ${sellerEmail}`, error);
+    throw error;
+  }
+};
+
+/*** SELLER ORDERS ***/
+
+// Map a seller order document to the SellerOrder type
+const mapSellerOrderData = (id: string, data: any): SellerOrder => {
+  return {
+    id,
+    orderId: data.orderId || '',
+    sellerEmail: data.sellerEmail || '',
+    shopIds: data.shopIds || [],
+    buyerId: data.buyerId || '',
+    buyerEmail: data.buyerEmail || '',
+    products: data.products || [],
+    subtotal: data.subtotal || 0,
+    deliveryFee: data.deliveryFee || 0,
+    status: data.status || 'pending',
+    deliveryAddress: data.deliveryAddress || '',
+    contactPhone: data.contactPhone || '',
+    deliverySlot: data.deliverySlot ? {
+      date: toDate(data.deliverySlot.date),
+      window: data.deliverySlot.window,
+    } : undefined,
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  };
+};
+
+// Get the sub-orders a seller has to fulfil, either by seller email or through the shops they own
+export const getSellerOrders = async (sellerEmail: string): Promise<SellerOrder[]> => {
+  try {
+    const sellerOrdersCollection = collection(db, 'sellerOrders');
+    const sellerOrdersMap: Record<string, SellerOrder> = {};
+    
+    const byEmailSnapshot = await getDocs(query(sellerOrdersCollection, where('sellerEmail', '==', sellerEmail)));
+    byEmailSnapshot.forEach((doc) => {
+      sellerOrdersMap[doc.id] = mapSellerOrderData(doc.id, doc.data());
+    });
+    
+    const shopsSnapshot = await getDocs(query(collection(db, 'shops'), where('owner', '==', sellerEmail)));
+    const shopIds = shopsSnapshot.docs.map(shopDoc => shopDoc.id);
+    
+    // array-contains-any accepts at most 10 values per query
+    for (let i = 0; i < shopIds.length; i += 10) {
+      const byShopSnapshot = await getDocs(
+        query(sellerOrdersCollection, where('shopIds', 'array-contains-any', shopIds.slice(i, i + 10)))
+      );
+      byShopSnapshot.forEach((doc) => {
+        sellerOrdersMap[doc.id] = mapSellerOrderData(doc.id, doc.data());
+      });
+    }
+    
+    return Object.values(sellerOrdersMap).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  } catch (error) {
+    console.error(`Error getting orders for seller: ${sellerEmail}`, error);
+    throw error;
+  }
+};
+
+// Move one line of a seller's sub-order to its next fulfilment step,
+// advancing the buyer's order once every seller has caught up.
+export const updateSellerOrderLineStatus = async (
+  sellerOrderId: string,
+  productId: string,
+  fulfilmentStatus: FulfilmentStatus
+): Promise<void> => {
+  try {
+    await runTransaction(db, async (transaction) => {
+      const sellerOrderRef = doc(db, 'sellerOrders', sellerOrderId);
+      const sellerOrderDoc = await transaction.get(sellerOrderRef);
+      
+      if (!sellerOrderDoc.exists()) {
+        throw new Error('Seller order not found');
+      }
+      
+      const sellerOrderData = sellerOrderDoc.data();
+      const orderRef = doc(db, 'orders', sellerOrderData.orderId);
+      const orderDoc = await transaction.get(orderRef);
+      
+      if (!orderDoc.exists()) {
+        throw new Error('Order not found');
+      }
+      
+      const orderData = orderDoc.data();
+      if (orderData.status === 'cancelled' || sellerOrderData.status === 'cancelled') {
+        throw new Error('This order has been cancelled');
+      }
+      assertPricingConfirmed(orderData);
+      
+      const lines: SellerOrderLine[] = sellerOrderData.products || [];
+      const line = lines.find(item => item.id === productId);
+      if (!line) {
+        throw new Error('Product not found in this order');
+      }
+      
+      if (getNextFulfilmentStatus(line.fulfilmentStatus || 'pending') !== fulfilmentStatus) {
+        throw new Error(`Cannot mark a ${line.fulfilmentStatus} item as ${fulfilmentStatus}`);
+      }
+      
+      const updatedLines = lines.map(item =>
+        item.id === productId ? { ...item, fulfilmentStatus } : item
+      );
+      const sellerOrderStatus = getOverallFulfilmentStatus(updatedLines.map(item => item.fulfilmentStatus));
+      
+      transaction.update(sellerOrderRef, {
+        products: updatedLines,
+        status: sellerOrderStatus,
+        updatedAt: serverTimestamp()
+      });
+      
+      // Walk the buyer's order forward one step at a time so every change is recorded
+      const fulfilment = { ...(orderData.fulfilment || {}), [sellerOrderId]: sellerOrderStatus };
+      const targetStatus = deriveOrderStatusFromFulfilment(Object.values(fulfilment) as FulfilmentStatus[]);
+      const forwardPath: OrderStatus[] = ['pending', 'processing', 'shipped'];
+      
+      let orderUpdate: any = { status: orderData.status, statusHistory: orderData.statusHistory || [] };
+      while (forwardPath.indexOf(orderUpdate.status) < forwardPath.indexOf(targetStatus)) {
+        const nextStatus = forwardPath[forwardPath.indexOf(orderUpdate.status) + 1];
+        orderUpdate = buildStatusUpdate(orderUpdate, nextStatus, 'seller');
+      }
+      
+      transaction.update(orderRef, {
+        ...orderUpdate,
+        fulfilment,
+        updatedAt: serverTimestamp()
+      });
+    });
+  } catch (error) {
+    console.error(`Error updating fulfilment for seller order: ${sellerOrderId}`, error);
+    throw error;
+  }
+};
+
+/*** CARTS ***/
+
+// Get the items in a user's cart
+export const getCartItems = async (userId: string): Promise<CartItem[]> => {
+  try {
+    const cartDoc = await getDoc(doc(db, 'carts', userId));
+    
+    if (!cartDoc.exists()) {
+      return [];
+    }
+    
+    const cartItems: CartItem[] = [];
+    for (const [itemId, itemData] of Object.entries(cartDoc.data().items || {})) {
+      const item = itemData as any;
+      cartItems.push({
+        id: item.productId || itemId,
+        name: item.name || '',
+        price: item.price || 0,
+        image: item.image || '',
+        description: '',
+        category: item.category || '',
+        shopId: item.shopId || '',
+        shopName: item.shopName || '',
+        sellerEmail: item.sellerEmail || '',
+        unit: item.unit || '',
+        quantity: item.quantity || 1
+      });
+    }
+    
+    return cartItems;
+  } catch (error) {
+    console.error(`Error getting cart for user: ${userId}`, error);
+    throw error;
+  }
+};
+
+// Remove all items from a user's cart
+export const clearCart = async (userId: string): Promise<void> => {
+  try {
+    await setDoc(doc(db, 'carts', userId), {
+      items: {},
+      updatedAt: serverTimestamp()
+    });
+  } catch (error) {
+    console.error(`Error clearing cart for user: ${userId}`, error);
+    throw error;
+  }
+};
+
+/*** REVIEWS ***/
+
+// Map a review document to the Review type. Reviews written before other targets
+// existed only have a productId.
+const mapReviewData = (id: string, data: any): Review => {
+  return {
+    id,
+    targetType: data.targetType || 'product',
+    targetId: data.targetId || data.productId || '',
+    productId: data.productId || undefined,
+    userId: data.userId || '',
+    userName: data.userName || '',
+    userEmail: data.userEmail || undefined,
+    rating: data.rating || 0,
+    text: data.text || '',
+    date: toDate(data.date),
+    status: data.status || 'published',
+    flags: data.flags || undefined,
+    reportCount: data.reportCount || 0,
+    reply: data.reply
+      ? { text: data.reply.text || '', userId: data.reply.userId || '', date: toDate(data.reply.date) }
+      : undefined
+  };
+};
+
+// The document that holds a target's average rating
+const getRatingRef = (targetType: ReviewTargetType, targetId: string) => doc(db, getRatingPath(targetType, targetId));
+
+// Get published reviews for a product
+export const getProductReviews = async (productId: string): Promise<Review[]> => {
+  try {
+    const reviewsCollection = collection(db, 'reviews');
+    const q = query(reviewsCollection, where('productId', '==', productId), orderBy('date', 'desc'));
+    const reviewsSnapshot = await getDocs(q);
+    
+    return reviewsSnapshot.docs
+      .map(reviewDoc => mapReviewData(reviewDoc.id, reviewDoc.data()))
+      .filter(isReviewPublished);
+  } catch (error) {
+    console.error(`Error getting reviews for product: ${productId}`, error);
+    throw error;
+  }
+};
+
+// Get published reviews for a product, machine, shop or seller, newest first
+export const getReviews = async (targetType: ReviewTargetType, targetId: string): Promise<Review[]> => {
+  try {
+    const q = query(
+      collection(db, 'reviews'),
+      where('targetType', '==', targetType),
+      where('targetId', '==', targetType === 'seller' ? targetId.toLowerCase() : targetId)
+    );
+    const reviewsSnapshot = await getDocs(q);
+    
+    return reviewsSnapshot.docs
+      .map(reviewDoc => mapReviewData(reviewDoc.id, reviewDoc.data()))
+      .filter(isReviewPublished)
+      .sort((a, b) => b.date.getTime() - a.date.getTime());
+  } catch (error) {
+    console.error(`Error getting reviews for ${targetType}: ${targetId}`, error);
+    throw error;
+  }
+};
+
+// Get a seller's average rating and review count, shown next to their products
+export const getSellerRating = async (sellerEmail: string): Promise<RatingSummary> => {
+  try {
+    const ratingDoc = await getDoc(getRatingRef('seller', sellerEmail));
+    const data = ratingDoc.data();
+    return { rating: data?.rating || 0, reviewCount: data?.reviewCount || 0 };
+  } catch (error) {
+    console.error(`Error getting rating for seller: ${sellerEmail}`, error);
+    throw error;
+  }
+};
+
+// Check whether a user may review a target: they need a delivered order for products,
+// shops and sellers, or a finished booking for machines
+export const canUserReview = async (
+  targetType: ReviewTargetType,
+  targetId: string,
+  userId: string,
+  userEmail: string
+): Promise<boolean> => {
+  try {
+    if (targetType === 'machine') {
+      return hasCompletedBookingFor(await getRenterBookings(userEmail), targetId);
+    }
+    
+    const [orders, shop] = await Promise.all([
+      getUserOrders(userId),
+      targetType === 'shop' ? getShopById(targetId) : Promise.resolve(undefined)
+    ]);
+    return hasDeliveredOrderFor(orders, targetType, targetId, shop);
+  } catch (error) {
+    console.error(`Error checking review eligibility for ${targetType}: ${targetId}`, error);
+    throw error;
+  }
+};
+
+// Add or update the user's review of a target. Reviews are saved as pending and left out
+// of the target's average: the review job publishes the ones that pass the spam filter and
+// the rest wait for a moderator. Returns the status the review is headed for. Throws
+// ReviewNotAllowedError if the user has not bought or rented the target.
+export const addReview = async (
+  reviewData: Pick<Review, 'targetType' | 'targetId' | 'userId' | 'userName' | 'rating' | 'text'> & { userEmail: string }
+): Promise<ReviewStatus> => {
+  try {
+    const { targetType, userId, userEmail, rating } = reviewData;
+    const targetId = targetType === 'seller' ? reviewData.targetId.toLowerCase() : reviewData.targetId;
+    
+    if (!(await canUserReview(targetType, targetId, userId, userEmail))) {
+      throw new ReviewNotAllowedError(targetType);
+    }
+    
+    const text = reviewData.text.trim();
+    const flags = getReviewFlags(text);
+    const reviewRef = doc(db, 'reviews', getReviewId(targetType, targetId, userId));
+    const ratingRef = getRatingRef(targetType, targetId);
+    
+    await runTransaction(db, async (transaction) => {
+      const [reviewDoc, ratingDoc] = await Promise.all([
+        transaction.get(reviewRef),
+        transaction.get(ratingRef)
+      ]);
+      if (!ratingDoc.exists() && targetType !== 'seller') {
+        throw new Error(`The ${targetType} being reviewed no longer exists`);
+      }
+      // A published earlier review comes out of the average until the new one is published
+      const previous = reviewDoc.exists() ? mapReviewData(reviewDoc.id, reviewDoc.data()) : null;
+      
+      transaction.set(reviewRef, {
+        targetType,
+        targetId,
+        ...(targetType === 'product' ? { productId: targetId } : {}),
+        userId,
+        userName: reviewData.userName,
+        userEmail,
+        rating,
+        text,
+        status: 'pending',
+        ...(flags.length > 0 ? { flags } : {}),
+        date: serverTimestamp()
+      });
+      
+      if (previous && isReviewPublished(previous)) {
+        transaction.set(ratingRef, {
+          ...getRatingWithout(ratingDoc.data() || {}, previous.rating),
+          ratingReviewId: reviewRef.id
+        }, { merge: true });
+      }
+    });
+    
+    return getReviewStatus(flags);
+  } catch (error) {
+    console.error('Error adding review:', error);
+    throw error;
+  }
+};
+
+// Report a review. Each user can report a review once; after REPORTS_BEFORE_HOLD
+// reports a published review is taken down until a moderator has checked it.
+export const reportReview = async (report: Omit<ReviewReport, 'id' | 'date'>): Promise<void> => {
+  try {
+    const { reviewId, reporterId } = report;
+    const reviewRef = doc(db, 'reviews', reviewId);
+    const reportRef = doc(db, 'reviewReports', `${reviewId}_${reporterId}`);
+    
+    await runTransaction(db, async (transaction) => {
+      const [reviewDoc, reportDoc] = await Promise.all([
+        transaction.get(reviewRef),
+        transaction.get(reportRef)
+      ]);
+      if (!reviewDoc.exists()) {
+        throw new Error('Review not found');
+      }
+      const review = mapReviewData(reviewDoc.id, reviewDoc.data());
+      if (review.userId === reporterId) {
+        throw new Error('You cannot report your own review');
+      }
+      if (reportDoc.exists()) {
+        return;
+      }
+      
+      const reportCount = (review.reportCount || 0) + 1;
+      const hold = isReviewPublished(review) && reportCount >= REPORTS_BEFORE_HOLD;
+      const ratingRef = getRatingRef(review.targetType, review.targetId);
+      const ratingDoc = hold ? await transaction.get(ratingRef) : null;
+      
+      transaction.set(reportRef, {
+        reviewId,
+        reporterId,
+        reason: report.reason,
+        ...(report.details ? { details: report.details.trim() } : {}),
+        date: serverTimestamp()
+      });
+      transaction.update(reviewRef, {
+        reportCount,
+        ...(hold ? { status: 'pending', flags: [...(review.flags || []), 'reported'] } : {})
+      });
+      if (ratingDoc) {
+        transaction.set(ratingRef, {
+          ...getRatingWithout(ratingDoc.data() || {}, review.rating),
+          ratingReviewId: reviewId
+        }, { merge: true });
+      }
+    });
+  } catch (error) {
+    console.error(`Error reporting review: ${report.reviewId}`, error);
+    throw error;
+  }
+};
+
+// Add or replace the seller's reply to a review. Only the seller of the product,
+// the owner of the shop or machine, or the reviewed seller may reply.
+export const replyToReview = async (
+  reviewId: string,
+  user: { uid: string; email: string },
+  text: string
+): Promise<void> => {
+  try {
+    const reviewRef = doc(db, 'reviews', reviewId);
+    
+    await runTransaction(db, async (transaction) => {
+      const reviewDoc = await transaction.get(reviewRef);
+      if (!reviewDoc.exists()) {
+        throw new Error('Review not found');
+      }
+      const review = mapReviewData(reviewDoc.id, reviewDoc.data());
+      const targetDoc = review.targetType === 'seller'
+        ? null
+        : await transaction.get(getRatingRef(review.targetType, review.targetId));
+      
+      if (!canReplyToReview(review.targetType, review.targetId, targetDoc?.data(), user)) {
+        throw new Error('Only the seller can reply to this review');
+      }
+      
+      transaction.update(reviewRef, {
+        reply: { text: text.trim(), userId: user.uid, date: serverTimestamp() }
+      });
+    });
+  } catch (error) {
+    console.error(`Error replying to review: ${reviewId}`, error);
+    throw error;
+  }
+};
+
+// Get reviews held by the spam filter or by reports, oldest first
+export const getReviewsPendingModeration = async (): Promise<Review[]> => {
+  try {
+    const q = query(collection(db, 'reviews'), where('status', '==', 'pending'));
+    const reviewsSnapshot = await getDocs(q);
+    
+    return reviewsSnapshot.docs
+      .map(reviewDoc => mapReviewData(reviewDoc.id, reviewDoc.data()))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  } catch (error) {
+    console.error('Error getting reviews pending moderation:', error);
+    throw error;
+  }
+};
+
+// Publish a held review and count it in the target's average, or remove it for good
+export const moderateReview = async (reviewId: string, approve: boolean): Promise<void> => {
+  try {
+    const reviewRef = doc(db, 'reviews', reviewId);
+    
+    await runTransaction(db, async (transaction) => {
+      const reviewDoc = await transaction.get(reviewRef);
+      if (!reviewDoc.exists()) {
+        throw new Error('Review not found');
+      }
+      const review = mapReviewData(reviewDoc.id, reviewDoc.data());
+      if (review.status !== 'pending') {
+        return;
+      }
+      
+      const ratingRef = getRatingRef(review.targetType, review.targetId);
+      const ratingDoc = approve ? await transaction.get(ratingRef) : null;
+      
+      // Approved reviews start over, so earlier reports don't take them straight back down
+      transaction.update(reviewRef, approve
+        ? { status: 'published', reportCount: 0 }
+        : { status: 'removed' });
+      if (ratingDoc) {
+        transaction.set(ratingRef, {
+          ...getUpdatedRating(ratingDoc.data() || {}, review.rating),
+          ratingReviewId: reviewId
+        }, { merge: true });
+      }
+    });
+  } catch (error) {
+    console.error(`Error moderating review: ${reviewId}`, error);
+    throw error;
+  }
+};
+
+// Utility function to seed products from mock data
+export const seedProductsCollection = async (products: Product[]): Promise<void> => {
+  try {
+    console.log('Adding products...');
+    
+    const batch = products.map(product => 
+      addDoc(collection(db, 'products'), {
+        name: product.name,
+        price: product.price,
+        image: product.image,
+        description: product.description,
+        category: product.category,
+        rating: product.rating
+      })
+    );
+    
+    await Promise.all(batch);
+    console.log('Products added successfully!');
+  } catch (error) {
+    console.error('Error seeding products:', error);
+    throw error;
+  }
+};
+
+// Utility function to seed articles from mock data
+export const seedArticlesCollection = async (articles: Article[]): Promise<void> => {
+  try {
+    console.log('Adding articles...');
+    
+    const batch = articles.map(article => 
+      addDoc(collection(db, 'articles'), {
+        title: article.title,
+        summary: article.summary,
+        content: article.content,
+        image: article.image,
+        author: article.author,
+        date: Timestamp.fromDate(article.date),
+        tags: article.tags
+      })
+    );
+    
+    await Promise.all(batch);
+    console.log('Articles added successfully!');
+  } catch (error) {
+    console.error('Error seeding articles:', error);
+    throw error;
+  }
+};
+
+// Utility function to seed market prices from mock data
+export const seedMarketPricesCollection = async (marketPrices: MarketPrice[]): Promise<void> => {
+  try {
+    console.log('Adding market prices...');
+    
+    const batch = marketPrices.map(price => 
+      addDoc(collection(db, 'marketPrices'), {
+        productName: price.productName,
+        price: price.price,
         market: price.market,
         date: Timestamp.fromDate(price.date)
       })
@@ -588,27 +1684,48 @@ export const seedMarketPricesCollection = async (marketPrices: MarketPrice[]): P
 
 /*** BIDS ***/
 
+// The reserve price is kept in a document only the seller can read, so bidders cannot see it on the listing
+const getBidReserveRef = (bidId: string) => doc(db, 'bids', bidId, 'private', 'reserve');
+
 // Add a new bid
 export const addBid = async (bidData: Omit<Bid, 'id'>): Promise<string> => {
   try {
-    const bidsCollection = collection(db, 'bids');
-    const newBid = {
-      ...bidData,
+    const { reservePrice, ...listing } = bidData;
+    const bidRef = doc(collection(db, 'bids'));
+    const batch = writeBatch(db);
+    
+    batch.set(bidRef, {
+      ...listing,
+      hasReserve: !!reservePrice,
       startDate: Timestamp.fromDate(bidData.startDate),
       dueDate: Timestamp.fromDate(bidData.dueDate),
       createdAt: serverTimestamp(),
       status: 'active',
       bids: []
-    };
+    });
+    if (reservePrice) {
+      batch.set(getBidReserveRef(bidRef.id), { reservePrice, sellerEmail: listing.email });
+    }
     
-    const docRef = await addDoc(bidsCollection, newBid);
-    return docRef.id;
+    await batch.commit();
+    return bidRef.id;
   } catch (error) {
     console.error('Error adding bid:', error);
     throw error;
   }
 };
 
+// Get the reserve price of one of the signed-in seller's listings, or null if it has none
+export const getBidReserve = async (bidId: string): Promise<number | null> => {
+  try {
+    const reserveDoc = await getDoc(getBidReserveRef(bidId));
+    return reserveDoc.data()?.reservePrice || null;
+  } catch (error) {
+    console.error(`Error getting reserve for bid: ${bidId}`, error);
+    throw error;
+  }
+};
+
 // Get all bids
 export const getAllBids = async (): Promise<Bid[]> => {
   try {
@@ -618,23 +1735,7 @@ export const getAllBids = async (): Promise<Bid[]> => {
     
     const bidsData: Bid[] = [];
     bidsSnapshot.forEach((doc) => {
-      const data = doc.data();
-      bidsData.push({
-        id: doc.id,
-        name: data.name || '',
-        number: data.number || '',
-        category: data.category || '',
-        item: data.item || '',
-        description: data.description || '',
-        startPrice: data.startPrice || 0,
-        startDate: data.startDate ? new Date(data.startDate.seconds * 1000) : new Date(),
-        dueDate: data.dueDate ? new Date(data.dueDate.seconds * 1000) : new Date(),
-        email: data.email || '',
-        imageUri: data.imageUri || '',
-        status: data.status || 'active',
-        createdAt: data.createdAt ? new Date(data.createdAt.seconds * 1000) : new Date(),
-        bids: data.bids || []
-      });
+      bidsData.push(mapBidData(doc.id, doc.data()));
     });
     
     return bidsData;
@@ -644,168 +1745,655 @@ export const getAllBids = async (): Promise<Bid[]> => {
   }
 };
 
-// Get active bids for display on home screen
-export const getActiveBids = async (limitCount: number = 4): Promise<Bid[]> => {
+// Get active bids for display on home screen
+export const getActiveBids = async (limitCount: number = 4): Promise<Bid[]> => {
+  try {
+    const bidsCollection = collection(db, 'bids');
+    const q = query(
+      bidsCollection, 
+      where('status', '==', 'active'),
+      orderBy('createdAt', 'desc'),
+      limit(limitCount)
+    );
+    const bidsSnapshot = await getDocs(q);
+    
+    const bidsData: Bid[] = [];
+    bidsSnapshot.forEach((doc) => {
+      bidsData.push(mapBidData(doc.id, doc.data()));
+    });
+    
+    return bidsData;
+  } catch (error) {
+    console.error('Error getting active bids:', error);
+    throw error;
+  }
+};
+
+// Get bid by ID
+export const getBidById = async (bidId: string): Promise<Bid | null> => {
+  try {
+    const bidDoc = await getDoc(doc(db, 'bids', bidId));
+    
+    if (bidDoc.exists()) {
+      return mapBidData(bidDoc.id, bidDoc.data());
+    } else {
+      return null;
+    }
+  } catch (error) {
+    console.error('Error getting bid by ID:', error);
+    throw error;
+  }
+};
+
+// Get bids by user's email
+export const getBidsByEmail = async (email: string): Promise<Bid[]> => {
+  try {
+    const bidsCollection = collection(db, 'bids');
+    const q = query(
+      bidsCollection, 
+      where('email', '==', email),
+      orderBy('createdAt', 'desc')
+    );
+    const bidsSnapshot = await getDocs(q);
+    
+    const bidsData: Bid[] = [];
+    bidsSnapshot.forEach((doc) => {
+      bidsData.push(mapBidData(doc.id, doc.data()));
+    });
+    
+    return bidsData;
+  } catch (error) {
+    console.error('Error getting bids by email:', error);
+    throw error;
+  }
+};
+
+// A bidder's proxy maximum lives in its own document, keyed by their email in lower case
+const getProxyBidRef = (bidId: string, email: string) => doc(db, 'bids', bidId, 'proxyBids', email.toLowerCase());
+
+// Add offers to a listing inside a transaction. Proxy bids answer them when the auction job next runs.
+// Ends the auction if an offer meets the buy now price, otherwise applies the anti-sniping extension.
+const applyBidOffers = (
+  transaction: Transaction,
+  bidDoc: DocumentSnapshot,
+  offers: { email: string; amount: number }[]
+): { offerIds: string[]; notifications: NewNotification[] } => {
+  const bid = mapBidData(bidDoc.id, bidDoc.data());
+  const now = new Date();
+  const bids = [...(bidDoc.data()?.bids || [])];
+  const offerIds: string[] = [];
+  
+  // Nothing to add, so the listing is left as it was
+  if (!offers.length) {
+    return { offerIds, notifications: [] };
+  }
+  
+  let buyNowOffer: { id: string; email: string; amount: number } | null = null;
+  const placedOffers: { email: string; amount: number }[] = [];
+  for (const offer of offers) {
+    const offerRef = doc(collection(db, 'bids', bidDoc.id, 'offers'));
+    const newBidOffer = {
+      id: offerRef.id,
+      bidId: bidDoc.id,
+      amount: offer.amount,
+      email: offer.email,
+      createdAt: Timestamp.now()
+    };
+    
+    // The offers subcollection keeps the full record; the array is what listings display
+    transaction.set(offerRef, { ...newBidOffer, createdAt: serverTimestamp() });
+    bids.push(newBidOffer);
+    offerIds.push(offerRef.id);
+    placedOffers.push(offer);
+    
+    if (isBuyNowOffer(bid, offer.amount)) {
+      buyNowOffer = { id: offerRef.id, email: offer.email, amount: offer.amount };
+      break;
+    }
+  }
+  
+  const notifications = getOfferNotifications(bid, placedOffers);
+  
+  if (buyNowOffer) {
+    // Meeting the buy now price wins the auction outright. The security rules check the winner and the reserve.
+    const winner: BidWinner = { offerId: buyNowOffer.id, email: buyNowOffer.email, amount: buyNowOffer.amount };
+    transaction.update(bidDoc.ref, {
+      bids,
+      status: 'closed',
+      dueDate: serverTimestamp(),
+      winner,
+      reserveMet: true,
+      closedAt: serverTimestamp()
+    });
+    notifications.push(...getAuctionResultNotifications(mapBidData(bidDoc.id, { ...bidDoc.data(), bids }), winner));
+  } else {
+    // The due date is only written when the offer extends it, as the rules limit how far it can move
+    const dueDate = getExtendedDueDate(bid.dueDate, now);
+    transaction.update(bidDoc.ref, {
+      bids,
+      ...(dueDate > bid.dueDate ? { dueDate: Timestamp.fromDate(dueDate) } : {})
+    });
+  }
+  
+  return { offerIds, notifications };
+};
+
+// Place an offer on a listing. Runs in a transaction so concurrent offers are
+// checked against the latest high bid instead of overwriting each other.
+export const placeBidOffer = async (
+  bidId: string,
+  bidOffer: Omit<BidOffer, 'id' | 'bidId' | 'createdAt'>
+): Promise<string> => {
+  try {
+    const bidDocRef = doc(db, 'bids', bidId);
+    
+    const { offerIds, notifications } = await runTransaction(db, async (transaction) => {
+      const bidDoc = await transaction.get(bidDocRef);
+      
+      if (!bidDoc.exists()) {
+        throw new Error('Bid not found');
+      }
+      
+      const bid = mapBidData(bidDoc.id, bidDoc.data());
+      assertValidOffer(bid, bidOffer.amount, bidOffer.email);
+      
+      return applyBidOffers(transaction, bidDoc, [bidOffer]);
+    });
+    
+    await notifyAfterCommit(notifications);
+    return offerIds[0];
+  } catch (error) {
+    console.error('Error placing bid offer:', error);
+    throw error;
+  }
+};
+
+// Register or raise a bidder's private maximum so the auction job bids for them up to it.
+// Only the bidder can read their maximum; the seller and other bidders only see the offers the job places from it.
+export const setProxyBid = async (bidId: string, email: string, maxAmount: number): Promise<void> => {
+  try {
+    const bidDocRef = doc(db, 'bids', bidId);
+    const proxyBidRef = getProxyBidRef(bidId, email);
+    
+    await runTransaction(db, async (transaction) => {
+      const bidDoc = await transaction.get(bidDocRef);
+      const proxyBidDoc = await transaction.get(proxyBidRef);
+      
+      if (!bidDoc.exists()) {
+        throw new Error('Bid not found');
+      }
+      
+      const bid = mapBidData(bidDoc.id, bidDoc.data());
+      const leader = getHighestOffer(bid.bids);
+      const existing = proxyBidDoc.exists() ? mapProxyBid(proxyBidDoc.data()) : null;
+      
+      // A maximum has to be a valid offer in its own right, unless the bidder is already winning
+      if (leader?.email === email) {
+        assertValidOffer(bid, Number.MAX_SAFE_INTEGER, email);
+        if (maxAmount <= leader.amount) {
+          throw new BidValidationError('below_minimum', 'Your maximum must be above your current bid', leader.amount + 1);
+        }
+      } else {
+        assertValidOffer(bid, maxAmount, email);
+      }
+      
+      if (existing && maxAmount <= existing.maxAmount) {
+        throw new BidValidationError('below_minimum', 'You can only raise your maximum bid', existing.maxAmount + 1);
+      }
+      
+      // Keeping the original time lets an earlier maximum win a tie after being raised
+      transaction.set(proxyBidRef, {
+        bidId,
+        email,
+        maxAmount,
+        createdAt: existing ? Timestamp.fromDate(existing.createdAt) : serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+    });
+  } catch (error) {
+    console.error('Error setting proxy bid:', error);
+    throw error;
+  }
+};
+
+// Get the maximum a bidder has registered on a listing, if any
+export const getMyProxyBid = async (bidId: string, email: string): Promise<ProxyBid | null> => {
+  try {
+    const proxyBidDoc = await getDoc(getProxyBidRef(bidId, email));
+    return proxyBidDoc.exists() ? mapProxyBid(proxyBidDoc.data()) : null;
+  } catch (error) {
+    console.error('Error getting proxy bid:', error);
+    throw error;
+  }
+};
+
+// Seller accepts the winning offer on a closed auction
+export const confirmBidSale = async (bidId: string, sellerEmail: string): Promise<void> => {
+  try {
+    const bidDocRef = doc(db, 'bids', bidId);
+    
+    await runTransaction(db, async (transaction) => {
+      const bidDoc = await transaction.get(bidDocRef);
+      
+      if (!bidDoc.exists()) {
+        throw new Error('Bid not found');
+      }
+      
+      const bid = mapBidData(bidDoc.id, bidDoc.data());
+      if (bid.email !== sellerEmail) {
+        throw new Error('Only the seller can confirm this sale');
+      }
+      if (bid.status !== 'closed' || !bid.winner) {
+        throw new Error('Only closed auctions with a winning offer can be sold');
+      }
+      
+      transaction.update(bidDocRef, {
+        status: 'sold',
+        soldAt: serverTimestamp()
+      });
+    });
+  } catch (error) {
+    console.error(`Error confirming sale for bid: ${bidId}`, error);
+    throw error;
+  }
+};
+
+// Put a closed auction back up for bidding with a fresh set of offers
+export const relistBid = async (bidId: string, sellerEmail: string, dueDate: Date): Promise<void> => {
+  try {
+    const bidDocRef = doc(db, 'bids', bidId);
+    
+    await runTransaction(db, async (transaction) => {
+      const bidDoc = await transaction.get(bidDocRef);
+      
+      if (!bidDoc.exists()) {
+        throw new Error('Bid not found');
+      }
+      
+      const bid = mapBidData(bidDoc.id, bidDoc.data());
+      if (bid.email !== sellerEmail) {
+        throw new Error('Only the seller can relist this item');
+      }
+      if (bid.status !== 'closed') {
+        throw new Error('Only closed auctions can be relisted');
+      }
+      
+      // Past offers stay in the offers subcollection for reference. Proxy maximums were
+      // removed by the auction job when it closed, so bidding starts afresh.
+      transaction.update(bidDocRef, {
+        status: 'active',
+        startDate: Timestamp.now(),
+        dueDate: Timestamp.fromDate(dueDate),
+        bids: [],
+        winner: null,
+        reserveMet: null,
+        closedAt: null,
+        endingNoticeSentAt: null
+      });
+    });
+  } catch (error) {
+    console.error(`Error relisting bid: ${bidId}`, error);
+    throw error;
+  }
+};
+
+/*** NOTIFICATIONS ***/
+
+// Map a notification document to the AppNotification type
+const mapNotificationData = (id: string, data: any): AppNotification => {
+  return {
+    id,
+    recipientEmail: data.recipientEmail || '',
+    type: data.type,
+    messageKey: data.messageKey || undefined,
+    params: data.params || undefined,
+    title: data.title || '',
+    body: data.body || '',
+    orderId: data.orderId || undefined,
+    bidId: data.bidId || undefined,
+    productId: data.productId || undefined,
+    bookingId: data.bookingId || undefined,
+    read: !!data.read,
+    createdAt: toDate(data.createdAt)
+  };
+};
+
+// Save a user's notification toggles so notifications sent by other users' actions respect them
+export const saveNotificationPreferences = async (
+  email: string,
+  preferences: NotificationPreferences
+): Promise<void> => {
+  try {
+    await setDoc(doc(db, 'notificationPreferences', email), {
+      ...preferences,
+      updatedAt: serverTimestamp()
+    });
+  } catch (error) {
+    console.error('Error saving notification preferences:', error);
+    throw error;
+  }
+};
+
+// Save a device's toggles for an account that has none saved yet. Toggles already saved,
+// possibly from another device, are left as they are.
+export const saveMissingNotificationPreferences = async (
+  email: string,
+  preferences: NotificationPreferences
+): Promise<void> => {
+  try {
+    const preferencesRef = doc(db, 'notificationPreferences', email);
+    await runTransaction(db, async (transaction) => {
+      const preferencesDoc = await transaction.get(preferencesRef);
+      if (!preferencesDoc.exists()) {
+        transaction.set(preferencesRef, { ...preferences, updatedAt: serverTimestamp() });
+      }
+    });
+  } catch (error) {
+    console.error('Error saving notification preferences:', error);
+    throw error;
+  }
+};
+
+// Ask the notification job to send notifications to other users. Users cannot write to each
+// other's notifications, so the job checks each request and skips any the recipient has turned off.
+export const sendNotifications = async (notifications: NewNotification[]): Promise<void> => {
+  try {
+    const senderEmail = auth.currentUser?.email;
+    if (!senderEmail) {
+      throw new Error('Notifications can only be sent by a signed-in user');
+    }
+    
+    const batch = writeBatch(db);
+    notifications.forEach(notification => {
+      batch.set(doc(collection(db, 'notificationRequests')), {
+        ...toNotificationDoc(notification),
+        senderEmail,
+        createdAt: serverTimestamp()
+      });
+    });
+    await batch.commit();
+  } catch (error) {
+    console.error('Error sending notifications:', error);
+    throw error;
+  }
+};
+
+// Notifications are a side effect of a change that has already been saved, so failing to send them is only logged
+const notifyAfterCommit = async (notifications: NewNotification[]): Promise<void> => {
+  if (!notifications.length) {
+    return;
+  }
+  await sendNotifications(notifications).catch(() => undefined);
+};
+
+// Listen for notifications sent to a user after the given time
+export const subscribeToNotifications = (
+  email: string,
+  since: Date,
+  onNotification: (notification: AppNotification) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, 'notifications'),
+    where('recipientEmail', '==', email),
+    where('createdAt', '>', Timestamp.fromDate(since)),
+    orderBy('createdAt', 'asc')
+  );
+  
+  return onSnapshot(q, (snapshot) => {
+    snapshot.docChanges().forEach(change => {
+      if (change.type === 'added') {
+        onNotification(mapNotificationData(change.doc.id, change.doc.data()));
+      }
+    });
+  }, (error) => {
+    console.error('Error listening for notifications:', error);
+  });
+};
+
+// Get a user's most recent notifications, newest first
+export const getNotifications = async (email: string, limitCount: number = 50): Promise<AppNotification[]> => {
   try {
-    const bidsCollection = collection(db, 'bids');
     const q = query(
-      bidsCollection, 
-      where('status', '==', 'active'),
+      collection(db, 'notifications'),
+      where('recipientEmail', '==', email),
       orderBy('createdAt', 'desc'),
       limit(limitCount)
     );
-    const bidsSnapshot = await getDocs(q);
-    
-    const bidsData: Bid[] = [];
-    bidsSnapshot.forEach((doc) => {
-      const data = doc.data();
-      bidsData.push({
-        id: doc.id,
-        name: data.name || '',
-        number: data.number || '',
-        category: data.category || '',
-        item: data.item || '',
-        description: data.description || '',
-        startPrice: data.startPrice || 0,
-        startDate: data.startDate ? new Date(data.startDate.seconds * 1000) : new Date(),
-        dueDate: data.dueDate ? new Date(data.dueDate.seconds * 1000) : new Date(),
-        email: data.email || '',
-        imageUri: data.imageUri || '',
-        status: data.status || 'active',
-        createdAt: data.createdAt ? new Date(data.createdAt.seconds * 1000) : new Date(),
-        bids: data.bids || []
-      });
-    });
+    const notificationsSnapshot = await getDocs(q);
     
-    return bidsData;
+    return notificationsSnapshot.docs.map(notificationDoc =>
+      mapNotificationData(notificationDoc.id, notificationDoc.data())
+    );
   } catch (error) {
-    console.error('Error getting active bids:', error);
+    console.error('Error getting notifications:', error);
     throw error;
   }
 };
 
-// Get bid by ID
-export const getBidById = async (bidId: string): Promise<Bid | null> => {
+// Keep a count of a user's unread notifications up to date
+export const subscribeToUnreadCount = (email: string, onCount: (count: number) => void): Unsubscribe => {
+  const q = query(
+    collection(db, 'notifications'),
+    where('recipientEmail', '==', email),
+    where('read', '==', false)
+  );
+  
+  return onSnapshot(q, (snapshot) => {
+    onCount(snapshot.size);
+  }, (error) => {
+    console.error('Error counting unread notifications:', error);
+  });
+};
+
+// Mark a single notification as read
+export const markNotificationRead = async (notificationId: string): Promise<void> => {
   try {
-    const bidDoc = await getDoc(doc(db, 'bids', bidId));
-    
-    if (bidDoc.exists()) {
-      const data = bidDoc.data();
-      return {
-        id: bidDoc.id,
-        name: data.name || '',
-        number: data.number || '',
-        category: data.category || '',
-        item: data.item || '',
-        description: data.description || '',
-        startPrice: data.startPrice || 0,
-        startDate: data.startDate ? new Date(data.startDate.seconds * 1000) : new Date(),
-        dueDate: data.dueDate ? new Date(data.dueDate.seconds * 1000) : new Date(),
-        email: data.email || '',
-        imageUri: data.imageUri || '',
-        status: data.status || 'active',
-        createdAt: data.createdAt ? new Date(data.createdAt.seconds * 1000) : new Date(),
-        bids: data.bids || []
-      };
-    } else {
-      return null;
-    }
+    await updateDoc(doc(db, 'notifications', notificationId), {
+      read: true,
+      readAt: serverTimestamp()
+    });
   } catch (error) {
-    console.error('Error getting bid by ID:', error);
+    console.error('Error marking notification as read:', error);
     throw error;
   }
 };
 
-// Get bids by user's email
-export const getBidsByEmail = async (email: string): Promise<Bid[]> => {
+// Mark every unread notification for a user as read
+export const markAllNotificationsRead = async (email: string): Promise<void> => {
   try {
-    const bidsCollection = collection(db, 'bids');
     const q = query(
-      bidsCollection, 
-      where('email', '==', email),
-      orderBy('createdAt', 'desc')
+      collection(db, 'notifications'),
+      where('recipientEmail', '==', email),
+      where('read', '==', false)
     );
-    const bidsSnapshot = await getDocs(q);
+    const unreadSnapshot = await getDocs(q);
     
-    const bidsData: Bid[] = [];
-    bidsSnapshot.forEach((doc) => {
-      const data = doc.data();
-      bidsData.push({
-        id: doc.id,
-        name: data.name || '',
-        number: data.number || '',
-        category: data.category || '',
-        item: data.item || '',
-        description: data.description || '',
-        startPrice: data.startPrice || 0,
-        startDate: data.startDate ? new Date(data.startDate.seconds * 1000) : new Date(),
-        dueDate: data.dueDate ? new Date(data.dueDate.seconds * 1000) : new Date(),
-        email: data.email || '',
-        imageUri: data.imageUri || '',
-        status: data.status || 'active',
-        createdAt: data.createdAt ? new Date(data.createdAt.seconds * 1000) : new Date(),
-        bids: data.bids || []
+    const batch = writeBatch(db);
+    unreadSnapshot.forEach((notificationDoc) => {
+      batch.update(notificationDoc.ref, {
+        read: true,
+        readAt: serverTimestamp()
       });
     });
-    
-    return bidsData;
+    await batch.commit();
   } catch (error) {
-    console.error('Error getting bids by email:', error);
+    console.error('Error marking all notifications as read:', error);
     throw error;
   }
 };
 
-// Place a new bid on an item
-export const placeBidOffer = async (
-  bidId: string,
-  bidOffer: Omit<BidOffer, 'id' | 'bidId' | 'createdAt'>
-): Promise<string> => {
+/*** CHAT ***/
+
+// Map a conversation document to the Conversation type
+const mapConversationData = (id: string, data: any): Conversation => {
+  return {
+    id,
+    subjectType: data.subjectType,
+    subjectId: data.subjectId || '',
+    subjectTitle: data.subjectTitle || '',
+    buyerEmail: data.buyerEmail || '',
+    sellerEmail: data.sellerEmail || '',
+    participants: data.participants || [],
+    lastMessage: data.lastMessage || undefined,
+    lastMessageType: data.lastMessageType || undefined,
+    lastSenderEmail: data.lastSenderEmail || undefined,
+    lastMessageAt: data.lastMessageAt ? toDate(data.lastMessageAt) : undefined,
+    buyerUnread: data.buyerUnread || 0,
+    sellerUnread: data.sellerUnread || 0,
+    buyerLastReadAt: data.buyerLastReadAt ? toDate(data.buyerLastReadAt) : undefined,
+    sellerLastReadAt: data.sellerLastReadAt ? toDate(data.sellerLastReadAt) : undefined,
+    createdAt: toDate(data.createdAt)
+  };
+};
+
+// Map a message document to the ChatMessage type
+const mapChatMessageData = (id: string, conversationId: string, data: any): ChatMessage => {
+  return {
+    id,
+    conversationId,
+    senderEmail: data.senderEmail || '',
+    type: data.type || 'text',
+    text: data.text || undefined,
+    imageUri: data.imageUri || undefined,
+    createdAt: toDate(data.createdAt)
+  };
+};
+
+// Open the buyer's conversation with the seller of a listing, starting one if this is the first message.
+// Returns the conversation id.
+export const startConversation = async (subject: {
+  subjectType: ConversationSubject;
+  subjectId: string;
+  subjectTitle: string;
+  buyerEmail: string;
+  sellerEmail: string;
+}): Promise<string> => {
   try {
-    // First get the current bid document
-    const bidDocRef = doc(db, 'bids', bidId);
-    const bidDoc = await getDoc(bidDocRef);
-    
-    if (!bidDoc.exists()) {
-      throw new Error('Bid not found');
-    }
-    
-    const bidData = bidDoc.data();
-    
-    // Check if bid is still active
-    if (bidData.status !== 'active') {
-      throw new Error('This bid is no longer active');
-    }
-    
-    // Check if due date has passed
-    const dueDate = new Date(bidData.dueDate.seconds * 1000);
-    if (dueDate < new Date()) {
-      throw new Error('The bidding period for this item has ended');
+    if (subject.buyerEmail.toLowerCase() === subject.sellerEmail.toLowerCase()) {
+      throw new Error('You cannot start a conversation about your own listing');
     }
     
-    // Generate a new bid ID
-    const newBidOfferId = String(Date.now());
-    
-    // Create the new bid offer
-    const newBidOffer: BidOffer = {
-      id: newBidOfferId,
-      bidId: bidId,
-      amount: bidOffer.amount,
-      email: bidOffer.email,
-      createdAt: new Date()
-    };
+    const conversationId = getConversationId(subject.subjectType, subject.subjectId, subject.buyerEmail);
+    const conversationRef = doc(db, 'conversations', conversationId);
     
-    // Add to the bids array
-    const currentBids = bidData.bids || [];
-    const updatedBids = [...currentBids, newBidOffer];
+    await runTransaction(db, async (transaction) => {
+      const conversationDoc = await transaction.get(conversationRef);
+      if (conversationDoc.exists()) {
+        return;
+      }
+      
+      transaction.set(conversationRef, {
+        ...subject,
+        participants: [subject.buyerEmail, subject.sellerEmail],
+        buyerUnread: 0,
+        sellerUnread: 0,
+        createdAt: serverTimestamp()
+      });
+    });
     
-    // Update the document
-    await updateDoc(bidDocRef, {
-      bids: updatedBids
+    return conversationId;
+  } catch (error) {
+    console.error('Error starting conversation:', error);
+    throw error;
+  }
+};
+
+// Listen to a user's conversations, most recently active first
+export const subscribeToConversations = (
+  email: string,
+  onConversations: (conversations: Conversation[]) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, 'conversations'),
+    where('participants', 'array-contains', email)
+  );
+  
+  return onSnapshot(q, (snapshot) => {
+    const conversations = snapshot.docs.map(conversationDoc =>
+      mapConversationData(conversationDoc.id, conversationDoc.data())
+    );
+    // Threads with recent messages come first; ones nobody has written in yet fall back to when they were opened
+    conversations.sort((a, b) =>
+      (b.lastMessageAt || b.createdAt).getTime() - (a.lastMessageAt || a.createdAt).getTime()
+    );
+    onConversations(conversations);
+  }, (error) => {
+    console.error('Error listening for conversations:', error);
+  });
+};
+
+// Listen to a single conversation, for its read receipts
+export const subscribeToConversation = (
+  conversationId: string,
+  onConversation: (conversation: Conversation | null) => void
+): Unsubscribe => {
+  return onSnapshot(doc(db, 'conversations', conversationId), (conversationDoc) => {
+    onConversation(conversationDoc.exists() ? mapConversationData(conversationDoc.id, conversationDoc.data()) : null);
+  }, (error) => {
+    console.error(`Error listening for conversation: ${conversationId}`, error);
+  });
+};
+
+// Listen to the messages in a conversation, oldest first
+export const subscribeToMessages = (
+  conversationId: string,
+  onMessages: (messages: ChatMessage[]) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, 'conversations', conversationId, 'messages'),
+    orderBy('createdAt', 'asc')
+  );
+  
+  return onSnapshot(q, (snapshot) => {
+    onMessages(snapshot.docs.map(messageDoc =>
+      mapChatMessageData(messageDoc.id, conversationId, messageDoc.data({ serverTimestamps: 'estimate' }))
+    ));
+  }, (error) => {
+    console.error(`Error listening for messages: ${conversationId}`, error);
+  });
+};
+
+// Send a text or image message and count it as unread for the other participant
+export const sendChatMessage = async (
+  conversation: Conversation,
+  senderEmail: string,
+  message: { type: 'text'; text: string } | { type: 'image'; imageUri: string }
+): Promise<void> => {
+  try {
+    const conversationRef = doc(db, 'conversations', conversation.id);
+    const recipientRole = getConversationRole(conversation, senderEmail) === 'buyer' ? 'seller' : 'buyer';
+    const batch = writeBatch(db);
+    
+    batch.set(doc(collection(conversationRef, 'messages')), {
+      ...message,
+      senderEmail,
+      createdAt: serverTimestamp()
+    });
+    batch.update(conversationRef, {
+      lastMessage: message.type === 'text' ? message.text : '',
+      lastMessageType: message.type,
+      lastSenderEmail: senderEmail,
+      lastMessageAt: serverTimestamp(),
+      [`${recipientRole}Unread`]: increment(1)
     });
     
-    return newBidOfferId;
+    await batch.commit();
   } catch (error) {
-    console.error('Error placing bid offer:', error);
+    console.error('Error sending chat message:', error);
+    throw error;
+  }
+};
+
+// Record that a participant has read everything in a conversation
+export const markConversationRead = async (conversation: Conversation, email: string): Promise<void> => {
+  try {
+    const role = getConversationRole(conversation, email);
+    await updateDoc(doc(db, 'conversations', conversation.id), {
+      [`${role}Unread`]: 0,
+      [`${role}LastReadAt`]: serverTimestamp()
+    });
+  } catch (error) {
+    console.error('Error marking conversation as read:', error);
     throw error;
   }
 };
@@ -836,6 +2424,8 @@ export const getAllShops = async (): Promise<Shop[]> => {
         image: shopData.image,
         products: shopData.products || [],
         location: shopData.location,
+        rating: shopData.rating || 0,
+        reviewCount: shopData.reviewCount || 0,
       });
     });
     
@@ -872,6 +2462,8 @@ export const getShopsByCategory = async (categoryId: string): Promise<Shop[]> =>
         image: shopData.image,
         products: shopData.products || [],
         location: shopData.location,
+        rating: shopData.rating || 0,
+        reviewCount: shopData.reviewCount || 0,
       });
     });
     
@@ -904,6 +2496,8 @@ export const getShopById = async (shopId: string): Promise<Shop> => {
       image: shopData.image,
       products: shopData.products || [],
       location: shopData.location,
+      rating: shopData.rating || 0,
+      reviewCount: shopData.reviewCount || 0,
     };
   } catch (error) {
     console.error(`Error getting shop with ID ${shopId}:`, error);
@@ -1110,6 +2704,34 @@ export const getMachineCategories = async (): Promise<Category[]> => {
   }
 };
 
+// Map a machine document to the Machine type
+const mapMachineData = (id: string, data: any): Machine => {
+  return {
+    id,
+    name: data.name || '',
+    price: data.price || 0,
+    description: data.description || '',
+    category: data.category || '',
+    status: data.status || 'unavailable',
+    contact: data.contact || '',
+    phone: data.phone || '',
+    location: data.location || '',
+    image: data.image || '',
+    rates: data.rates || undefined,
+    rating: data.rating || 0,
+    reviewCount: data.reviewCount || 0,
+    engineHours: data.engineHours || 0,
+    lastServiceDate: data.lastServiceDate ? toDate(data.lastServiceDate) : undefined,
+    nextServiceDate: data.nextServiceDate ? toDate(data.nextServiceDate) : undefined,
+    nextServiceHours: data.nextServiceHours ?? undefined,
+    autoUnavailableWhenDue: !!data.autoUnavailableWhenDue,
+    createdBy: data.createdBy || undefined,
+    ownerEmail: data.ownerEmail || undefined,
+    createdAt: data.createdAt ? toDate(data.createdAt) : new Date(),
+    updatedAt: data.updatedAt ? toDate(data.updatedAt) : new Date()
+  };
+};
+
 export const getMachinesByCategoryId = async (categoryId: string): Promise<Machine[]> => {
   try {
     // Query machines collection filtering by categoryId
@@ -1123,31 +2745,7 @@ export const getMachinesByCategoryId = async (categoryId: string): Promise<Machi
     const machines: Machine[] = [];
     
     machineSnapshot.forEach((doc) => {
-      const data = doc.data();
-      
-      // Format dates properly
-      const createdAt = data.createdAt ? 
-        (data.createdAt.toDate ? data.createdAt.toDate() : data.createdAt) : 
-        new Date();
-      
-      const updatedAt = data.updatedAt ? 
-        (data.updatedAt.toDate ? data.updatedAt.toDate() : data.updatedAt) : 
-        new Date();
-      
-      machines.push({
-        id: doc.id,
-        name: data.name || '',
-        price: data.price || 0,
-        description: data.description || '',
-        category: data.category || '',
-        status: data.status || 'unavailable',
-        contact: data.contact || '',
-        phone: data.phone || '',
-        location: data.location || '',
-        image: data.image || '',
-        createdAt: createdAt,
-        updatedAt: updatedAt
-      });
+      machines.push(mapMachineData(doc.id, doc.data()));
     });
     
     return machines;
@@ -1170,31 +2768,7 @@ export const getAllMachines = async (limitCount: number = 10): Promise<Machine[]
     const machines: Machine[] = [];
     
     machineSnapshot.forEach((doc) => {
-      const data = doc.data();
-      
-      // Format dates properly
-      const createdAt = data.createdAt ? 
-        (data.createdAt.toDate ? data.createdAt.toDate() : data.createdAt) : 
-        new Date();
-      
-      const updatedAt = data.updatedAt ? 
-        (data.updatedAt.toDate ? data.updatedAt.toDate() : data.updatedAt) : 
-        new Date();
-      
-      machines.push({
-        id: doc.id,
-        name: data.name || '',
-        price: data.price || 0,
-        description: data.description || '',
-        category: data.category || '',
-        status: data.status || 'unavailable',
-        contact: data.contact || '',
-        phone: data.phone || '',
-        location: data.location || '',
-        image: data.image || '',
-        createdAt: createdAt,
-        updatedAt: updatedAt
-      });
+      machines.push(mapMachineData(doc.id, doc.data()));
     });
     
     return machines;
@@ -1233,4 +2807,371 @@ export const addMachine = async (machineData: Omit<Machine, 'id' | 'createdAt' |
     console.error('Error adding machine:', error);
     throw error;
   }
-}; 
\ No newline at end of file
+}; 
+
+// Get a single machine listing
+export const getMachineById = async (machineId: string): Promise<Machine | null> => {
+  try {
+    const machineDoc = await getDoc(doc(db, 'machines', machineId));
+    return machineDoc.exists() ? mapMachineData(machineDoc.id, machineDoc.data()) : null;
+  } catch (error) {
+    console.error(`Error getting machine: ${machineId}`, error);
+    throw error;
+  }
+};
+
+// Get the machines a user has listed, newest first
+export const getMachinesByOwner = async (userId: string): Promise<Machine[]> => {
+  try {
+    const machinesQuery = query(
+      collection(db, 'machines'),
+      where('createdBy', '==', userId),
+      orderBy('createdAt', 'desc')
+    );
+    const machineSnapshot = await getDocs(machinesQuery);
+    
+    return machineSnapshot.docs.map(machineDoc => mapMachineData(machineDoc.id, machineDoc.data()));
+  } catch (error) {
+    console.error('Error getting machines by owner:', error);
+    throw error;
+  }
+};
+
+// Update a machine listing. Only the user who listed it may change it.
+export const updateMachine = async (
+  machineId: string,
+  userId: string,
+  updates: Partial<Omit<Machine, 'id' | 'createdBy' | 'ownerEmail' | 'createdAt' | 'updatedAt'>>
+): Promise<void> => {
+  try {
+    const machineRef = doc(db, 'machines', machineId);
+    
+    await runTransaction(db, async (transaction) => {
+      const machineDoc = await transaction.get(machineRef);
+      
+      if (!machineDoc.exists()) {
+        throw new Error('Machine not found');
+      }
+      if (machineDoc.data().createdBy !== userId) {
+        throw new Error('Only the owner can edit this machine');
+      }
+      
+      transaction.update(machineRef, {
+        ...updates,
+        updatedAt: serverTimestamp()
+      });
+    });
+  } catch (error) {
+    console.error(`Error updating machine: ${machineId}`, error);
+    throw error;
+  }
+};
+
+// Remove a machine listing. Only the user who listed it may delete it.
+export const deleteMachine = async (machineId: string, userId: string): Promise<void> => {
+  try {
+    const machineRef = doc(db, 'machines', machineId);
+    
+    await runTransaction(db, async (transaction) => {
+      const machineDoc = await transaction.get(machineRef);
+      
+      if (!machineDoc.exists()) {
+        throw new Error('Machine not found');
+      }
+      if (machineDoc.data().createdBy !== userId) {
+        throw new Error('Only the owner can delete this machine');
+      }
+      
+      transaction.delete(machineRef);
+    });
+  } catch (error) {
+    console.error(`Error deleting machine: ${machineId}`, error);
+    throw error;
+  }
+};
+
+/*** MACHINE BOOKINGS ***/
+
+// Map a booking document to the MachineBooking type
+const mapMachineBookingData = (id: string, data: any): MachineBooking => {
+  return {
+    id,
+    machineId: data.machineId || '',
+    machineName: data.machineName || '',
+    ownerId: data.ownerId || '',
+    ownerEmail: data.ownerEmail || '',
+    renterEmail: data.renterEmail || '',
+    startDate: toDate(data.startDate),
+    endDate: toDate(data.endDate),
+    rateUnit: data.rateUnit || 'day',
+    quantity: data.quantity || 0,
+    rate: data.rate || 0,
+    totalPrice: data.totalPrice || 0,
+    note: data.note || undefined,
+    status: data.status || 'pending',
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt)
+  };
+};
+
+// Sort bookings by when they start, soonest first
+const sortBookingsByStart = (bookings: MachineBooking[]): MachineBooking[] => {
+  return bookings.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+};
+
+// Get the pending and approved bookings for a machine, for its availability calendar
+export const getMachineBookings = async (machineId: string): Promise<MachineBooking[]> => {
+  try {
+    const bookingsQuery = query(collection(db, 'machineBookings'), where('machineId', '==', machineId));
+    const snapshot = await getDocs(bookingsQuery);
+    
+    return sortBookingsByStart(
+      snapshot.docs
+        .map(bookingDoc => mapMachineBookingData(bookingDoc.id, bookingDoc.data()))
+        .filter(booking => OPEN_BOOKING_STATUSES.includes(booking.status))
+    );
+  } catch (error) {
+    console.error(`Error getting bookings for machine: ${machineId}`, error);
+    throw error;
+  }
+};
+
+// Get the bookings a user has requested
+export const getRenterBookings = async (email: string): Promise<MachineBooking[]> => {
+  try {
+    const bookingsQuery = query(collection(db, 'machineBookings'), where('renterEmail', '==', email));
+    const snapshot = await getDocs(bookingsQuery);
+    
+    return sortBookingsByStart(snapshot.docs.map(bookingDoc => mapMachineBookingData(bookingDoc.id, bookingDoc.data())));
+  } catch (error) {
+    console.error('Error getting renter bookings:', error);
+    throw error;
+  }
+};
+
+// Get the booking requests made for a user's machines
+export const getOwnerBookings = async (ownerId: string): Promise<MachineBooking[]> => {
+  try {
+    const bookingsQuery = query(collection(db, 'machineBookings'), where('ownerId', '==', ownerId));
+    const snapshot = await getDocs(bookingsQuery);
+    
+    return sortBookingsByStart(snapshot.docs.map(bookingDoc => mapMachineBookingData(bookingDoc.id, bookingDoc.data())));
+  } catch (error) {
+    console.error('Error getting owner bookings:', error);
+    throw error;
+  }
+};
+
+// Ask to rent a machine. Throws BookingConflictError if the period overlaps an approved booking.
+export const requestMachineBooking = async (
+  booking: Omit<MachineBooking, 'id' | 'status' | 'createdAt' | 'updatedAt'>
+): Promise<string> => {
+  try {
+    const conflict = findBookingConflict(
+      await getMachineBookings(booking.machineId),
+      booking.startDate,
+      booking.endDate
+    );
+    if (conflict) {
+      throw new BookingConflictError(conflict);
+    }
+    
+    const { note, ...bookingData } = booking;
+    const bookingRef = await addDoc(collection(db, 'machineBookings'), {
+      ...bookingData,
+      ...(note ? { note } : {}),
+      startDate: Timestamp.fromDate(booking.startDate),
+      endDate: Timestamp.fromDate(booking.endDate),
+      status: 'pending',
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    
+    await notifyAfterCommit([getBookingRequestNotification({
+      ...booking,
+      id: bookingRef.id,
+      status: 'pending',
+      createdAt: new Date(),
+      updatedAt: new Date()
+    })]);
+    
+    return bookingRef.id;
+  } catch (error) {
+    console.error('Error requesting machine booking:', error);
+    throw error;
+  }
+};
+
+// Approve or decline a booking request. Only the machine's owner may respond,
+// and a request cannot be approved if the machine has since been booked for that period.
+export const respondToBookingRequest = async (
+  bookingId: string,
+  ownerId: string,
+  approve: boolean
+): Promise<void> => {
+  try {
+    const bookingRef = doc(db, 'machineBookings', bookingId);
+    
+    const updated = await runTransaction(db, async (transaction) => {
+      const bookingDoc = await transaction.get(bookingRef);
+      if (!bookingDoc.exists()) {
+        throw new Error('Booking not found');
+      }
+      
+      const booking = mapMachineBookingData(bookingDoc.id, bookingDoc.data());
+      if (booking.ownerId !== ownerId) {
+        throw new Error('Only the machine owner can respond to this booking');
+      }
+      if (booking.status !== 'pending') {
+        throw new Error('This booking has already been answered');
+      }
+      
+      const status: BookingStatus = approve ? 'approved' : 'declined';
+      if (approve) {
+        // Every approval writes the machine, so two approvals for the same machine cannot
+        // both commit; the loser retries and then sees the other booking in the query below.
+        const machineRef = doc(db, 'machines', booking.machineId);
+        await transaction.get(machineRef);
+        
+        const conflict = findBookingConflict(
+          await getMachineBookings(booking.machineId),
+          booking.startDate,
+          booking.endDate,
+          booking.id
+        );
+        if (conflict) {
+          throw new BookingConflictError(conflict);
+        }
+        transaction.update(machineRef, { bookingsUpdatedAt: serverTimestamp() });
+      }
+      
+      transaction.update(bookingRef, { status, updatedAt: serverTimestamp() });
+      return { ...booking, status };
+    });
+    
+    await notifyAfterCommit([getBookingUpdateNotification(updated)]);
+  } catch (error) {
+    console.error(`Error responding to booking: ${bookingId}`, error);
+    throw error;
+  }
+};
+
+// Cancel a booking the user requested, before it starts
+export const cancelMachineBooking = async (bookingId: string, renterEmail: string): Promise<void> => {
+  try {
+    const bookingRef = doc(db, 'machineBookings', bookingId);
+    
+    const updated = await runTransaction(db, async (transaction) => {
+      const bookingDoc = await transaction.get(bookingRef);
+      if (!bookingDoc.exists()) {
+        throw new Error('Booking not found');
+      }
+      
+      const booking = mapMachineBookingData(bookingDoc.id, bookingDoc.data());
+      if (booking.renterEmail.toLowerCase() !== renterEmail.toLowerCase()) {
+        throw new Error('Only the person who made this booking can cancel it');
+      }
+      if (!OPEN_BOOKING_STATUSES.includes(booking.status) || booking.startDate <= new Date()) {
+        throw new Error('This booking can no longer be cancelled');
+      }
+      
+      transaction.update(bookingRef, { status: 'cancelled', updatedAt: serverTimestamp() });
+      return { ...booking, status: 'cancelled' as BookingStatus };
+    });
+    
+    await notifyAfterCommit([getBookingUpdateNotification(updated)]);
+  } catch (error) {
+    console.error(`Error cancelling booking: ${bookingId}`, error);
+    throw error;
+  }
+};
+
+/*** MACHINE LOGBOOK ***/
+
+// Map a logbook document to the MachineLogEntry type
+const mapMachineLogEntryData = (id: string, machineId: string, data: any): MachineLogEntry => {
+  return {
+    id,
+    machineId,
+    type: data.type || 'usage',
+    date: toDate(data.date),
+    hours: data.hours ?? undefined,
+    operator: data.operator || undefined,
+    bookingId: data.bookingId || undefined,
+    maintenanceType: data.maintenanceType || undefined,
+    description: data.description || undefined,
+    cost: data.cost ?? undefined,
+    nextDueDate: data.nextDueDate ? toDate(data.nextDueDate) : undefined,
+    nextDueHours: data.nextDueHours ?? undefined,
+    createdAt: toDate(data.createdAt)
+  };
+};
+
+// Get a machine's logbook, most recent first
+export const getMachineLogbook = async (machineId: string): Promise<MachineLogEntry[]> => {
+  try {
+    const logbookQuery = query(collection(db, 'machines', machineId, 'logbook'), orderBy('date', 'desc'));
+    const snapshot = await getDocs(logbookQuery);
+    
+    return snapshot.docs.map(entryDoc => mapMachineLogEntryData(entryDoc.id, machineId, entryDoc.data()));
+  } catch (error) {
+    console.error(`Error getting logbook for machine: ${machineId}`, error);
+    throw error;
+  }
+};
+
+// Add a usage or maintenance entry to a machine's logbook and update the machine's
+// engine hours and service schedule to match. Only the machine's owner may add entries.
+export const addMachineLogEntry = async (
+  machineId: string,
+  userId: string,
+  entry: Omit<MachineLogEntry, 'id' | 'machineId' | 'createdAt'>
+): Promise<string> => {
+  try {
+    const machineRef = doc(db, 'machines', machineId);
+    const entryRef = doc(collection(db, 'machines', machineId, 'logbook'));
+    
+    await runTransaction(db, async (transaction) => {
+      const machineDoc = await transaction.get(machineRef);
+      if (!machineDoc.exists()) {
+        throw new Error('Machine not found');
+      }
+      if (machineDoc.data().createdBy !== userId) {
+        throw new Error('Only the owner can update this machine\'s logbook');
+      }
+      
+      transaction.set(entryRef, {
+        type: entry.type,
+        date: Timestamp.fromDate(entry.date),
+        ...(entry.hours !== undefined ? { hours: entry.hours } : {}),
+        ...(entry.operator ? { operator: entry.operator } : {}),
+        ...(entry.bookingId ? { bookingId: entry.bookingId } : {}),
+        ...(entry.maintenanceType ? { maintenanceType: entry.maintenanceType } : {}),
+        ...(entry.description ? { description: entry.description } : {}),
+        ...(entry.cost !== undefined ? { cost: entry.cost } : {}),
+        ...(entry.nextDueDate ? { nextDueDate: Timestamp.fromDate(entry.nextDueDate) } : {}),
+        ...(entry.nextDueHours !== undefined ? { nextDueHours: entry.nextDueHours } : {}),
+        createdAt: serverTimestamp()
+      });
+      
+      // A service resets the schedule; other maintenance only moves it if a new due point was given
+      const isService = entry.type === 'maintenance' && entry.maintenanceType === 'service';
+      transaction.update(machineRef, {
+        ...(entry.type === 'usage' && entry.hours ? { engineHours: increment(entry.hours) } : {}),
+        ...(isService ? { lastServiceDate: Timestamp.fromDate(entry.date) } : {}),
+        ...(entry.nextDueDate || isService
+          ? { nextServiceDate: entry.nextDueDate ? Timestamp.fromDate(entry.nextDueDate) : null }
+          : {}),
+        ...(entry.nextDueHours !== undefined || isService
+          ? { nextServiceHours: entry.nextDueHours ?? null }
+          : {}),
+        updatedAt: serverTimestamp()
+      });
+    });
+    
+    return entryRef.id;
+  } catch (error) {
+    console.error(`Error adding logbook entry for machine: ${machineId}`, error);
+    throw error;
+  }
+};
@@ -0,0 +1,159 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SETTINGS_KEYS } from './settingsUtils';
+import { LocalizedText } from '../types';
+import en from '../locales/en.json';
+import si from '../locales/si.json';
+import ta from '../locales/ta.json';
+
+export type Locale = 'en' | 'si' | 'ta';
+
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+export type TranslationParams = Record<string, string | number>;
+
+// A catalog entry is a message, a set of plural forms, or a group of further entries
+interface Catalog {
+  [key: string]: string | Catalog;
+}
+
+export const LOCALES: Locale[] = ['en', 'si', 'ta'];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Each language's name in that language, as shown in the language pickers
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  si: 'සිංහල',
+  ta: 'தமிழ்',
+};
+
+const CATALOGS: Record<Locale, Catalog> = { en, si, ta };
+
+// The digits 0-9 in each language's own script. English keeps the ASCII digits
+const NATIVE_DIGITS: Partial<Record<Locale, string[]>> = {
+  si: ['෦', '෧', '෨', '෩', '෪', '෫', '෬', '෭', '෮', '෯'],
+  ta: ['௦', '௧', '௨', '௩', '௪', '௫', '௬', '௭', '௮', '௯'],
+};
+
+const PLURAL_CATEGORIES: PluralCategory[] = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+/**
+ * Pick the plural form for a count, following the CLDR rules for each language.
+ * Hermes has no Intl.PluralRules, so the rules for our three languages are written out.
+ * @param locale The language the message is shown in
+ * @param count The number the message is about
+ * @returns The plural category to use
+ */
+export const getPluralCategory = (locale: Locale, count: number): PluralCategory => {
+  if (locale === 'si') {
+    // Sinhala uses the singular for 0 and 1, and for 0.1
+    return count === 0 || count === 1 || count === 0.1 ? 'one' : 'other';
+  }
+
+  return count === 1 ? 'one' : 'other';
+};
+
+const isPluralEntry = (entry: Catalog): boolean => {
+  const keys = Object.keys(entry);
+  return keys.includes('other') && keys.every(key => PLURAL_CATEGORIES.includes(key as PluralCategory));
+};
+
+const lookup = (catalog: Catalog, key: string): string | Catalog | undefined => {
+  let entry: string | Catalog | undefined = catalog;
+  for (const part of key.split('.')) {
+    if (!entry || typeof entry === 'string') return undefined;
+    entry = entry[part];
+  }
+  return entry;
+};
+
+const resolveMessage = (locale: Locale, key: string, count?: number): string | undefined => {
+  const entry = lookup(CATALOGS[locale], key);
+
+  if (typeof entry === 'string') return entry;
+  if (!entry || !isPluralEntry(entry)) return undefined;
+
+  const category = count === undefined ? 'other' : getPluralCategory(locale, count);
+  const form = entry[category] ?? entry.other;
+  return typeof form === 'string' ? form : undefined;
+};
+
+// Write the digits in a piece of text in the language's own script
+export const localizeDigits = (text: string, locale: Locale): string => {
+  const digits = NATIVE_DIGITS[locale];
+  return digits ? text.replace(/[0-9]/g, digit => digits[Number(digit)]) : text;
+};
+
+// Strings are assumed to be formatted already
+const interpolate = (locale: Locale, message: string, params?: TranslationParams): string => {
+  if (!params) return message;
+  return message.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? localizeDigits(String(value), locale) : value;
+  });
+};
+
+/**
+ * Look up a message in the given language and fill in its {{placeholders}}.
+ * A numeric `count` param picks the plural form, and numeric params are written
+ * in the language's digits. Messages missing from the
+ * Sinhala or Tamil catalogs fall back to English, and then to the key itself.
+ * @param locale The language to show
+ * @param key Dotted path to the message, e.g. 'cart.title'
+ * @param params Values for the message's placeholders
+ * @returns The message to show
+ */
+export const translate = (locale: Locale, key: string, params?: TranslationParams): string => {
+  const count = typeof params?.count === 'number' ? params.count : undefined;
+  const message = resolveMessage(locale, key, count)
+    ?? (locale !== DEFAULT_LOCALE ? resolveMessage(DEFAULT_LOCALE, key, count) : undefined);
+
+  if (message === undefined) {
+    if (__DEV__) {
+      console.warn(`Missing translation: ${key}`);
+    }
+    return key;
+  }
+
+  return interpolate(locale, message, params);
+};
+
+/**
+ * Pick the text for a language from content written in several languages,
+ * falling back to English when it has not been translated yet
+ * @param text The stored content, either per language or plain English
+ * @param locale The language to show
+ * @returns The text to show, or '' when there is none
+ */
+export const getLocalizedText = (text: LocalizedText | undefined, locale: Locale): string => {
+  if (!text) return '';
+  if (typeof text === 'string') return text;
+  return text[locale] || text[DEFAULT_LOCALE] || '';
+};
+
+// Older builds saved the language's display name rather than its code
+export const parseLocale = (value: string | null): Locale | null => {
+  if (!value) return null;
+  if (LOCALES.includes(value as Locale)) return value as Locale;
+
+  const legacyLocale = LOCALES.find(locale => LOCALE_NAMES[locale] === value);
+  return legacyLocale || null;
+};
+
+export const getSavedLocale = async (): Promise<Locale | null> => {
+  try {
+    return parseLocale(await AsyncStorage.getItem(SETTINGS_KEYS.LANGUAGE));
+  } catch (error) {
+    console.error('Error loading language:', error);
+    return null;
+  }
+};
+
+export const saveLocale = async (locale: Locale): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(SETTINGS_KEYS.LANGUAGE, locale);
+  } catch (error) {
+    console.error('Error saving language:', error);
+  }
+};
@@ -0,0 +1,33 @@
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+
+// Photos are stored inline as Base64 while Storage is disabled, so they are shrunk before saving
+// to keep the documents that hold them well under Firestore's 1 MiB limit.
+export const PHOTO_MAX_WIDTH = 800;
+export const PHOTO_COMPRESS = 0.6;
+
+// Total Base64 budget for the photos kept on a single document
+export const MAX_INLINE_PHOTO_BYTES = 600 * 1024;
+
+// Resize a picked image to at most PHOTO_MAX_WIDTH wide and return it as a JPEG data URI
+export const compressPhoto = async (uri: string, width: number): Promise<string> => {
+  const context = ImageManipulator.manipulate(uri);
+  if (width > PHOTO_MAX_WIDTH) {
+    context.resize({ width: PHOTO_MAX_WIDTH });
+  }
+
+  const image = await context.renderAsync();
+  const result = await image.saveAsync({
+    compress: PHOTO_COMPRESS,
+    format: SaveFormat.JPEG,
+    base64: true,
+  });
+
+  if (!result.base64) {
+    throw new Error('Image could not be converted to Base64');
+  }
+  return `data:image/jpeg;base64,${result.base64}`;
+};
+
+// Size in bytes of a list of data URIs as they would be stored in Firestore
+export const getInlinePhotosSize = (photos: string[]): number =>
+  photos.reduce((total, photo) => total + photo.length, 0);
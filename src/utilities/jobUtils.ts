@@ -0,0 +1,73 @@
+/**
+ * Shared setup for the scheduled jobs, which run in Node with the Firebase Admin SDK
+ *
+ * The Admin SDK is trusted by the security rules, so the jobs make the changes clients
+ * are not allowed to: closing auctions, publishing reviews, confirming order prices and
+ * notifying other users.
+ * Set GOOGLE_APPLICATION_CREDENTIALS to the path of a service account key for the project,
+ * or FIRESTORE_EMULATOR_HOST (e.g. localhost:8080) to run against a local Firestore emulator.
+ */
+
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { FieldValue, getFirestore } from 'firebase-admin/firestore';
+import { NewNotification, isNotificationEnabled, mapNotificationPreferences, toNotificationDoc } from './notificationUtils';
+
+// Used when the environment does not name a project, as the emulators and service account keys do
+const DEFAULT_PROJECT_ID = 'agrisaviya-8d38b';
+
+if (!getApps().length) {
+  initializeApp({ projectId: process.env.GCLOUD_PROJECT || DEFAULT_PROJECT_ID });
+}
+export const db = getFirestore();
+
+if (process.env.FIRESTORE_EMULATOR_HOST) {
+  console.log(`Using Firestore emulator at ${process.env.FIRESTORE_EMULATOR_HOST}`);
+}
+
+// Send notifications to recipients who have not turned them off. Returns how many were sent.
+export const sendNotifications = async (notifications: NewNotification[]): Promise<number> => {
+  if (!notifications.length) return 0;
+
+  const recipients = Array.from(new Set(notifications.map(notification => notification.recipientEmail)));
+  const preferencesDocs = await db.getAll(...recipients.map(email => db.doc(`notificationPreferences/${email}`)));
+  const allowed = notifications.filter(notification => {
+    const preferencesDoc = preferencesDocs[recipients.indexOf(notification.recipientEmail)];
+    return isNotificationEnabled(mapNotificationPreferences(preferencesDoc.data()), notification.type);
+  });
+
+  const batch = db.batch();
+  allowed.forEach(notification => {
+    batch.create(db.collection('notifications').doc(), {
+      ...toNotificationDoc(notification),
+      read: false,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  });
+  await batch.commit();
+  return allowed.length;
+};
+
+/**
+ * Run a job from the command line: once by default, or every N minutes with --every=N
+ * @param name What the job does, for the log
+ * @param job The job, given the time it runs at
+ */
+export const runJob = (name: string, job: (now: Date) => Promise<unknown>): void => {
+  const everyArg = process.argv.find(arg => arg.startsWith('--every='));
+  const everyMinutes = everyArg ? parseFloat(everyArg.split('=')[1]) : 0;
+
+  if (everyMinutes > 0) {
+    console.log(`Running ${name} every ${everyMinutes} minute(s)`);
+    job(new Date()).catch(error => console.error('Error:', error));
+    setInterval(() => {
+      job(new Date()).catch(error => console.error('Error:', error));
+    }, everyMinutes * 60 * 1000);
+  } else {
+    job(new Date())
+      .then(() => process.exit(0))
+      .catch((error) => {
+        console.error('Error:', error);
+        process.exit(1);
+      });
+  }
+};
@@ -0,0 +1,81 @@
+import { Machine, MaintenanceType, ServiceStatus } from '../types';
+import { colors } from '../theme';
+import { formatDate } from '../utils';
+import { Locale, translate } from './i18n';
+
+// Labels for machine statuses and maintenance types are under machines.* in the message catalogs
+export const MACHINE_STATUSES = [
+  { value: 'available', color: colors.success },
+  { value: 'rented', color: colors.info },
+  { value: 'unavailable', color: colors.error },
+  { value: 'for_sale', color: colors.primary },
+  { value: 'for_rent', color: colors.accent },
+];
+
+export const getMachineStatusColor = (status: string): string => {
+  return MACHINE_STATUSES.find(s => s.value === status)?.color || colors.lightText;
+};
+
+// Only the user who listed a machine may edit, delete or change its status
+export const canEditMachine = (machine: Pick<Machine, 'createdBy'>, userId?: string): boolean => {
+  return !!userId && machine.createdBy === userId;
+};
+
+export const MAINTENANCE_TYPES: MaintenanceType[] = ['service', 'repair', 'inspection', 'parts'];
+
+// How far ahead a service is flagged as coming up
+export const SERVICE_DUE_SOON_DAYS = 7;
+export const SERVICE_DUE_SOON_HOURS = 10;
+
+type ServiceSchedule = Pick<Machine, 'engineHours' | 'nextServiceDate' | 'nextServiceHours'>;
+
+/**
+ * Check a machine against its service schedule, by date and by engine hours,
+ * whichever comes first
+ * @param machine The machine with its logbook totals
+ * @param now The current time
+ * @returns 'due' once either limit is reached, 'due_soon' when one is close, otherwise 'ok'
+ */
+export const getServiceStatus = (machine: ServiceSchedule, now: Date = new Date()): ServiceStatus => {
+  const engineHours = machine.engineHours || 0;
+  const hoursLeft = machine.nextServiceHours !== undefined ? machine.nextServiceHours - engineHours : undefined;
+  const daysLeft = machine.nextServiceDate
+    ? (machine.nextServiceDate.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)
+    : undefined;
+
+  if ((hoursLeft !== undefined && hoursLeft <= 0) || (daysLeft !== undefined && daysLeft <= 0)) {
+    return 'due';
+  }
+  if (
+    (hoursLeft !== undefined && hoursLeft <= SERVICE_DUE_SOON_HOURS) ||
+    (daysLeft !== undefined && daysLeft <= SERVICE_DUE_SOON_DAYS)
+  ) {
+    return 'due_soon';
+  }
+  return 'ok';
+};
+
+// Short description of when the next service is due, or null if none is scheduled
+export const getServiceDueText = (
+  machine: ServiceSchedule,
+  locale: Locale
+): string | null => {
+  const date = machine.nextServiceDate ? formatDate(machine.nextServiceDate, locale) : undefined;
+  const hours = machine.nextServiceHours !== undefined
+    ? translate(locale, 'machines.engineHours', { count: machine.nextServiceHours })
+    : undefined;
+
+  if (date && hours) {
+    return translate(locale, 'machines.nextService', { due: translate(locale, 'machines.nextServiceOr', { date, hours }) });
+  }
+  if (date || hours) return translate(locale, 'machines.nextService', { due: (date || hours)! });
+  return null;
+};
+
+// The status buyers see; owners can have machines taken off the market while a service is due
+export const getDisplayedMachineStatus = (
+  machine: ServiceSchedule & Pick<Machine, 'status' | 'autoUnavailableWhenDue'>,
+  now: Date = new Date()
+): string => {
+  return machine.autoUnavailableWhenDue && getServiceStatus(machine, now) === 'due' ? 'unavailable' : machine.status;
+};
@@ -0,0 +1,283 @@
+import { AppNotification, Bid, BidWinner, MachineBooking, NotificationParams, NotificationPreferences, NotificationType, OrderStatus } from '../types';
+import { TranslationParams } from './i18n';
+
+// Notifications are saved as a message key and its params, never as text, so each reader sees them in their own language
+export type NewNotification = Omit<AppNotification, 'id' | 'read' | 'createdAt' | 'title' | 'body' | 'messageKey' | 'params'> & {
+  messageKey: string;
+  params: NotificationParams;
+};
+
+// The SettingsScreen toggle, besides the main notifications switch, that controls each type
+const NOTIFICATION_TOGGLES: Record<NotificationType, keyof NotificationPreferences> = {
+  outbid: 'marketAlerts',
+  new_offer: 'marketAlerts',
+  auction_ending: 'marketAlerts',
+  auction_won: 'marketAlerts',
+  auction_lost: 'marketAlerts',
+  order_update: 'notifications',
+  price_alert: 'marketAlerts',
+  weather_warning: 'weatherAlerts',
+  booking_request: 'notifications',
+  booking_update: 'notifications',
+};
+
+export const NOTIFICATION_ICONS: Record<NotificationType, string> = {
+  outbid: 'trending-up-outline',
+  new_offer: 'pricetag-outline',
+  auction_ending: 'time-outline',
+  auction_won: 'trophy-outline',
+  auction_lost: 'close-circle-outline',
+  order_update: 'cube-outline',
+  price_alert: 'stats-chart-outline',
+  weather_warning: 'thunderstorm-outline',
+  booking_request: 'calendar-outline',
+  booking_update: 'calendar-number-outline',
+};
+
+export const isNotificationEnabled = (preferences: NotificationPreferences, type: NotificationType): boolean => {
+  return preferences.notifications && preferences[NOTIFICATION_TOGGLES[type]];
+};
+
+// The fields saved for a notification, leaving `read` and `createdAt` to the caller's SDK
+export const toNotificationDoc = (notification: NewNotification) => {
+  return {
+    recipientEmail: notification.recipientEmail,
+    type: notification.type,
+    messageKey: notification.messageKey,
+    params: notification.params,
+    ...(notification.orderId ? { orderId: notification.orderId } : {}),
+    ...(notification.bidId ? { bidId: notification.bidId } : {}),
+    ...(notification.productId ? { productId: notification.productId } : {}),
+    ...(notification.bookingId ? { bookingId: notification.bookingId } : {}),
+  };
+};
+
+// Read a recipient's saved toggles. Users who have never saved them get every notification.
+export const mapNotificationPreferences = (data: any): NotificationPreferences => {
+  return {
+    notifications: data?.notifications !== false,
+    marketAlerts: data?.marketAlerts !== false,
+    weatherAlerts: data?.weatherAlerts !== false,
+  };
+};
+
+export interface NotificationFormatters {
+  t: (key: string, params?: TranslationParams) => string;
+  formatCurrency: (amount: number) => string;
+  formatDate: (date: Date) => string;
+}
+
+/**
+ * Write a notification out in the reader's language. Its `amount` and `date` params are
+ * formatted here, and `quantity` with `unit` becomes a booking length such as "3 days".
+ * A seller's `note` on an order update is shown in place of the body.
+ * @param notification The notification as saved
+ * @param formatters `t` and the formatters from useFormat
+ * @returns The title and body to show
+ */
+export const getNotificationText = (
+  notification: Pick<AppNotification, 'messageKey' | 'params' | 'title' | 'body'>,
+  { t, formatCurrency, formatDate }: NotificationFormatters
+): { title: string; body: string } => {
+  if (!notification.messageKey) {
+    return { title: notification.title, body: notification.body };
+  }
+
+  const { amount, date, quantity, unit, note, ...rest } = notification.params || {};
+  const params: TranslationParams = { ...rest };
+  if (typeof amount === 'number') {
+    params.amount = formatCurrency(amount);
+  }
+  if (typeof date === 'number') {
+    params.date = formatDate(new Date(date));
+  }
+  if (typeof quantity === 'number' && unit) {
+    params.quantity = t(`machines.quantity.${unit}`, { count: quantity });
+  }
+
+  const key = `notifications.messages.${notification.messageKey}`;
+  return {
+    title: t(`${key}.title`, params),
+    body: note ? String(note) : t(`${key}.body`, params),
+  };
+};
+
+// Distinct bidder emails, leaving out the seller, in the order they first appear
+const getBidderEmails = (sellerEmail: string, offerEmails: string[]): string[] => {
+  const emails: string[] = [];
+  offerEmails.forEach(email => {
+    const isSeller = email.toLowerCase() === sellerEmail.toLowerCase();
+    if (!isSeller && !emails.some(e => e.toLowerCase() === email.toLowerCase())) {
+      emails.push(email);
+    }
+  });
+  return emails;
+};
+
+/**
+ * Work out who to tell about new offers on a listing: the seller hears about the
+ * highest new offer, and every bidder who no longer leads is told they were outbid.
+ * @param bid The listing as it was before the offers
+ * @param offers The new offers in the order they were placed, including proxy responses
+ * @returns Notifications to send
+ */
+export const getOfferNotifications = (
+  bid: Bid,
+  offers: { email: string; amount: number }[]
+): NewNotification[] => {
+  if (!offers.length) {
+    return [];
+  }
+
+  const allOffers = [...bid.bids, ...offers];
+  const leader = allOffers.reduce((highest, offer) => (offer.amount > highest.amount ? offer : highest));
+  const topNewOffer = offers.reduce((highest, offer) => (offer.amount > highest.amount ? offer : highest));
+  const notifications: NewNotification[] = [{
+    recipientEmail: bid.email,
+    type: 'new_offer',
+    messageKey: 'newOffer',
+    params: { name: bid.name, amount: topNewOffer.amount },
+    bidId: bid.id,
+  }];
+
+  // Only bidders involved in this round can have just lost the lead
+  const previousLeader = bid.bids.reduce<{ email: string; amount: number } | null>(
+    (highest, offer) => (!highest || offer.amount > highest.amount ? offer : highest),
+    null
+  );
+  const involved = [...(previousLeader ? [previousLeader.email] : []), ...offers.map(offer => offer.email)];
+  getBidderEmails(bid.email, involved)
+    .filter(email => email.toLowerCase() !== leader.email.toLowerCase())
+    .forEach(email => {
+      notifications.push({
+        recipientEmail: email,
+        type: 'outbid',
+        messageKey: 'outbid',
+        params: { name: bid.name, amount: leader.amount },
+        bidId: bid.id,
+      });
+    });
+
+  return notifications;
+};
+
+/**
+ * Tell every bidder whether they won or lost a closed auction
+ * @param bid The listing with all of its offers
+ * @param winner The winning offer, or null if the auction closed without a sale
+ * @returns Notifications to send
+ */
+export const getAuctionResultNotifications = (bid: Bid, winner: BidWinner | null): NewNotification[] => {
+  return getBidderEmails(bid.email, bid.bids.map(offer => offer.email)).map((email): NewNotification => {
+    if (winner && winner.email.toLowerCase() === email.toLowerCase()) {
+      return {
+        recipientEmail: email,
+        type: 'auction_won',
+        messageKey: 'auctionWon',
+        params: { name: bid.name, amount: winner.amount },
+        bidId: bid.id,
+      };
+    }
+
+    return {
+      recipientEmail: email,
+      type: 'auction_lost',
+      messageKey: winner ? 'auctionLost' : 'auctionNoSale',
+      params: winner ? { name: bid.name, amount: winner.amount } : { name: bid.name },
+      bidId: bid.id,
+    };
+  });
+};
+
+// Remind every bidder that an auction they are in is about to end
+export const getAuctionEndingNotifications = (bid: Bid): NewNotification[] => {
+  const highest = bid.bids.reduce((max, offer) => Math.max(max, offer.amount), 0);
+  return getBidderEmails(bid.email, bid.bids.map(offer => offer.email)).map((email): NewNotification => ({
+    recipientEmail: email,
+    type: 'auction_ending',
+    messageKey: 'auctionEnding',
+    params: { name: bid.name, amount: highest },
+    bidId: bid.id,
+  }));
+};
+
+/**
+ * Tell a buyer that a seller has moved their order along
+ * @param orderId The order that changed
+ * @param buyerEmail Email of the buyer who placed it
+ * @param status The order's new status
+ * @param note Optional note the seller left with the change
+ * @returns The notification to send
+ */
+export const getOrderStatusNotification = (
+  orderId: string,
+  buyerEmail: string,
+  status: OrderStatus,
+  note?: string
+): NewNotification => {
+  return {
+    recipientEmail: buyerEmail,
+    type: 'order_update',
+    messageKey: `orderUpdate.${status}`,
+    params: { id: orderId.substring(0, 6), ...(note ? { note } : {}) },
+    orderId,
+  };
+};
+
+/**
+ * Tell a buyer that their order was cancelled because its prices did not check out
+ * @param orderId The order that was cancelled
+ * @param buyerEmail Email of the buyer who placed it
+ * @returns The notification to send
+ */
+export const getOrderRejectedNotification = (orderId: string, buyerEmail: string): NewNotification => {
+  return {
+    recipientEmail: buyerEmail,
+    type: 'order_update',
+    messageKey: 'orderRejected',
+    params: { id: orderId.substring(0, 6) },
+    orderId,
+  };
+};
+
+/**
+ * Tell a machine owner that someone wants to rent their machine
+ * @param booking The new booking request
+ * @returns The notification to send
+ */
+export const getBookingRequestNotification = (booking: MachineBooking): NewNotification => {
+  return {
+    recipientEmail: booking.ownerEmail,
+    type: 'booking_request',
+    messageKey: 'bookingRequest',
+    params: {
+      name: booking.machineName,
+      email: booking.renterEmail,
+      date: booking.startDate.getTime(),
+      quantity: booking.quantity,
+      unit: booking.rateUnit,
+      amount: booking.totalPrice,
+    },
+    bookingId: booking.id,
+  };
+};
+
+/**
+ * Tell the other side of a booking that it has been approved, declined or cancelled
+ * @param booking The booking, with its new status
+ * @returns The notification to send
+ */
+export const getBookingUpdateNotification = (booking: MachineBooking): NewNotification => {
+  const cancelled = booking.status === 'cancelled';
+  return {
+    recipientEmail: cancelled ? booking.ownerEmail : booking.renterEmail,
+    type: 'booking_update',
+    messageKey: `bookingUpdate.${booking.status}`,
+    params: {
+      name: booking.machineName,
+      email: booking.renterEmail,
+      date: booking.startDate.getTime(),
+    },
+    bookingId: booking.id,
+  };
+};
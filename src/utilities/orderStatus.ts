@@ -0,0 +1,117 @@
+import { FulfilmentStatus, OrderActor, OrderStatus } from '../types';
+
+interface StatusTransition {
+  to: OrderStatus;
+  allowedActors: OrderActor[];
+}
+
+// Every order starts out pending until a seller accepts it
+export const INITIAL_ORDER_STATUS: OrderStatus = 'pending';
+
+/**
+ * Allowed order status changes and who may make them.
+ * Delivered and cancelled are final, so they have no outgoing transitions.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, StatusTransition[]> = {
+  pending: [
+    { to: 'processing', allowedActors: ['seller'] },
+    { to: 'cancelled', allowedActors: ['buyer', 'seller'] },
+  ],
+  processing: [
+    { to: 'shipped', allowedActors: ['seller'] },
+    { to: 'cancelled', allowedActors: ['seller'] },
+  ],
+  shipped: [
+    { to: 'delivered', allowedActors: ['buyer', 'seller'] },
+  ],
+  delivered: [],
+  cancelled: [],
+};
+
+// Returns can be requested once an order has left the seller
+export const RETURNABLE_STATUSES: OrderStatus[] = ['shipped', 'delivered'];
+
+// Thrown when a status change is not allowed from the order's current status
+export class InvalidStatusTransitionError extends Error {
+  constructor(from: OrderStatus, to: OrderStatus, actor: OrderActor) {
+    super(`A ${actor} cannot change an order from ${from} to ${to}`);
+    this.name = 'InvalidStatusTransitionError';
+  }
+}
+
+/**
+ * Check whether an actor may move an order between two statuses
+ * @param from The order's current status
+ * @param to The requested status
+ * @param actor Who is making the change
+ * @returns True if the transition is allowed
+ */
+export const canTransition = (from: OrderStatus, to: OrderStatus, actor: OrderActor): boolean => {
+  return ORDER_STATUS_TRANSITIONS[from].some(
+    transition => transition.to === to && transition.allowedActors.includes(actor)
+  );
+};
+
+/**
+ * Get the statuses an actor may move an order to next
+ * @param from The order's current status
+ * @param actor Who is making the change
+ * @returns The reachable statuses, in the order they are defined
+ */
+export const getAllowedTransitions = (from: OrderStatus, actor: OrderActor): OrderStatus[] => {
+  return ORDER_STATUS_TRANSITIONS[from]
+    .filter(transition => transition.allowedActors.includes(actor))
+    .map(transition => transition.to);
+};
+
+/**
+ * Check that a status change is allowed, throwing if it is not
+ * @throws InvalidStatusTransitionError
+ */
+export const assertTransition = (from: OrderStatus, to: OrderStatus, actor: OrderActor): void => {
+  if (!canTransition(from, to, actor)) {
+    throw new InvalidStatusTransitionError(from, to, actor);
+  }
+};
+
+export const canRequestReturn = (status: OrderStatus): boolean => {
+  return RETURNABLE_STATUSES.includes(status);
+};
+
+// Seller lines move through these steps in order. Labels are under orders.fulfilment in the message catalogs
+export const FULFILMENT_STEPS: FulfilmentStatus[] = ['pending', 'packed', 'shipped'];
+
+/**
+ * Get the step after the given fulfilment status
+ * @returns The next status, or null once a line has shipped
+ */
+export const getNextFulfilmentStatus = (status: FulfilmentStatus): FulfilmentStatus | null => {
+  const index = FULFILMENT_STEPS.indexOf(status);
+  return index < FULFILMENT_STEPS.length - 1 ? FULFILMENT_STEPS[index + 1] : null;
+};
+
+/**
+ * Get the least advanced status out of a group of lines
+ * @param statuses Fulfilment status of each line
+ */
+export const getOverallFulfilmentStatus = (statuses: FulfilmentStatus[]): FulfilmentStatus => {
+  return statuses.reduce<FulfilmentStatus>(
+    (lowest, status) => FULFILMENT_STEPS.indexOf(status) < FULFILMENT_STEPS.indexOf(lowest) ? status : lowest,
+    'shipped'
+  );
+};
+
+/**
+ * Work out the buyer-facing order status from the progress of every seller.
+ * The order is processing once any seller has packed something and shipped
+ * once every seller has shipped all of their lines.
+ */
+export const deriveOrderStatusFromFulfilment = (statuses: FulfilmentStatus[]): OrderStatus => {
+  if (statuses.length > 0 && statuses.every(status => status === 'shipped')) {
+    return 'shipped';
+  }
+  if (statuses.some(status => status !== 'pending')) {
+    return 'processing';
+  }
+  return 'pending';
+};
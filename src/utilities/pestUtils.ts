@@ -0,0 +1,30 @@
+import { Pest, PestRecord, PestType } from '../types';
+import { PESTS, DISEASES } from '../data';
+import { Locale, getLocalizedText } from './i18n';
+
+const PEST_RECORDS: Record<PestType, PestRecord[]> = {
+  pest: PESTS,
+  disease: DISEASES,
+};
+
+// Put a pest record's text in the user's language, using English where it has no translation
+const localizePest = (record: PestRecord, type: PestType, locale: Locale): Pest => ({
+  id: record.id,
+  type,
+  name: getLocalizedText(record.name, locale),
+  image: record.image,
+  crops: record.crops.map(crop => getLocalizedText(crop, locale)),
+  description: record.description ? getLocalizedText(record.description, locale) : undefined,
+  symptoms: (record.symptoms || []).map(text => getLocalizedText(text, locale)),
+  controlMethods: (record.controlMethods || []).map(text => getLocalizedText(text, locale)),
+  preventionMethods: (record.preventionMethods || []).map(text => getLocalizedText(text, locale)),
+});
+
+export const getPests = (type: PestType, locale: Locale): Pest[] => {
+  return PEST_RECORDS[type].map(record => localizePest(record, type, locale));
+};
+
+export const getPestById = (type: PestType, pestId: string, locale: Locale): Pest | null => {
+  const record = PEST_RECORDS[type].find(pest => pest.id === pestId);
+  return record ? localizePest(record, type, locale) : null;
+};
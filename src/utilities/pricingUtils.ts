@@ -0,0 +1,289 @@
+import { Promotion, DeliveryRule, DeliveryRate, SellerDeliveryFee } from '../types';
+import { DISTRICTS } from '../data';
+import { MASS_UNITS, MassUnit, convertQuantity } from '../utils';
+
+// Delivery rules are stored by seller email, with the marketplace default under 'default'
+export const DEFAULT_DELIVERY_RULE_ID = 'default';
+
+// Used when neither the seller nor the marketplace has configured delivery rules
+export const DEFAULT_DELIVERY_RULE: DeliveryRule = {
+  id: DEFAULT_DELIVERY_RULE_ID,
+  sellerEmail: '',
+  defaultRate: { baseFee: 350, perKgFee: 25, includedWeightKg: 10 },
+  freeShippingThreshold: 5000,
+};
+
+// Items sold by the piece, pack or box are assumed to weigh this much each
+const DEFAULT_ITEM_WEIGHT_KG = 1;
+
+export interface PricedItem {
+  price: number;
+  quantity: number;
+  category?: string;
+  shopId?: string;
+}
+
+export interface DeliveryItem extends PricedItem {
+  unit?: string;
+  sellerEmail?: string;
+  shopName?: string;
+}
+
+export interface OrderTotals {
+  subtotal: number;
+  discount: number;
+  deliveryFee: number;
+  total: number;
+}
+
+// Why a promotion could not be applied to a cart. Messages are under cart.promoRejections in the message catalogs
+export type PromoRejection =
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'usage_limit_reached'
+  | 'min_order_not_met'
+  | 'no_eligible_items';
+
+export type PromoResult =
+  | { valid: true; discount: number; eligibleSubtotal: number }
+  | { valid: false; reason: PromoRejection };
+
+export type OrderPriceResult =
+  | { valid: true; totals: OrderTotals; deliveryBreakdown: SellerDeliveryFee[] }
+  | { valid: false; reason: PromoRejection };
+
+export const normalisePromoCode = (code: string): string => code.trim().toUpperCase();
+
+// Map a promotion document to the Promotion type. Works with client and Admin SDK documents.
+export const mapPromotionData = (id: string, data: any): Promotion => {
+  return {
+    id,
+    code: data.code || '',
+    description: data.description || '',
+    type: data.type === 'fixed' ? 'fixed' : 'percentage',
+    value: data.value || 0,
+    minOrderValue: data.minOrderValue || 0,
+    categories: data.categories || [],
+    shopIds: data.shopIds || [],
+    usageLimitPerUser: data.usageLimitPerUser || 0,
+    usageByUser: data.usageByUser || {},
+    startsAt: data.startsAt?.toDate ? data.startsAt.toDate() : undefined,
+    expiresAt: data.expiresAt?.toDate ? data.expiresAt.toDate() : undefined,
+    active: data.active !== false,
+  };
+};
+
+// Map a delivery rule document to the DeliveryRule type
+export const mapDeliveryRuleData = (id: string, data: any): DeliveryRule => {
+  return {
+    id,
+    sellerEmail: id === DEFAULT_DELIVERY_RULE_ID ? '' : data.sellerEmail || id,
+    defaultRate: data.defaultRate || DEFAULT_DELIVERY_RULE.defaultRate,
+    zoneRates: data.zoneRates || {},
+    districtRates: data.districtRates || {},
+    freeShippingThreshold: data.freeShippingThreshold || 0,
+  };
+};
+
+const getSubtotal = (items: PricedItem[]): number => {
+  return items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+};
+
+// Items count towards a promotion only if they match its category and shop restrictions
+const isEligibleItem = (promotion: Promotion, item: PricedItem): boolean => {
+  if (promotion.categories?.length && !promotion.categories.includes(item.category || '')) {
+    return false;
+  }
+  if (promotion.shopIds?.length && !promotion.shopIds.includes(item.shopId || '')) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Work out the discount a promotion gives on a cart. Pure, so the same rules
+ * run in the cart preview and when the order is placed.
+ * @param promotion The promotion being applied
+ * @param items Items with a unit price, quantity, category and shop
+ * @param userId The user applying the promotion, for per-user usage limits
+ * @param now The time to check the promotion's validity window against
+ * @returns The discount and the subtotal it applies to, or why it was rejected
+ */
+export const calculatePromoDiscount = (
+  promotion: Promotion,
+  items: PricedItem[],
+  userId: string,
+  now: Date = new Date()
+): PromoResult => {
+  if (!promotion.active) {
+    return { valid: false, reason: 'inactive' };
+  }
+  if (promotion.startsAt && now < promotion.startsAt) {
+    return { valid: false, reason: 'not_started' };
+  }
+  if (promotion.expiresAt && now > promotion.expiresAt) {
+    return { valid: false, reason: 'expired' };
+  }
+
+  const timesUsed = promotion.usageByUser?.[userId] || 0;
+  if (promotion.usageLimitPerUser && timesUsed >= promotion.usageLimitPerUser) {
+    return { valid: false, reason: 'usage_limit_reached' };
+  }
+
+  if (promotion.minOrderValue && getSubtotal(items) < promotion.minOrderValue) {
+    return { valid: false, reason: 'min_order_not_met' };
+  }
+
+  const eligibleSubtotal = getSubtotal(items.filter(item => isEligibleItem(promotion, item)));
+  if (eligibleSubtotal <= 0) {
+    return { valid: false, reason: 'no_eligible_items' };
+  }
+
+  const discount = promotion.type === 'percentage'
+    ? eligibleSubtotal * Math.min(promotion.value, 100) / 100
+    : Math.min(promotion.value, eligibleSubtotal);
+
+  return { valid: true, discount: Math.round(discount * 100) / 100, eligibleSubtotal };
+};
+
+/**
+ * Estimate how much one unit of a product weighs from the unit it is sold in
+ * @param unit The product unit, e.g. 'kg', 'g', 'bag', '5kg', 'liter'
+ * @returns Weight in kilograms
+ */
+export const getUnitWeightKg = (unit?: string): number => {
+  const normalisedUnit = (unit || '').trim().toLowerCase();
+  if (MASS_UNITS.includes(normalisedUnit as MassUnit)) {
+    return convertQuantity(1, normalisedUnit as MassUnit, 'kg');
+  }
+
+  const match = normalisedUnit.match(/^(\d+(?:\.\d+)?)?\s*(kg|g|l|liter|litre|ml)?$/);
+  if (!match || !match[2]) {
+    return DEFAULT_ITEM_WEIGHT_KG;
+  }
+
+  const amount = match[1] ? parseFloat(match[1]) : 1;
+  return match[2] === 'g' || match[2] === 'ml' ? amount / 1000 : amount;
+};
+
+const isValidRate = (rate: DeliveryRate): boolean =>
+  [rate.baseFee, rate.perKgFee, rate.includedWeightKg].every(value => Number.isFinite(value) && value >= 0);
+
+// Returns the translation key of the error, or null if the rule can be saved
+export const validateDeliveryRule = (rule: Omit<DeliveryRule, 'id'>): string | null => {
+  const rates = [
+    rule.defaultRate,
+    ...Object.values(rule.zoneRates || {}),
+    ...Object.values(rule.districtRates || {}),
+  ];
+  if (rates.some(rate => !rate || !isValidRate(rate))) {
+    return 'deliverySettings.invalidRate';
+  }
+  const threshold = rule.freeShippingThreshold || 0;
+  if (!Number.isFinite(threshold) || threshold < 0) {
+    return 'deliverySettings.invalidThreshold';
+  }
+  return null;
+};
+
+// Pick the most specific rate a rule has for a district: district, then zone, then default
+const getDeliveryRate = (rule: DeliveryRule, district: string): DeliveryRate => {
+  const zone = DISTRICTS.find(d => d.name === district)?.zone;
+  return rule.districtRates?.[district]
+    || (zone && rule.zoneRates?.[zone])
+    || rule.defaultRate;
+};
+
+/**
+ * Work out each seller's delivery fee for a cart. Items are grouped by seller and
+ * charged using that seller's rule, falling back to the marketplace default.
+ * @param items Items with their unit, quantity and seller
+ * @param district District the order is delivered to
+ * @param rules Delivery rules for the sellers in the cart and the marketplace default
+ * @returns One fee per seller
+ */
+export const calculateDeliveryFees = (
+  items: DeliveryItem[],
+  district: string,
+  rules: DeliveryRule[]
+): SellerDeliveryFee[] => {
+  const defaultRule = rules.find(rule => !rule.sellerEmail) || DEFAULT_DELIVERY_RULE;
+  const itemsBySeller: Record<string, DeliveryItem[]> = {};
+  items.forEach(item => {
+    const sellerEmail = item.sellerEmail || '';
+    itemsBySeller[sellerEmail] = [...(itemsBySeller[sellerEmail] || []), item];
+  });
+
+  return Object.entries(itemsBySeller).map(([sellerEmail, sellerItems]) => {
+    const rule = (sellerEmail && rules.find(r => r.sellerEmail === sellerEmail)) || defaultRule;
+    const rate = getDeliveryRate(rule, district);
+    const subtotal = getSubtotal(sellerItems);
+    const weightKg = sellerItems.reduce((sum, item) => sum + getUnitWeightKg(item.unit) * item.quantity, 0);
+    const freeShipping = !!rule.freeShippingThreshold && subtotal >= rule.freeShippingThreshold;
+    const extraKg = Math.ceil(Math.max(0, weightKg - rate.includedWeightKg));
+
+    return {
+      sellerEmail,
+      sellerName: sellerItems.find(item => item.shopName)?.shopName || sellerEmail || 'AgriSaviya',
+      subtotal,
+      weightKg: Math.round(weightKg * 100) / 100,
+      fee: freeShipping ? 0 : rate.baseFee + extraKg * rate.perKgFee,
+      freeShipping,
+    };
+  });
+};
+
+/**
+ * Calculate the price breakdown shown in the cart and at checkout
+ * @param items Items with a unit price and quantity
+ * @param discount Promo discount already worked out for these items
+ * @param deliveryFees Per-seller delivery fees from calculateDeliveryFees
+ * @returns Subtotal, discount, delivery fee and total
+ */
+export const calculateOrderTotals = (
+  items: PricedItem[],
+  discount: number = 0,
+  deliveryFees: SellerDeliveryFee[] = []
+): OrderTotals => {
+  const subtotal = getSubtotal(items);
+  const deliveryFee = deliveryFees.reduce((sum, seller) => sum + seller.fee, 0);
+
+  return {
+    subtotal,
+    discount,
+    deliveryFee,
+    total: subtotal - discount + deliveryFee,
+  };
+};
+
+/**
+ * Price an order the way checkout does, so the order check job can repeat it
+ * @param items Order lines with the price, category, unit, shop and seller read from each product
+ * @param district District the order is delivered to
+ * @param rules Delivery rules for the sellers in the order and the marketplace default
+ * @param promotion The promotion the order applies, if any
+ * @param userId The buyer, for per-user promotion limits
+ * @param now The time to check the promotion's validity window against
+ * @returns The totals and per-seller delivery fees, or why the promotion was rejected
+ */
+export const priceOrder = (
+  items: DeliveryItem[],
+  district: string,
+  rules: DeliveryRule[],
+  promotion: Promotion | null,
+  userId: string,
+  now: Date = new Date()
+): OrderPriceResult => {
+  let discount = 0;
+  if (promotion) {
+    const result = calculatePromoDiscount(promotion, items, userId, now);
+    if (!result.valid) {
+      return result;
+    }
+    discount = result.discount;
+  }
+
+  const deliveryBreakdown = calculateDeliveryFees(items, district, rules);
+  return { valid: true, totals: calculateOrderTotals(items, discount, deliveryBreakdown), deliveryBreakdown };
+};
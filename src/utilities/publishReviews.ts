@@ -0,0 +1,129 @@
+/**
+ * Scheduled job that publishes new reviews
+ *
+ * Reviews are saved as pending, and the security rules do not let their authors count
+ * them in a rating. The job publishes each pending review whose text passes the spam
+ * filter and adds it to its target's rating. Reviews the filter or reports have flagged
+ * stay pending for a moderator. Reviews with a rating outside the star range, or by users
+ * who have not received or rented what they reviewed, are removed.
+ *
+ * Usage:
+ * 1. Run once (e.g. from cron): npm run publish-reviews
+ * 2. Keep running and check every N minutes: npm run publish-reviews -- --every=1
+ *
+ * The job uses the Firebase Admin SDK; see jobUtils.ts for the credentials it needs.
+ */
+
+import { DocumentData, Transaction } from 'firebase-admin/firestore';
+import {
+  MAX_RATING,
+  MIN_RATING,
+  getRatingPath,
+  getReviewFlags,
+  getUpdatedRating,
+  hasCompletedBookingFor,
+  hasDeliveredOrderFor,
+} from './reviewUtils';
+import { db, runJob } from './jobUtils';
+import { ReviewTargetType } from '../types';
+
+// Check again that the author has a delivered order or a finished booking for the target,
+// as the app did before saving the review
+const isEligible = async (
+  transaction: Transaction,
+  review: DocumentData,
+  targetType: ReviewTargetType,
+  targetId: string,
+  now: Date
+): Promise<boolean> => {
+  if (targetType === 'machine') {
+    const userEmail = review.userEmail || (await transaction.get(db.doc(`users/${review.userId}`))).get('email');
+    if (!userEmail) return false;
+
+    const bookingsSnapshot = await transaction.get(
+      db.collection('machineBookings').where('renterEmail', '==', userEmail).where('machineId', '==', targetId)
+    );
+    return hasCompletedBookingFor(bookingsSnapshot.docs.map(bookingDoc => ({
+      machineId: bookingDoc.get('machineId'),
+      status: bookingDoc.get('status'),
+      endDate: bookingDoc.get('endDate')?.toDate ? bookingDoc.get('endDate').toDate() : now,
+    })), targetId, now);
+  }
+
+  const [ordersSnapshot, shopDoc] = await Promise.all([
+    transaction.get(db.collection('orders').where('userId', '==', review.userId).where('status', '==', 'delivered')),
+    targetType === 'shop' ? transaction.get(db.doc(`shops/${targetId}`)) : Promise.resolve(null),
+  ]);
+  return hasDeliveredOrderFor(
+    ordersSnapshot.docs.map(orderDoc => ({ status: orderDoc.get('status'), products: orderDoc.get('products') || [] })),
+    targetType,
+    targetId,
+    shopDoc ? { owner: shopDoc.get('owner') || '' } : undefined
+  );
+};
+
+// Publish a single pending review if it passes the spam filter. Returns true if it was published.
+const publishReview = async (reviewId: string, now: Date): Promise<boolean> => {
+  const reviewRef = db.doc(`reviews/${reviewId}`);
+
+  return db.runTransaction(async (transaction) => {
+    const reviewDoc = await transaction.get(reviewRef);
+    if (!reviewDoc.exists) return false;
+
+    // Reviews held by the filter or by reports wait for a moderator
+    const review = reviewDoc.data() || {};
+    if (review.status !== 'pending' || review.flags?.length) return false;
+
+    // The author's app ran the filter too, but that check cannot be trusted
+    const flags = getReviewFlags(review.text || '');
+    if (flags.length) {
+      transaction.update(reviewRef, { flags });
+      return false;
+    }
+
+    // Reviews written before other targets existed only have a productId
+    const targetType: ReviewTargetType = review.targetType || 'product';
+    const targetId: string = review.targetId || review.productId || '';
+    const ratingRef = db.doc(getRatingPath(targetType, targetId));
+    const ratingDoc = await transaction.get(ratingRef);
+
+    const isValidRating = Number.isInteger(review.rating) && review.rating >= MIN_RATING && review.rating <= MAX_RATING;
+    if ((!ratingDoc.exists && targetType !== 'seller')
+      || !isValidRating
+      || !(await isEligible(transaction, review, targetType, targetId, now))) {
+      transaction.update(reviewRef, { status: 'removed' });
+      return false;
+    }
+
+    transaction.update(reviewRef, { status: 'published' });
+    transaction.set(ratingRef, {
+      ...getUpdatedRating(ratingDoc.data() || {}, review.rating),
+      ratingReviewId: reviewId,
+    }, { merge: true });
+    return true;
+  });
+};
+
+// Publish every pending review that passes the spam filter. Returns the ids of the reviews published.
+export const publishPendingReviews = async (now: Date = new Date()): Promise<string[]> => {
+  const snapshot = await db.collection('reviews').where('status', '==', 'pending').get();
+
+  const publishedIds: string[] = [];
+  for (const reviewDoc of snapshot.docs) {
+    try {
+      if (await publishReview(reviewDoc.id, now)) {
+        publishedIds.push(reviewDoc.id);
+      }
+    } catch (error) {
+      console.error(`Error publishing review ${reviewDoc.id}:`, error);
+    }
+  }
+
+  console.log(`${publishedIds.length} review(s) published at ${now.toISOString()}`);
+  return publishedIds;
+};
+
+// Check if running directly rather than imported
+if (require.main === module) {
+  runJob('the review job', publishPendingReviews);
+}
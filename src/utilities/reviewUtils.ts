@@ -0,0 +1,267 @@
+import {
+  MachineBooking,
+  Order,
+  RatingSummary,
+  Review,
+  ReviewFlag,
+  ReviewReportReason,
+  ReviewStatus,
+  ReviewTargetType,
+  Shop,
+} from '../types';
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+export const MAX_REVIEW_LENGTH = 1000;
+export const MAX_REPLY_LENGTH = 500;
+
+// A published review is held for moderation once this many different users report it
+export const REPORTS_BEFORE_HOLD = 3;
+
+// Labels are under reviews.reportReasons in the message catalogs
+export const REVIEW_REPORT_REASONS: ReviewReportReason[] = ['spam', 'offensive', 'fake', 'other'];
+
+// Values for the placeholders in the messages the validators below return
+export const REVIEW_MESSAGE_PARAMS = {
+  min: MIN_RATING,
+  max: MAX_RATING,
+  maxLength: MAX_REVIEW_LENGTH,
+  maxReplyLength: MAX_REPLY_LENGTH,
+};
+
+// Kept short on purpose: the filter only holds reviews for a person to check,
+// so a miss is caught by reports and a false match just delays the review
+const PROFANITY_EN = ['fuck', 'fucking', 'shit', 'bitch', 'bastard', 'asshole', 'cunt', 'dick', 'whore', 'slut'];
+
+// Sinhala words in Sinhala script and in the romanised spellings people type
+const PROFANITY_SI = [
+  'පකය', 'පක', 'හුත්ත', 'හුකන', 'වේසි', 'පොන්නයා', 'කැරියා', 'බැල්ලි',
+  'pakaya', 'huththa', 'hutta', 'hukana', 'hukanna', 'vesi', 'wesi', 'ponnaya', 'kariya', 'balli',
+];
+
+// Ten or more digits, allowing the spaces, dashes and +94 prefix used in Sri Lankan numbers
+const PHONE_PATTERN = /\+?(\d[\s-]?){9,}\d/;
+const URL_PATTERN = /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|lk|net|org|info|biz|io|me)\b/i;
+
+export const REVIEW_TARGET_LABELS: Record<ReviewTargetType, string> = {
+  product: 'product',
+  machine: 'machine',
+  shop: 'shop',
+  seller: 'seller',
+};
+
+// Thrown when a user tries to review something they have not bought or rented
+export class ReviewNotAllowedError extends Error {
+  readonly targetType: ReviewTargetType;
+
+  constructor(targetType: ReviewTargetType) {
+    super(targetType === 'machine'
+      ? 'You can review a machine after a booking for it has ended'
+      : `You can review this ${REVIEW_TARGET_LABELS[targetType]} after an order from it has been delivered`);
+    this.name = 'ReviewNotAllowedError';
+    this.targetType = targetType;
+  }
+}
+
+/**
+ * Build the id of a user's review of a target. Each user has one review per target,
+ * so reviewing again replaces the earlier one.
+ * @param targetType What is being reviewed
+ * @param targetId Id of the product, machine or shop, or the seller's email
+ * @param userId The reviewer
+ * @returns The review document id
+ */
+export const getReviewId = (targetType: ReviewTargetType, targetId: string, userId: string): string => {
+  return `${targetType}_${targetId.toLowerCase()}_${userId}`;
+};
+
+// Returns the translation key of the error, or null if the review can be posted
+export const validateReview = (rating: number, text: string): string | null => {
+  if (!Number.isInteger(rating) || rating < MIN_RATING || rating > MAX_RATING) {
+    return 'reviews.invalidRating';
+  }
+  if (text.trim().length > MAX_REVIEW_LENGTH) {
+    return 'reviews.reviewTooLong';
+  }
+  return null;
+};
+
+/**
+ * Check review text for things that should not be published without a look from a moderator
+ * @param text The review text
+ * @returns The reasons to hold the review, empty if it can be published straight away
+ */
+export const getReviewFlags = (text: string): ReviewFlag[] => {
+  const flags: ReviewFlag[] = [];
+  const lowerText = text.toLowerCase();
+  const words = lowerText.split(/[^a-z\u0D80-\u0DFF\u200D]+/).filter(Boolean);
+
+  if (PHONE_PATTERN.test(text)) {
+    flags.push('phone_number');
+  }
+  if (URL_PATTERN.test(text)) {
+    flags.push('url');
+  }
+  if ([...PROFANITY_EN, ...PROFANITY_SI].some(word => words.includes(word))) {
+    flags.push('profanity');
+  }
+
+  return flags;
+};
+
+export const getReviewStatus = (flags: ReviewFlag[]): ReviewStatus => {
+  return flags.length > 0 ? 'pending' : 'published';
+};
+
+// Only published reviews are shown and counted in the average
+export const isReviewPublished = (review: Pick<Review, 'status'>): boolean => {
+  return review.status === 'published';
+};
+
+/**
+ * Check whether a user may reply to reviews of a target
+ * @param targetType What was reviewed
+ * @param targetId Id of the product, machine or shop, or the seller's email
+ * @param targetData The reviewed product, machine or shop document; not used for sellers
+ * @param user The user replying
+ * @returns True if the user sells the product, owns the shop or machine, or is the seller
+ */
+export const canReplyToReview = (
+  targetType: ReviewTargetType,
+  targetId: string,
+  targetData: { sellerEmail?: string; owner?: string; createdBy?: string } | undefined,
+  user: { uid: string; email: string }
+): boolean => {
+  const email = user.email.toLowerCase();
+
+  switch (targetType) {
+    case 'product':
+      return !!targetData?.sellerEmail && targetData.sellerEmail.toLowerCase() === email;
+    case 'shop':
+      return !!targetData?.owner && targetData.owner.toLowerCase() === email;
+    case 'machine':
+      return !!targetData?.createdBy && targetData.createdBy === user.uid;
+    case 'seller':
+      return targetId.toLowerCase() === email;
+  }
+};
+
+// Returns the translation key of the error, or null if the reply can be posted
+export const validateReviewReply = (text: string): string | null => {
+  if (!text.trim()) {
+    return 'reviews.replyEmpty';
+  }
+  if (text.trim().length > MAX_REPLY_LENGTH) {
+    return 'reviews.replyTooLong';
+  }
+  return null;
+};
+
+/**
+ * Get the path of the document that holds a target's average rating. Sellers have no
+ * document of their own, so their ratings are kept in sellerRatings, keyed by email.
+ * @param targetType What was reviewed
+ * @param targetId Id of the product, machine or shop, or the seller's email
+ * @returns The document path
+ */
+export const getRatingPath = (targetType: ReviewTargetType, targetId: string): string => {
+  switch (targetType) {
+    case 'product':
+      return `products/${targetId}`;
+    case 'machine':
+      return `machines/${targetId}`;
+    case 'shop':
+      return `shops/${targetId}`;
+    case 'seller':
+      return `sellerRatings/${targetId.toLowerCase()}`;
+  }
+};
+
+// Rated documents keep the exact sum of their published ratings; the rounded average is only ever derived from it
+export interface StoredRating extends RatingSummary {
+  ratingSum: number;
+}
+
+// Documents rated before ratingSum was stored only have the rounded average, so their sum is
+// estimated from it once. Ratings are whole stars, so the estimate is exact for up to ten reviews.
+const getRatingSum = (summary: Partial<StoredRating>): number => {
+  if (typeof summary.ratingSum === 'number') {
+    return summary.ratingSum;
+  }
+  return Math.round((summary.rating || 0) * (summary.reviewCount || 0));
+};
+
+const toStoredRating = (ratingSum: number, reviewCount: number): StoredRating => {
+  if (reviewCount <= 0) {
+    return { rating: 0, ratingSum: 0, reviewCount: 0 };
+  }
+  return {
+    rating: Math.round((ratingSum / reviewCount) * 10) / 10,
+    ratingSum,
+    reviewCount,
+  };
+};
+
+/**
+ * Recalculate a target's rating when a review is added or changed
+ * @param summary The stored sum and count; missing values count as no reviews
+ * @param rating The new rating
+ * @param previousRating The rating being replaced, if the user had already reviewed the target
+ * @returns The updated sum and count, and the average rounded to one decimal place
+ */
+export const getUpdatedRating = (
+  summary: Partial<StoredRating>,
+  rating: number,
+  previousRating?: number
+): StoredRating => {
+  const count = summary.reviewCount || 0;
+  const reviewCount = previousRating === undefined ? count + 1 : Math.max(count, 1);
+  return toStoredRating(getRatingSum(summary) - (previousRating ?? 0) + rating, reviewCount);
+};
+
+// Recalculate a target's rating when a published review is held or removed
+export const getRatingWithout = (summary: Partial<StoredRating>, rating: number): StoredRating => {
+  return toStoredRating(getRatingSum(summary) - rating, (summary.reviewCount || 0) - 1);
+};
+
+/**
+ * Check whether a user has received something they can review
+ * @param orders The user's orders
+ * @param targetType Product, shop or seller
+ * @param targetId Id of the product or shop, or the seller's email
+ * @param shop The shop being reviewed, so products sold by its owner count too
+ * @returns True if a delivered order contains a matching product
+ */
+export const hasDeliveredOrderFor = (
+  orders: Pick<Order, 'status' | 'products'>[],
+  targetType: Exclude<ReviewTargetType, 'machine'>,
+  targetId: string,
+  shop?: Pick<Shop, 'owner'>
+): boolean => {
+  const matches = (email?: string) => !!email && email.toLowerCase() === targetId.toLowerCase();
+  const ownerMatches = (email?: string) => !!email && !!shop?.owner && email.toLowerCase() === shop.owner.toLowerCase();
+
+  return orders
+    .filter(order => order.status === 'delivered')
+    .some(order => order.products.some(product => {
+      switch (targetType) {
+        case 'product':
+          return product.id === targetId;
+        case 'seller':
+          return matches(product.sellerEmail);
+        case 'shop':
+          return product.shopId === targetId || ownerMatches(product.sellerEmail);
+      }
+    }));
+};
+
+// True if the user has rented the machine through a booking that has now ended
+export const hasCompletedBookingFor = (
+  bookings: Pick<MachineBooking, 'machineId' | 'status' | 'endDate'>[],
+  machineId: string,
+  now: Date = new Date()
+): boolean => {
+  return bookings.some(booking =>
+    booking.machineId === machineId && booking.status === 'approved' && booking.endDate <= now
+  );
+};
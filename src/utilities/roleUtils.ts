@@ -0,0 +1,52 @@
+import { User, UserRole } from '../types';
+
+export const USER_ROLES: UserRole[] = ['farmer', 'buyer', 'seller', 'machine_owner', 'admin'];
+
+// Admin is granted by another admin, never chosen
+export const SELECTABLE_ROLES: UserRole[] = USER_ROLES.filter(role => role !== 'admin');
+
+// Accounts from before roles existed were all farmers listing their produce
+export const DEFAULT_ROLES: UserRole[] = ['farmer'];
+
+export const getUserRoles = (user?: Pick<User, 'roles'> | null): UserRole[] => {
+  return user?.roles && user.roles.length > 0 ? user.roles : DEFAULT_ROLES;
+};
+
+export const hasRole = (user: Pick<User, 'roles'> | null | undefined, role: UserRole): boolean => {
+  return getUserRoles(user).includes(role);
+};
+
+export const isAdmin = (user?: Pick<User, 'roles'> | null): boolean => {
+  return hasRole(user, 'admin');
+};
+
+// Farmers sell their produce and sellers their supplies; both can list products and auctions
+export const canSellProducts = (user?: Pick<User, 'roles'> | null): boolean => {
+  return hasRole(user, 'farmer') || hasRole(user, 'seller') || isAdmin(user);
+};
+
+export const canListMachines = (user?: Pick<User, 'roles'> | null): boolean => {
+  return hasRole(user, 'machine_owner') || isAdmin(user);
+};
+
+// Returns the translation key of the error, or null if the roles can be saved
+export const validateRoles = (roles: UserRole[]): string | null => {
+  if (roles.length === 0) {
+    return 'roles.chooseOne';
+  }
+  if (roles.some(role => !SELECTABLE_ROLES.includes(role))) {
+    return 'roles.adminGranted';
+  }
+  return null;
+};
+
+/**
+ * Apply a user's choice of roles without losing the ones they cannot choose themselves
+ * @param currentRoles The roles saved on the account
+ * @param selectedRoles The roles picked on the profile screen
+ * @returns The roles to save
+ */
+export const mergeSelectedRoles = (currentRoles: UserRole[], selectedRoles: UserRole[]): UserRole[] => {
+  const grantedRoles = currentRoles.filter(role => !SELECTABLE_ROLES.includes(role));
+  return [...selectedRoles.filter(role => SELECTABLE_ROLES.includes(role)), ...grantedRoles];
+};
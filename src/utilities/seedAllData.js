@@ -48,41 +48,41 @@ try {
   console.error("Firebase initialization error:", error);
 }
 
-// Sample categories data
+// Sample categories data; names are given per language and the app falls back to English
 const categories = [
   {
     id: 'seeds',
-    name: 'Seeds',
+    name: { en: 'Seeds', si: 'බීජ', ta: 'விதைகள்' },
     icon: '🌱',
     image: 'https://www.gardeningknowhow.com/wp-content/uploads/2020/11/seed-germination.jpg'
   },
   {
     id: 'tools',
-    name: 'Tools',
+    name: { en: 'Tools', si: 'උපකරණ', ta: 'கருவிகள்' },
     icon: '🔨',
     image: 'https://cdn.shopify.com/s/files/1/0279/6466/8560/products/WhatsAppImage2023-05-31at5.02.48PM_1400x.jpg'
   },
   {
     id: 'fertilizers',
-    name: 'Fertilizers',
+    name: { en: 'Fertilizers', si: 'පොහොර', ta: 'உரங்கள்' },
     icon: '💧',
     image: 'https://images.pexels.com/photos/1301856/pexels-photo-1301856.jpeg'
   },
   {
     id: 'pesticides',
-    name: 'Pesticides',
+    name: { en: 'Pesticides', si: 'පළිබෝධනාශක', ta: 'பூச்சிக்கொல்லிகள்' },
     icon: '🐛',
     image: 'https://images.pexels.com/photos/2219219/pexels-photo-2219219.jpeg'
   },
   {
     id: 'machinery',
-    name: 'Machinery',
+    name: { en: 'Machinery', si: 'යන්ත්‍රෝපකරණ', ta: 'இயந்திரங்கள்' },
     icon: '🚜',
     image: 'https://media.istockphoto.com/id/1320356772/photo/tractor-and-agricultural-machinery-on-the-field.jpg'
   },
   {
     id: 'irrigation',
-    name: 'Irrigation',
+    name: { en: 'Irrigation', si: 'වාරිමාර්ග', ta: 'நீர்ப்பாசனம்' },
     icon: '💦',
     image: 'https://images.pexels.com/photos/957024/forest-trees-perspective-bright-957024.jpeg'
   }
@@ -196,11 +196,19 @@ const products = [
   }
 ];
 
-// Sample articles
+// Sample articles; titles and summaries are given per language, the content is English only for now
 const articles = [
   {
-    title: 'Sustainable Farming Methods',
-    summary: 'Learn about modern sustainable farming techniques that improve yield while protecting the environment.',
+    title: {
+      en: 'Sustainable Farming Methods',
+      si: 'තිරසර ගොවිතැන් ක්‍රම',
+      ta: 'நிலையான வேளாண் முறைகள்'
+    },
+    summary: {
+      en: 'Learn about modern sustainable farming techniques that improve yield while protecting the environment.',
+      si: 'පරිසරය ආරක්ෂා කරමින් අස්වැන්න වැඩි කරන නවීන තිරසර ගොවිතැන් ක්‍රම ගැන දැනගන්න.',
+      ta: 'சுற்றுச்சூழலைப் பாதுகாத்துக்கொண்டே விளைச்சலை உயர்த்தும் நவீன நிலையான வேளாண் முறைகளைப் பற்றி அறியுங்கள்.'
+    },
     content: `
       Sustainable farming is becoming increasingly important in today's world. This article explores various methods that farmers can implement to make their operations more sustainable.
       
@@ -242,8 +250,16 @@ const articles = [
     tags: ['sustainable', 'farming', 'environment']
   },
   {
-    title: 'Best Crops for Sri Lankan Climate',
-    summary: 'Discover which crops thrive in Sri Lankas tropical climate and how to maximize your harvest.',
+    title: {
+      en: 'Best Crops for Sri Lankan Climate',
+      si: 'ශ්‍රී ලංකා දේශගුණයට හොඳම බෝග',
+      ta: 'இலங்கைக் காலநிலைக்கு ஏற்ற சிறந்த பயிர்கள்'
+    },
+    summary: {
+      en: 'Discover which crops thrive in Sri Lankas tropical climate and how to maximize your harvest.',
+      si: 'ශ්‍රී ලංකාවේ නිවර්තන දේශගුණයේ හොඳින් වැඩෙන බෝග සහ ඔබේ අස්වැන්න උපරිම කරගන්නා ආකාරය සොයා ගන්න.',
+      ta: 'இலங்கையின் வெப்பமண்டலக் காலநிலையில் நன்கு வளரும் பயிர்களையும் உங்கள் அறுவடையை அதிகரிக்கும் வழிகளையும் கண்டறியுங்கள்.'
+    },
     content: `
       Sri Lanka's tropical climate provides excellent conditions for growing a variety of crops. In this article, we'll explore the best crops to grow in different regions of Sri Lanka and provide tips for successful cultivation.
       
@@ -308,8 +324,16 @@ const articles = [
     tags: ['crops', 'climate', 'cultivation']
   },
   {
-    title: 'Modern Irrigation Techniques',
-    summary: 'Explore the latest irrigation technologies that can help conserve water while improving crop yields.',
+    title: {
+      en: 'Modern Irrigation Techniques',
+      si: 'නවීන වාරි ක්‍රම',
+      ta: 'நவீன நீர்ப்பாசன முறைகள்'
+    },
+    summary: {
+      en: 'Explore the latest irrigation technologies that can help conserve water while improving crop yields.',
+      si: 'බෝග අස්වැන්න වැඩි කරමින් ජලය ඉතිරි කර ගැනීමට උපකාර වන නවතම වාරි තාක්ෂණයන් ගවේෂණය කරන්න.',
+      ta: 'பயிர் விளைச்சலை மேம்படுத்திக்கொண்டே நீரைச் சேமிக்க உதவும் சமீபத்திய நீர்ப்பாசனத் தொழில்நுட்பங்களை ஆராயுங்கள்.'
+    },
     content: `
       Water is a precious resource, and efficient irrigation is crucial for sustainable agriculture. This article discusses modern irrigation techniques that can help farmers use water more efficiently while improving crop production.
       
@@ -447,6 +471,47 @@ const marketPrices = [
   }
 ];
 
+// Sample promotions
+const promotions = [
+  {
+    code: 'AGRI10',
+    description: '10% off your order',
+    type: 'percentage',
+    value: 10,
+    minOrderValue: 0,
+    categories: [],
+    shopIds: [],
+    usageLimitPerUser: 0,
+    active: true
+  },
+  {
+    code: 'SEEDS500',
+    description: 'Rs. 500 off seeds over Rs. 3,000',
+    type: 'fixed',
+    value: 500,
+    minOrderValue: 3000,
+    categories: ['Seeds'],
+    shopIds: [],
+    usageLimitPerUser: 1,
+    active: true
+  }
+];
+
+// Marketplace default delivery rule, used for sellers without their own rules
+const defaultDeliveryRule = {
+  sellerEmail: '',
+  defaultRate: { baseFee: 450, perKgFee: 30, includedWeightKg: 10 },
+  zoneRates: {
+    western: { baseFee: 350, perKgFee: 25, includedWeightKg: 10 },
+    central: { baseFee: 400, perKgFee: 25, includedWeightKg: 10 },
+    southern: { baseFee: 400, perKgFee: 25, includedWeightKg: 10 },
+    northern: { baseFee: 600, perKgFee: 40, includedWeightKg: 5 },
+    eastern: { baseFee: 550, perKgFee: 35, includedWeightKg: 5 }
+  },
+  districtRates: {},
+  freeShippingThreshold: 5000
+};
+
 // Function to clear a collection
 async function clearCollection(collectionName) {
   try {
@@ -611,6 +676,50 @@ async function addMarketPrices() {
   }
 }
 
+// Function to add promotions
+async function addPromotions() {
+  try {
+    console.log('Adding promotions...');
+    
+    // First clear existing promotions
+    await clearCollection('promotions');
+    
+    // Add new promotions
+    const promises = promotions.map(promotion => 
+      addDoc(collection(db, 'promotions'), {
+        ...promotion,
+        usageByUser: {},
+        createdAt: serverTimestamp()
+      })
+    );
+    
+    await Promise.all(promises);
+    console.log('Promotions added successfully!');
+    return true;
+  } catch (error) {
+    console.error('Error adding promotions:', error);
+    return false;
+  }
+}
+
+// Function to add the default delivery rule
+async function addDeliveryRules() {
+  try {
+    console.log('Adding delivery rules...');
+    
+    await setDoc(doc(db, 'deliveryRules', 'default'), {
+      ...defaultDeliveryRule,
+      updatedAt: serverTimestamp()
+    });
+    
+    console.log('Delivery rules added successfully!');
+    return true;
+  } catch (error) {
+    console.error('Error adding delivery rules:', error);
+    return false;
+  }
+}
+
 // Run the seeding functions
 async function seedAllData() {
   try {
@@ -622,7 +731,9 @@ async function seedAllData() {
       weather: await addWeather(),
       products: await addProducts(),
       articles: await addArticles(),
-      marketPrices: await addMarketPrices()
+      marketPrices: await addMarketPrices(),
+      promotions: await addPromotions(),
+      deliveryRules: await addDeliveryRules()
     };
     
     // Check if any step failed
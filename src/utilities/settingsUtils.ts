@@ -0,0 +1,35 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { NotificationPreferences } from '../types';
+
+// Keys for the preferences SettingsScreen stores in AsyncStorage
+export const SETTINGS_KEYS = {
+  LANGUAGE: 'settings_language',
+  NOTIFICATIONS: 'settings_notifications',
+  MARKET_ALERTS: 'settings_market_alerts',
+  WEATHER_ALERTS: 'settings_weather_alerts',
+  DARK_MODE: 'settings_dark_mode',
+  LOCATION_SERVICES: 'settings_location_services',
+  DATA_SAVER: 'settings_data_saver',
+};
+
+/**
+ * Read the notification toggles saved on this device. Toggles that were never
+ * changed count as on, matching the defaults shown in SettingsScreen.
+ * @returns The saved notification preferences
+ */
+export const getNotificationPreferences = async (): Promise<NotificationPreferences> => {
+  try {
+    const notificationsValue = await AsyncStorage.getItem(SETTINGS_KEYS.NOTIFICATIONS);
+    const marketAlertsValue = await AsyncStorage.getItem(SETTINGS_KEYS.MARKET_ALERTS);
+    const weatherAlertsValue = await AsyncStorage.getItem(SETTINGS_KEYS.WEATHER_ALERTS);
+
+    return {
+      notifications: notificationsValue !== 'false',
+      marketAlerts: marketAlertsValue !== 'false',
+      weatherAlerts: weatherAlertsValue !== 'false',
+    };
+  } catch (error) {
+    console.error('Error loading notification preferences:', error);
+    return { notifications: true, marketAlerts: true, weatherAlerts: true };
+  }
+};
@@ -1,15 +1,142 @@
-export const formatCurrency = (amount: number): string => {
-  return `Rs. ${amount.toFixed(2)}`;
+import { DEFAULT_LOCALE, Locale, localizeDigits, translate } from './utilities/i18n';
+
+// Units that crops, produce and land are measured in
+export type MassUnit = 'g' | 'kg' | 'bag' | 'bushel';
+export type AreaUnit = 'perch' | 'acre' | 'hectare';
+export type AgriUnit = MassUnit | AreaUnit;
+
+export type DateStyle = 'long' | 'medium' | 'short' | 'monthYear';
+
+export const MASS_UNITS: MassUnit[] = ['g', 'kg', 'bag', 'bushel'];
+export const AREA_UNITS: AreaUnit[] = ['perch', 'acre', 'hectare'];
+
+// Size of each unit in kilograms or square metres. A bag is the standard 50 kg sack
+// and a bushel is a bushel of paddy, as used when selling to the Paddy Marketing Board
+const UNIT_SIZES: Record<AgriUnit, { measure: 'mass' | 'area'; size: number }> = {
+  g: { measure: 'mass', size: 0.001 },
+  kg: { measure: 'mass', size: 1 },
+  bag: { measure: 'mass', size: 50 },
+  bushel: { measure: 'mass', size: 20.9 },
+  perch: { measure: 'area', size: 25.29285264 },
+  acre: { measure: 'area', size: 4046.8564224 },
+  hectare: { measure: 'area', size: 10000 },
+};
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Write a number with thousands separators, in the language's digits
+ * @param value The number to show
+ * @param locale The language to show it in
+ * @param decimals Digits after the decimal point; by default up to two, without trailing zeros
+ * @returns The formatted number
+ */
+export const formatNumber = (value: number, locale: Locale = DEFAULT_LOCALE, decimals?: number): string => {
+  const fixed = decimals === undefined ? String(Math.round(value * 100) / 100) : value.toFixed(decimals);
+  const [whole, fraction] = fixed.split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return localizeDigits(fraction ? `${grouped}.${fraction}` : grouped, locale);
+};
+
+export const formatCurrency = (amount: number, locale: Locale = DEFAULT_LOCALE): string => {
+  return translate(locale, 'format.currency', { amount: formatNumber(amount, locale, 2) });
+};
+
+/**
+ * Write a date with the month named in the given language
+ * @param date The date to show
+ * @param locale The language to show it in
+ * @param style 'long' for the full date, 'medium' for it with a short month name, 'short' for
+ *   the day and short month, 'monthYear' for a calendar heading
+ * @returns The formatted date
+ */
+export const formatDate = (date: Date, locale: Locale = DEFAULT_LOCALE, style: DateStyle = 'long'): string => {
+  const month = MONTHS[date.getMonth()];
+  return translate(locale, `format.date.${style}`, {
+    day: date.getDate(),
+    month: translate(locale, style === 'medium' || style === 'short' ? `format.monthsShort.${month}` : `format.months.${month}`),
+    year: date.getFullYear(),
+  });
+};
+
+export const formatWeekday = (date: Date, locale: Locale = DEFAULT_LOCALE, short: boolean = false): string => {
+  const weekday = WEEKDAYS[date.getDay()];
+  return translate(locale, short ? `format.weekdaysShort.${weekday}` : `format.weekdays.${weekday}`);
+};
+
+// 12-hour clock time, e.g. 3:05 PM, or just the hour when showMinutes is false
+export const formatTime = (date: Date, locale: Locale = DEFAULT_LOCALE, showMinutes: boolean = true): string => {
+  const hours = date.getHours();
+  const params = {
+    hour: hours % 12 || 12,
+    minute: localizeDigits(String(date.getMinutes()).padStart(2, '0'), locale),
+    period: translate(locale, hours < 12 ? 'format.am' : 'format.pm'),
+  };
+  return translate(locale, showMinutes ? 'format.time' : 'format.hour', params);
 };
 
-export const formatDate = (date: Date): string => {
-  return date.toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
+// The hours of a day between two whole hours, e.g. 8:00 AM - 12:00 PM
+export const formatHourRange = (startHour: number, endHour: number, locale: Locale = DEFAULT_LOCALE): string => {
+  return translate(locale, 'format.timeRange', {
+    start: formatTime(new Date(2000, 0, 1, startHour), locale),
+    end: formatTime(new Date(2000, 0, 1, endHour), locale),
   });
 };
 
+export const formatDateTime = (date: Date, locale: Locale = DEFAULT_LOCALE): string => {
+  return translate(locale, 'format.dateTime', { date: formatDate(date, locale), time: formatTime(date, locale) });
+};
+
+/**
+ * Say how long ago something happened, e.g. "2 hours ago". Anything older than
+ * a week, or in the future, is shown as a date instead
+ * @param date When it happened
+ * @param locale The language to show it in
+ * @param now The current time
+ * @returns The formatted time
+ */
+export const formatRelativeTime = (date: Date, locale: Locale = DEFAULT_LOCALE, now: Date = new Date()): string => {
+  const elapsed = now.getTime() - date.getTime();
+
+  if (elapsed < 0 || elapsed >= 7 * DAY_MS) return formatDate(date, locale);
+  if (elapsed < MINUTE_MS) return translate(locale, 'format.relative.justNow');
+  if (elapsed < HOUR_MS) return translate(locale, 'format.relative.minutesAgo', { count: Math.floor(elapsed / MINUTE_MS) });
+  if (elapsed < DAY_MS) return translate(locale, 'format.relative.hoursAgo', { count: Math.floor(elapsed / HOUR_MS) });
+  return translate(locale, 'format.relative.daysAgo', { count: Math.floor(elapsed / DAY_MS) });
+};
+
+/**
+ * Convert a quantity between units of the same kind, e.g. kilograms to 50 kg bags
+ * @param value The quantity in the `from` unit
+ * @param from The unit the quantity is in
+ * @param to The unit to convert it to
+ * @returns The quantity in the `to` unit
+ */
+export const convertQuantity = (value: number, from: AgriUnit, to: AgriUnit): number => {
+  if (UNIT_SIZES[from].measure !== UNIT_SIZES[to].measure) {
+    throw new Error(`Cannot convert ${from} to ${to}`);
+  }
+  return value * UNIT_SIZES[from].size / UNIT_SIZES[to].size;
+};
+
+// Turn a price per one unit into the price per another, e.g. per kg into per 50 kg bag
+export const convertUnitPrice = (price: number, from: AgriUnit, to: AgriUnit): number => {
+  return price / convertQuantity(1, from, to);
+};
+
+export const formatQuantity = (value: number, unit: AgriUnit, locale: Locale = DEFAULT_LOCALE): string => {
+  return translate(locale, `units.quantity.${unit}`, { count: value, amount: formatNumber(value, locale) });
+};
+
 export const truncateText = (text: string, length: number): string => {
   if (text.length <= length) return text;
   return text.substring(0, length) + '...';
@@ -24,9 +151,18 @@ export const capitalizeFirstLetter = (string: string): string => {
 };
 
 export default {
+  formatNumber,
   formatCurrency,
   formatDate,
+  formatWeekday,
+  formatTime,
+  formatHourRange,
+  formatDateTime,
+  formatRelativeTime,
+  convertQuantity,
+  convertUnitPrice,
+  formatQuantity,
   truncateText,
   getRandomId,
   capitalizeFirstLetter,
-}; 
\ No newline at end of file
+};
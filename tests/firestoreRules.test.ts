@@ -0,0 +1,646 @@
+/**
+ * Security rules tests for firestore.rules
+ *
+ * They need the Firestore emulator, so run them with: npm run test:rules
+ * which starts the emulator, runs this file once and stops it again.
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/firestore';
+import {
+  RulesTestContext,
+  RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+type Firestore = firebase.firestore.Firestore;
+
+const { Timestamp, FieldValue } = firebase.firestore;
+
+const SELLER = { uid: 'seller', email: 'seller@example.com' };
+const ALICE = { uid: 'alice', email: 'alice@example.com' };
+const BOB = { uid: 'bob', email: 'bob@example.com' };
+
+let testEnv: RulesTestEnvironment;
+
+// A signed-in user with a verified email, as selling and bidding need
+const signIn = (user: { uid: string; email: string }, claims: Record<string, unknown> = {}): Firestore => {
+  return testEnv.authenticatedContext(user.uid, { email: user.email, email_verified: true, ...claims }).firestore();
+};
+
+// Write documents as the tests' starting state, bypassing the rules
+const seed = async (docs: Record<string, object>): Promise<void> => {
+  await testEnv.withSecurityRulesDisabled(async (context: RulesTestContext) => {
+    const db = context.firestore();
+    await Promise.all(Object.entries(docs).map(([path, data]) => db.doc(path).set(data)));
+  });
+};
+
+const minutesFromNow = (minutes: number) => Timestamp.fromDate(new Date(Date.now() + minutes * 60 * 1000));
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-agrisaviya',
+    firestore: { rules: readFileSync(resolve(__dirname, '../firestore.rules'), 'utf8') },
+  });
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+after(async () => {
+  await testEnv.cleanup();
+});
+
+describe('users and public profiles', () => {
+  beforeEach(async () => {
+    await seed({
+      [`users/${ALICE.uid}`]: { name: 'Alice', email: ALICE.email, phone: '0771234567', roles: ['buyer'] },
+      [`publicProfiles/${ALICE.uid}`]: { name: 'Alice', email: ALICE.email, avatar: '' },
+    });
+  });
+
+  it('lets owners and admins read a profile', async () => {
+    await assertSucceeds(signIn(ALICE).doc(`users/${ALICE.uid}`).get());
+    await assertSucceeds(signIn(BOB, { admin: true }).doc(`users/${ALICE.uid}`).get());
+  });
+
+  it('hides a profile from other users', async () => {
+    await assertFails(signIn(BOB).doc(`users/${ALICE.uid}`).get());
+  });
+
+  it('lets owners but not other users change a profile', async () => {
+    await assertSucceeds(signIn(ALICE).doc(`users/${ALICE.uid}`).update({ phone: '0777654321' }));
+    await assertFails(signIn(BOB).doc(`users/${ALICE.uid}`).update({ phone: '0777654321' }));
+  });
+
+  it('stops owners from giving themselves the admin role or verified badge', async () => {
+    await assertFails(signIn(ALICE).doc(`users/${ALICE.uid}`).update({ roles: ['buyer', 'admin'] }));
+    await assertFails(signIn(ALICE).doc(`publicProfiles/${ALICE.uid}`).update({ verifiedSeller: true }));
+  });
+
+  it('shows public profiles to signed-in users and lets only the owner edit theirs', async () => {
+    await assertSucceeds(signIn(BOB).doc(`publicProfiles/${ALICE.uid}`).get());
+    await assertFails(testEnv.unauthenticatedContext().firestore().doc(`publicProfiles/${ALICE.uid}`).get());
+    await assertSucceeds(signIn(ALICE).doc(`publicProfiles/${ALICE.uid}`).update({ name: 'Alice P' }));
+    await assertFails(signIn(BOB).doc(`publicProfiles/${ALICE.uid}`).update({ name: 'Bob' }));
+  });
+
+  it('lets admins but not other users create the public profile of an older account', async () => {
+    const profile = { name: 'Bob', email: BOB.email, avatar: '', verifiedSeller: true };
+
+    await assertFails(signIn(ALICE).doc(`publicProfiles/${BOB.uid}`).set(profile));
+    await assertFails(signIn(BOB).doc(`publicProfiles/${BOB.uid}`).set(profile));
+    await assertSucceeds(signIn(BOB).doc(`publicProfiles/${BOB.uid}`).set({ name: 'Bob', email: BOB.email, avatar: '' }));
+  });
+
+  it('lets an admin verify a seller who has no public profile yet', async () => {
+    await seed({ [`users/${BOB.uid}`]: { name: 'Bob', email: BOB.email } });
+
+    const admin = signIn(SELLER, { admin: true });
+    const batch = admin.batch();
+    batch.update(admin.doc(`users/${BOB.uid}`), { verifiedSeller: true });
+    batch.set(admin.doc(`publicProfiles/${BOB.uid}`), { name: 'Bob', email: BOB.email, avatar: '', verifiedSeller: true }, { merge: true });
+    await assertSucceeds(batch.commit());
+  });
+});
+
+describe('bids', () => {
+  const bidPath = 'bids/auction';
+
+  // An offer as placeBidOffer adds it: to the listing's array and the offers subcollection in one write
+  const placeOffer = (db: Firestore, email: string, amount: number, listing: object = {}) => {
+    const offerRef = db.collection(`${bidPath}/offers`).doc();
+    const offer = { id: offerRef.id, bidId: 'auction', amount, email, createdAt: Timestamp.now() };
+    const batch = db.batch();
+    batch.update(db.doc(bidPath), { bids: FieldValue.arrayUnion(offer), ...listing });
+    batch.set(offerRef, { ...offer, createdAt: FieldValue.serverTimestamp() });
+    return { commit: () => batch.commit(), offer };
+  };
+
+  beforeEach(async () => {
+    await seed({
+      [bidPath]: {
+        name: 'Paddy',
+        email: SELLER.email,
+        startPrice: 100,
+        buyNowPrice: 1000,
+        hasReserve: true,
+        status: 'active',
+        startDate: minutesFromNow(-60),
+        dueDate: minutesFromNow(60),
+        bids: [],
+      },
+      [`${bidPath}/private/reserve`]: { reservePrice: 500, sellerEmail: SELLER.email },
+    });
+  });
+
+  it('lets a bidder append one offer of their own at or above the minimum', async () => {
+    await assertSucceeds(placeOffer(signIn(ALICE), ALICE.email, 100).commit());
+  });
+
+  it('rejects offers below the minimum, for someone else or on your own listing', async () => {
+    await assertFails(placeOffer(signIn(ALICE), ALICE.email, 99).commit());
+    await assertFails(placeOffer(signIn(ALICE), BOB.email, 100).commit());
+    await assertFails(placeOffer(signIn(SELLER), SELLER.email, 100).commit());
+  });
+
+  it('requires the next offer to beat the high bid by the increment', async () => {
+    await assertSucceeds(placeOffer(signIn(ALICE), ALICE.email, 100).commit());
+    await assertFails(placeOffer(signIn(BOB), BOB.email, 110).commit());
+    await assertSucceeds(placeOffer(signIn(BOB), BOB.email, 120).commit());
+  });
+
+  it('rejects offers from unverified users and on auctions that have ended', async () => {
+    const unverified = testEnv.authenticatedContext(ALICE.uid, { email: ALICE.email, email_verified: false }).firestore();
+    await assertFails(placeOffer(unverified, ALICE.email, 100).commit());
+
+    await seed({ [bidPath]: { email: SELLER.email, startPrice: 100, status: 'active', startDate: minutesFromNow(-60), dueDate: minutesFromNow(-1), bids: [] } });
+    await assertFails(placeOffer(signIn(ALICE), ALICE.email, 100).commit());
+  });
+
+  it('allows the anti-sniping extension but not a longer due date', async () => {
+    await seed({ [bidPath]: { email: SELLER.email, startPrice: 100, status: 'active', startDate: minutesFromNow(-60), dueDate: minutesFromNow(2), bids: [] } });
+
+    await assertSucceeds(placeOffer(signIn(ALICE), ALICE.email, 100, { dueDate: minutesFromNow(5) }).commit());
+    await assertFails(placeOffer(signIn(BOB), BOB.email, 120, { dueDate: minutesFromNow(24 * 60) }).commit());
+  });
+
+  it('stops bidders changing anything but the offers and due date', async () => {
+    await assertFails(placeOffer(signIn(ALICE), ALICE.email, 100, { startPrice: 1 }).commit());
+    await assertFails(signIn(ALICE).doc(bidPath).update({ bids: [] }));
+  });
+
+  it('keeps the reserve price and proxy maximums private', async () => {
+    await assertFails(signIn(ALICE).doc(`${bidPath}/private/reserve`).get());
+    await assertSucceeds(signIn(SELLER).doc(`${bidPath}/private/reserve`).get());
+    await assertFails(signIn(SELLER).doc(`${bidPath}/private/reserve`).set({ reservePrice: 100, sellerEmail: SELLER.email }));
+
+    const proxyPath = `${bidPath}/proxyBids/${ALICE.email}`;
+    await assertSucceeds(signIn(ALICE).doc(proxyPath).set({ bidId: 'auction', email: ALICE.email, maxAmount: 800 }));
+    await assertSucceeds(signIn(ALICE).doc(proxyPath).get());
+    await assertFails(signIn(BOB).doc(proxyPath).get());
+    await assertFails(signIn(BOB).doc(proxyPath).set({ bidId: 'auction', email: ALICE.email, maxAmount: 900 }));
+  });
+
+  it('rejects a reserve price on the public listing', async () => {
+    await assertFails(signIn(SELLER).doc('bids/new').set({
+      email: SELLER.email, startPrice: 100, reservePrice: 500, status: 'active', bids: [],
+    }));
+  });
+});
+
+describe('auction close', () => {
+  const bidPath = 'bids/auction';
+  const offer = { id: 'offer1', bidId: 'auction', amount: 600, email: ALICE.email, createdAt: Timestamp.now() };
+
+  // An offer at the buy now price, closing the auction in the same write
+  const buyNow = (db: Firestore, overrides: object = {}) => {
+    const buyOffer = { id: 'offer2', bidId: 'auction', amount: 1000, email: BOB.email, createdAt: Timestamp.now() };
+    const batch = db.batch();
+    batch.update(db.doc(bidPath), {
+      bids: FieldValue.arrayUnion(buyOffer),
+      status: 'closed',
+      dueDate: FieldValue.serverTimestamp(),
+      winner: { offerId: buyOffer.id, email: buyOffer.email, amount: buyOffer.amount },
+      reserveMet: true,
+      closedAt: FieldValue.serverTimestamp(),
+      ...overrides,
+    });
+    batch.set(db.doc(`${bidPath}/offers/${buyOffer.id}`), { ...buyOffer, createdAt: FieldValue.serverTimestamp() });
+    return batch.commit();
+  };
+
+  beforeEach(async () => {
+    await seed({
+      [bidPath]: {
+        email: SELLER.email,
+        startPrice: 100,
+        buyNowPrice: 1000,
+        status: 'active',
+        startDate: minutesFromNow(-60),
+        dueDate: minutesFromNow(60),
+        bids: [offer],
+      },
+      [`${bidPath}/private/reserve`]: { reservePrice: 500, sellerEmail: SELLER.email },
+    });
+  });
+
+  it('lets an offer at the buy now price close the auction with its bidder as the winner', async () => {
+    await assertSucceeds(buyNow(signIn(BOB)));
+  });
+
+  it('rejects a buy now close with the wrong winner or reserve result', async () => {
+    await assertFails(buyNow(signIn(BOB), { winner: { offerId: offer.id, email: ALICE.email, amount: offer.amount } }));
+    await assertFails(buyNow(signIn(BOB), { reserveMet: false }));
+  });
+
+  it('leaves closing expired auctions to the auction job', async () => {
+    await seed({ [bidPath]: { email: SELLER.email, startPrice: 100, status: 'active', startDate: minutesFromNow(-60), dueDate: minutesFromNow(-1), bids: [offer] } });
+    const result = { status: 'closed', winner: { offerId: offer.id, email: ALICE.email, amount: offer.amount }, reserveMet: true };
+
+    await assertFails(signIn(ALICE).doc(bidPath).update(result));
+    await assertFails(signIn(SELLER).doc(bidPath).update(result));
+  });
+
+  it('lets the seller confirm the sale or relist once the job has closed the auction', async () => {
+    const closedListing = {
+      email: SELLER.email,
+      startPrice: 100,
+      status: 'closed',
+      startDate: minutesFromNow(-120),
+      dueDate: minutesFromNow(-60),
+      bids: [offer],
+      winner: { offerId: offer.id, email: ALICE.email, amount: offer.amount },
+      reserveMet: true,
+    };
+    const sale = { status: 'sold', soldAt: FieldValue.serverTimestamp() };
+    await seed({ [bidPath]: closedListing });
+
+    await assertFails(signIn(ALICE).doc(bidPath).update(sale));
+    await assertFails(signIn(SELLER).doc(bidPath).update({ winner: { offerId: 'other', email: BOB.email, amount: 1 } }));
+    await assertSucceeds(signIn(SELLER).doc(bidPath).update(sale));
+
+    await seed({ [bidPath]: closedListing });
+    await assertSucceeds(signIn(SELLER).doc(bidPath).update({
+      status: 'active',
+      startDate: Timestamp.now(),
+      dueDate: minutesFromNow(24 * 60),
+      bids: [],
+      winner: null,
+      reserveMet: null,
+      closedAt: null,
+      endingNoticeSentAt: null,
+    }));
+  });
+});
+
+describe('orders', () => {
+  const history = [{ status: 'pending', changedBy: 'buyer', changedAt: Timestamp.now() }];
+
+  beforeEach(async () => {
+    await seed({
+      'products/rice': { name: 'Rice', price: 200, sellerEmail: SELLER.email, quantity: 10 },
+    });
+  });
+
+  // An order as createOrder saves it, taking its amount off the product and noting it there in the same write
+  const createOrder = (db: Firestore, order: object, quantityChange: number, reserved: number = -quantityChange) => {
+    const batch = db.batch();
+    batch.set(db.doc('orders/order1'), {
+      userId: ALICE.uid,
+      userEmail: ALICE.email,
+      status: 'pending',
+      pricing: 'pending',
+      statusHistory: history,
+      sellerEmails: [SELLER.email],
+      reservedProductIds: ['rice'],
+      reservedQuantities: { rice: 2 },
+      ...order,
+    });
+    batch.update(db.doc('products/rice'), {
+      quantity: FieldValue.increment(quantityChange),
+      'reservations.order1': reserved,
+      stockOrderId: 'order1',
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return batch.commit();
+  };
+
+  // A status change as updateOrderStatus makes it, adding one entry to the history
+  const changeStatus = (status: string, changedBy: string, before: object[] = history) => ({
+    status,
+    statusHistory: [...before, { status, changedBy, changedAt: Timestamp.now() }],
+  });
+
+  // A cancellation that puts back the given amount and releases the order's reservation
+  const cancel = (db: Firestore, changedBy: string, restock: number) => {
+    const batch = db.batch();
+    batch.update(db.doc('orders/order1'), { ...changeStatus('cancelled', changedBy), reservedProductIds: [] });
+    batch.update(db.doc('products/rice'), {
+      quantity: FieldValue.increment(restock),
+      'reservations.order1': FieldValue.delete(),
+      stockOrderId: 'order1',
+    });
+    return batch.commit();
+  };
+
+  const seedOrder = (status: string, statusHistory: object[] = history, order: object = {}) => seed({
+    'orders/order1': {
+      userId: ALICE.uid,
+      userEmail: ALICE.email,
+      status,
+      statusHistory,
+      sellerEmails: [SELLER.email],
+      reservedProductIds: ['rice'],
+      reservedQuantities: { rice: 2 },
+      ...order,
+    },
+    'products/rice': { name: 'Rice', price: 200, sellerEmail: SELLER.email, quantity: 8, reservations: { order1: 2 } },
+  });
+
+  it('lets a buyer place a pending order that takes its amounts off the stock', async () => {
+    await assertSucceeds(createOrder(signIn(ALICE), {}, -2));
+  });
+
+  it('rejects orders created in any other status or for someone else', async () => {
+    await assertFails(createOrder(signIn(ALICE), { status: 'delivered' }, -2));
+    await assertFails(createOrder(signIn(BOB), {}, -2));
+  });
+
+  it('leaves confirming prices to the order check job', async () => {
+    await assertFails(createOrder(signIn(ALICE), { pricing: 'confirmed' }, -2));
+
+    await seedOrder('pending', history, { pricing: 'pending', totalAmount: 400 });
+    await assertFails(signIn(ALICE).doc('orders/order1').update({ pricing: 'confirmed' }));
+    await assertFails(signIn(ALICE).doc('orders/order1').update({ totalAmount: 1 }));
+    await assertFails(signIn(SELLER).doc('orders/order1').update(changeStatus('processing', 'seller')));
+    await assertSucceeds(cancel(signIn(ALICE), 'buyer', 2));
+  });
+
+  it('only lets stock go down by the order amount', async () => {
+    await assertFails(createOrder(signIn(ALICE), {}, -5));
+    await assertFails(createOrder(signIn(ALICE), {}, -2, 5));
+    await assertFails(createOrder(signIn(ALICE), {}, 2));
+    await assertFails(signIn(ALICE).doc('products/rice').update({ quantity: 0, updatedAt: FieldValue.serverTimestamp() }));
+  });
+
+  it('puts the amount back once when the order is cancelled', async () => {
+    await assertSucceeds(createOrder(signIn(ALICE), {}, -2));
+    await assertSucceeds(cancel(signIn(ALICE), 'buyer', 2));
+
+    await assertFails(signIn(ALICE).doc('products/rice').update({
+      quantity: FieldValue.increment(2),
+      'reservations.order1': FieldValue.delete(),
+      stockOrderId: 'order1',
+    }));
+  });
+
+  it('rejects restocking more than the order took', async () => {
+    await assertSucceeds(createOrder(signIn(ALICE), {}, -2));
+    await assertFails(cancel(signIn(ALICE), 'buyer', 100000));
+  });
+
+  it('rejects restocking for an order that took no stock', async () => {
+    await seed({
+      'orders/order1': {
+        userId: ALICE.uid,
+        status: 'pending',
+        statusHistory: history,
+        sellerEmails: [SELLER.email],
+        reservedProductIds: ['rice'],
+        reservedQuantities: { rice: 100000 },
+      },
+    });
+
+    await assertFails(cancel(signIn(ALICE), 'buyer', 100000));
+  });
+
+  it('releases the reservation without restocking once the order is delivered', async () => {
+    await seedOrder('shipped');
+
+    const db = signIn(ALICE);
+    const batch = db.batch();
+    batch.update(db.doc('orders/order1'), { ...changeStatus('delivered', 'buyer'), reservedProductIds: [] });
+    batch.update(db.doc('products/rice'), { 'reservations.order1': FieldValue.delete(), stockOrderId: 'order1' });
+    await assertSucceeds(batch.commit());
+  });
+
+  it('lets buyers and sellers make only the status changes allowed to them', async () => {
+    await seedOrder('pending');
+    await assertFails(signIn(ALICE).doc('orders/order1').update(changeStatus('delivered', 'buyer')));
+    await assertFails(signIn(ALICE).doc('orders/order1').update(changeStatus('processing', 'buyer')));
+    await assertFails(signIn(ALICE).doc('orders/order1').update(changeStatus('processing', 'seller')));
+    await assertFails(signIn(ALICE).doc('orders/order1').update({ status: 'cancelled' }));
+    await assertSucceeds(signIn(SELLER).doc('orders/order1').update(changeStatus('processing', 'seller')));
+
+    await seedOrder('shipped');
+    await assertFails(cancel(signIn(ALICE), 'buyer', 2));
+    await assertFails(cancel(signIn(SELLER), 'seller', 2));
+    await assertSucceeds(signIn(ALICE).doc('orders/order1').update(changeStatus('delivered', 'buyer')));
+  });
+
+  it('lets only sellers record fulfilment', async () => {
+    await seedOrder('pending', history, { fulfilment: { sub1: 'pending' } });
+
+    await assertFails(signIn(ALICE).doc('orders/order1').update({ fulfilment: { sub1: 'shipped' } }));
+    await assertSucceeds(signIn(SELLER).doc('orders/order1').update({ fulfilment: { sub1: 'packed' } }));
+  });
+
+  it('lets the buyer request a return and only a seller resolve it', async () => {
+    const returnRequest = {
+      reason: 'damaged',
+      details: '',
+      photos: [],
+      status: 'requested',
+      requestedAt: FieldValue.serverTimestamp(),
+    };
+    await seedOrder('delivered');
+
+    await assertFails(signIn(SELLER).doc('orders/order1').update({ returnRequest }));
+    await assertFails(signIn(ALICE).doc('orders/order1').update({ returnRequest: { ...returnRequest, status: 'approved' } }));
+    await assertSucceeds(signIn(ALICE).doc('orders/order1').update({ returnRequest }));
+
+    const resolution = { 'returnRequest.status': 'approved', 'returnRequest.sellerNote': '', 'returnRequest.resolvedAt': FieldValue.serverTimestamp() };
+    await assertFails(signIn(ALICE).doc('orders/order1').update(resolution));
+    await assertFails(signIn(SELLER).doc('orders/order1').update({ 'returnRequest.reason': 'other' }));
+    await assertSucceeds(signIn(SELLER).doc('orders/order1').update(resolution));
+  });
+
+  it('rejects return requests before the order has shipped', async () => {
+    await seedOrder('processing');
+
+    await assertFails(signIn(ALICE).doc('orders/order1').update({
+      returnRequest: { reason: 'damaged', details: '', photos: [], status: 'requested', requestedAt: FieldValue.serverTimestamp() },
+    }));
+  });
+});
+
+describe('promotions', () => {
+  beforeEach(async () => {
+    await seed({
+      'promotions/harvest': { code: 'HARVEST', type: 'percentage', value: 10, usageLimitPerUser: 1, usageByUser: { [ALICE.uid]: 1 }, active: true },
+    });
+  });
+
+  it('leaves counting uses of a code to the order check job', async () => {
+    await assertSucceeds(signIn(ALICE).doc('promotions/harvest').get());
+    await assertFails(signIn(ALICE).doc('promotions/harvest').update({ [`usageByUser.${ALICE.uid}`]: 0 }));
+    await assertFails(signIn(ALICE).doc('promotions/harvest').update({ [`usageByUser.${ALICE.uid}`]: FieldValue.increment(1) }));
+    await assertFails(signIn(ALICE).doc('promotions/harvest').update({ active: false }));
+  });
+});
+
+describe('reviews', () => {
+  const reviewPath = `reviews/product_rice_${ALICE.uid}`;
+  const review = { targetType: 'product', targetId: 'rice', productId: 'rice', userId: ALICE.uid, rating: 4, text: 'Good rice' };
+
+  beforeEach(async () => {
+    await seed({
+      'products/rice': { name: 'Rice', sellerEmail: SELLER.email, quantity: 10, rating: 4, ratingSum: 8, reviewCount: 2 },
+    });
+  });
+
+  it('saves new reviews as pending', async () => {
+    await assertSucceeds(signIn(ALICE).doc(reviewPath).set({ ...review, status: 'pending' }));
+    await assertFails(signIn(ALICE).doc(reviewPath).set({ ...review, status: 'published' }));
+  });
+
+  it('leaves publishing to moderators and the review job', async () => {
+    await seed({ [reviewPath]: { ...review, status: 'pending' } });
+
+    await assertFails(signIn(ALICE).doc(reviewPath).update({ status: 'published' }));
+    await assertSucceeds(signIn(BOB, { admin: true }).doc(reviewPath).update({ status: 'published' }));
+  });
+
+  it('only changes a rating together with the review leaving it', async () => {
+    await seed({ [reviewPath]: { ...review, status: 'published' } });
+    const ratingWithout = { rating: 4, ratingSum: 4, reviewCount: 1, ratingReviewId: reviewPath.split('/')[1] };
+
+    await assertFails(signIn(BOB).doc('products/rice').update({ rating: 5, ratingSum: 10, reviewCount: 2 }));
+    await assertFails(signIn(ALICE).doc('products/rice').update(ratingWithout));
+    await assertFails(signIn(SELLER).doc('products/rice').update({ rating: 5 }));
+
+    const db = signIn(ALICE);
+    const batch = db.batch();
+    batch.set(db.doc(reviewPath), { ...review, rating: 2, status: 'pending' });
+    batch.update(db.doc('products/rice'), ratingWithout);
+    await assertSucceeds(batch.commit());
+  });
+
+  it('only accepts whole-star ratings from one to five', async () => {
+    await assertFails(signIn(ALICE).doc(reviewPath).set({ ...review, rating: 1000, status: 'pending' }));
+    await assertFails(signIn(ALICE).doc(reviewPath).set({ ...review, rating: 0, status: 'pending' }));
+    await assertFails(signIn(ALICE).doc(reviewPath).set({ ...review, rating: 4.5, status: 'pending' }));
+
+    await seed({ [reviewPath]: { ...review, status: 'pending' } });
+    await assertFails(signIn(ALICE).doc(reviewPath).update({ rating: 1000 }));
+  });
+
+  it('stops authors sending a published review back for publishing without taking it out of the rating', async () => {
+    await seed({ [reviewPath]: { ...review, status: 'published' } });
+
+    await assertFails(signIn(ALICE).doc(reviewPath).update({ status: 'pending' }));
+    await assertFails(signIn(ALICE).doc(reviewPath).set({ ...review, rating: 5, status: 'pending' }));
+  });
+
+  describe('reports', () => {
+    const reviewId = reviewPath.split('/')[1];
+
+    // A report as reportReview makes it, creating the report and counting it on the review in one write
+    const report = (user: { uid: string; email: string }, reviewUpdate: object, ratingUpdate?: object) => {
+      const db = signIn(user);
+      const batch = db.batch();
+      batch.set(db.doc(`reviewReports/${reviewId}_${user.uid}`), { reviewId, reporterId: user.uid, reason: 'spam' });
+      batch.update(db.doc(reviewPath), reviewUpdate);
+      if (ratingUpdate) {
+        batch.update(db.doc('products/rice'), ratingUpdate);
+      }
+      return batch.commit();
+    };
+
+    it('counts one report per user', async () => {
+      await seed({ [reviewPath]: { ...review, status: 'published' } });
+
+      await assertSucceeds(report(BOB, { reportCount: 1 }));
+      await assertFails(signIn(BOB).doc(reviewPath).update({ reportCount: 2 }));
+      await assertFails(report(BOB, { reportCount: 2 }));
+      await assertFails(report(ALICE, { reportCount: 2 }));
+    });
+
+    it('holds a review only once enough users have reported it', async () => {
+      const hold = { status: 'pending', flags: ['reported'] };
+      const ratingWithout = { rating: 4, ratingSum: 4, reviewCount: 1, ratingReviewId: reviewId };
+
+      await seed({ [reviewPath]: { ...review, status: 'published' } });
+      await assertFails(report(BOB, { reportCount: 1, ...hold }, ratingWithout));
+
+      await seed({ [reviewPath]: { ...review, status: 'published', reportCount: 2 } });
+      await assertFails(report(BOB, { reportCount: 3, ...hold }));
+      await assertSucceeds(report(BOB, { reportCount: 3, ...hold }, ratingWithout));
+    });
+  });
+
+  it('leaves seller ratings to the review job', async () => {
+    await assertFails(signIn(ALICE).doc(`sellerRatings/${SELLER.email}`).set({ rating: 5, ratingSum: 5, reviewCount: 1 }));
+  });
+});
+
+describe('machine bookings', () => {
+  const booking = {
+    machineId: 'tractor',
+    ownerId: SELLER.uid,
+    ownerEmail: SELLER.email,
+    renterEmail: ALICE.email,
+    startDate: minutesFromNow(24 * 60),
+    endDate: minutesFromNow(48 * 60),
+    status: 'pending',
+  };
+
+  beforeEach(async () => {
+    await seed({
+      'machines/tractor': { name: 'Tractor', createdBy: SELLER.uid },
+      [`publicProfiles/${SELLER.uid}`]: { name: 'Seller', email: SELLER.email },
+    });
+  });
+
+  it('lets renters request a booking from the machine\'s owner', async () => {
+    await assertSucceeds(signIn(ALICE).collection('machineBookings').add(booking));
+  });
+
+  it('rejects bookings that name someone else as the owner', async () => {
+    await assertFails(signIn(ALICE).collection('machineBookings').add({ ...booking, ownerId: ALICE.uid, ownerEmail: ALICE.email }));
+    await assertFails(signIn(ALICE).collection('machineBookings').add({ ...booking, ownerEmail: ALICE.email }));
+  });
+
+  it('lets the owner answer a pending request once', async () => {
+    await seed({ 'machineBookings/one': booking });
+
+    await assertFails(signIn(ALICE).doc('machineBookings/one').update({ status: 'approved' }));
+    await assertFails(signIn(SELLER).doc('machineBookings/one').update({ status: 'cancelled' }));
+    await assertSucceeds(signIn(SELLER).doc('machineBookings/one').update({ status: 'approved' }));
+    await assertFails(signIn(SELLER).doc('machineBookings/one').update({ status: 'declined' }));
+  });
+
+  it('lets the renter cancel only an open booking', async () => {
+    await seed({ 'machineBookings/one': { ...booking, status: 'declined' } });
+    await assertFails(signIn(ALICE).doc('machineBookings/one').update({ status: 'cancelled' }));
+
+    await seed({ 'machineBookings/one': { ...booking, status: 'approved' } });
+    await assertSucceeds(signIn(ALICE).doc('machineBookings/one').update({ status: 'cancelled' }));
+  });
+});
+
+describe('notifications', () => {
+  const notification = { type: 'order_update', messageKey: 'orderUpdate.shipped', params: {}, read: false };
+
+  it('lets users create notifications only for themselves', async () => {
+    await assertSucceeds(signIn(ALICE).collection('notifications').add({ ...notification, recipientEmail: ALICE.email }));
+    await assertFails(signIn(ALICE).collection('notifications').add({ ...notification, recipientEmail: BOB.email }));
+  });
+
+  it('sends notifications for other users through requests in the sender\'s name', async () => {
+    const request = { recipientEmail: BOB.email, type: 'order_update', messageKey: 'orderUpdate.shipped', params: {}, orderId: 'order1' };
+
+    await assertSucceeds(signIn(ALICE).collection('notificationRequests').add({ ...request, senderEmail: ALICE.email }));
+    await assertFails(signIn(ALICE).collection('notificationRequests').add({ ...request, senderEmail: SELLER.email }));
+    await assertFails(signIn(ALICE).collection('notificationRequests').get());
+  });
+
+  it('keeps notifications and their settings private to the recipient', async () => {
+    await seed({
+      'notifications/one': { ...notification, recipientEmail: BOB.email },
+      [`notificationPreferences/${BOB.email}`]: { notifications: true, marketAlerts: false, weatherAlerts: true },
+    });
+
+    await assertSucceeds(signIn(BOB).doc('notifications/one').get());
+    await assertFails(signIn(ALICE).doc('notifications/one').get());
+    await assertFails(signIn(ALICE).doc(`notificationPreferences/${BOB.email}`).get());
+  });
+});